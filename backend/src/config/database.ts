@@ -1,9 +1,18 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const supabaseUrl = process.env.SUPABASE_URL!;
-const supabaseKey = process.env.SUPABASE_KEY!;
+// Where the data lives: `supabase` (hosted Postgres) or `sqlite` (a single
+// local file, for self-hosting on one box and running offline)
+export const STORAGE = process.env.STORAGE || 'supabase';
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+// Created on first start when it does not exist yet
+export const SQLITE_PATH = process.env.SQLITE_PATH || './data/bookmarks.db';
+
+export const createSupabaseClient = (): SupabaseClient => {
+  const supabaseUrl = process.env.SUPABASE_URL!;
+  const supabaseKey = process.env.SUPABASE_KEY!;
+
+  return createClient(supabaseUrl, supabaseKey);
+};
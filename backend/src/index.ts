@@ -1,10 +1,20 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import authRoutes from './routes/authRoutes';
 import bookmarkRoutes from './routes/bookmarkRoutes';
 import categoryRoutes from './routes/categoryRoutes';
 import tagRoutes from './routes/tagRoutes';
+import tokenRoutes from './routes/tokenRoutes';
+import ruleRoutes from './routes/ruleRoutes';
+import collectionRoutes from './routes/collectionRoutes';
+import importRoutes from './routes/importRoutes';
+import exportRoutes from './routes/exportRoutes';
 import { errorHandler } from './middleware/errorHandler';
+import { buildOpenApiDocument } from './utils/openapi';
+import { startEnrichmentWorker } from './services/enrichmentService';
+import { startLinkChecker } from './services/linkCheckService';
+import { startTrashPurger } from './services/bookmarkService';
 
 dotenv.config();
 
@@ -12,25 +22,45 @@ const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(express.json());
 app.use(cors({
   origin: process.env.FRONTEND_URL || '*',
   credentials: true,
 }));
 
+// Import files are larger than express.json() allows; the import routes
+// read their own request bodies, so they are mounted before it
+app.use('/api/import', importRoutes);
+
+app.use(express.json());
+
 // Health check
 app.get('/health', (req: Request, res: Response) => {
   res.json({ status: 'ok' });
 });
 
+// Generated from the route schemas; built once, on first request
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | null = null;
+app.get('/api/openapi.json', (req: Request, res: Response) => {
+  openApiDocument = openApiDocument || buildOpenApiDocument();
+  res.json(openApiDocument);
+});
+
 // Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/bookmarks', bookmarkRoutes);
 app.use('/api/categories', categoryRoutes); // Keep for backward compatibility
 app.use('/api/tags', tagRoutes); // New tag routes
+app.use('/api/tokens', tokenRoutes);
+app.use('/api/rules', ruleRoutes);
+app.use('/api/collections', collectionRoutes);
+app.use('/api/export', exportRoutes);
 
 // Error handling
 app.use(errorHandler);
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startEnrichmentWorker();
+  startLinkChecker();
+  startTrashPurger();
 });
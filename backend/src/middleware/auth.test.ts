@@ -0,0 +1,76 @@
+import { NextFunction, Request, Response } from 'express';
+import { describe, expect, it, vi } from 'vitest';
+import { register } from '../services/authService';
+import { createToken } from '../services/tokenService';
+import { auth, requireScope, requireSession } from './auth';
+
+const request = (token?: string): Request =>
+  ({ headers: token ? { authorization: `Bearer ${token}` } : {} }) as Request;
+
+const response = () => {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+// Runs the middleware and tells whether it let the request through, and with which status it stopped it otherwise
+const run = async (
+  middleware: (req: Request, res: Response, next: NextFunction) => unknown,
+  req: Request
+): Promise<number | 'next'> => {
+  const res = response();
+  const next = vi.fn();
+  await middleware(req, res as unknown as Response, next);
+  if (next.mock.calls.length > 0) {
+    expect(next).toHaveBeenCalledWith();
+    return 'next';
+  }
+  return res.status.mock.calls[0][0];
+};
+
+describe('auth', () => {
+  it('accepts a session and leaves the scopes unset', async () => {
+    const session = await register({ email: 'auth-session@example.com', password: 'correct horse battery' });
+    const req = request(session.token);
+
+    expect(await run(auth, req)).toBe('next');
+    expect(req.userId).toBe(session.user.id);
+    expect(req.tokenScopes).toBeUndefined();
+  });
+
+  it('accepts a personal access token with its scopes', async () => {
+    const { user } = await register({ email: 'auth-token@example.com', password: 'correct horse battery' });
+    const { token } = await createToken(user.id, { name: 'CLI', scopes: ['bookmarks:read'] });
+    const req = request(token);
+
+    expect(await run(auth, req)).toBe('next');
+    expect(req).toMatchObject({ userId: user.id, tokenScopes: ['bookmarks:read'] });
+  });
+
+  it('answers 401 without a valid token', async () => {
+    expect(await run(auth, request())).toBe(401);
+    expect(await run(auth, request('not-a-session'))).toBe(401);
+    expect(await run(auth, request('sys_pat_unknown'))).toBe(401);
+  });
+});
+
+describe('requireScope', () => {
+  const withScopes = (scopes?: Request['tokenScopes']) => ({ ...request(), userId: 'auth-user', tokenScopes: scopes }) as Request;
+
+  it('lets sessions and tokens with the scope through', async () => {
+    expect(await run(requireScope('tags:admin'), withScopes())).toBe('next');
+    expect(await run(requireScope('tags:admin'), withScopes(['tags:read', 'tags:admin']))).toBe('next');
+  });
+
+  it('answers 403 for a token without the scope', async () => {
+    expect(await run(requireScope('bookmarks:write'), withScopes(['bookmarks:read']))).toBe(403);
+    expect(await run(requireScope('bookmarks:read'), withScopes([]))).toBe(403);
+  });
+});
+
+describe('requireSession', () => {
+  it('answers 403 for any personal access token', async () => {
+    expect(await run(requireSession, { ...request(), userId: 'auth-user' } as Request)).toBe('next');
+    expect(await run(requireSession, { ...request(), userId: 'auth-user', tokenScopes: ['tags:admin'] } as Request)).toBe(403);
+  });
+});
@@ -1,20 +1,64 @@
 import { Request, Response, NextFunction } from 'express';
+import { getSessionUserId } from '../services/authService';
+import { isAccessToken, verifyAccessToken } from '../services/tokenService';
+import { TokenScope } from '../types';
 
 declare global {
   namespace Express {
     interface Request {
       userId?: string;
+      // Set for personal access tokens only; sessions may do everything
+      tokenScopes?: TokenScope[];
     }
   }
 }
 
-export const auth = (req: Request, res: Response, next: NextFunction) => {
-  const userId = req.headers['x-user-id'] as string;
+// The token from an `Authorization: Bearer <token>` header
+export const getBearerToken = (req: Request): string | null => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+  return match ? match[1] : null;
+};
+
+// Accepts a session token or a personal access token
+export const auth = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = getBearerToken(req);
+    let userId: string | null = null;
+
+    if (token && isAccessToken(token)) {
+      const access = await verifyAccessToken(token);
+      if (access) {
+        userId = access.userId;
+        req.tokenScopes = access.scopes;
+      }
+    } else if (token) {
+      userId = await getSessionUserId(token);
+    }
+
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
 
-  if (!userId) {
-    return res.status(401).json({ success: false, error: 'Unauthorized' });
+    req.userId = userId;
+    next();
+  } catch (error) {
+    next(error);
   }
+};
 
-  req.userId = userId;
+// Used after `auth`: personal access tokens need the given scope
+export const requireScope = (scope: TokenScope) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (req.tokenScopes && !req.tokenScopes.includes(scope)) {
+      return res.status(403).json({ success: false, error: `This token lacks the ${scope} scope` });
+    }
+    next();
+  };
+
+// Used after `auth`: only a signed-in session, never a personal access token
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  if (req.tokenScopes) {
+    return res.status(403).json({ success: false, error: 'Personal access tokens cannot be used here' });
+  }
   next();
 };
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { FieldError } from '../types';
 
 export class AppError extends Error {
   statusCode: number;
@@ -11,6 +12,17 @@ export class AppError extends Error {
   }
 }
 
+// A request that does not match its route's schema; answered with 400 and
+// every offending field
+export class ValidationError extends AppError {
+  details: FieldError[];
+
+  constructor(details: FieldError[]) {
+    super(`Invalid request: ${details.map(detail => `${detail.path}: ${detail.message}`).join('; ')}`, 400);
+    this.details = details;
+  }
+}
+
 export const errorHandler = (
   err: Error | AppError,
   req: Request,
@@ -19,6 +31,14 @@ export const errorHandler = (
 ) => {
   console.error('Error:', err);
 
+  if (err instanceof ValidationError) {
+    return res.status(err.statusCode).json({
+      success: false,
+      error: err.message,
+      details: err.details,
+    });
+  }
+
   if (err instanceof AppError) {
     return res.status(err.statusCode).json({
       success: false,
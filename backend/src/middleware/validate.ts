@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ApiRoute } from '../schemas/common';
+import { FieldError } from '../types';
+import { ValidationError } from './errorHandler';
+
+const toFieldErrors = (location: string, error: z.ZodError): FieldError[] =>
+  error.issues.map(issue => ({
+    path: [location, ...issue.path.map(String)].join('.'),
+    message: issue.message,
+  }));
+
+// Checks params, query and body against the route's schemas. The parsed body
+// replaces req.body and the parsed query is left in res.locals.query, with
+// numbers coerced, defaults applied and unknown fields dropped.
+export const validate = (route: ApiRoute) => (req: Request, res: Response, next: NextFunction) => {
+  const errors: FieldError[] = [];
+
+  if (route.params) {
+    const result = route.params.safeParse(req.params);
+    if (!result.success) errors.push(...toFieldErrors('params', result.error));
+  }
+
+  if (route.query) {
+    const result = route.query.safeParse(req.query);
+    if (result.success) {
+      res.locals.query = result.data;
+    } else {
+      errors.push(...toFieldErrors('query', result.error));
+    }
+  }
+
+  if (route.body) {
+    const result = route.body.safeParse(req.body ?? {});
+    if (result.success) {
+      req.body = result.data;
+    } else {
+      errors.push(...toFieldErrors('body', result.error));
+    }
+  }
+
+  if (errors.length > 0) {
+    return next(new ValidationError(errors));
+  }
+
+  next();
+};
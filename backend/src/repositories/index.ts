@@ -0,0 +1,31 @@
+import { createSupabaseClient, SQLITE_PATH, STORAGE } from '../config/database';
+import { Repositories } from './types';
+import { createSupabaseRepositories } from './supabase';
+import { createSqliteRepositories } from './sqlite';
+
+export * from './types';
+
+const createRepositories = (): Repositories => {
+  switch (STORAGE) {
+    case 'supabase':
+      return createSupabaseRepositories(createSupabaseClient());
+    case 'sqlite':
+      return createSqliteRepositories(SQLITE_PATH);
+    default:
+      throw new Error(`Unknown STORAGE "${STORAGE}", expected "supabase" or "sqlite"`);
+  }
+};
+
+export const {
+  bookmarks: bookmarkRepository,
+  tags: tagRepository,
+  bookmarkTags: bookmarkTagRepository,
+  users: userRepository,
+  sessions: sessionRepository,
+  accessTokens: accessTokenRepository,
+  archives: archiveRepository,
+  importJobs: importJobRepository,
+  categories: categoryRepository,
+  rules: ruleRepository,
+  collections: collectionRepository,
+} = createRepositories();
@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import { PersonalAccessToken, TokenScope, User } from '../../types';
+import { AccessTokenRecord, AccessTokenRepository, SessionRepository, UserRecord, UserRepository } from '../types';
+import { SqliteDatabase, withStoreErrors } from './database';
+
+const USER_COLUMNS = 'id, email, name, created_at';
+
+const TOKEN_COLUMNS = 'id, name, token_prefix, scopes, expires_at, last_used_at, created_at';
+
+// A token row as stored, with its scopes as JSON text
+type TokenRow<T extends { scopes: TokenScope[] }> = Omit<T, 'scopes'> & { scopes: string };
+
+const withScopes = <T extends { scopes: TokenScope[] }>(row: TokenRow<T>): T => ({
+  ...row,
+  scopes: JSON.parse(row.scopes) as TokenScope[],
+}) as T;
+
+export const createUserRepository = (db: SqliteDatabase): UserRepository =>
+  withStoreErrors<UserRepository>({
+    async findById(id) {
+      return (db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).get(id) as User | undefined) ?? null;
+    },
+
+    async findByEmail(email) {
+      const user = db.prepare(`SELECT ${USER_COLUMNS}, password_hash FROM users WHERE email = ?`).get(email);
+      return (user as UserRecord | undefined) ?? null;
+    },
+
+    async insert({ email, name, password_hash }) {
+      const user = db.prepare(`
+        INSERT INTO users (id, email, name, password_hash) VALUES (?, ?, ?, ?)
+        ON CONFLICT (email) DO NOTHING
+        RETURNING ${USER_COLUMNS}
+      `).get(randomUUID(), email, name, password_hash);
+
+      return (user as User | undefined) ?? null;
+    },
+  });
+
+export const createSessionRepository = (db: SqliteDatabase): SessionRepository =>
+  withStoreErrors<SessionRepository>({
+    async insert({ user_id, token_hash, expires_at }) {
+      db.prepare('INSERT INTO user_sessions (id, user_id, token_hash, expires_at) VALUES (?, ?, ?, ?)')
+        .run(randomUUID(), user_id, token_hash, expires_at);
+    },
+
+    async findUserId(tokenHash, now) {
+      const session = db.prepare('SELECT user_id FROM user_sessions WHERE token_hash = ? AND expires_at > ?')
+        .get(tokenHash, now) as { user_id: string } | undefined;
+
+      return session?.user_id ?? null;
+    },
+
+    async delete(tokenHash) {
+      db.prepare('DELETE FROM user_sessions WHERE token_hash = ?').run(tokenHash);
+    },
+
+    async deleteExpired(userId, now) {
+      db.prepare('DELETE FROM user_sessions WHERE user_id = ? AND expires_at < ?').run(userId, now);
+    },
+  });
+
+export const createAccessTokenRepository = (db: SqliteDatabase): AccessTokenRepository =>
+  withStoreErrors<AccessTokenRepository>({
+    async insert(token) {
+      const row = db.prepare(`
+        INSERT INTO personal_access_tokens (id, user_id, name, token_hash, token_prefix, scopes, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        RETURNING ${TOKEN_COLUMNS}
+      `).get(
+        randomUUID(),
+        token.user_id,
+        token.name,
+        token.token_hash,
+        token.token_prefix,
+        JSON.stringify(token.scopes),
+        token.expires_at
+      ) as TokenRow<PersonalAccessToken>;
+
+      return withScopes<PersonalAccessToken>(row);
+    },
+
+    async list(userId) {
+      const rows = db.prepare(`
+        SELECT ${TOKEN_COLUMNS} FROM personal_access_tokens
+        WHERE user_id = ? AND revoked_at IS NULL
+        ORDER BY created_at DESC
+      `).all(userId) as Array<TokenRow<PersonalAccessToken>>;
+
+      return rows.map(row => withScopes<PersonalAccessToken>(row));
+    },
+
+    async revoke(id, userId, revokedAt) {
+      const result = db.prepare(`
+        UPDATE personal_access_tokens SET revoked_at = ?
+        WHERE id = ? AND user_id = ? AND revoked_at IS NULL
+      `).run(revokedAt, id, userId);
+
+      return result.changes > 0;
+    },
+
+    async findByHash(tokenHash) {
+      const row = db.prepare(`
+        SELECT id, user_id, scopes, expires_at, last_used_at FROM personal_access_tokens
+        WHERE token_hash = ? AND revoked_at IS NULL
+      `).get(tokenHash) as TokenRow<AccessTokenRecord> | undefined;
+
+      return row ? withScopes<AccessTokenRecord>(row) : null;
+    },
+
+    async touch(id, usedAt) {
+      db.prepare('UPDATE personal_access_tokens SET last_used_at = ? WHERE id = ?').run(usedAt, id);
+    },
+  });
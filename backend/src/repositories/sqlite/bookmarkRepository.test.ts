@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { bookmarkRepository } from '..';
+
+const USER = 'insert-user';
+
+describe('insert', () => {
+  it('saves the bookmark and its tags together', async () => {
+    const url = 'https://example.com/with-tags';
+    const bookmark = await bookmarkRepository.insert({ user_id: USER, url, canonical_url: url, title: 'Tagged' }, ['dev/web']);
+
+    expect((await bookmarkRepository.find(bookmark.id))?.tags).toEqual(['dev/web']);
+  });
+
+  it('leaves no bookmark behind when its tags cannot be written', async () => {
+    const url = 'https://example.com/failing-tags';
+    const invalidName = null as unknown as string;
+
+    await expect(
+      bookmarkRepository.insert({ user_id: USER, url, canonical_url: url, title: 'Failing' }, ['fine', invalidName])
+    ).rejects.toThrow();
+    expect(await bookmarkRepository.findByCanonicalUrl(USER, url)).toBeNull();
+  });
+});
@@ -0,0 +1,376 @@
+import { randomUUID } from 'crypto';
+import { Bookmark, SearchField, SearchHighlights } from '../../types';
+import { toFtsQuery } from '../../utils/searchQuery';
+import { TagQueryNode } from '../../utils/tagQuery';
+import { BookmarkQuery, BookmarkRecord, BookmarkRepository, BookmarkScope, BulkOperation, LinkCheckTarget } from '../types';
+import { now, SqliteDatabase, toTimestamp, withStoreErrors } from './database';
+import { appendToCollection } from './collectionRepository';
+import { unlinkBookmarkTags, writeBookmarkTags } from './tagRepository';
+
+// A bookmark row as selected with BOOKMARK_COLUMNS: tags and metadata are JSON text
+type BookmarkRow = Omit<BookmarkRecord, 'tags' | 'metadata'> & {
+  seq: number;
+  tags: string;
+  metadata: string | null;
+};
+
+type SearchRow = BookmarkRow & {
+  search_rank: number;
+  title_highlight: string | null;
+  summary_highlight: string | null;
+  url_highlight: string | null;
+  content_highlight: string | null;
+};
+
+// Tag names of the bookmark `b`, sorted, as a JSON array
+const TAGS_COLUMN = `(
+  SELECT json_group_array(name) FROM (
+    SELECT t.name FROM bookmark_tags bt JOIN tags t ON t.id = bt.tag_id
+    WHERE bt.bookmark_id = b.id ORDER BY t.name
+  )
+) AS tags`;
+
+const BOOKMARK_COLUMNS = `b.*, ${TAGS_COLUMN}`;
+
+// bm25 is lower for better matches; archived page text counts less than the bookmark itself
+const SEARCH_COLUMNS = `
+  -bm25(bookmark_search, 1.0, 1.0, 1.0, 0.2) AS search_rank,
+  highlight(bookmark_search, 0, '<mark>', '</mark>') AS title_highlight,
+  snippet(bookmark_search, 1, '<mark>', '</mark>', ' … ', 25) AS summary_highlight,
+  highlight(bookmark_search, 2, '<mark>', '</mark>') AS url_highlight,
+  snippet(bookmark_search, 3, '<mark>', '</mark>', ' … ', 25) AS content_highlight`;
+
+const HAS_TAG = `EXISTS (
+  SELECT 1 FROM bookmark_tags bt JOIN tags t ON t.id = bt.tag_id
+  WHERE bt.bookmark_id = b.id AND t.name = ?
+)`;
+
+const toBookmark = ({ seq, tags, metadata, ...row }: BookmarkRow): BookmarkRecord => ({
+  ...row,
+  tags: JSON.parse(tags),
+  metadata: metadata ? JSON.parse(metadata) : null,
+});
+
+// A column matched when its highlight has a marked term in it
+const toSearchResult = ({ title_highlight, summary_highlight, url_highlight, content_highlight, ...row }: SearchRow): Bookmark => {
+  const highlighted: Array<[SearchField, string | null]> = [
+    ['title', title_highlight],
+    ['summary', summary_highlight],
+    ['url', url_highlight],
+    ['content', content_highlight],
+  ];
+  const matched = highlighted.filter(([, text]) => text && text.includes('<mark>'));
+
+  const highlights: SearchHighlights = {};
+  for (const [field, text] of matched) highlights[field] = text!;
+
+  return { ...toBookmark(row), matched_fields: matched.map(([field]) => field), highlights };
+};
+
+const compileTagFilter = (node: TagQueryNode, params: unknown[]): string => {
+  switch (node.type) {
+    case 'tag':
+      params.push(node.name);
+      return HAS_TAG;
+    case 'and':
+    case 'or':
+      return `(${node.children.map(child => compileTagFilter(child, params)).join(` ${node.type.toUpperCase()} `)})`;
+    case 'not':
+      return `NOT ${compileTagFilter(node.child, params)}`;
+  }
+};
+
+const scopeConditions = (scope: BookmarkScope, params: unknown[]): string => {
+  let sql = '';
+  if (scope.userId) {
+    sql += ' AND user_id = ?';
+    params.push(scope.userId);
+  }
+  if (scope.deleted === false) sql += ' AND deleted_at IS NULL';
+  if (scope.deleted === true) sql += ' AND deleted_at IS NOT NULL';
+  return sql;
+};
+
+// Bulk operations that skip trashed bookmarks; restore skips live ones instead
+const LIVE_ONLY_OPERATIONS: BulkOperation['type'][] = ['delete', 'add_to_collection', 'move_to_collection'];
+
+export const createBookmarkRepository = (db: SqliteDatabase): BookmarkRepository => {
+  // FROM and WHERE shared by the page fetch and the total count
+  const buildQuery = (userId: string, filters: BookmarkQuery, params: unknown[]): string => {
+    const conditions = ['b.user_id = ?', 'b.deleted_at IS NULL'];
+    params.push(userId);
+
+    let from = 'bookmarks b';
+    if (filters.search) {
+      from = 'bookmark_search JOIN bookmarks b ON b.seq = bookmark_search.rowid';
+      conditions.push('bookmark_search MATCH ?');
+      params.push(toFtsQuery(filters.search));
+    }
+
+    if (filters.collection) {
+      from += ' JOIN collection_bookmarks cb ON cb.bookmark_id = b.id';
+      conditions.push('cb.collection_id = ?');
+      params.push(filters.collection);
+    }
+
+    if (filters.category) {
+      conditions.push('b.category = ?');
+      params.push(filters.category);
+    }
+    if (filters.health) {
+      conditions.push('b.link_health = ?');
+      params.push(filters.health);
+    }
+    if (filters.host) {
+      conditions.push('(b.canonical_url LIKE ? OR b.canonical_url LIKE ?)');
+      params.push(`http://${filters.host}/%`, `https://${filters.host}/%`);
+    }
+    if (filters.tags) {
+      conditions.push(compileTagFilter(filters.tags, params));
+    }
+    if (filters.createdFrom) {
+      conditions.push('b.created_at >= ?');
+      params.push(toTimestamp(filters.createdFrom));
+    }
+    if (filters.createdTo) {
+      conditions.push('b.created_at <= ?');
+      params.push(toTimestamp(filters.createdTo));
+    }
+
+    return `FROM ${from} WHERE ${conditions.join(' AND ')}`;
+  };
+
+  const insertStatement = () => db.prepare(`
+    INSERT INTO bookmarks (id, user_id, url, canonical_url, title, summary, category, archive_status, created_at, updated_at)
+    VALUES (@id, @user_id, @url, @canonical_url, @title, @summary, @category, @archive_status,
+      COALESCE(@created_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')), @updated_at)
+  `);
+
+  const toInsertParams = (bookmark: Parameters<BookmarkRepository['insert']>[0]) => ({
+    summary: null,
+    category: null,
+    archive_status: null,
+    ...bookmark,
+    id: randomUUID(),
+    created_at: bookmark.created_at ? toTimestamp(bookmark.created_at) : null,
+    updated_at: bookmark.updated_at ? toTimestamp(bookmark.updated_at) : null,
+  });
+
+  const find = async (id: string, scope: BookmarkScope = {}): Promise<BookmarkRecord | null> => {
+    const params: unknown[] = [id];
+    const row = db.prepare(
+      `SELECT ${BOOKMARK_COLUMNS} FROM bookmarks b WHERE id = ?${scopeConditions(scope, params)}`
+    ).get(...params) as BookmarkRow | undefined;
+
+    return row ? toBookmark(row) : null;
+  };
+
+  return withStoreErrors<BookmarkRepository>({
+    find,
+
+    async findByCanonicalUrl(userId, canonicalUrl) {
+      const row = db.prepare(`
+        SELECT ${BOOKMARK_COLUMNS} FROM bookmarks b
+        WHERE user_id = ? AND canonical_url = ? AND deleted_at IS NULL
+        ORDER BY created_at ASC LIMIT 1
+      `).get(userId, canonicalUrl) as BookmarkRow | undefined;
+
+      return row ? toBookmark(row) : null;
+    },
+
+    async findIdsByCanonicalUrls(userId, canonicalUrls) {
+      if (canonicalUrls.length === 0) return [];
+
+      return db.prepare(`
+        SELECT id, canonical_url FROM bookmarks
+        WHERE user_id = ? AND deleted_at IS NULL
+          AND canonical_url IN (${canonicalUrls.map(() => '?').join(', ')})
+      `).all(userId, ...canonicalUrls) as Array<{ id: string; canonical_url: string }>;
+    },
+
+    async findTrashedCanonicalUrls(userId, ids) {
+      return db.prepare(`
+        SELECT id, canonical_url FROM bookmarks
+        WHERE user_id = ? AND deleted_at IS NOT NULL AND id IN (SELECT value FROM json_each(?))
+      `).all(userId, JSON.stringify(ids)) as Array<{ id: string; canonical_url: string }>;
+    },
+
+    async insert(bookmark, tagNames = []) {
+      const params = toInsertParams(bookmark);
+      db.transaction(() => {
+        insertStatement().run(params);
+        writeBookmarkTags(db, params.id, bookmark.user_id, tagNames, true);
+      })();
+
+      return (await find(params.id))!;
+    },
+
+    async insertMany(bookmarks) {
+      const statement = insertStatement();
+      return db.transaction(() =>
+        bookmarks.map(bookmark => {
+          const params = toInsertParams(bookmark);
+          statement.run(params);
+          return { id: params.id, canonical_url: params.canonical_url };
+        })
+      )();
+    },
+
+    async update(id, changes, scope = {}) {
+      const columns = Object.keys(changes) as Array<keyof typeof changes>;
+      if (columns.length === 0) return (await find(id, scope)) !== null;
+
+      const params: unknown[] = columns.map(column =>
+        column === 'metadata' ? JSON.stringify(changes.metadata) : changes[column] ?? null
+      );
+      params.push(id);
+
+      const result = db.prepare(`
+        UPDATE bookmarks SET ${columns.map(column => `${column} = ?`).join(', ')}
+        WHERE id = ?${scopeConditions(scope, params)}
+      `).run(...params);
+
+      return result.changes > 0;
+    },
+
+    async bulkUpdate(userId, ids, operation) {
+      return db.transaction(() => {
+        const scope: BookmarkScope = {
+          userId,
+          deleted: operation.type === 'restore' ? true : LIVE_ONLY_OPERATIONS.includes(operation.type) ? false : undefined,
+        };
+        const params: unknown[] = [JSON.stringify(ids)];
+        const targets = db.prepare(
+          `SELECT id FROM bookmarks WHERE id IN (SELECT value FROM json_each(?))${scopeConditions(scope, params)}`
+        ).pluck().all(...params) as string[];
+        const targetIds = JSON.stringify(targets);
+
+        switch (operation.type) {
+          case 'add_tags':
+          case 'replace_tags':
+            targets.forEach(id => writeBookmarkTags(db, id, userId, operation.tags, operation.type === 'replace_tags'));
+            break;
+          case 'remove_tags':
+            unlinkBookmarkTags(db, targets, userId, operation.tags);
+            break;
+          case 'delete':
+            db.prepare('UPDATE bookmarks SET deleted_at = ? WHERE id IN (SELECT value FROM json_each(?))')
+              .run(now(), targetIds);
+            break;
+          case 'restore':
+            db.prepare('UPDATE bookmarks SET deleted_at = NULL WHERE id IN (SELECT value FROM json_each(?))')
+              .run(targetIds);
+            break;
+          case 'set_category':
+            db.prepare('UPDATE bookmarks SET category = ?, updated_at = ? WHERE id IN (SELECT value FROM json_each(?))')
+              .run(operation.category, now(), targetIds);
+            break;
+          case 'add_to_collection':
+          case 'move_to_collection':
+            // Bookmarks already in the collection count as updated; they keep their place
+            if (!appendToCollection(db, operation.collection, userId, ids)) return [];
+            if (operation.type === 'move_to_collection') {
+              db.prepare(`
+                DELETE FROM collection_bookmarks
+                WHERE bookmark_id IN (SELECT value FROM json_each(?)) AND collection_id <> ?
+                  AND collection_id IN (SELECT id FROM collections WHERE user_id = ?)
+              `).run(targetIds, operation.collection, userId);
+            }
+            break;
+        }
+
+        return targets;
+      })();
+    },
+
+    async list(userId, filters, { limit, offset = 0, after }) {
+      const params: unknown[] = [];
+      let sql = `SELECT ${BOOKMARK_COLUMNS}${filters.search ? `, ${SEARCH_COLUMNS}` : ''} ${buildQuery(userId, filters, params)}`;
+
+      if (after) {
+        sql += ' AND (b.created_at < ? OR (b.created_at = ? AND b.id < ?))';
+        params.push(after.createdAt, after.createdAt, after.id);
+      }
+
+      if (filters.search) {
+        sql += ' ORDER BY search_rank DESC, b.created_at DESC, b.id DESC';
+      } else if (filters.collection) {
+        sql += ' ORDER BY cb.position ASC, cb.added_at ASC, b.id ASC';
+      } else {
+        sql += ' ORDER BY b.created_at DESC, b.id DESC';
+      }
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(limit, offset);
+
+      const rows = db.prepare(sql).all(...params);
+      return filters.search ? (rows as SearchRow[]).map(toSearchResult) : (rows as BookmarkRow[]).map(toBookmark);
+    },
+
+    async count(userId, filters) {
+      const params: unknown[] = [];
+      const row = db.prepare(`SELECT COUNT(*) AS count ${buildQuery(userId, filters, params)}`).get(...params) as { count: number };
+      return row.count;
+    },
+
+    async listOldestFirst(userId, after, limit) {
+      const params: unknown[] = [userId];
+      let sql = `SELECT ${BOOKMARK_COLUMNS} FROM bookmarks b WHERE user_id = ? AND deleted_at IS NULL`;
+
+      if (after) {
+        sql += ' AND (created_at > ? OR (created_at = ? AND id > ?))';
+        params.push(after.createdAt, after.createdAt, after.id);
+      }
+
+      sql += ' ORDER BY created_at ASC, id ASC LIMIT ?';
+      params.push(limit);
+
+      return (db.prepare(sql).all(...params) as BookmarkRow[]).map(toBookmark);
+    },
+
+    async listTrash(userId, limit, offset) {
+      const rows = db.prepare(`
+        SELECT ${BOOKMARK_COLUMNS} FROM bookmarks b
+        WHERE user_id = ? AND deleted_at IS NOT NULL
+        ORDER BY deleted_at DESC LIMIT ? OFFSET ?
+      `).all(userId, limit, offset) as BookmarkRow[];
+
+      return rows.map(toBookmark);
+    },
+
+    async purgeTrash(deletedBefore, userId) {
+      // Tag links and archives go with the bookmarks (ON DELETE CASCADE)
+      const result = db.prepare(`
+        DELETE FROM bookmarks
+        WHERE deleted_at IS NOT NULL AND deleted_at <= ? AND (? IS NULL OR user_id = ?)
+      `).run(deletedBefore, userId ?? null, userId ?? null);
+
+      return result.changes;
+    },
+
+    async findEnrichmentDue(now, limit) {
+      const rows = db.prepare(`
+        SELECT id FROM bookmarks
+        WHERE enrichment_status = 'pending' AND deleted_at IS NULL
+          AND (enrichment_next_attempt_at IS NULL OR enrichment_next_attempt_at <= ?)
+        ORDER BY created_at ASC LIMIT ?
+      `).all(now, limit) as Array<{ id: string }>;
+
+      return rows.map(row => row.id);
+    },
+
+    async findLinkCheckDue(now, limit) {
+      // NULLs sort first in SQLite, so never checked bookmarks come first
+      return db.prepare(`
+        SELECT id, url, link_health, link_failures FROM bookmarks
+        WHERE deleted_at IS NULL AND (link_next_check_at IS NULL OR link_next_check_at <= ?)
+        ORDER BY link_next_check_at ASC LIMIT ?
+      `).all(now, limit) as LinkCheckTarget[];
+    },
+
+    async findMissingCanonicalUrl(limit) {
+      return db.prepare(
+        'SELECT id, url FROM bookmarks WHERE canonical_url IS NULL LIMIT ?'
+      ).all(limit) as Array<Pick<Bookmark, 'id' | 'url'>>;
+    },
+  });
+};
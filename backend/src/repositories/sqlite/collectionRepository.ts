@@ -0,0 +1,113 @@
+import { randomUUID } from 'crypto';
+import { Collection } from '../../types';
+import { CollectionRepository } from '../types';
+import { SqliteDatabase, withStoreErrors } from './database';
+
+// Trashed bookmarks stay in their collections but are not counted
+const COLLECTION_COLUMNS = `c.*, (
+  SELECT COUNT(*) FROM collection_bookmarks cb JOIN bookmarks b ON b.id = cb.bookmark_id
+  WHERE cb.collection_id = c.id AND b.deleted_at IS NULL
+) AS bookmark_count`;
+
+// Appends the user's live bookmarks among the ids that are not in the
+// collection yet, in the given order; false when the collection is not the
+// user's. Callers run it inside a transaction.
+export const appendToCollection = (db: SqliteDatabase, id: string, userId: string, bookmarkIds: string[]): boolean => {
+  if (db.prepare('SELECT 1 FROM collections WHERE id = ? AND user_id = ?').get(id, userId) === undefined) return false;
+
+  const addable = new Set(db.prepare(`
+    SELECT id FROM bookmarks
+    WHERE id IN (SELECT value FROM json_each(?)) AND user_id = ? AND deleted_at IS NULL
+      AND id NOT IN (SELECT bookmark_id FROM collection_bookmarks WHERE collection_id = ?)
+  `).pluck().all(JSON.stringify(bookmarkIds), userId, id) as string[]);
+
+  const next = db.prepare('SELECT COALESCE(MAX(position) + 1, 0) FROM collection_bookmarks WHERE collection_id = ?')
+    .pluck().get(id) as number;
+  const insert = db.prepare('INSERT INTO collection_bookmarks (collection_id, bookmark_id, position) VALUES (?, ?, ?)');
+  Array.from(new Set(bookmarkIds))
+    .filter(bookmarkId => addable.has(bookmarkId))
+    .forEach((bookmarkId, index) => insert.run(id, bookmarkId, next + index));
+
+  return true;
+};
+
+export const createCollectionRepository = (db: SqliteDatabase): CollectionRepository => {
+  const find = async (id: string, userId: string): Promise<Collection | null> => {
+    const row = db.prepare(`SELECT ${COLLECTION_COLUMNS} FROM collections c WHERE c.id = ? AND c.user_id = ?`)
+      .get(id, userId) as Collection | undefined;
+
+    return row ?? null;
+  };
+
+  const exists = (id: string, userId: string): boolean =>
+    db.prepare('SELECT 1 FROM collections WHERE id = ? AND user_id = ?').get(id, userId) !== undefined;
+
+  // Members by position; ties (none after a reorder) by when they were added
+  const members = (id: string): string[] =>
+    db.prepare('SELECT bookmark_id FROM collection_bookmarks WHERE collection_id = ? ORDER BY position, added_at, rowid')
+      .pluck().all(id) as string[];
+
+  return withStoreErrors<CollectionRepository>({
+    async list(userId) {
+      return db.prepare(`
+        SELECT ${COLLECTION_COLUMNS} FROM collections c
+        WHERE c.user_id = ? ORDER BY c.name COLLATE NOCASE, c.id
+      `).all(userId) as Collection[];
+    },
+
+    find,
+
+    async insert(collection) {
+      const id = randomUUID();
+      db.prepare('INSERT INTO collections (id, user_id, name, description) VALUES (?, ?, ?, ?)')
+        .run(id, collection.user_id, collection.name, collection.description ?? null);
+
+      return (await find(id, collection.user_id))!;
+    },
+
+    // The service always sets updated_at, so there is at least one column
+    async update(id, userId, changes) {
+      const columns = Object.keys(changes) as Array<keyof typeof changes>;
+      const result = db.prepare(`
+        UPDATE collections SET ${columns.map(column => `${column} = ?`).join(', ')}
+        WHERE id = ? AND user_id = ?
+      `).run(...columns.map(column => changes[column] ?? null), id, userId);
+
+      return result.changes > 0 ? find(id, userId) : null;
+    },
+
+    async delete(id, userId) {
+      // Memberships go with it (ON DELETE CASCADE)
+      return db.prepare('DELETE FROM collections WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+    },
+
+    async addBookmarks(id, userId, bookmarkIds) {
+      return db.transaction(() => appendToCollection(db, id, userId, bookmarkIds))();
+    },
+
+    async removeBookmark(id, userId, bookmarkId) {
+      return db.prepare(`
+        DELETE FROM collection_bookmarks
+        WHERE collection_id = ? AND bookmark_id = ?
+          AND collection_id IN (SELECT id FROM collections WHERE user_id = ?)
+      `).run(id, bookmarkId, userId).changes > 0;
+    },
+
+    async reorder(id, userId, bookmarkIds) {
+      return db.transaction(() => {
+        if (!exists(id, userId)) return false;
+
+        const current = members(id);
+        const memberIds = new Set(current);
+        const front = Array.from(new Set(bookmarkIds)).filter(bookmarkId => memberIds.has(bookmarkId));
+        const moved = new Set(front);
+
+        const update = db.prepare('UPDATE collection_bookmarks SET position = ? WHERE collection_id = ? AND bookmark_id = ?');
+        [...front, ...current.filter(bookmarkId => !moved.has(bookmarkId))]
+          .forEach((bookmarkId, position) => update.run(position, id, bookmarkId));
+
+        return true;
+      })();
+    },
+  });
+};
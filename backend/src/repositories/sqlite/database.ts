@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { AppError } from '../../middleware/errorHandler';
+import { MIGRATIONS } from './schema';
+
+export type SqliteDatabase = Database.Database;
+
+// Opens (or creates) the database file and brings its schema up to date
+export const openDatabase = (file: string): SqliteDatabase => {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  }
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  const applied = db.pragma('user_version', { simple: true }) as number;
+  db.transaction(() => {
+    MIGRATIONS.slice(applied).forEach(migration => db.exec(migration));
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  })();
+
+  return db;
+};
+
+export const now = (): string => new Date().toISOString();
+
+// Dates from import files come in any format Date understands; stored ones
+// must be UTC ISO strings so they compare correctly as text
+export const toTimestamp = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+};
+
+// Rejected statements (constraint violations and the like) surface as 400s,
+// like PostgREST errors do in the Supabase repositories
+export const withStoreErrors = <T extends object>(repository: T): T =>
+  Object.fromEntries(
+    Object.entries(repository).map(([name, method]) => [
+      name,
+      async (...args: unknown[]) => {
+        try {
+          return await method(...args);
+        } catch (error) {
+          if (error instanceof Database.SqliteError) throw new AppError(error.message, 400);
+          throw error;
+        }
+      },
+    ])
+  ) as T;
@@ -0,0 +1,28 @@
+import { Repositories } from '../types';
+import { openDatabase } from './database';
+import { createBookmarkRepository } from './bookmarkRepository';
+import { createBookmarkTagRepository, createTagRepository } from './tagRepository';
+import { createAccessTokenRepository, createSessionRepository, createUserRepository } from './accountRepository';
+import { createArchiveRepository, createCategoryRepository, createImportJobRepository } from './libraryRepository';
+import { createRuleRepository } from './ruleRepository';
+import { createCollectionRepository } from './collectionRepository';
+
+// A single local database file; the schema is created on first start.
+// `:memory:` keeps everything in memory, which suits throwaway test runs.
+export const createSqliteRepositories = (file: string): Repositories => {
+  const db = openDatabase(file);
+
+  return {
+    bookmarks: createBookmarkRepository(db),
+    tags: createTagRepository(db),
+    bookmarkTags: createBookmarkTagRepository(db),
+    users: createUserRepository(db),
+    sessions: createSessionRepository(db),
+    accessTokens: createAccessTokenRepository(db),
+    archives: createArchiveRepository(db),
+    importJobs: createImportJobRepository(db),
+    categories: createCategoryRepository(db),
+    rules: createRuleRepository(db),
+    collections: createCollectionRepository(db),
+  };
+};
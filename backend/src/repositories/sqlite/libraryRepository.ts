@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { BookmarkArchive, Category, ImportJob } from '../../types';
+import { ArchiveRepository, CategoryRepository, ImportJobRepository } from '../types';
+import { SqliteDatabase, withStoreErrors } from './database';
+
+// Archives, import jobs and legacy categories
+
+const JOB_COLUMNS = 'id, user_id, source, status, total, processed, created, duplicates, failed, error, created_at, finished_at';
+
+// Per-item results are stored as JSON text
+type ImportJobRow = Omit<ImportJob, 'items'> & { items?: string | null };
+
+const toImportJob = ({ items, ...row }: ImportJobRow): ImportJob => ({
+  ...row,
+  items: items ? JSON.parse(items) : null,
+});
+
+export const createArchiveRepository = (db: SqliteDatabase): ArchiveRepository =>
+  withStoreErrors<ArchiveRepository>({
+    async save(archive) {
+      return db.prepare(`
+        INSERT INTO bookmark_archives
+          (bookmark_id, user_id, source_url, title, byline, excerpt, content_html, content_text, word_count, captured_at)
+        VALUES
+          (@bookmark_id, @user_id, @source_url, @title, @byline, @excerpt, @content_html, @content_text, @word_count, @captured_at)
+        ON CONFLICT (bookmark_id) DO UPDATE SET
+          user_id = excluded.user_id,
+          source_url = excluded.source_url,
+          title = excluded.title,
+          byline = excluded.byline,
+          excerpt = excluded.excerpt,
+          content_html = excluded.content_html,
+          content_text = excluded.content_text,
+          word_count = excluded.word_count,
+          captured_at = excluded.captured_at
+        RETURNING *
+      `).get(archive) as BookmarkArchive;
+    },
+
+    async find(bookmarkId, userId) {
+      const archive = db.prepare('SELECT * FROM bookmark_archives WHERE bookmark_id = ? AND user_id = ?')
+        .get(bookmarkId, userId);
+
+      return (archive as BookmarkArchive | undefined) ?? null;
+    },
+  });
+
+export const createImportJobRepository = (db: SqliteDatabase): ImportJobRepository =>
+  withStoreErrors<ImportJobRepository>({
+    async insert({ user_id, source, total }) {
+      const row = db.prepare(`
+        INSERT INTO import_jobs (id, user_id, source, status, total) VALUES (?, ?, ?, 'running', ?)
+        RETURNING ${JOB_COLUMNS}
+      `).get(randomUUID(), user_id, source, total) as ImportJobRow;
+
+      return toImportJob(row);
+    },
+
+    async update(id, changes) {
+      const columns = Object.keys(changes) as Array<keyof typeof changes>;
+      if (columns.length === 0) return;
+
+      const params = columns.map(column =>
+        column === 'items' ? JSON.stringify(changes.items) : changes[column] ?? null
+      );
+
+      db.prepare(`UPDATE import_jobs SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`)
+        .run(...params, id);
+    },
+
+    async find(id, userId) {
+      const row = db.prepare('SELECT * FROM import_jobs WHERE id = ? AND user_id = ?').get(id, userId) as ImportJobRow | undefined;
+      return row ? toImportJob(row) : null;
+    },
+  });
+
+export const createCategoryRepository = (db: SqliteDatabase): CategoryRepository =>
+  withStoreErrors<CategoryRepository>({
+    async list(userId) {
+      return db.prepare('SELECT * FROM categories WHERE user_id = ? ORDER BY name ASC').all(userId) as Category[];
+    },
+
+    async insert(userId, name) {
+      return db.prepare('INSERT INTO categories (id, user_id, name) VALUES (?, ?, ?) RETURNING *')
+        .get(randomUUID(), userId, name) as Category;
+    },
+  });
@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+import { BookmarkRule } from '../../types';
+import { RuleRepository } from '../types';
+import { SqliteDatabase, withStoreErrors } from './database';
+
+// Enabled is 0 or 1, conditions and actions are JSON text
+type RuleRow = Omit<BookmarkRule, 'enabled' | 'conditions' | 'actions'> & {
+  enabled: number;
+  conditions: string;
+  actions: string;
+};
+
+const toRule = ({ enabled, conditions, actions, ...row }: RuleRow): BookmarkRule => ({
+  ...row,
+  enabled: enabled === 1,
+  conditions: JSON.parse(conditions),
+  actions: JSON.parse(actions),
+});
+
+export const createRuleRepository = (db: SqliteDatabase): RuleRepository =>
+  withStoreErrors<RuleRepository>({
+    async list(userId) {
+      const rows = db.prepare('SELECT * FROM bookmark_rules WHERE user_id = ? ORDER BY created_at ASC, rowid ASC')
+        .all(userId) as RuleRow[];
+
+      return rows.map(toRule);
+    },
+
+    async insert(rule) {
+      const row = db.prepare(`
+        INSERT INTO bookmark_rules (id, user_id, name, enabled, conditions, actions)
+        VALUES (?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `).get(
+        randomUUID(),
+        rule.user_id,
+        rule.name,
+        Number(rule.enabled),
+        JSON.stringify(rule.conditions),
+        JSON.stringify(rule.actions)
+      ) as RuleRow;
+
+      return toRule(row);
+    },
+
+    // The service always sets updated_at, so there is at least one column
+    async update(id, userId, changes) {
+      const columns = Object.keys(changes) as Array<keyof typeof changes>;
+      const params = columns.map(column => {
+        const value = changes[column];
+        if (column === 'enabled') return Number(value);
+        return column === 'conditions' || column === 'actions' ? JSON.stringify(value) : value ?? null;
+      });
+
+      const row = db.prepare(`
+        UPDATE bookmark_rules SET ${columns.map(column => `${column} = ?`).join(', ')}
+        WHERE id = ? AND user_id = ?
+        RETURNING *
+      `).get(...params, id, userId) as RuleRow | undefined;
+
+      return row ? toRule(row) : null;
+    },
+
+    async delete(id, userId) {
+      return db.prepare('DELETE FROM bookmark_rules WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+    },
+  });
@@ -0,0 +1,261 @@
+// Schema of the SQLite store, mirroring the Postgres tables from the
+// database-*.sql files. Each entry is applied once, in order, and the
+// database's user_version records how many have run; add new entries at the
+// end rather than editing old ones.
+//
+// Differences from Postgres:
+// - Timestamps are ISO 8601 text in UTC, so they sort as strings
+// - Arrays and JSONB columns are JSON text
+// - bookmark_tags and bookmark_archives have foreign keys, so purging a
+//   bookmark or deleting a tag cleans up after itself
+// - Full-text search uses an FTS5 table kept in sync by triggers
+
+const NOW = "(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))";
+
+// What comes before the last slash: rtrim strips every character that is not
+// a slash from the end, leaving `dev/frontend/` for `dev/frontend/react`
+const PARENT_NAME = (column: string): string =>
+  `substr(rtrim(${column}, replace(${column}, '/', '')), 1, length(rtrim(${column}, replace(${column}, '/', ''))) - 1)`;
+
+const RANDOM_UUID =
+  "lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || " +
+  "substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))";
+
+export const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT UNIQUE NOT NULL,
+    name TEXT,
+    password_hash TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE TABLE user_sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash TEXT UNIQUE NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    expires_at TEXT NOT NULL
+  );
+
+  CREATE TABLE personal_access_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    token_prefix TEXT NOT NULL,
+    scopes TEXT NOT NULL DEFAULT '[]',
+    expires_at TEXT,
+    last_used_at TEXT,
+    revoked_at TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE INDEX idx_user_sessions_user_id ON user_sessions(user_id);
+  CREATE INDEX idx_personal_access_tokens_user_id ON personal_access_tokens(user_id);
+
+  CREATE TABLE categories (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE(user_id, name)
+  );
+
+  -- seq is a stable rowid for the search index (a plain rowid may change on VACUUM)
+  CREATE TABLE bookmarks (
+    seq INTEGER PRIMARY KEY,
+    id TEXT UNIQUE NOT NULL,
+    user_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    canonical_url TEXT,
+    title TEXT NOT NULL,
+    summary TEXT,
+    category TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT,
+    deleted_at TEXT,
+    metadata TEXT,
+    enrichment_status TEXT NOT NULL DEFAULT 'pending'
+      CHECK (enrichment_status IN ('pending', 'done', 'failed')),
+    enrichment_attempts INTEGER NOT NULL DEFAULT 0,
+    enrichment_next_attempt_at TEXT,
+    enrichment_error TEXT,
+    enriched_at TEXT,
+    archive_status TEXT CHECK (archive_status IN ('pending', 'done', 'failed')),
+    archived_at TEXT,
+    link_health TEXT CHECK (link_health IN ('ok', 'redirected', 'broken')),
+    link_status_code INTEGER,
+    link_redirect_url TEXT,
+    link_error TEXT,
+    link_failures INTEGER NOT NULL DEFAULT 0,
+    link_checked_at TEXT,
+    link_next_check_at TEXT
+  );
+
+  CREATE INDEX idx_bookmarks_live ON bookmarks(user_id, deleted_at, created_at DESC);
+  CREATE INDEX idx_bookmarks_canonical_url ON bookmarks(user_id, canonical_url);
+  CREATE INDEX idx_bookmarks_enrichment_queue ON bookmarks(enrichment_status, enrichment_next_attempt_at);
+  CREATE INDEX idx_bookmarks_link_next_check ON bookmarks(link_next_check_at);
+
+  CREATE TABLE tags (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE(user_id, name)
+  );
+
+  CREATE TABLE bookmark_tags (
+    id TEXT PRIMARY KEY,
+    bookmark_id TEXT NOT NULL REFERENCES bookmarks(id) ON DELETE CASCADE,
+    tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE(bookmark_id, tag_id)
+  );
+
+  CREATE INDEX idx_bookmark_tags_tag_id ON bookmark_tags(tag_id);
+
+  CREATE TABLE bookmark_archives (
+    bookmark_id TEXT PRIMARY KEY REFERENCES bookmarks(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    source_url TEXT NOT NULL,
+    title TEXT,
+    byline TEXT,
+    excerpt TEXT,
+    content_html TEXT NOT NULL,
+    content_text TEXT NOT NULL,
+    word_count INTEGER NOT NULL DEFAULT 0,
+    captured_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE TABLE import_jobs (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'done', 'failed')),
+    total INTEGER NOT NULL DEFAULT 0,
+    processed INTEGER NOT NULL DEFAULT 0,
+    created INTEGER NOT NULL DEFAULT 0,
+    duplicates INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    items TEXT,
+    error TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    finished_at TEXT
+  );
+
+  CREATE INDEX idx_import_jobs_user_id ON import_jobs(user_id, created_at DESC);
+
+  -- Search index over the bookmark and its archived page text (rowid = bookmarks.seq)
+  CREATE VIRTUAL TABLE bookmark_search USING fts5(title, summary, url, content, tokenize = 'porter unicode61');
+
+  CREATE TRIGGER bookmarks_search_insert AFTER INSERT ON bookmarks BEGIN
+    INSERT INTO bookmark_search (rowid, title, summary, url, content)
+    VALUES (new.seq, new.title, COALESCE(new.summary, ''), new.url, '');
+  END;
+
+  CREATE TRIGGER bookmarks_search_update AFTER UPDATE OF title, summary, url ON bookmarks BEGIN
+    UPDATE bookmark_search
+    SET title = new.title, summary = COALESCE(new.summary, ''), url = new.url
+    WHERE rowid = new.seq;
+  END;
+
+  CREATE TRIGGER bookmarks_search_delete AFTER DELETE ON bookmarks BEGIN
+    DELETE FROM bookmark_search WHERE rowid = old.seq;
+  END;
+
+  CREATE TRIGGER bookmark_archives_search_insert AFTER INSERT ON bookmark_archives BEGIN
+    UPDATE bookmark_search SET content = new.content_text
+    WHERE rowid = (SELECT seq FROM bookmarks WHERE id = new.bookmark_id);
+  END;
+
+  CREATE TRIGGER bookmark_archives_search_update AFTER UPDATE OF content_text ON bookmark_archives BEGIN
+    UPDATE bookmark_search SET content = new.content_text
+    WHERE rowid = (SELECT seq FROM bookmarks WHERE id = new.bookmark_id);
+  END;
+  `,
+  // Nested tags: parent_id points at the tag one level up (`dev/frontend` for
+  // `dev/frontend/react`). The repository keeps it in step with the name.
+  `
+  ALTER TABLE tags ADD COLUMN parent_id TEXT REFERENCES tags(id) ON DELETE CASCADE;
+
+  CREATE INDEX idx_tags_parent_id ON tags(parent_id);
+
+  -- Existing slash-named tags get their missing parents, with random v4 UUIDs
+  WITH RECURSIVE ancestors(user_id, name) AS (
+    SELECT user_id, ${PARENT_NAME('name')} FROM tags WHERE instr(name, '/') > 0
+    UNION
+    SELECT user_id, ${PARENT_NAME('name')} FROM ancestors WHERE instr(name, '/') > 0
+  )
+  INSERT INTO tags (id, user_id, name)
+  SELECT ${RANDOM_UUID}, user_id, name FROM ancestors WHERE name <> ''
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  UPDATE tags SET parent_id = (
+    SELECT p.id FROM tags p WHERE p.user_id = tags.user_id AND p.name = ${PARENT_NAME('tags.name')}
+  )
+  WHERE instr(name, '/') > 0;
+  `,
+  // Names of tags merged into another one
+  `
+  CREATE TABLE tag_aliases (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE(user_id, name)
+  );
+
+  CREATE INDEX idx_tag_aliases_tag_id ON tag_aliases(tag_id);
+  `,
+  // How tags look in lists: color, icon, description and pinning
+  `
+  ALTER TABLE tags ADD COLUMN color TEXT;
+  ALTER TABLE tags ADD COLUMN icon TEXT;
+  ALTER TABLE tags ADD COLUMN description TEXT;
+  ALTER TABLE tags ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0 CHECK (pinned IN (0, 1));
+  ALTER TABLE tags ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0;
+  `,
+  // User-defined rules run on saved bookmarks; conditions and actions are JSON
+  `
+  CREATE TABLE bookmark_rules (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1 CHECK (enabled IN (0, 1)),
+    conditions TEXT NOT NULL DEFAULT '{}',
+    actions TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT
+  );
+
+  CREATE INDEX idx_bookmark_rules_user_id ON bookmark_rules(user_id, created_at);
+  `,
+  // Hand-ordered collections; a bookmark can be in several of them
+  `
+  CREATE TABLE collections (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT
+  );
+
+  CREATE INDEX idx_collections_user_id ON collections(user_id);
+
+  CREATE TABLE collection_bookmarks (
+    collection_id TEXT NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+    bookmark_id TEXT NOT NULL REFERENCES bookmarks(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    added_at TEXT NOT NULL DEFAULT ${NOW},
+    PRIMARY KEY (collection_id, bookmark_id)
+  );
+
+  CREATE INDEX idx_collection_bookmarks_position ON collection_bookmarks(collection_id, position);
+  CREATE INDEX idx_collection_bookmarks_bookmark_id ON collection_bookmarks(bookmark_id);
+  `,
+];
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { parseSearchQuery } from '../../utils/searchQuery';
+import { Repositories } from '../types';
+import { createSqliteRepositories } from '.';
+import { openDatabase } from './database';
+import { MIGRATIONS } from './schema';
+
+const USER = 'user-a';
+
+const newBookmark = (n: number, createdAt?: string) => ({
+  user_id: USER,
+  url: `https://example.com/${n}`,
+  canonical_url: `https://example.com/${n}`,
+  title: `Bookmark ${n}`,
+  created_at: createdAt,
+});
+
+describe('SQLite store', () => {
+  let store: Repositories;
+
+  beforeEach(() => {
+    store = createSqliteRepositories(':memory:');
+  });
+
+  it('applies every migration once and leaves a reopened file alone', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bookmarks-'));
+    const file = path.join(dir, 'test.db');
+
+    try {
+      openDatabase(file).close();
+      const db = openDatabase(file);
+      expect(db.pragma('user_version', { simple: true })).toBe(MIGRATIONS.length);
+      db.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('stores a bookmark with its tags and parent tags', async () => {
+    const bookmark = await store.bookmarks.insert(newBookmark(1), ['dev/frontend/react', 'news']);
+
+    expect(bookmark.tags).toEqual(['dev/frontend/react', 'news']);
+    expect((await store.tags.list(USER)).map(tag => tag.name).sort())
+      .toEqual(['dev', 'dev/frontend', 'dev/frontend/react', 'news']);
+  });
+
+  it('lists newest first and pages by keyset', async () => {
+    const first = await store.bookmarks.insert(newBookmark(1, '2024-01-01T00:00:00.000Z'));
+    const second = await store.bookmarks.insert(newBookmark(2, '2024-01-02T00:00:00.000Z'));
+    const third = await store.bookmarks.insert(newBookmark(3, '2024-01-03T00:00:00.000Z'));
+
+    const page = await store.bookmarks.list(USER, {}, { limit: 2 });
+    expect(page.map(bookmark => bookmark.id)).toEqual([third.id, second.id]);
+
+    const next = await store.bookmarks.list(USER, {}, {
+      limit: 2,
+      after: { createdAt: second.created_at, id: second.id },
+    });
+    expect(next.map(bookmark => bookmark.id)).toEqual([first.id]);
+  });
+
+  it('filters by tag query and full-text search', async () => {
+    await store.bookmarks.insert(newBookmark(1), ['react']);
+    await store.bookmarks.insert({ ...newBookmark(2), title: 'Postgres internals' }, ['db']);
+
+    const tagged = await store.bookmarks.list(USER, { tags: { type: 'tag', name: 'react' } }, { limit: 10 });
+    expect(tagged.map(bookmark => bookmark.title)).toEqual(['Bookmark 1']);
+
+    const found = await store.bookmarks.list(USER, { search: parseSearchQuery('postgres')! }, { limit: 10 });
+    expect(found.map(bookmark => bookmark.title)).toEqual(['Postgres internals']);
+    expect(await store.bookmarks.count(USER, { tags: { type: 'tag', name: 'db' } })).toBe(1);
+  });
+
+  it('moves bookmarks to the trash and back in one bulk update', async () => {
+    const bookmark = await store.bookmarks.insert(newBookmark(1));
+
+    expect(await store.bookmarks.bulkUpdate(USER, [bookmark.id], { type: 'delete' })).toEqual([bookmark.id]);
+    expect(await store.bookmarks.list(USER, {}, { limit: 10 })).toEqual([]);
+    expect((await store.bookmarks.listTrash(USER, 10, 0)).map(item => item.id)).toEqual([bookmark.id]);
+
+    expect(await store.bookmarks.bulkUpdate(USER, [bookmark.id], { type: 'restore' })).toEqual([bookmark.id]);
+    expect(await store.bookmarks.count(USER, {})).toBe(1);
+  });
+
+  it('replaces tags and keeps the ones still listed', async () => {
+    const bookmark = await store.bookmarks.insert(newBookmark(1), ['keep', 'drop']);
+
+    expect(await store.bookmarkTags.replace(bookmark.id, USER, ['keep', 'new'])).toBe(true);
+    expect((await store.bookmarks.find(bookmark.id))!.tags).toEqual(['keep', 'new']);
+  });
+
+  it('reports constraint violations as 400s', async () => {
+    await expect(store.bookmarks.insert({ ...newBookmark(1), title: null as unknown as string }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+});
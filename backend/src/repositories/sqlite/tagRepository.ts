@@ -0,0 +1,226 @@
+import { randomUUID } from 'crypto';
+import { Tag, TagAlias } from '../../types';
+import { BookmarkTagRepository, TagChanges, TagRepository, TagUsage } from '../types';
+import { AppError } from '../../middleware/errorHandler';
+import { parentTagPath } from '../../utils/tagPath';
+import { SqliteDatabase, withStoreErrors } from './database';
+
+// pinned is stored as 0 or 1
+type TagRow = Omit<Tag, 'pinned'> & { pinned: number };
+
+const toTag = ({ pinned, ...row }: TagRow): Tag => ({ ...row, pinned: pinned === 1 });
+
+const toTagUsage = ({ count, ...row }: TagRow & { count: number }): TagUsage => ({ tag: toTag(row), count });
+
+// The id of the user's tag with this name, creating it and the tags above it
+// when missing. Callers run it inside a transaction.
+const ensureTag = (db: SqliteDatabase, userId: string, name: string): string => {
+  const parent = parentTagPath(name);
+  const parentId = parent ? ensureTag(db, userId, parent) : null;
+
+  db.prepare('INSERT INTO tags (id, user_id, name, parent_id) VALUES (?, ?, ?, ?) ON CONFLICT (user_id, name) DO NOTHING')
+    .run(randomUUID(), userId, name, parentId);
+
+  return db.prepare('SELECT id FROM tags WHERE user_id = ? AND name = ?').pluck().get(userId, name) as string;
+};
+
+export const createTagRepository = (db: SqliteDatabase): TagRepository => {
+  const findByName = async (userId: string, name: string): Promise<Tag | null> => {
+    const row = db.prepare('SELECT * FROM tags WHERE user_id = ? AND name = ?').get(userId, name) as TagRow | undefined;
+    return row ? toTag(row) : null;
+  };
+
+  const create = db.transaction((userId: string, name: string) => ensureTag(db, userId, name));
+
+  const updateTag = db.transaction((id: string, userId: string, { name, ...fields }: TagChanges): Tag | null => {
+    const tag = db.prepare('SELECT * FROM tags WHERE id = ? AND user_id = ?').get(id, userId) as TagRow | undefined;
+    if (!tag) return null;
+
+    if (name !== undefined && name !== tag.name) {
+      const parent = parentTagPath(name);
+      const parentId = parent ? ensureTag(db, userId, parent) : null;
+
+      db.prepare('UPDATE tags SET name = ?, parent_id = ? WHERE id = ?').run(name, parentId, id);
+
+      // The tags below keep their parents; only the start of their names changes
+      db.prepare(`
+        UPDATE tags SET name = ? || substr(name, length(?) + 1)
+        WHERE user_id = ? AND substr(name, 1, length(?) + 1) = ? || '/'
+      `).run(name, tag.name, userId, tag.name, tag.name);
+    }
+
+    const columns = (Object.keys(fields) as Array<keyof typeof fields>).filter(column => fields[column] !== undefined);
+    if (columns.length > 0) {
+      const params = columns.map(column => (column === 'pinned' ? Number(fields.pinned) : fields[column]));
+      db.prepare(`UPDATE tags SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`).run(...params, id);
+    }
+
+    return toTag(db.prepare('SELECT * FROM tags WHERE id = ?').get(id) as TagRow);
+  });
+
+  const mergeTags = db.transaction((sourceId: string, targetId: string, userId: string): boolean => {
+    const source = db.prepare('SELECT * FROM tags WHERE id = ? AND user_id = ?').get(sourceId, userId) as TagRow | undefined;
+    const target = db.prepare('SELECT * FROM tags WHERE id = ? AND user_id = ?').get(targetId, userId) as TagRow | undefined;
+    if (!source || !target || source.id === target.id) return false;
+
+    if (db.prepare('SELECT 1 FROM tags WHERE parent_id = ?').get(source.id) !== undefined) {
+      throw new AppError(`Tag "${source.name}" has tags below it; merge or move them first`, 400);
+    }
+
+    const link = db.prepare('INSERT OR IGNORE INTO bookmark_tags (id, bookmark_id, tag_id) VALUES (?, ?, ?)');
+    (db.prepare('SELECT bookmark_id FROM bookmark_tags WHERE tag_id = ?').pluck().all(source.id) as string[])
+      .forEach(bookmarkId => link.run(randomUUID(), bookmarkId, target.id));
+
+    db.prepare('UPDATE tag_aliases SET tag_id = ? WHERE tag_id = ?').run(target.id, source.id);
+    db.prepare(`
+      INSERT INTO tag_aliases (id, user_id, tag_id, name) VALUES (?, ?, ?, ?)
+      ON CONFLICT (user_id, name) DO UPDATE SET tag_id = excluded.tag_id
+    `).run(randomUUID(), userId, target.id, source.name);
+
+    // Its remaining links go with it (ON DELETE CASCADE)
+    db.prepare('DELETE FROM tags WHERE id = ?').run(source.id);
+    return true;
+  });
+
+  return withStoreErrors<TagRepository>({
+    async list(userId) {
+      const rows = db.prepare(`
+        SELECT * FROM tags WHERE user_id = ?
+        ORDER BY pinned DESC, sort_order ASC, name ASC
+      `).all(userId) as TagRow[];
+
+      return rows.map(toTag);
+    },
+
+    async search(userId, term, limit) {
+      // LIKE is case-insensitive for ASCII, like ilike
+      const rows = db.prepare(`
+        SELECT * FROM tags WHERE user_id = ? AND name LIKE '%' || ? || '%'
+        ORDER BY name ASC LIMIT ?
+      `).all(userId, term, limit) as TagRow[];
+
+      return rows.map(toTag);
+    },
+
+    findByName,
+
+    async findOrCreate(userId, name) {
+      create(userId, name);
+      return (await findByName(userId, name))!;
+    },
+
+    async update(id, userId, changes) {
+      return updateTag(id, userId, changes);
+    },
+
+    async delete(id, userId) {
+      // The tags below it and bookmark_tags rows go with the tag (ON DELETE CASCADE)
+      return db.prepare('DELETE FROM tags WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+    },
+
+    async usage(userId) {
+      // d is the tag itself and every tag below it; a bookmark on several of them counts once
+      const rows = db.prepare(`
+        SELECT t.*,
+          COUNT(DISTINCT bt.bookmark_id) AS count,
+          COUNT(DISTINCT CASE WHEN bt.tag_id = t.id THEN bt.bookmark_id END) AS direct_count
+        FROM tags t
+        JOIN tags d ON d.user_id = t.user_id AND (d.id = t.id OR substr(d.name, 1, length(t.name) + 1) = t.name || '/')
+        LEFT JOIN bookmark_tags bt ON bt.tag_id = d.id
+        WHERE t.user_id = ?
+        GROUP BY t.id
+        ORDER BY t.name ASC
+      `).all(userId) as Array<TagRow & { count: number; direct_count: number }>;
+
+      return rows.map(({ count, direct_count, ...row }) => ({ tag: toTag(row), count, direct_count }));
+    },
+
+    async popular(userId, limit) {
+      const rows = db.prepare(`
+        SELECT t.*, COUNT(bt.id) AS count
+        FROM tags t JOIN bookmark_tags bt ON bt.tag_id = t.id
+        WHERE t.user_id = ?
+        GROUP BY t.id
+        ORDER BY count DESC, t.name ASC
+        LIMIT ?
+      `).all(userId, limit) as Array<TagRow & { count: number }>;
+
+      return rows.map(toTagUsage);
+    },
+
+    async merge(sourceId, targetId, userId) {
+      return mergeTags(sourceId, targetId, userId);
+    },
+
+    async listAliases(userId) {
+      return db.prepare('SELECT * FROM tag_aliases WHERE user_id = ? ORDER BY name ASC').all(userId) as TagAlias[];
+    },
+
+    async deleteAlias(id, userId) {
+      return db.prepare('DELETE FROM tag_aliases WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+    },
+  });
+};
+
+// Creates the missing tags and links all of them, unlinking every other tag
+// with `replaceExisting`. Callers run it inside a transaction.
+export const writeBookmarkTags = (
+  db: SqliteDatabase,
+  bookmarkId: string,
+  userId: string,
+  tagNames: string[],
+  replaceExisting: boolean
+): void => {
+  const tagIds = Array.from(new Set(tagNames)).map(name => ensureTag(db, userId, name));
+
+  if (replaceExisting) {
+    db.prepare('DELETE FROM bookmark_tags WHERE bookmark_id = ? AND tag_id NOT IN (SELECT value FROM json_each(?))')
+      .run(bookmarkId, JSON.stringify(tagIds));
+  }
+
+  const link = db.prepare('INSERT OR IGNORE INTO bookmark_tags (id, bookmark_id, tag_id) VALUES (?, ?, ?)');
+  tagIds.forEach(tagId => link.run(randomUUID(), bookmarkId, tagId));
+};
+
+// Unlinks the user's tags with these names from the bookmarks
+export const unlinkBookmarkTags = (
+  db: SqliteDatabase,
+  bookmarkIds: string[],
+  userId: string,
+  tagNames: string[]
+): void => {
+  db.prepare(`
+    DELETE FROM bookmark_tags
+    WHERE bookmark_id IN (SELECT value FROM json_each(?))
+      AND tag_id IN (SELECT id FROM tags WHERE user_id = ? AND name IN (SELECT value FROM json_each(?)))
+  `).run(JSON.stringify(bookmarkIds), userId, JSON.stringify(tagNames));
+};
+
+export const createBookmarkTagRepository = (db: SqliteDatabase): BookmarkTagRepository => {
+  const isOwner = (bookmarkId: string, userId: string): boolean =>
+    db.prepare('SELECT 1 FROM bookmarks WHERE id = ? AND user_id = ?').get(bookmarkId, userId) !== undefined;
+
+  const setTags = db.transaction((bookmarkId: string, userId: string, tagNames: string[], replaceExisting: boolean) => {
+    if (!isOwner(bookmarkId, userId)) return false;
+
+    writeBookmarkTags(db, bookmarkId, userId, tagNames, replaceExisting);
+    return true;
+  });
+
+  return withStoreErrors<BookmarkTagRepository>({
+    async add(bookmarkId, userId, tagNames) {
+      return setTags(bookmarkId, userId, tagNames, false);
+    },
+
+    async replace(bookmarkId, userId, tagNames) {
+      return setTags(bookmarkId, userId, tagNames, true);
+    },
+
+    async remove(bookmarkId, userId, tagNames) {
+      if (!isOwner(bookmarkId, userId)) return false;
+
+      unlinkBookmarkTags(db, [bookmarkId], userId, tagNames);
+      return true;
+    },
+  });
+};
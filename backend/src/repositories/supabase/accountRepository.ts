@@ -0,0 +1,144 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppError } from '../../middleware/errorHandler';
+import { AccessTokenRepository, SessionRepository, UserRepository } from '../types';
+
+const USER_COLUMNS = 'id, email, name, created_at';
+
+const TOKEN_COLUMNS = 'id, name, token_prefix, scopes, expires_at, last_used_at, created_at';
+
+export const createUserRepository = (supabase: SupabaseClient): UserRepository => ({
+  async findById(id) {
+    const { data, error } = await supabase
+      .from('users')
+      .select(USER_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+
+  async findByEmail(email) {
+    const { data, error } = await supabase
+      .from('users')
+      .select(`${USER_COLUMNS}, password_hash`)
+      .eq('email', email)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+
+  async insert(user) {
+    const { data, error } = await supabase
+      .from('users')
+      .insert(user)
+      .select(USER_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.message.includes('duplicate key')) return null;
+      throw new AppError(error.message, 400);
+    }
+    return data;
+  },
+});
+
+export const createSessionRepository = (supabase: SupabaseClient): SessionRepository => ({
+  async insert(session) {
+    const { error } = await supabase.from('user_sessions').insert(session);
+
+    if (error) throw new AppError(error.message, 400);
+  },
+
+  async findUserId(tokenHash, now) {
+    const { data, error } = await supabase
+      .from('user_sessions')
+      .select('user_id')
+      .eq('token_hash', tokenHash)
+      .gt('expires_at', now)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return data?.user_id ?? null;
+  },
+
+  async delete(tokenHash) {
+    const { error } = await supabase
+      .from('user_sessions')
+      .delete()
+      .eq('token_hash', tokenHash);
+
+    if (error) throw new AppError(error.message, 400);
+  },
+
+  async deleteExpired(userId, now) {
+    const { error } = await supabase
+      .from('user_sessions')
+      .delete()
+      .eq('user_id', userId)
+      .lt('expires_at', now);
+
+    if (error) throw new AppError(error.message, 400);
+  },
+});
+
+export const createAccessTokenRepository = (supabase: SupabaseClient): AccessTokenRepository => ({
+  async insert(token) {
+    const { data, error } = await supabase
+      .from('personal_access_tokens')
+      .insert(token)
+      .select(TOKEN_COLUMNS)
+      .single();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+
+  async list(userId) {
+    const { data, error } = await supabase
+      .from('personal_access_tokens')
+      .select(TOKEN_COLUMNS)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new AppError(error.message, 400);
+    return data || [];
+  },
+
+  async revoke(id, userId, revokedAt) {
+    const { data, error } = await supabase
+      .from('personal_access_tokens')
+      .update({ revoked_at: revokedAt })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return Boolean(data);
+  },
+
+  async findByHash(tokenHash) {
+    const { data, error } = await supabase
+      .from('personal_access_tokens')
+      .select('id, user_id, scopes, expires_at, last_used_at')
+      .eq('token_hash', tokenHash)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+
+  async touch(id, usedAt) {
+    const { error } = await supabase
+      .from('personal_access_tokens')
+      .update({ last_used_at: usedAt })
+      .eq('id', id);
+
+    if (error) throw new AppError(error.message, 400);
+  },
+});
@@ -0,0 +1,333 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Bookmark, SearchHighlights } from '../../types';
+import { AppError } from '../../middleware/errorHandler';
+import { toTsQuery } from '../../utils/searchQuery';
+import { compileTagQuery } from '../../utils/tagQuery';
+import { BookmarkQuery, BookmarkRepository, LinkCheckTarget } from '../types';
+
+type SearchRow = Bookmark & {
+  title_highlight: string;
+  summary_highlight: string;
+  url_highlight: string;
+  content_highlight: string | null;
+};
+
+// Folds the flat highlight columns returned by search_bookmarks into `highlights`
+const toSearchResult = ({
+  title_highlight,
+  summary_highlight,
+  url_highlight,
+  content_highlight,
+  ...bookmark
+}: SearchRow): Bookmark => {
+  const matched = bookmark.matched_fields || [];
+  const highlights: SearchHighlights = {};
+
+  if (matched.includes('title')) highlights.title = title_highlight;
+  if (matched.includes('summary')) highlights.summary = summary_highlight;
+  if (matched.includes('url')) highlights.url = url_highlight;
+  if (matched.includes('content') && content_highlight) highlights.content = content_highlight;
+
+  return { ...bookmark, highlights };
+};
+
+// A row of collection_bookmarks_with_tags: the bookmark and where it sits in the collection
+type CollectionRow = Bookmark & {
+  collection_id: string;
+  position: number;
+  added_at: string;
+};
+
+const toCollectionMember = ({ collection_id, position, added_at, ...bookmark }: CollectionRow): Bookmark => bookmark;
+
+// Trashed bookmarks deleted per round of purgeTrash
+const PURGE_BATCH_SIZE = 50;
+
+export const createBookmarkRepository = (supabase: SupabaseClient): BookmarkRepository => {
+  // Members of a collection, for narrowing searches to it
+  const listCollectionMembers = async (collectionId: string): Promise<string[]> => {
+    const { data, error } = await supabase
+      .from('collection_bookmarks')
+      .select('bookmark_id')
+      .eq('collection_id', collectionId);
+
+    if (error) throw new AppError(error.message, 400);
+    return (data || []).map(row => row.bookmark_id);
+  };
+
+  // Builds the filtered query shared by the page fetch and the total count.
+  // Searching a collection needs its members (see listCollectionMembers).
+  const buildQuery = (userId: string, filters: BookmarkQuery, members: string[] | null, countOnly: boolean = false) => {
+    const options = countOnly ? { count: 'exact' as const, head: true } : undefined;
+
+    // Searches go through the ranked full-text function, browsing reads the tagged view
+    // (or, for a collection, the view of its members with their positions).
+    // All of them expose a `tags` array that the tag query is evaluated against.
+    let query = filters.search
+      ? supabase.rpc('search_bookmarks', { user_uuid: userId, search_query: toTsQuery(filters.search) }, options)
+      : filters.collection
+        ? supabase.from('collection_bookmarks_with_tags').select('*', options).eq('user_id', userId)
+          .eq('collection_id', filters.collection)
+        : supabase.from('bookmarks_with_tags').select('*', options).eq('user_id', userId);
+
+    query = query.is('deleted_at', null);
+
+    if (members) query = query.in('id', members);
+
+    if (filters.category) query = query.eq('category', filters.category);
+    if (filters.health) query = query.eq('link_health', filters.health);
+    if (filters.host) {
+      query = query.or(`canonical_url.like."http://${filters.host}/*",canonical_url.like."https://${filters.host}/*"`);
+    }
+    if (filters.tags) query = query.or(compileTagQuery(filters.tags));
+    if (filters.createdFrom) query = query.gte('created_at', filters.createdFrom);
+    if (filters.createdTo) query = query.lte('created_at', filters.createdTo);
+
+    return query;
+  };
+
+  return {
+    async find(id, scope = {}) {
+      let query = supabase.from('bookmarks_with_tags').select('*').eq('id', id);
+      if (scope.userId) query = query.eq('user_id', scope.userId);
+      if (scope.deleted === false) query = query.is('deleted_at', null);
+      if (scope.deleted === true) query = query.not('deleted_at', 'is', null);
+
+      const { data, error } = await query.maybeSingle();
+
+      if (error) throw new AppError(error.message, 400);
+      return data;
+    },
+
+    async findByCanonicalUrl(userId, canonicalUrl) {
+      const { data, error } = await supabase
+        .from('bookmarks_with_tags')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('canonical_url', canonicalUrl)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw new AppError(error.message, 400);
+      return data;
+    },
+
+    async findIdsByCanonicalUrls(userId, canonicalUrls) {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('id, canonical_url')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .in('canonical_url', canonicalUrls);
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    async findTrashedCanonicalUrls(userId, ids) {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('id, canonical_url')
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null)
+        .in('id', ids);
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    async insert(bookmark, tagNames = []) {
+      // One function call, so the bookmark and its tags share a transaction
+      const { data, error } = await supabase.rpc('create_bookmark_with_tags', {
+        bookmark,
+        tag_names: tagNames,
+      });
+
+      if (error) throw new AppError(error.message, 400);
+      return data;
+    },
+
+    async insertMany(bookmarks) {
+      const { data, error } = await supabase.from('bookmarks').insert(bookmarks).select('id, canonical_url');
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    async update(id, changes, scope = {}) {
+      let query = supabase.from('bookmarks').update(changes).eq('id', id);
+      if (scope.userId) query = query.eq('user_id', scope.userId);
+      if (scope.deleted === false) query = query.is('deleted_at', null);
+      if (scope.deleted === true) query = query.not('deleted_at', 'is', null);
+
+      const { data, error } = await query.select('id');
+
+      if (error) throw new AppError(error.message, 400);
+      return Boolean(data && data.length > 0);
+    },
+
+    // One transaction in the database (see database-migration-bulk.sql)
+    async bulkUpdate(userId, ids, operation) {
+      const { data, error } = await supabase.rpc('bulk_update_bookmarks', {
+        user_uuid: userId,
+        bookmark_uuids: ids,
+        operation: operation.type,
+        tag_names: 'tags' in operation ? operation.tags : [],
+        new_category: operation.type === 'set_category' ? operation.category : null,
+        collection_uuid: 'collection' in operation ? operation.collection : null,
+      });
+
+      if (error) throw new AppError(error.message, 400);
+      return (data || []) as string[];
+    },
+
+    async list(userId, filters, { limit, offset = 0, after }) {
+      const members = filters.search && filters.collection ? await listCollectionMembers(filters.collection) : null;
+      let query = buildQuery(userId, filters, members);
+
+      if (filters.search) {
+        query = query.order('search_rank', { ascending: false });
+      } else if (filters.collection) {
+        query = query.order('position', { ascending: true }).order('added_at', { ascending: true });
+      }
+      query = query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false });
+
+      if (after) {
+        query = query.or(
+          `created_at.lt."${after.createdAt}",and(created_at.eq."${after.createdAt}",id.lt.${after.id})`
+        );
+      }
+
+      const { data, error } = await query.range(offset, offset + limit - 1);
+
+      if (error) throw new AppError(error.message, 400);
+      if (filters.search) return ((data || []) as SearchRow[]).map(toSearchResult);
+      return filters.collection
+        ? ((data || []) as CollectionRow[]).map(toCollectionMember)
+        : data || [];
+    },
+
+    async count(userId, filters) {
+      const members = filters.search && filters.collection ? await listCollectionMembers(filters.collection) : null;
+      const { count, error } = await buildQuery(userId, filters, members, true);
+
+      if (error) throw new AppError(error.message, 400);
+      return count || 0;
+    },
+
+    async listOldestFirst(userId, after, limit) {
+      let query = supabase
+        .from('bookmarks_with_tags')
+        .select('*')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+
+      if (after) {
+        query = query.or(
+          `created_at.gt."${after.createdAt}",and(created_at.eq."${after.createdAt}",id.gt.${after.id})`
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    async listTrash(userId, limit, offset) {
+      const { data, error } = await supabase
+        .from('bookmarks_with_tags')
+        .select('*')
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    async purgeTrash(deletedBefore, userId) {
+      let purged = 0;
+
+      // In batches, so the ids fit in the request URLs
+      for (;;) {
+        let query = supabase
+          .from('bookmarks')
+          .select('id')
+          .not('deleted_at', 'is', null)
+          .lte('deleted_at', deletedBefore);
+        if (userId) query = query.eq('user_id', userId);
+
+        const { data: expired, error: findError } = await query.limit(PURGE_BATCH_SIZE);
+
+        if (findError) throw new AppError(findError.message, 400);
+        if (!expired || expired.length === 0) return purged;
+
+        const ids = expired.map(bookmark => bookmark.id);
+
+        // bookmark_tags has no foreign key to bookmarks, so clear links first
+        const { error: unlinkError } = await supabase
+          .from('bookmark_tags')
+          .delete()
+          .in('bookmark_id', ids);
+
+        if (unlinkError) throw new AppError(unlinkError.message, 400);
+
+        const { error: deleteError } = await supabase
+          .from('bookmarks')
+          .delete()
+          .in('id', ids);
+
+        if (deleteError) throw new AppError(deleteError.message, 400);
+        purged += ids.length;
+        if (ids.length < PURGE_BATCH_SIZE) return purged;
+      }
+    },
+
+    async findEnrichmentDue(now, limit) {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('id')
+        .eq('enrichment_status', 'pending')
+        .is('deleted_at', null)
+        .or(`enrichment_next_attempt_at.is.null,enrichment_next_attempt_at.lte.${now}`)
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      if (error) throw new AppError(error.message, 400);
+      return (data || []).map(row => row.id);
+    },
+
+    async findLinkCheckDue(now, limit) {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('id, url, link_health, link_failures')
+        .is('deleted_at', null)
+        .or(`link_next_check_at.is.null,link_next_check_at.lte.${now}`)
+        .order('link_next_check_at', { ascending: true, nullsFirst: true })
+        .limit(limit);
+
+      if (error) throw new AppError(error.message, 400);
+      return (data || []) as LinkCheckTarget[];
+    },
+
+    async findMissingCanonicalUrl(limit) {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('id, url')
+        .is('canonical_url', null)
+        .limit(limit);
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+  };
+};
@@ -0,0 +1,106 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppError } from '../../middleware/errorHandler';
+import { CollectionRepository } from '../types';
+
+// Reads go through collections_with_counts, which adds bookmark_count
+export const createCollectionRepository = (supabase: SupabaseClient): CollectionRepository => {
+  const find: CollectionRepository['find'] = async (id, userId) => {
+    const { data, error } = await supabase
+      .from('collections_with_counts')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  };
+
+  return {
+    async list(userId) {
+      const { data, error } = await supabase
+        .from('collections_with_counts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true })
+        .order('id', { ascending: true });
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    find,
+
+    async insert(collection) {
+      const { data, error } = await supabase
+        .from('collections')
+        .insert(collection)
+        .select('*')
+        .single();
+
+      if (error) throw new AppError(error.message, 400);
+      return { ...data, bookmark_count: 0 };
+    },
+
+    async update(id, userId, changes) {
+      const { data, error } = await supabase
+        .from('collections')
+        .update(changes)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) throw new AppError(error.message, 400);
+      return data && data.length > 0 ? find(id, userId) : null;
+    },
+
+    async delete(id, userId) {
+      const { data, error } = await supabase
+        .from('collections')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) throw new AppError(error.message, 400);
+      return Boolean(data && data.length > 0);
+    },
+
+    // One transaction in the database (see database-migration-collections.sql)
+    async addBookmarks(id, userId, bookmarkIds) {
+      const { data, error } = await supabase.rpc('add_collection_bookmarks', {
+        collection_uuid: id,
+        bookmark_uuids: bookmarkIds,
+        user_uuid: userId,
+      });
+
+      if (error) throw new AppError(error.message, 400);
+      return Boolean(data);
+    },
+
+    async removeBookmark(id, userId, bookmarkId) {
+      if (!(await find(id, userId))) return false;
+
+      const { data, error } = await supabase
+        .from('collection_bookmarks')
+        .delete()
+        .eq('collection_id', id)
+        .eq('bookmark_id', bookmarkId)
+        .select('bookmark_id');
+
+      if (error) throw new AppError(error.message, 400);
+      return Boolean(data && data.length > 0);
+    },
+
+    async reorder(id, userId, bookmarkIds) {
+      const { data, error } = await supabase.rpc('reorder_collection', {
+        collection_uuid: id,
+        bookmark_uuids: bookmarkIds,
+        user_uuid: userId,
+      });
+
+      if (error) throw new AppError(error.message, 400);
+      return Boolean(data);
+    },
+  };
+};
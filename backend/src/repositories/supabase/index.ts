@@ -0,0 +1,23 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Repositories } from '../types';
+import { createBookmarkRepository } from './bookmarkRepository';
+import { createBookmarkTagRepository, createTagRepository } from './tagRepository';
+import { createAccessTokenRepository, createSessionRepository, createUserRepository } from './accountRepository';
+import { createArchiveRepository, createCategoryRepository, createImportJobRepository } from './libraryRepository';
+import { createRuleRepository } from './ruleRepository';
+import { createCollectionRepository } from './collectionRepository';
+
+// Hosted Postgres through PostgREST, set up with the database-*.sql files
+export const createSupabaseRepositories = (supabase: SupabaseClient): Repositories => ({
+  bookmarks: createBookmarkRepository(supabase),
+  tags: createTagRepository(supabase),
+  bookmarkTags: createBookmarkTagRepository(supabase),
+  users: createUserRepository(supabase),
+  sessions: createSessionRepository(supabase),
+  accessTokens: createAccessTokenRepository(supabase),
+  archives: createArchiveRepository(supabase),
+  importJobs: createImportJobRepository(supabase),
+  categories: createCategoryRepository(supabase),
+  rules: createRuleRepository(supabase),
+  collections: createCollectionRepository(supabase),
+});
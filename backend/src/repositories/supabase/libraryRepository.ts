@@ -0,0 +1,87 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppError } from '../../middleware/errorHandler';
+import { ArchiveRepository, CategoryRepository, ImportJobRepository } from '../types';
+
+// Archives, import jobs and legacy categories
+
+const JOB_COLUMNS = 'id, user_id, source, status, total, processed, created, duplicates, failed, error, created_at, finished_at';
+
+export const createArchiveRepository = (supabase: SupabaseClient): ArchiveRepository => ({
+  async save(archive) {
+    const { data, error } = await supabase
+      .from('bookmark_archives')
+      .upsert(archive)
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+
+  async find(bookmarkId, userId) {
+    const { data, error } = await supabase
+      .from('bookmark_archives')
+      .select('*')
+      .eq('bookmark_id', bookmarkId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+});
+
+export const createImportJobRepository = (supabase: SupabaseClient): ImportJobRepository => ({
+  async insert(job) {
+    const { data, error } = await supabase
+      .from('import_jobs')
+      .insert({ ...job, status: 'running' })
+      .select(JOB_COLUMNS)
+      .single();
+
+    if (error) throw new AppError(error.message, 400);
+    return { ...data, items: null };
+  },
+
+  async update(id, changes) {
+    const { error } = await supabase.from('import_jobs').update(changes).eq('id', id);
+
+    if (error) throw new AppError(error.message, 400);
+  },
+
+  async find(id, userId) {
+    const { data, error } = await supabase
+      .from('import_jobs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+});
+
+export const createCategoryRepository = (supabase: SupabaseClient): CategoryRepository => ({
+  async list(userId) {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) throw new AppError(error.message, 400);
+    return data || [];
+  },
+
+  async insert(userId, name) {
+    const { data, error } = await supabase
+      .from('categories')
+      .insert({ user_id: userId, name })
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+});
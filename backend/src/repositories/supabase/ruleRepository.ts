@@ -0,0 +1,53 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppError } from '../../middleware/errorHandler';
+import { RuleRepository } from '../types';
+
+export const createRuleRepository = (supabase: SupabaseClient): RuleRepository => ({
+  async list(userId) {
+    const { data, error } = await supabase
+      .from('bookmark_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error) throw new AppError(error.message, 400);
+    return data || [];
+  },
+
+  async insert(rule) {
+    const { data, error } = await supabase
+      .from('bookmark_rules')
+      .insert(rule)
+      .select('*')
+      .single();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+
+  async update(id, userId, changes) {
+    const { data, error } = await supabase
+      .from('bookmark_rules')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  },
+
+  async delete(id, userId) {
+    const { data, error } = await supabase
+      .from('bookmark_rules')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new AppError(error.message, 400);
+    return Boolean(data && data.length > 0);
+  },
+});
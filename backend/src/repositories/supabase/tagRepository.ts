@@ -0,0 +1,190 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Tag } from '../../types';
+import { AppError } from '../../middleware/errorHandler';
+import { BookmarkTagRepository, TagRepository } from '../types';
+
+export const createTagRepository = (supabase: SupabaseClient): TagRepository => {
+  const findByName = async (userId: string, name: string): Promise<Tag | null> => {
+    const { data, error } = await supabase
+      .from('tags')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('name', name)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 400);
+    return data;
+  };
+
+  return {
+    async list(userId) {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('*')
+        .eq('user_id', userId)
+        .order('pinned', { ascending: false })
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    async search(userId, term, limit) {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('*')
+        .eq('user_id', userId)
+        .ilike('name', `%${term}%`)
+        .order('name', { ascending: true })
+        .limit(limit);
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    findByName,
+
+    async findOrCreate(userId, name) {
+      const existing = await findByName(userId, name);
+      if (existing) return existing;
+
+      const { data, error } = await supabase
+        .from('tags')
+        .insert({ user_id: userId, name })
+        .select()
+        .single();
+
+      if (error) {
+        // Lost a race with another request creating the same tag
+        if (error.message.includes('duplicate key')) {
+          const created = await findByName(userId, name);
+          if (created) return created;
+          throw new AppError(`Failed to find or create tag: ${name}`, 400);
+        }
+        throw new AppError(error.message, 400);
+      }
+
+      return data;
+    },
+
+    // A trigger renames the tags below it and creates missing parents
+    async update(id, userId, changes) {
+      const { data, error } = await supabase
+        .from('tags')
+        .update(changes)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) throw new AppError(error.message, 400);
+      return data;
+    },
+
+    async delete(id, userId) {
+      const { data, error } = await supabase
+        .from('tags')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      // The tags below it and the bookmark links go too (ON DELETE CASCADE)
+      if (error) throw new AppError(error.message, 400);
+      return Boolean(data && data.length > 0);
+    },
+
+    async usage(userId) {
+      // Counted up the tree in the database (see database-migration-tag-metadata.sql)
+      const { data, error } = await supabase.rpc('get_tag_usage', { user_uuid: userId });
+
+      if (error) throw new AppError(error.message, 400);
+
+      return ((data || []) as Array<{ tag: Tag; count: number; direct_count: number }>).map(
+        ({ tag, count, direct_count }) => ({ tag, count: Number(count), direct_count: Number(direct_count) })
+      );
+    },
+
+    async popular(userId, limit) {
+      const { data, error } = await supabase.rpc('get_popular_tags', {
+        user_uuid: userId,
+        tag_limit: limit,
+      });
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    // One transaction in the database (see database-migration-tag-aliases.sql)
+    async merge(sourceId, targetId, userId) {
+      const { data, error } = await supabase.rpc('merge_tags', {
+        source_uuid: sourceId,
+        target_uuid: targetId,
+        user_uuid: userId,
+      });
+
+      if (error) throw new AppError(error.message, 400);
+      return Boolean(data);
+    },
+
+    async listAliases(userId) {
+      const { data, error } = await supabase
+        .from('tag_aliases')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+
+      if (error) throw new AppError(error.message, 400);
+      return data || [];
+    },
+
+    async deleteAlias(id, userId) {
+      const { data, error } = await supabase
+        .from('tag_aliases')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) throw new AppError(error.message, 400);
+      return Boolean(data && data.length > 0);
+    },
+  };
+};
+
+// One transaction in the database (see database-migration-tag-writes.sql)
+export const setBookmarkTags = async (
+  supabase: SupabaseClient,
+  bookmarkId: string,
+  userId: string,
+  tagNames: string[],
+  replaceExisting: boolean
+): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('set_bookmark_tags', {
+    bookmark_uuid: bookmarkId,
+    user_uuid: userId,
+    tag_names: tagNames,
+    replace_existing: replaceExisting,
+  });
+
+  if (error) throw new AppError(error.message, 400);
+  return Boolean(data);
+};
+
+export const createBookmarkTagRepository = (supabase: SupabaseClient): BookmarkTagRepository => ({
+  add: (bookmarkId, userId, tagNames) => setBookmarkTags(supabase, bookmarkId, userId, tagNames, false),
+
+  replace: (bookmarkId, userId, tagNames) => setBookmarkTags(supabase, bookmarkId, userId, tagNames, true),
+
+  async remove(bookmarkId, userId, tagNames) {
+    const { data, error } = await supabase.rpc('remove_bookmark_tags', {
+      bookmark_uuid: bookmarkId,
+      user_uuid: userId,
+      tag_names: tagNames,
+    });
+
+    if (error) throw new AppError(error.message, 400);
+    return Boolean(data);
+  },
+});
@@ -0,0 +1,312 @@
+import {
+  ArchiveStatus,
+  Bookmark,
+  BookmarkArchive,
+  BookmarkRule,
+  Category,
+  Collection,
+  EnrichmentStatus,
+  ImportJob,
+  ImportSource,
+  LinkHealth,
+  PageMetadata,
+  PersonalAccessToken,
+  Tag,
+  TagAlias,
+  TagStats,
+  TokenScope,
+  User,
+} from '../types';
+import { SearchQuery } from '../utils/searchQuery';
+import { TagQueryNode } from '../utils/tagQuery';
+
+// Storage-independent access to the backend's data. Services only use these
+// interfaces; index.ts picks the Supabase or SQLite implementation from the
+// STORAGE setting. Implementations throw AppError(400) for queries the
+// store rejects, like the services did when they called Supabase directly.
+
+// A bookmark row, including the worker bookkeeping the API does not document
+export interface BookmarkRecord extends Bookmark {
+  enrichment_attempts?: number;
+  enrichment_error?: string | null;
+  enrichment_next_attempt_at?: string | null;
+  enriched_at?: string | null;
+  link_error?: string | null;
+  link_next_check_at?: string | null;
+}
+
+export interface NewBookmark {
+  user_id: string;
+  url: string;
+  canonical_url: string;
+  title: string;
+  summary?: string | null;
+  category?: string | null;
+  archive_status?: ArchiveStatus | null;
+  created_at?: string; // Defaults to now; imports keep the original date
+  updated_at?: string | null;
+}
+
+export interface BookmarkChanges {
+  url?: string;
+  canonical_url?: string;
+  title?: string;
+  summary?: string | null;
+  category?: string | null;
+  updated_at?: string;
+  deleted_at?: string | null;
+  metadata?: PageMetadata;
+  enrichment_status?: EnrichmentStatus;
+  enrichment_attempts?: number;
+  enrichment_error?: string | null;
+  enrichment_next_attempt_at?: string | null;
+  enriched_at?: string;
+  archive_status?: ArchiveStatus | null;
+  archived_at?: string;
+  link_health?: LinkHealth | null;
+  link_status_code?: number | null;
+  link_redirect_url?: string | null;
+  link_error?: string | null;
+  link_failures?: number;
+  link_checked_at?: string;
+  link_next_check_at?: string;
+}
+
+// Narrows a lookup by id to one user's bookmarks and/or to live
+// (deleted: false) or trashed (deleted: true) ones
+export interface BookmarkScope {
+  userId?: string;
+  deleted?: boolean;
+}
+
+// Filters on a user's live bookmarks; every one that is set must match
+export interface BookmarkQuery {
+  search?: SearchQuery; // Results also carry search_rank, matched_fields and highlights
+  category?: string;
+  health?: LinkHealth;
+  host?: string; // Canonical URL on this host, e.g. `example.com` (see canonicalizeUrl)
+  collection?: string; // Collection id; browsing lists them by position instead of newest first
+  tags?: TagQueryNode;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+// A page of results, newest first (best match first for searches, collection
+// order when browsing a collection)
+export interface BookmarkRange {
+  limit: number;
+  offset?: number;
+  after?: { createdAt: string; id: string }; // Keyset: start below this bookmark; not for collections
+}
+
+// A change bulkUpdate makes to many bookmarks at once
+export type BulkOperation =
+  | { type: 'add_tags' | 'remove_tags' | 'replace_tags'; tags: string[] }
+  | { type: 'delete' } // Live bookmarks only
+  | { type: 'restore' } // Trashed bookmarks only
+  | { type: 'set_category'; category: string | null }
+  | { type: 'add_to_collection' | 'move_to_collection'; collection: string }; // Live bookmarks only
+
+export type LinkCheckTarget = Pick<Bookmark, 'id' | 'url' | 'link_health' | 'link_failures'>;
+
+export interface BookmarkRepository {
+  // With its tags, or null when there is no such bookmark in the scope
+  find(id: string, scope?: BookmarkScope): Promise<BookmarkRecord | null>;
+  // The user's oldest live bookmark with the canonical URL
+  findByCanonicalUrl(userId: string, canonicalUrl: string): Promise<Bookmark | null>;
+  // The user's live bookmarks with any of the canonical URLs
+  findIdsByCanonicalUrls(userId: string, canonicalUrls: string[]): Promise<Array<{ id: string; canonical_url: string }>>;
+  // The user's trashed bookmarks among the ids
+  findTrashedCanonicalUrls(userId: string, ids: string[]): Promise<Array<{ id: string; canonical_url: string }>>;
+  // Together with its tags (created if missing), all or nothing
+  insert(bookmark: NewBookmark, tagNames?: string[]): Promise<Bookmark>;
+  // Inserts all of them or none
+  insertMany(bookmarks: NewBookmark[]): Promise<Array<{ id: string; canonical_url: string }>>;
+  // False when there is no such bookmark in the scope
+  update(id: string, changes: BookmarkChanges, scope?: BookmarkScope): Promise<boolean>;
+  // Applies the operation to the user's bookmarks among the ids, in one
+  // transaction; returns the ids it applied to
+  bulkUpdate(userId: string, ids: string[], operation: BulkOperation): Promise<string[]>;
+  list(userId: string, query: BookmarkQuery, range: BookmarkRange): Promise<Bookmark[]>;
+  count(userId: string, query: BookmarkQuery): Promise<number>;
+  // Live bookmarks oldest first, for exports
+  listOldestFirst(userId: string, after: { createdAt: string; id: string } | null, limit: number): Promise<Bookmark[]>;
+  // Most recently trashed first
+  listTrash(userId: string, limit: number, offset: number): Promise<Bookmark[]>;
+  // Permanently deletes bookmarks trashed at or before the cutoff, with their
+  // tag links and archives; returns how many there were. Every user's
+  // trash unless userId is given.
+  purgeTrash(deletedBefore: string, userId?: string): Promise<number>;
+  // Live bookmarks of any user with a pending enrichment that is due, oldest first
+  findEnrichmentDue(now: string, limit: number): Promise<string[]>;
+  // Live bookmarks of any user due for a link check, never checked first
+  findLinkCheckDue(now: string, limit: number): Promise<LinkCheckTarget[]>;
+  findMissingCanonicalUrl(limit: number): Promise<Array<Pick<Bookmark, 'id' | 'url'>>>;
+}
+
+export interface TagUsage {
+  tag: Tag;
+  count: number;
+}
+
+// Fields of a tag to change; a new name also renames the tags below it
+export interface TagChanges {
+  name?: string;
+  color?: string | null;
+  icon?: string | null;
+  description?: string | null;
+  pinned?: boolean;
+  sort_order?: number;
+}
+
+export interface TagRepository {
+  // Pinned tags first, by sort_order, then the rest by name
+  list(userId: string): Promise<Tag[]>;
+  // Tags whose name contains the term, case-insensitively
+  search(userId: string, term: string, limit: number): Promise<Tag[]>;
+  findByName(userId: string, name: string): Promise<Tag | null>;
+  // The user's tag with this name, created if there is none yet. Tags above a
+  // nested name (`dev` and `dev/frontend` for `dev/frontend/react`) are created too.
+  findOrCreate(userId: string, name: string): Promise<Tag>;
+  // A new name renames the tags below it along with it and creates its new parents
+  update(id: string, userId: string, changes: TagChanges): Promise<Tag | null>;
+  // Also deletes the tags below it and removes all of them from every
+  // bookmark; false when there is no such tag
+  delete(id: string, userId: string): Promise<boolean>;
+  // Every tag with the number of bookmarks it is on, with and without the tags below it
+  usage(userId: string): Promise<TagStats[]>;
+  // The most used tags, most used first
+  popular(userId: string, limit: number): Promise<TagUsage[]>;
+  // Moves the source's bookmarks to the target, deletes the source and keeps
+  // its name (and aliases) as aliases of the target, in one transaction. False
+  // when either tag is not the user's. The source must have no tags below it.
+  merge(sourceId: string, targetId: string, userId: string): Promise<boolean>;
+  listAliases(userId: string): Promise<TagAlias[]>;
+  deleteAlias(id: string, userId: string): Promise<boolean>;
+}
+
+// Each call writes the whole list in one transaction. All of them return false,
+// changing nothing, when the bookmark is not the user's.
+export interface BookmarkTagRepository {
+  // Creates the tags the user does not have yet; already linked ones are skipped
+  add(bookmarkId: string, userId: string, tagNames: string[]): Promise<boolean>;
+  // Like add, and unlinks every tag not in the list
+  replace(bookmarkId: string, userId: string, tagNames: string[]): Promise<boolean>;
+  // Names without a tag are ignored
+  remove(bookmarkId: string, userId: string, tagNames: string[]): Promise<boolean>;
+}
+
+export interface UserRecord extends User {
+  password_hash: string | null; // null for accounts created before passwords existed
+}
+
+export interface UserRepository {
+  findById(id: string): Promise<User | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  // null when the email is already taken
+  insert(user: { email: string; name: string | null; password_hash: string }): Promise<User | null>;
+}
+
+export interface SessionRepository {
+  insert(session: { user_id: string; token_hash: string; expires_at: string }): Promise<void>;
+  // The user of a session that has not expired by `now`
+  findUserId(tokenHash: string, now: string): Promise<string | null>;
+  delete(tokenHash: string): Promise<void>;
+  deleteExpired(userId: string, now: string): Promise<void>;
+}
+
+export interface NewAccessToken {
+  user_id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scopes: TokenScope[];
+  expires_at: string | null;
+}
+
+export type AccessTokenRecord = Pick<PersonalAccessToken, 'id' | 'scopes' | 'expires_at' | 'last_used_at'> & {
+  user_id: string;
+};
+
+export interface AccessTokenRepository {
+  insert(token: NewAccessToken): Promise<PersonalAccessToken>;
+  // Tokens that have not been revoked, newest first
+  list(userId: string): Promise<PersonalAccessToken[]>;
+  // False when there is no such token or it was already revoked
+  revoke(id: string, userId: string, revokedAt: string): Promise<boolean>;
+  // An unrevoked token, expired or not
+  findByHash(tokenHash: string): Promise<AccessTokenRecord | null>;
+  touch(id: string, usedAt: string): Promise<void>;
+}
+
+export interface ArchiveRepository {
+  // Replaces any previous archive of the bookmark
+  save(archive: BookmarkArchive): Promise<BookmarkArchive>;
+  find(bookmarkId: string, userId: string): Promise<BookmarkArchive | null>;
+}
+
+export type ImportJobChanges = Partial<
+  Pick<ImportJob, 'status' | 'processed' | 'created' | 'duplicates' | 'failed' | 'items' | 'error' | 'finished_at'>
+>;
+
+export interface ImportJobRepository {
+  // A running job; items is null until it has finished
+  insert(job: { user_id: string; source: ImportSource; total: number }): Promise<ImportJob>;
+  update(id: string, changes: ImportJobChanges): Promise<void>;
+  find(id: string, userId: string): Promise<ImportJob | null>;
+}
+
+export interface CategoryRepository {
+  list(userId: string): Promise<Category[]>;
+  insert(userId: string, name: string): Promise<Category>;
+}
+
+export type NewRule = Pick<BookmarkRule, 'user_id' | 'name' | 'enabled' | 'conditions' | 'actions'>;
+
+export type RuleChanges = Partial<Pick<BookmarkRule, 'name' | 'enabled' | 'conditions' | 'actions' | 'updated_at'>>;
+
+export interface RuleRepository {
+  // Oldest first, the order the rules run in
+  list(userId: string): Promise<BookmarkRule[]>;
+  insert(rule: NewRule): Promise<BookmarkRule>;
+  // null when there is no such rule
+  update(id: string, userId: string, changes: RuleChanges): Promise<BookmarkRule | null>;
+  delete(id: string, userId: string): Promise<boolean>;
+}
+
+export type NewCollection = Pick<Collection, 'user_id' | 'name' | 'description'>;
+
+export type CollectionChanges = Partial<Pick<Collection, 'name' | 'description' | 'updated_at'>>;
+
+// Members keep a position within each collection; lower comes first
+export interface CollectionRepository {
+  // By name
+  list(userId: string): Promise<Collection[]>;
+  find(id: string, userId: string): Promise<Collection | null>;
+  insert(collection: NewCollection): Promise<Collection>;
+  // null when there is no such collection
+  update(id: string, userId: string, changes: CollectionChanges): Promise<Collection | null>;
+  delete(id: string, userId: string): Promise<boolean>;
+  // Appends the user's live bookmarks among the ids that are not in the
+  // collection yet, in the given order; false when there is no such collection
+  addBookmarks(id: string, userId: string, bookmarkIds: string[]): Promise<boolean>;
+  // False when the bookmark is not in the user's collection
+  removeBookmark(id: string, userId: string, bookmarkId: string): Promise<boolean>;
+  // Moves the listed members to the front in that order, the others keep
+  // theirs behind them, in one transaction; false when there is no such collection
+  reorder(id: string, userId: string, bookmarkIds: string[]): Promise<boolean>;
+}
+
+export interface Repositories {
+  bookmarks: BookmarkRepository;
+  tags: TagRepository;
+  bookmarkTags: BookmarkTagRepository;
+  users: UserRepository;
+  sessions: SessionRepository;
+  accessTokens: AccessTokenRepository;
+  archives: ArchiveRepository;
+  importJobs: ImportJobRepository;
+  categories: CategoryRepository;
+  rules: RuleRepository;
+  collections: CollectionRepository;
+}
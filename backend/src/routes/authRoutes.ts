@@ -0,0 +1,99 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { auth, getBearerToken, requireSession } from '../middleware/auth';
+import { getUser, login, logout, register } from '../services/authService';
+
+const router = Router();
+
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// POST /api/auth/register - Create an account and sign in
+router.post('/register', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, password, name } = req.body;
+
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid email is required',
+      });
+    }
+
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      });
+    }
+
+    if (name !== undefined && typeof name !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Name must be a string',
+      });
+    }
+
+    const session = await register({ email, password, name });
+
+    res.status(201).json({
+      success: true,
+      data: session,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/login - Sign in with email and password
+router.post('/login', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, password } = req.body;
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email and password are required',
+      });
+    }
+
+    const session = await login({ email, password });
+
+    res.json({
+      success: true,
+      data: session,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/logout - End the current session
+router.post('/logout', auth, requireSession, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await logout(getBearerToken(req)!);
+
+    res.json({
+      success: true,
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/auth/me - The signed-in user
+router.get('/me', auth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const user = await getUser(userId);
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,40 +1,36 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { auth } from '../middleware/auth';
+import { auth, requireScope } from '../middleware/auth';
+import { validate } from '../middleware/validate';
 import { 
   createBookmark, 
   getBookmarks, 
   getBookmarkWithTags,
-  updateBookmarkTags 
+  updateBookmarkTags,
+  updateBookmark,
+  deleteBookmark,
+  restoreBookmark,
+  getTrash,
+  purgeTrash
 } from '../services/bookmarkService';
-import { CreateBookmarkDto, BookmarkFilters } from '../types';
+import { bulkUpdateBookmarks } from '../services/bulkService';
+import { requeueEnrichment } from '../services/enrichmentService';
+import { captureArchive, getArchive } from '../services/archiveService';
+import { checkLink, applyRedirect } from '../services/linkCheckService';
+import { bookmarkApi } from '../schemas/bookmarkSchemas';
+import { CreateBookmarkDto, UpdateBookmarkDto, BookmarkFilters, BulkBookmarkRequest } from '../types';
 
 const router = Router();
 
 // POST /api/bookmarks - Create a new bookmark
-router.post('/', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', auth, requireScope('bookmarks:write'), validate(bookmarkApi.create), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const bookmarkData: CreateBookmarkDto = req.body;
 
-    // Validate required fields
-    if (!bookmarkData.url || !bookmarkData.title) {
-      return res.status(400).json({
-        success: false,
-        error: 'URL and title are required',
-      });
-    }
-
-    // Validate tags if provided
-    if (bookmarkData.tags && !Array.isArray(bookmarkData.tags)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Tags must be an array of strings',
-      });
-    }
-
     const bookmark = await createBookmark(userId, bookmarkData);
 
-    res.status(201).json({
+    // An already saved URL returns the existing bookmark with `duplicate: true`
+    res.status(bookmark.duplicate ? 200 : 201).json({
       success: true,
       error: null,
       data: bookmark,
@@ -45,31 +41,32 @@ router.post('/', auth, async (req: Request, res: Response, next: NextFunction) =
 });
 
 // GET /api/bookmarks - Get bookmarks with filters
-router.get('/', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', auth, requireScope('bookmarks:read'), validate(bookmarkApi.list), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const filters: BookmarkFilters = res.locals.query;
+
+    const page = await getBookmarks(userId, filters);
+
+    res.json({
+      success: true,
+      data: page.bookmarks,
+      pagination: {
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+        total: page.total,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/bookmarks/trash - Get bookmarks in the trash
+router.get('/trash', auth, requireScope('bookmarks:read'), validate(bookmarkApi.trash), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
-    
-    // Parse tags parameter (can be comma-separated string or array)
-    let tags: string[] | undefined;
-    if (req.query.tags) {
-      if (Array.isArray(req.query.tags)) {
-        tags = req.query.tags as string[];
-      } else {
-        tags = (req.query.tags as string).split(',').map(tag => tag.trim());
-      }
-    }
-
-    const filters: BookmarkFilters = {
-      search: req.query.search as string,
-      category: req.query.category as string, // Keep for backward compatibility
-      tags,
-      startDate: req.query.startDate as string,
-      endDate: req.query.endDate as string,
-      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
-    };
-
-    const bookmarks = await getBookmarks(userId, filters);
+    const bookmarks = await getTrash(userId, res.locals.query);
 
     res.json({
       success: true,
@@ -80,11 +77,46 @@ router.get('/', auth, async (req: Request, res: Response, next: NextFunction) =>
   }
 });
 
+// DELETE /api/bookmarks/trash - Permanently delete trashed bookmarks
+router.delete('/trash', auth, requireScope('bookmarks:write'), validate(bookmarkApi.purgeTrash), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const { olderThanDays } = res.locals.query;
+
+    const purged = await purgeTrash(userId, olderThanDays);
+
+    res.json({
+      success: true,
+      data: { purged },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/bookmarks/bulk - Apply one action to many bookmarks in one transaction
+router.post('/bulk', auth, requireScope('bookmarks:write'), validate(bookmarkApi.bulk), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const request: BulkBookmarkRequest = req.body;
+
+    const result = await bulkUpdateBookmarks(userId, request);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/bookmarks/:id - Get a specific bookmark with tags
-router.get('/:id', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', auth, requireScope('bookmarks:read'), validate(bookmarkApi.get), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const userId = req.userId!;
     const bookmarkId = req.params.id;
-    const bookmark = await getBookmarkWithTags(bookmarkId);
+    const bookmark = await getBookmarkWithTags(bookmarkId, userId);
 
     res.json({
       success: true,
@@ -96,20 +128,12 @@ router.get('/:id', auth, async (req: Request, res: Response, next: NextFunction)
 });
 
 // PUT /api/bookmarks/:id/tags - Update tags for a bookmark
-router.put('/:id/tags', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id/tags', auth, requireScope('bookmarks:write'), validate(bookmarkApi.setTags), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const bookmarkId = req.params.id;
     const { tags } = req.body;
 
-    // Validate tags parameter
-    if (!Array.isArray(tags)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Tags must be an array of strings',
-      });
-    }
-
     const bookmark = await updateBookmarkTags(bookmarkId, tags, userId);
 
     res.json({
@@ -121,4 +145,134 @@ router.put('/:id/tags', auth, async (req: Request, res: Response, next: NextFunc
   }
 });
 
+// PATCH /api/bookmarks/:id - Update title, summary, category or tags
+router.patch('/:id', auth, requireScope('bookmarks:write'), validate(bookmarkApi.update), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const bookmarkId = req.params.id;
+    const updates: UpdateBookmarkDto = req.body;
+
+    const bookmark = await updateBookmark(bookmarkId, userId, updates);
+
+    res.json({
+      success: true,
+      data: bookmark,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/bookmarks/:id - Move a bookmark to the trash
+router.delete('/:id', auth, requireScope('bookmarks:write'), validate(bookmarkApi.remove), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const bookmarkId = req.params.id;
+
+    await deleteBookmark(bookmarkId, userId);
+
+    res.json({
+      success: true,
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/bookmarks/:id/restore - Restore a bookmark from the trash
+router.post('/:id/restore', auth, requireScope('bookmarks:write'), validate(bookmarkApi.restore), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const bookmarkId = req.params.id;
+
+    const bookmark = await restoreBookmark(bookmarkId, userId);
+
+    res.json({
+      success: true,
+      data: bookmark,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/bookmarks/:id/enrich - Fetch the page metadata again
+router.post('/:id/enrich', auth, requireScope('bookmarks:write'), validate(bookmarkApi.enrich), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const bookmarkId = req.params.id;
+
+    await requeueEnrichment(bookmarkId, userId);
+    const bookmark = await getBookmarkWithTags(bookmarkId, userId);
+
+    res.json({
+      success: true,
+      data: bookmark,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/bookmarks/:id/archive - Get the offline copy of a bookmark's page
+router.get('/:id/archive', auth, requireScope('bookmarks:read'), validate(bookmarkApi.getArchive), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const archive = await getArchive(req.params.id, userId);
+
+    res.json({
+      success: true,
+      data: archive,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/bookmarks/:id/archive - Capture (or refresh) the offline copy now
+router.post('/:id/archive', auth, requireScope('bookmarks:write'), validate(bookmarkApi.captureArchive), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const archive = await captureArchive(req.params.id, userId);
+
+    res.status(201).json({
+      success: true,
+      data: archive,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/bookmarks/:id/check-link - Check whether the URL still resolves
+router.post('/:id/check-link', auth, requireScope('bookmarks:write'), validate(bookmarkApi.checkLink), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const bookmark = await checkLink(req.params.id, userId);
+
+    res.json({
+      success: true,
+      data: bookmark,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/bookmarks/:id/apply-redirect - Replace the URL with its redirect target
+router.post('/:id/apply-redirect', auth, requireScope('bookmarks:write'), validate(bookmarkApi.applyRedirect), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const bookmark = await applyRedirect(req.params.id, userId);
+
+    res.json({
+      success: true,
+      data: bookmark,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
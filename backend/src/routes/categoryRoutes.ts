@@ -1,10 +1,12 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { auth } from '../middleware/auth';
+import { auth, requireScope } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { categoryApi } from '../schemas/categorySchemas';
 import { getCategories, createCategory } from '../services/categoryService';
 
 const router = Router();
 
-router.get('/', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', auth, requireScope('tags:read'), validate(categoryApi.list), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const categories = await getCategories(userId);
@@ -18,18 +20,11 @@ router.get('/', auth, async (req: Request, res: Response, next: NextFunction) =>
   }
 });
 
-router.post('/', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', auth, requireScope('tags:admin'), validate(categoryApi.create), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const { name } = req.body;
 
-    if (!name) {
-      return res.status(400).json({
-        success: false,
-        error: 'Category name is required',
-      });
-    }
-
     const category = await createCategory(userId, name);
 
     res.status(201).json({
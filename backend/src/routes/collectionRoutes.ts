@@ -0,0 +1,138 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { auth, requireScope } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { collectionApi } from '../schemas/collectionSchemas';
+import {
+  addBookmarksToCollection,
+  createCollection,
+  deleteCollection,
+  getCollection,
+  getCollections,
+  removeBookmarkFromCollection,
+  reorderCollection,
+  updateCollection
+} from '../services/collectionService';
+
+const router = Router();
+
+// GET /api/collections - List collections by name
+router.get('/', auth, requireScope('bookmarks:read'), validate(collectionApi.list), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const collections = await getCollections(userId);
+
+    res.json({
+      success: true,
+      data: collections,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/collections - Create a collection
+router.post('/', auth, requireScope('bookmarks:write'), validate(collectionApi.create), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const collection = await createCollection(userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: collection,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/collections/:id - Get a collection
+router.get('/:id', auth, requireScope('bookmarks:read'), validate(collectionApi.get), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const collection = await getCollection(req.params.id, userId);
+
+    res.json({
+      success: true,
+      data: collection,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/collections/:id - Rename a collection or change its description
+router.put('/:id', auth, requireScope('bookmarks:write'), validate(collectionApi.update), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const collection = await updateCollection(req.params.id, userId, req.body);
+
+    res.json({
+      success: true,
+      data: collection,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/collections/:id - Delete a collection, keeping its bookmarks
+router.delete('/:id', auth, requireScope('bookmarks:write'), validate(collectionApi.remove), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    await deleteCollection(req.params.id, userId);
+
+    res.json({
+      success: true,
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/collections/:id/bookmarks - Add bookmarks to the end of a collection
+router.post('/:id/bookmarks', auth, requireScope('bookmarks:write'), validate(collectionApi.addBookmarks), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const collection = await addBookmarksToCollection(req.params.id, userId, req.body.bookmarkIds);
+
+    res.json({
+      success: true,
+      data: collection,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/collections/:id/bookmarks/:bookmarkId - Take a bookmark out of a collection
+router.delete('/:id/bookmarks/:bookmarkId', auth, requireScope('bookmarks:write'), validate(collectionApi.removeBookmark), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    await removeBookmarkFromCollection(req.params.id, userId, req.params.bookmarkId);
+
+    res.json({
+      success: true,
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/collections/:id/order - Move the listed bookmarks to the front, in that order
+router.put('/:id/order', auth, requireScope('bookmarks:write'), validate(collectionApi.reorder), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    await reorderCollection(req.params.id, userId, req.body.bookmarkIds);
+
+    res.json({
+      success: true,
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
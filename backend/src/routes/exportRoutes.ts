@@ -0,0 +1,95 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { auth, requireScope } from '../middleware/auth';
+import { getAllBookmarks, iterateBookmarks } from '../services/exportService';
+import { renderNetscape } from '../utils/netscape';
+import { csvHeader, jsonFileEnd, jsonFileStart, toCsvEntry, toJsonEntry } from '../utils/libraryFile';
+
+const router = Router();
+
+const EXPORT_FORMATS = ['json', 'csv'];
+
+const exportFileName = (extension: string): string =>
+  `bookmarks-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+// Resolves once the chunk is flushed, or the client has gone away
+const writeChunk = (res: Response, chunk: string): Promise<void> =>
+  new Promise(resolve => {
+    if (res.write(chunk)) return resolve();
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+
+// GET /api/export?format=json|csv - Stream the whole library as JSON or CSV
+router.get('/', auth, requireScope('bookmarks:read'), async (req: Request, res: Response, next: NextFunction) => {
+  const userId = req.userId!;
+  const format = (req.query.format as string) || 'json';
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`,
+    });
+  }
+
+  const pages = iterateBookmarks(userId);
+
+  try {
+    // The first page is read before anything is sent, so a failing query
+    // still gets a proper error response
+    let page = await pages.next();
+
+    res
+      .type(format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8')
+      .attachment(exportFileName(format));
+
+    let first = true;
+    await writeChunk(res, format === 'csv' ? csvHeader() : jsonFileStart());
+
+    while (!page.done && !res.destroyed) {
+      const chunk = page.value
+        .map(bookmark => {
+          const entry = format === 'csv' ? toCsvEntry(bookmark) : toJsonEntry(bookmark, first);
+          first = false;
+          return entry;
+        })
+        .join('');
+
+      await writeChunk(res, chunk);
+      page = await pages.next();
+    }
+
+    if (format === 'json') await writeChunk(res, jsonFileEnd());
+    res.end();
+  } catch (error) {
+    await pages.return(undefined);
+    // Once the download has started the only way to signal failure is to cut it short
+    if (res.headersSent) {
+      console.error('Export failed mid-stream:', error);
+      res.destroy();
+    } else {
+      next(error);
+    }
+  }
+});
+
+// GET /api/export/netscape - Download the library as a browser bookmarks.html file
+router.get('/netscape', auth, requireScope('bookmarks:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const bookmarks = await getAllBookmarks(userId);
+
+    res
+      .type('text/html; charset=utf-8')
+      .attachment(exportFileName('html'))
+      .send(renderNetscape(bookmarks));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,128 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { auth, requireScope } from '../middleware/auth';
+import { getImportJob, previewImport, startImportJob } from '../services/importService';
+import { parseNetscape } from '../utils/netscape';
+import { parseLibraryCsv, parseLibraryJson } from '../utils/libraryFile';
+import { parsePinboard, parsePocket, parseRaindrop } from '../utils/readLaterExports';
+import { ImportBookmark, ImportSource } from '../types';
+
+const router = Router();
+
+// Import files are sent as the raw request body
+const rawFile = express.text({
+  type: ['text/*', 'application/json', 'application/octet-stream'],
+  limit: process.env.IMPORT_MAX_SIZE || '50mb',
+});
+
+const PARSERS: Record<ImportSource, (text: string) => ImportBookmark[]> = {
+  netscape: parseNetscape,
+  json: parseLibraryJson,
+  csv: parseLibraryCsv,
+  pocket: parsePocket,
+  pinboard: parsePinboard,
+  raindrop: parseRaindrop,
+};
+
+const IMPORT_SOURCES = Object.keys(PARSERS);
+
+// Parses the uploaded file, or answers 400 and returns null
+const readUpload = (req: Request, res: Response, source: string): ImportBookmark[] | null => {
+  const fail = (error: string) => {
+    res.status(400).json({ success: false, error });
+    return null;
+  };
+
+  if (!IMPORT_SOURCES.includes(source)) {
+    return fail(`Invalid source. Must be one of: ${IMPORT_SOURCES.join(', ')}`);
+  }
+
+  let text: unknown = req.body;
+
+  // A bookmarks.html file may also be sent as { "html": "..." }
+  if (source === 'netscape' && typeof text === 'string' && req.is('application/json')) {
+    try {
+      text = JSON.parse(text).html;
+    } catch {
+      text = undefined;
+    }
+  }
+
+  if (typeof text !== 'string' || text.trim() === '') {
+    return fail('Send the export file as the request body');
+  }
+
+  let bookmarks: ImportBookmark[];
+  try {
+    bookmarks = PARSERS[source as ImportSource](text);
+  } catch (error) {
+    return fail(`Invalid ${source} file: ${(error as Error).message}`);
+  }
+
+  if (!bookmarks.some(bookmark => bookmark.url)) {
+    return fail('No bookmarks found in the file');
+  }
+
+  return bookmarks;
+};
+
+const startImport = async (req: Request, res: Response, next: NextFunction, source: string) => {
+  try {
+    const userId = req.userId!;
+    const bookmarks = readUpload(req, res, source);
+    if (!bookmarks) return;
+
+    const job = await startImportJob(userId, source as ImportSource, bookmarks);
+
+    res.status(202).json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/import?format=json|csv - Import a library file written by GET /api/export
+router.post('/', auth, requireScope('bookmarks:write'), rawFile, (req: Request, res: Response, next: NextFunction) =>
+  startImport(req, res, next, (req.query.format as string) || (req.is('text/csv') ? 'csv' : 'json'))
+);
+
+// POST /api/import/:source/preview - Dry run: what an import of the file would create and skip
+router.post('/:source/preview', auth, requireScope('bookmarks:write'), rawFile, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const bookmarks = readUpload(req, res, req.params.source);
+    if (!bookmarks) return;
+
+    const preview = await previewImport(userId, bookmarks);
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/import/:source - Import a netscape, json, csv, pocket, pinboard or raindrop export
+router.post('/:source', auth, requireScope('bookmarks:write'), rawFile, (req: Request, res: Response, next: NextFunction) =>
+  startImport(req, res, next, req.params.source)
+);
+
+// GET /api/import/jobs/:id - Progress of an import, with the per-item report once done
+router.get('/jobs/:id', auth, requireScope('bookmarks:write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const job = await getImportJob(req.params.id, userId);
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
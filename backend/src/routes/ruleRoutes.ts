@@ -0,0 +1,84 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { auth, requireScope } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { ruleApi } from '../schemas/ruleSchemas';
+import { applyRules, createRule, deleteRule, getRules, updateRule } from '../services/ruleService';
+
+const router = Router();
+
+// GET /api/rules - List rules in the order they run
+router.get('/', auth, requireScope('bookmarks:read'), validate(ruleApi.list), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const rules = await getRules(userId);
+
+    res.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/rules - Create a rule
+router.post('/', auth, requireScope('bookmarks:write'), validate(ruleApi.create), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const rule = await createRule(userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/rules/apply - Run rules on saved bookmarks, or preview it (the default)
+router.post('/apply', auth, requireScope('bookmarks:write'), validate(ruleApi.apply), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const result = await applyRules(userId, req.body);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/rules/:id - Change a rule
+router.put('/:id', auth, requireScope('bookmarks:write'), validate(ruleApi.update), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const rule = await updateRule(req.params.id, userId, req.body);
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/rules/:id - Delete a rule
+router.delete('/:id', auth, requireScope('bookmarks:write'), validate(ruleApi.remove), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    await deleteRule(req.params.id, userId);
+
+    res.json({
+      success: true,
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { auth } from '../middleware/auth';
+import { auth, requireScope } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { tagApi } from '../schemas/tagSchemas';
 import { 
   getTags, 
   createTag, 
@@ -7,16 +9,21 @@ import {
   deleteTag, 
   getTagUsageStats, 
   searchTags,
-  getPopularTags 
+  getPopularTags,
+  suggestTags,
+  mergeTag,
+  getMergeSuggestions,
+  getTagAliases,
+  deleteTagAlias
 } from '../services/tagService';
 
 const router = Router();
 
 // GET /api/tags - Get all tags for user
-router.get('/', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', auth, requireScope('tags:read'), validate(tagApi.list), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
-    const search = req.query.search as string;
+    const { search } = res.locals.query;
     
     let tags;
     if (search) {
@@ -35,18 +42,11 @@ router.get('/', auth, async (req: Request, res: Response, next: NextFunction) =>
 });
 
 // POST /api/tags - Create a new tag
-router.post('/', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', auth, requireScope('tags:admin'), validate(tagApi.create), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const { name } = req.body;
 
-    if (!name || typeof name !== 'string' || name.trim().length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Tag name is required and must be a non-empty string',
-      });
-    }
-
     const tag = await createTag(userId, name);
 
     res.status(201).json({
@@ -58,21 +58,13 @@ router.post('/', auth, async (req: Request, res: Response, next: NextFunction) =
   }
 });
 
-// PUT /api/tags/:id - Update a tag
-router.put('/:id', auth, async (req: Request, res: Response, next: NextFunction) => {
+// PUT /api/tags/:id - Rename a tag or change how it is shown
+router.put('/:id', auth, requireScope('tags:admin'), validate(tagApi.update), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const tagId = req.params.id;
-    const { name } = req.body;
-
-    if (!name || typeof name !== 'string' || name.trim().length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Tag name is required and must be a non-empty string',
-      });
-    }
 
-    const tag = await updateTag(tagId, userId, name);
+    const tag = await updateTag(tagId, userId, req.body);
 
     res.json({
       success: true,
@@ -84,7 +76,7 @@ router.put('/:id', auth, async (req: Request, res: Response, next: NextFunction)
 });
 
 // DELETE /api/tags/:id - Delete a tag
-router.delete('/:id', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', auth, requireScope('tags:admin'), validate(tagApi.remove), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const tagId = req.params.id;
@@ -101,7 +93,7 @@ router.delete('/:id', auth, async (req: Request, res: Response, next: NextFuncti
 });
 
 // GET /api/tags/stats - Get tag usage statistics
-router.get('/stats', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/stats', auth, requireScope('tags:read'), validate(tagApi.stats), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const stats = await getTagUsageStats(userId);
@@ -116,11 +108,11 @@ router.get('/stats', auth, async (req: Request, res: Response, next: NextFunctio
 });
 
 // GET /api/tags/popular - Get popular tags
-router.get('/popular', auth, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/popular', auth, requireScope('tags:read'), validate(tagApi.popular), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-    
+    const { limit } = res.locals.query;
+
     const popularTags = await getPopularTags(userId, limit);
 
     res.json({
@@ -132,4 +124,81 @@ router.get('/popular', auth, async (req: Request, res: Response, next: NextFunct
   }
 });
 
+// GET /api/tags/suggest - Ranked tags for a page about to be saved
+router.get('/suggest', auth, requireScope('tags:read'), validate(tagApi.suggest), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const { url, title, limit } = res.locals.query;
+
+    const suggestions = await suggestTags(userId, { url, title }, limit);
+
+    res.json({
+      success: true,
+      data: suggestions,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/tags/merge-suggestions - Tags with near-identical names
+router.get('/merge-suggestions', auth, requireScope('tags:read'), validate(tagApi.mergeSuggestions), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const suggestions = await getMergeSuggestions(req.userId!);
+
+    res.json({
+      success: true,
+      data: suggestions,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/tags/aliases - Names of merged tags
+router.get('/aliases', auth, requireScope('tags:read'), validate(tagApi.aliases), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const aliases = await getTagAliases(req.userId!);
+
+    res.json({
+      success: true,
+      data: aliases,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/tags/aliases/:id - Delete an alias
+router.delete('/aliases/:id', auth, requireScope('tags:admin'), validate(tagApi.removeAlias), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await deleteTagAlias(req.params.id, req.userId!);
+
+    res.json({
+      success: true,
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/tags/:id/merge - Merge a tag into another
+router.post('/:id/merge', auth, requireScope('tags:admin'), validate(tagApi.merge), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const tagId = req.params.id;
+    const { targetId } = req.body;
+
+    const tag = await mergeTag(tagId, targetId, userId);
+
+    res.json({
+      success: true,
+      data: tag,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
\ No newline at end of file
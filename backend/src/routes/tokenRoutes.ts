@@ -0,0 +1,90 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { auth, requireSession } from '../middleware/auth';
+import { createToken, listTokens, revokeToken, TOKEN_SCOPES } from '../services/tokenService';
+import { TokenScope } from '../types';
+
+const router = Router();
+
+const MAX_NAME_LENGTH = 100;
+const MAX_EXPIRY_DAYS = 3650;
+
+// Tokens are managed from a signed-in session only, so a token can never be
+// used to mint another one with more access
+
+// POST /api/tokens - Create a token; the response is the only time it is shown
+router.post('/', auth, requireSession, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const { name, scopes, expires_in_days } = req.body;
+
+    if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Token name is required (at most ${MAX_NAME_LENGTH} characters)`,
+      });
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every((scope: unknown) => TOKEN_SCOPES.includes(scope as TokenScope))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `scopes must be a non-empty array of: ${TOKEN_SCOPES.join(', ')}`,
+      });
+    }
+
+    if (
+      expires_in_days !== undefined &&
+      expires_in_days !== null &&
+      (!Number.isInteger(expires_in_days) || expires_in_days < 1 || expires_in_days > MAX_EXPIRY_DAYS)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `expires_in_days must be a whole number between 1 and ${MAX_EXPIRY_DAYS}`,
+      });
+    }
+
+    const token = await createToken(userId, { name, scopes, expires_in_days: expires_in_days ?? undefined });
+
+    res.status(201).json({
+      success: true,
+      data: token,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/tokens - List tokens that have not been revoked
+router.get('/', auth, requireSession, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const tokens = await listTokens(userId);
+
+    res.json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/tokens/:id - Revoke a token
+router.delete('/:id', auth, requireSession, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    await revokeToken(req.params.id, userId);
+
+    res.json({
+      success: true,
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { createBookmarkBody } from './bookmarkSchemas';
+
+describe('createBookmarkBody', () => {
+  it.each(['https://example.com/', 'http://example.com/page?q=1', 'HTTPS://EXAMPLE.COM/'])('accepts %s', url => {
+    expect(createBookmarkBody.safeParse({ url, title: 'Page' }).success).toBe(true);
+  });
+
+  it.each(['javascript:alert(1)', 'data:text/html,<script>alert(1)</script>', 'file:///etc/passwd', 'ftp://example.com/', 'not a url'])(
+    'rejects %s',
+    url => {
+      expect(createBookmarkBody.safeParse({ url, title: 'Page' }).success).toBe(false);
+    }
+  );
+});
@@ -0,0 +1,317 @@
+import { z } from 'zod';
+import { ApiRoute, dataResponse, emptyResponse, idParams, limitQuery, offsetQuery } from './common';
+
+const tagNames = z.array(z.string().trim().min(1, 'Tags must be non-empty strings'));
+
+// YYYY-MM-DD, as sent by date inputs, or a full ISO timestamp
+const dateQuery = z.union([z.iso.date(), z.iso.datetime({ offset: true })]).optional();
+
+const booleanQuery = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const pageMetadataSchema = z
+  .object({
+    title: z.string().nullable(),
+    description: z.string().nullable(),
+    canonical_url: z.string().nullable(),
+    image_url: z.string().nullable(),
+    favicon_url: z.string().nullable(),
+    site_name: z.string().nullable(),
+    language: z.string().nullable(),
+    published_at: z.string().nullable(),
+  })
+  .meta({ id: 'PageMetadata' });
+
+export const bookmarkSchema = z
+  .object({
+    id: z.uuid(),
+    user_id: z.string(),
+    url: z.string(),
+    canonical_url: z.string().nullable().optional(),
+    title: z.string(),
+    summary: z.string().nullable().optional(),
+    category: z.string().nullable().optional(),
+    tags: z.array(z.string()).optional(),
+    created_at: z.string(),
+    updated_at: z.string().nullable().optional(),
+    deleted_at: z.string().nullable().optional().describe('Set while the bookmark is in the trash'),
+    search_rank: z.number().optional().describe('Only set on search results'),
+    matched_fields: z.array(z.enum(['title', 'summary', 'url', 'content'])).optional(),
+    highlights: z
+      .object({
+        title: z.string().optional(),
+        summary: z.string().optional(),
+        url: z.string().optional(),
+        content: z.string().optional(),
+      })
+      .optional()
+      .describe('Matches wrapped in <mark></mark>'),
+    duplicate: z.boolean().optional().describe('Set on create when the URL was already saved'),
+    metadata: pageMetadataSchema.nullable().optional(),
+    enrichment_status: z.enum(['pending', 'done', 'failed']).optional(),
+    archive_status: z.enum(['pending', 'done', 'failed']).nullable().optional(),
+    archived_at: z.string().nullable().optional(),
+    link_health: z.enum(['ok', 'redirected', 'broken']).nullable().optional(),
+    link_status_code: z.number().int().nullable().optional(),
+    link_redirect_url: z.string().nullable().optional(),
+    link_checked_at: z.string().nullable().optional(),
+    link_failures: z.number().int().optional(),
+  })
+  .meta({ id: 'Bookmark' });
+
+const archiveSchema = z
+  .object({
+    bookmark_id: z.uuid(),
+    user_id: z.string(),
+    source_url: z.string(),
+    title: z.string().nullable(),
+    byline: z.string().nullable(),
+    excerpt: z.string().nullable(),
+    content_html: z.string(),
+    content_text: z.string(),
+    word_count: z.number().int(),
+    captured_at: z.string(),
+  })
+  .meta({ id: 'BookmarkArchive' });
+
+export const createBookmarkBody = z.object({
+  // Like imports, only web pages: a javascript: or data: URL would run when the link is opened
+  url: z.url({ protocol: /^https?$/, error: 'Only http and https URLs can be saved' }),
+  title: z.string().trim().min(1),
+  summary: z.string().optional(),
+  category: z.string().optional(),
+  tags: tagNames.optional(),
+  archive: z.boolean().optional().describe('Keep an offline copy of the page'),
+});
+
+export const updateBookmarkBody = z.object({
+  title: z.string().trim().min(1).optional(),
+  summary: z.string().optional(),
+  category: z.string().optional(),
+  tags: tagNames.optional(),
+});
+
+export const bookmarkListQuery = z.object({
+  search: z.string().optional().describe('Full-text query; supports "phrases", OR, -exclusions and prefix*'),
+  category: z.string().optional(),
+  tags: z
+    .union([z.string(), z.array(z.string())])
+    .transform(tags => (Array.isArray(tags) ? tags : tags.split(',')).map(tag => tag.trim()))
+    .optional()
+    .describe('Comma-separated; bookmarks must have all of them'),
+  tagQuery: z.string().optional().describe('e.g. `tag:react AND (tag:hooks OR tag:perf) NOT tag:archived`'),
+  startDate: dateQuery,
+  endDate: dateQuery,
+  health: z.enum(['ok', 'redirected', 'broken']).optional(),
+  collection: z.uuid().optional().describe("A collection's id; without `search` the bookmarks come in the collection's order"),
+  limit: limitQuery(100),
+  offset: offsetQuery.describe('Legacy paging, prefer cursor'),
+  cursor: z.string().optional().describe("A previous page's nextCursor"),
+  includeTotal: booleanQuery.optional(),
+});
+
+export const trashQuery = z.object({
+  limit: limitQuery(100),
+  offset: offsetQuery,
+});
+
+export const purgeTrashQuery = z.object({
+  olderThanDays: z.coerce.number().int().min(0).default(0).describe('Only purge bookmarks trashed this long ago'),
+});
+
+export const bookmarkTagsBody = z.object({
+  tags: tagNames,
+});
+
+const bulkActionSchema = z
+  .discriminatedUnion('type', [
+    z.object({ type: z.literal('add_tags'), tags: tagNames }),
+    z.object({ type: z.literal('remove_tags'), tags: tagNames }),
+    z.object({ type: z.literal('replace_tags'), tags: tagNames }),
+    z.object({ type: z.literal('delete') }).describe('Move to the trash'),
+    z.object({ type: z.literal('restore') }),
+    z.object({ type: z.literal('mark_read') }).describe('Remove the `unread` tag'),
+    z.object({ type: z.literal('move_to_category'), category: z.string().nullable() }),
+    z.object({ type: z.literal('add_to_collection'), collection: z.uuid() })
+      .describe('Append to the end of one of your collections; bookmarks already in it keep their place'),
+    z.object({ type: z.literal('move_to_collection'), collection: z.uuid() })
+      .describe('Like add_to_collection, and take the bookmarks out of your other collections'),
+  ])
+  .meta({ id: 'BulkAction' });
+
+export const bulkBookmarksBody = z
+  .object({
+    ids: z.array(z.uuid()).min(1).optional(),
+    filters: bookmarkListQuery
+      .pick({
+        search: true,
+        category: true,
+        tags: true,
+        tagQuery: true,
+        startDate: true,
+        endDate: true,
+        health: true,
+        collection: true,
+      })
+      .optional()
+      .describe('Same as the GET /api/bookmarks filters; only matches bookmarks outside the trash'),
+    action: bulkActionSchema,
+  })
+  .refine(body => (body.ids === undefined) !== (body.filters === undefined), {
+    message: 'Pass either ids or filters',
+    path: ['ids'],
+  });
+
+const bulkResultSchema = z.object({
+  matched: z.number().int(),
+  updated: z.number().int(),
+  items: z.array(
+    z.object({
+      id: z.uuid(),
+      status: z
+        .enum(['updated', 'not_found', 'duplicate'])
+        .describe(
+          'not_found: missing, or not in the state the action needs (e.g. restoring a live bookmark); ' +
+          'duplicate: not restored because the URL is live in another bookmark'
+        ),
+    })
+  ),
+});
+
+const bookmarkResponse = dataResponse(bookmarkSchema);
+
+const bookmark = (route: Omit<ApiRoute, 'tag' | 'params' | 'response'>): ApiRoute => ({
+  tag: 'Bookmarks',
+  params: idParams,
+  response: bookmarkResponse,
+  ...route,
+});
+
+export const bookmarkApi = {
+  create: {
+    method: 'post',
+    path: '/api/bookmarks',
+    summary: 'Save a bookmark',
+    description: 'A URL that is already saved returns the existing bookmark with `duplicate: true` and status 200.',
+    tag: 'Bookmarks',
+    scope: 'bookmarks:write',
+    body: createBookmarkBody,
+    status: 201,
+    response: bookmarkResponse,
+  },
+  list: {
+    method: 'get',
+    path: '/api/bookmarks',
+    summary: 'List and search bookmarks',
+    tag: 'Bookmarks',
+    scope: 'bookmarks:read',
+    query: bookmarkListQuery,
+    response: dataResponse(z.array(bookmarkSchema)).extend({
+      pagination: z.object({
+        nextCursor: z.string().nullable(),
+        hasMore: z.boolean(),
+        total: z.number().int().optional().describe('Only with includeTotal=true'),
+      }),
+    }),
+  },
+  trash: {
+    method: 'get',
+    path: '/api/bookmarks/trash',
+    summary: 'List bookmarks in the trash',
+    tag: 'Bookmarks',
+    scope: 'bookmarks:read',
+    query: trashQuery,
+    response: dataResponse(z.array(bookmarkSchema)),
+  },
+  purgeTrash: {
+    method: 'delete',
+    path: '/api/bookmarks/trash',
+    summary: 'Permanently delete trashed bookmarks',
+    tag: 'Bookmarks',
+    scope: 'bookmarks:write',
+    query: purgeTrashQuery,
+    response: dataResponse(z.object({ purged: z.number().int() })),
+  },
+  bulk: {
+    method: 'post',
+    path: '/api/bookmarks/bulk',
+    summary: 'Apply one action to many bookmarks',
+    description: 'Picks bookmarks by `ids` or `filters` and changes all of them in one transaction.',
+    tag: 'Bookmarks',
+    scope: 'bookmarks:write',
+    body: bulkBookmarksBody,
+    response: dataResponse(bulkResultSchema),
+  },
+  get: bookmark({
+    method: 'get',
+    path: '/api/bookmarks/{id}',
+    summary: 'Get a bookmark with its tags',
+    scope: 'bookmarks:read',
+  }),
+  setTags: bookmark({
+    method: 'put',
+    path: '/api/bookmarks/{id}/tags',
+    summary: "Replace a bookmark's tags",
+    scope: 'bookmarks:write',
+    body: bookmarkTagsBody,
+  }),
+  update: bookmark({
+    method: 'patch',
+    path: '/api/bookmarks/{id}',
+    summary: 'Update title, summary, category or tags',
+    scope: 'bookmarks:write',
+    body: updateBookmarkBody,
+  }),
+  remove: {
+    method: 'delete',
+    path: '/api/bookmarks/{id}',
+    summary: 'Move a bookmark to the trash',
+    tag: 'Bookmarks',
+    scope: 'bookmarks:write',
+    params: idParams,
+    response: emptyResponse,
+  },
+  restore: bookmark({
+    method: 'post',
+    path: '/api/bookmarks/{id}/restore',
+    summary: 'Restore a bookmark from the trash',
+    description: 'Answers 409 when the URL has been saved again as another bookmark.',
+    scope: 'bookmarks:write',
+  }),
+  enrich: bookmark({
+    method: 'post',
+    path: '/api/bookmarks/{id}/enrich',
+    summary: 'Fetch the page metadata again',
+    scope: 'bookmarks:write',
+  }),
+  getArchive: {
+    method: 'get',
+    path: '/api/bookmarks/{id}/archive',
+    summary: "Get the offline copy of a bookmark's page",
+    tag: 'Bookmarks',
+    scope: 'bookmarks:read',
+    params: idParams,
+    response: dataResponse(archiveSchema),
+  },
+  captureArchive: {
+    method: 'post',
+    path: '/api/bookmarks/{id}/archive',
+    summary: 'Capture (or refresh) the offline copy now',
+    tag: 'Bookmarks',
+    scope: 'bookmarks:write',
+    params: idParams,
+    status: 201,
+    response: dataResponse(archiveSchema),
+  },
+  checkLink: bookmark({
+    method: 'post',
+    path: '/api/bookmarks/{id}/check-link',
+    summary: 'Check whether the URL still resolves',
+    scope: 'bookmarks:write',
+  }),
+  applyRedirect: bookmark({
+    method: 'post',
+    path: '/api/bookmarks/{id}/apply-redirect',
+    summary: 'Replace the URL with its redirect target',
+    scope: 'bookmarks:write',
+  }),
+} satisfies Record<string, ApiRoute>;
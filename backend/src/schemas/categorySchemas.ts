@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { ApiRoute, dataResponse } from './common';
+
+export const categorySchema = z
+  .object({
+    id: z.uuid(),
+    user_id: z.string(),
+    name: z.string(),
+    created_at: z.string(),
+  })
+  .meta({ id: 'Category' });
+
+export const categoryBody = z.object({
+  name: z.string().trim().min(1, 'Category name must be a non-empty string'),
+});
+
+export const categoryApi = {
+  list: {
+    method: 'get',
+    path: '/api/categories',
+    summary: 'List categories',
+    description: 'Kept for clients that predate tags.',
+    tag: 'Categories',
+    scope: 'tags:read',
+    response: dataResponse(z.array(categorySchema)),
+  },
+  create: {
+    method: 'post',
+    path: '/api/categories',
+    summary: 'Create a category',
+    tag: 'Categories',
+    scope: 'tags:admin',
+    body: categoryBody,
+    status: 201,
+    response: dataResponse(categorySchema),
+  },
+} satisfies Record<string, ApiRoute>;
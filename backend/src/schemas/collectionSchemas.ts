@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { ApiRoute, dataResponse, emptyResponse, idParams } from './common';
+
+export const collectionSchema = z
+  .object({
+    id: z.uuid(),
+    user_id: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    bookmark_count: z.number().int().describe('Bookmarks outside the trash'),
+    created_at: z.string(),
+    updated_at: z.string().nullable(),
+  })
+  .meta({ id: 'Collection' });
+
+const collectionName = z.string().trim().min(1, 'Collection name is required').max(100);
+
+const collectionDescription = z.string().max(500).nullable();
+
+export const createCollectionBody = z.object({
+  name: collectionName,
+  description: collectionDescription.optional(),
+});
+
+export const updateCollectionBody = z
+  .object({
+    name: collectionName.optional(),
+    description: collectionDescription.optional().describe('`null` or blank clears it'),
+  })
+  .refine(body => Object.values(body).some(value => value !== undefined), {
+    message: 'Pass at least one field to change',
+  });
+
+export const collectionBookmarksBody = z.object({
+  bookmarkIds: z.array(z.uuid()).min(1).max(1000),
+});
+
+export const collectionBookmarkParams = idParams.extend({
+  bookmarkId: z.uuid(),
+});
+
+export const collectionApi = {
+  list: {
+    method: 'get',
+    path: '/api/collections',
+    summary: 'List collections by name',
+    tag: 'Collections',
+    scope: 'bookmarks:read',
+    response: dataResponse(z.array(collectionSchema)),
+  },
+  get: {
+    method: 'get',
+    path: '/api/collections/{id}',
+    summary: 'Get a collection',
+    description: 'Its bookmarks are listed, in order, by GET /api/bookmarks?collection={id}.',
+    tag: 'Collections',
+    scope: 'bookmarks:read',
+    params: idParams,
+    response: dataResponse(collectionSchema),
+  },
+  create: {
+    method: 'post',
+    path: '/api/collections',
+    summary: 'Create a collection',
+    tag: 'Collections',
+    scope: 'bookmarks:write',
+    body: createCollectionBody,
+    status: 201,
+    response: dataResponse(collectionSchema),
+  },
+  update: {
+    method: 'put',
+    path: '/api/collections/{id}',
+    summary: 'Rename a collection or change its description',
+    tag: 'Collections',
+    scope: 'bookmarks:write',
+    params: idParams,
+    body: updateCollectionBody,
+    response: dataResponse(collectionSchema),
+  },
+  remove: {
+    method: 'delete',
+    path: '/api/collections/{id}',
+    summary: 'Delete a collection',
+    description: 'Its bookmarks are kept.',
+    tag: 'Collections',
+    scope: 'bookmarks:write',
+    params: idParams,
+    response: emptyResponse,
+  },
+  addBookmarks: {
+    method: 'post',
+    path: '/api/collections/{id}/bookmarks',
+    summary: 'Add bookmarks to the end of a collection',
+    description: 'In the given order. Bookmarks already in the collection stay where they are; ids of missing or trashed bookmarks are skipped.',
+    tag: 'Collections',
+    scope: 'bookmarks:write',
+    params: idParams,
+    body: collectionBookmarksBody,
+    response: dataResponse(collectionSchema),
+  },
+  removeBookmark: {
+    method: 'delete',
+    path: '/api/collections/{id}/bookmarks/{bookmarkId}',
+    summary: 'Take a bookmark out of a collection',
+    tag: 'Collections',
+    scope: 'bookmarks:write',
+    params: collectionBookmarkParams,
+    response: emptyResponse,
+  },
+  reorder: {
+    method: 'put',
+    path: '/api/collections/{id}/order',
+    summary: 'Reorder a collection',
+    description: 'The listed bookmarks move to the front in that order; the others keep their order behind them.',
+    tag: 'Collections',
+    scope: 'bookmarks:write',
+    params: idParams,
+    body: collectionBookmarksBody,
+    response: emptyResponse,
+  },
+} satisfies Record<string, ApiRoute>;
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { TokenScope } from '../types';
+
+// A route's contract: the `validate` middleware checks requests against it
+// and the OpenAPI document at /api/openapi.json is generated from it
+export interface ApiRoute {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+  path: string; // OpenAPI style, e.g. /api/bookmarks/{id}
+  summary: string;
+  description?: string;
+  tag: string; // Groups operations in the document
+  scope: TokenScope; // Required of personal access tokens
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  status?: number; // Success status, 200 when omitted
+  response: z.ZodType;
+}
+
+export const idParams = z.object({
+  id: z.uuid(),
+});
+
+// Query strings only carry strings, so numbers are coerced
+export const limitQuery = (max: number) =>
+  z.coerce.number().int().min(1).max(max).optional().describe(`Page size, at most ${max}`);
+
+export const offsetQuery = z.coerce.number().int().min(0).optional();
+
+export const fieldErrorSchema = z.object({
+  path: z.string().describe('Location of the field, e.g. `query.limit` or `body.tags.0`'),
+  message: z.string(),
+});
+
+export const errorResponse = z
+  .object({
+    success: z.literal(false),
+    error: z.string(),
+    details: z.array(fieldErrorSchema).optional().describe('Every invalid field, on 400 responses'),
+  })
+  .meta({ id: 'Error' });
+
+export const dataResponse = <T extends z.ZodType>(data: T) =>
+  z.object({
+    success: z.literal(true),
+    data,
+  });
+
+export const emptyResponse = dataResponse(z.null());
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { ApiRoute, dataResponse, emptyResponse, idParams } from './common';
+import { isValidRegExp } from '../utils/rules';
+
+const pattern = z.string().trim().min(1).max(200);
+
+// RE2 syntax: no lookaround or backreferences, so matching stays linear
+const regExpPattern = pattern.refine(isValidRegExp, 'Not a valid RE2 regular expression');
+
+export const ruleConditionsSchema = z
+  .object({
+    host: pattern.optional().describe('`github.com` also matches its subdomains; `*` is a wildcard'),
+    path: pattern.optional().describe('URL path, e.g. `/docs/*`'),
+    title: regExpPattern.optional().describe('Regular expression (RE2 syntax), case-insensitive'),
+    summary: regExpPattern.optional().describe('Regular expression (RE2 syntax), case-insensitive'),
+  })
+  .refine(conditions => Object.values(conditions).some(value => value !== undefined), {
+    message: 'A rule needs at least one condition',
+  })
+  .meta({ id: 'RuleConditions' });
+
+export const ruleActionsSchema = z
+  .object({
+    add_tags: z.array(z.string().trim().min(1, 'Tags must be non-empty strings')).min(1).optional(),
+    summary_prefix: z
+      .string()
+      .max(100)
+      .refine(prefix => prefix.trim().length > 0, 'Summary prefix must not be blank')
+      .optional()
+      .describe('Put before the summary unless it already starts with it'),
+    mark_read: z.boolean().optional().describe('Remove the `unread` tag'),
+  })
+  .refine(actions => Boolean(actions.add_tags || actions.summary_prefix || actions.mark_read), {
+    message: 'A rule needs at least one action',
+  })
+  .meta({ id: 'RuleActions' });
+
+export const ruleSchema = z
+  .object({
+    id: z.uuid(),
+    user_id: z.string(),
+    name: z.string(),
+    enabled: z.boolean(),
+    conditions: ruleConditionsSchema,
+    actions: ruleActionsSchema,
+    created_at: z.string(),
+    updated_at: z.string().nullable(),
+  })
+  .meta({ id: 'BookmarkRule' });
+
+const ruleName = z.string().trim().min(1, 'Rule name is required').max(100);
+
+export const createRuleBody = z.object({
+  name: ruleName,
+  enabled: z.boolean().default(true),
+  conditions: ruleConditionsSchema,
+  actions: ruleActionsSchema,
+});
+
+export const updateRuleBody = z
+  .object({
+    name: ruleName.optional(),
+    enabled: z.boolean().optional(),
+    conditions: ruleConditionsSchema.optional().describe('Replaces every condition'),
+    actions: ruleActionsSchema.optional().describe('Replaces every action'),
+  })
+  .refine(body => Object.values(body).some(value => value !== undefined), {
+    message: 'Pass at least one field to change',
+  });
+
+// Strict, so a misspelt dry_run is rejected rather than dropped and run for real
+export const applyRulesBody = z
+  .object({
+    rule_ids: z.array(z.uuid()).min(1).optional().describe('Every enabled rule when omitted'),
+    dry_run: z.boolean().default(true).describe('Only report what would change; pass `false` to write the changes'),
+  })
+  .strict();
+
+const ruleChangeSchema = z.object({
+  bookmark_id: z.uuid(),
+  url: z.string(),
+  title: z.string(),
+  rule_ids: z.array(z.uuid()).describe('The rules that matched'),
+  add_tags: z.array(z.string()).describe('Tags the bookmark does not have yet'),
+  summary: z.string().optional().describe('The new summary, when a prefix is added'),
+  mark_read: z.boolean().describe('The `unread` tag is removed'),
+});
+
+const applyRulesResultSchema = z.object({
+  checked: z.number().int().describe('Bookmarks the rules were run on'),
+  changed: z.number().int(),
+  dry_run: z.boolean(),
+  changes: z.array(ruleChangeSchema),
+});
+
+export const ruleApi = {
+  list: {
+    method: 'get',
+    path: '/api/rules',
+    summary: 'List rules in the order they run',
+    tag: 'Rules',
+    scope: 'bookmarks:read',
+    response: dataResponse(z.array(ruleSchema)),
+  },
+  create: {
+    method: 'post',
+    path: '/api/rules',
+    summary: 'Create a rule',
+    description: 'Enabled rules run, oldest first, on every bookmark saved with POST /api/bookmarks.',
+    tag: 'Rules',
+    scope: 'bookmarks:write',
+    body: createRuleBody,
+    status: 201,
+    response: dataResponse(ruleSchema),
+  },
+  update: {
+    method: 'put',
+    path: '/api/rules/{id}',
+    summary: 'Change a rule',
+    tag: 'Rules',
+    scope: 'bookmarks:write',
+    params: idParams,
+    body: updateRuleBody,
+    response: dataResponse(ruleSchema),
+  },
+  remove: {
+    method: 'delete',
+    path: '/api/rules/{id}',
+    summary: 'Delete a rule',
+    tag: 'Rules',
+    scope: 'bookmarks:write',
+    params: idParams,
+    response: emptyResponse,
+  },
+  apply: {
+    method: 'post',
+    path: '/api/rules/apply',
+    summary: 'Run rules on the bookmarks already saved',
+    description: 'Only previews what applying would change unless `dry_run` is `false`.',
+    tag: 'Rules',
+    scope: 'bookmarks:write',
+    body: applyRulesBody,
+    response: dataResponse(applyRulesResultSchema),
+  },
+} satisfies Record<string, ApiRoute>;
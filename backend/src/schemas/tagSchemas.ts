@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { ApiRoute, dataResponse, emptyResponse, idParams, limitQuery } from './common';
+
+export const tagSchema = z
+  .object({
+    id: z.uuid(),
+    user_id: z.string(),
+    name: z.string().describe('Full path of the tag, e.g. dev/frontend/react'),
+    parent_id: z.uuid().nullable(),
+    color: z.string().nullable(),
+    icon: z.string().nullable(),
+    description: z.string().nullable(),
+    pinned: z.boolean(),
+    sort_order: z.number().int(),
+    created_at: z.string(),
+  })
+  .meta({ id: 'Tag' });
+
+const tagCountSchema = z.object({
+  tag: tagSchema,
+  count: z.number().int(),
+});
+
+const tagStatsSchema = tagCountSchema.extend({
+  count: z.number().int().describe('Bookmarks on the tag or any tag below it'),
+  direct_count: z.number().int().describe('Bookmarks on the tag itself'),
+});
+
+const tagAliasSchema = z
+  .object({
+    id: z.uuid(),
+    user_id: z.string(),
+    tag_id: z.uuid().describe('The tag the name resolves to'),
+    name: z.string(),
+    created_at: z.string(),
+  })
+  .meta({ id: 'TagAlias' });
+
+const tagMergeSuggestionSchema = z.object({
+  target: tagStatsSchema,
+  sources: z.array(tagStatsSchema),
+});
+
+const tagName = z.string().trim().min(1, 'Tag name must be a non-empty string');
+
+export const tagNameBody = z.object({
+  name: tagName,
+});
+
+// Blank icons and descriptions clear them, like null
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .transform(text => text || null)
+    .nullable()
+    .optional();
+
+export const updateTagBody = z
+  .object({
+    name: tagName.optional().describe('Renaming also renames the tags below it'),
+    color: z
+      .string()
+      .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color like #1a73e8')
+      .transform(color => color.toLowerCase())
+      .nullable()
+      .optional(),
+    icon: optionalText(16).describe('An emoji or short symbol shown before the name'),
+    description: optionalText(500),
+    pinned: z.boolean().optional().describe('Pinned tags are listed first'),
+    sort_order: z.number().int().optional().describe('Order among pinned tags and siblings; lowest first'),
+  })
+  .refine(body => Object.values(body).some(value => value !== undefined), {
+    message: 'Pass at least one field to change',
+  });
+
+export const tagListQuery = z.object({
+  search: z.string().optional().describe('Only tags whose name contains this (at most 20)'),
+});
+
+export const mergeTagBody = z.object({
+  targetId: z.uuid().describe('The tag to merge into'),
+});
+
+export const popularTagsQuery = z.object({
+  limit: limitQuery(100).default(10),
+});
+
+export const suggestTagsQuery = z.object({
+  url: z.string().optional().describe('The page about to be saved'),
+  title: z.string().optional(),
+  limit: limitQuery(50).default(10),
+});
+
+const tagSuggestionSchema = z.object({
+  tag: tagSchema,
+  score: z.number().describe('Higher is better; only comparable within one response'),
+  reasons: z
+    .array(z.enum(['domain', 'title', 'related', 'recent']))
+    .describe('Used on the same domain, named in the title, often used with those tags, or used recently'),
+});
+
+export const tagApi = {
+  list: {
+    method: 'get',
+    path: '/api/tags',
+    summary: 'List or search tags',
+    tag: 'Tags',
+    scope: 'tags:read',
+    query: tagListQuery,
+    response: dataResponse(z.array(tagSchema)),
+  },
+  create: {
+    method: 'post',
+    path: '/api/tags',
+    summary: 'Create a tag',
+    tag: 'Tags',
+    scope: 'tags:admin',
+    body: tagNameBody,
+    status: 201,
+    response: dataResponse(tagSchema),
+  },
+  update: {
+    method: 'put',
+    path: '/api/tags/{id}',
+    summary: 'Rename a tag or change its color, icon, description or pinning',
+    description: 'Answers 409 when another tag or alias has the new name; merge the tags with POST /api/tags/{id}/merge instead.',
+    tag: 'Tags',
+    scope: 'tags:admin',
+    params: idParams,
+    body: updateTagBody,
+    response: dataResponse(tagSchema),
+  },
+  remove: {
+    method: 'delete',
+    path: '/api/tags/{id}',
+    summary: 'Delete a tag and remove it from every bookmark',
+    tag: 'Tags',
+    scope: 'tags:admin',
+    params: idParams,
+    response: emptyResponse,
+  },
+  stats: {
+    method: 'get',
+    path: '/api/tags/stats',
+    summary: 'Number of bookmarks per tag, counting the tags below it',
+    tag: 'Tags',
+    scope: 'tags:read',
+    response: dataResponse(z.array(tagStatsSchema)),
+  },
+  popular: {
+    method: 'get',
+    path: '/api/tags/popular',
+    summary: 'Most used tags',
+    tag: 'Tags',
+    scope: 'tags:read',
+    query: popularTagsQuery,
+    response: dataResponse(z.array(tagCountSchema)),
+  },
+  merge: {
+    method: 'post',
+    path: '/api/tags/{id}/merge',
+    summary: 'Merge a tag into another; its name stays as an alias',
+    tag: 'Tags',
+    scope: 'tags:admin',
+    params: idParams,
+    body: mergeTagBody,
+    response: dataResponse(tagSchema),
+  },
+  suggest: {
+    method: 'get',
+    path: '/api/tags/suggest',
+    summary: 'Ranked tag suggestions for a page about to be saved',
+    tag: 'Tags',
+    scope: 'tags:read',
+    query: suggestTagsQuery,
+    response: dataResponse(z.array(tagSuggestionSchema)),
+  },
+  mergeSuggestions: {
+    method: 'get',
+    path: '/api/tags/merge-suggestions',
+    summary: 'Tags with near-identical names, grouped for merging',
+    tag: 'Tags',
+    scope: 'tags:read',
+    response: dataResponse(z.array(tagMergeSuggestionSchema)),
+  },
+  aliases: {
+    method: 'get',
+    path: '/api/tags/aliases',
+    summary: 'Names of merged tags and the tags they resolve to',
+    tag: 'Tags',
+    scope: 'tags:read',
+    response: dataResponse(z.array(tagAliasSchema)),
+  },
+  removeAlias: {
+    method: 'delete',
+    path: '/api/tags/aliases/{id}',
+    summary: 'Stop resolving a merged name to its tag',
+    tag: 'Tags',
+    scope: 'tags:admin',
+    params: idParams,
+    response: emptyResponse,
+  },
+} satisfies Record<string, ApiRoute>;
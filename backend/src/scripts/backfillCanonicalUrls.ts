@@ -0,0 +1,39 @@
+// Fills canonical_url for bookmarks saved before duplicate detection existed.
+// Usage: npm run backfill:canonical-urls
+import { bookmarkRepository } from '../repositories';
+import { canonicalizeUrl } from '../utils/url';
+
+const BATCH_SIZE = 500;
+
+const backfill = async (): Promise<void> => {
+  let updated = 0;
+  let skipped = 0;
+
+  for (;;) {
+    const bookmarks = await bookmarkRepository.findMissingCanonicalUrl(BATCH_SIZE);
+    if (bookmarks.length === 0) break;
+
+    for (const bookmark of bookmarks) {
+      let canonicalUrl: string;
+      try {
+        canonicalUrl = canonicalizeUrl(bookmark.url);
+      } catch {
+        // Unparseable URLs keep their original text so they are not picked up again
+        canonicalUrl = bookmark.url;
+        skipped++;
+      }
+
+      await bookmarkRepository.update(bookmark.id, { canonical_url: canonicalUrl });
+      updated++;
+    }
+
+    console.log(`Updated ${updated} bookmarks...`);
+  }
+
+  console.log(`Done. ${updated} bookmarks updated, ${skipped} with unparseable URLs.`);
+};
+
+backfill().catch((error) => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
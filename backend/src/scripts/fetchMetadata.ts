@@ -0,0 +1,33 @@
+// Prints the metadata the enrichment worker would store for a URL, without
+// touching the database:
+//   npm run fetch:metadata -- https://example.com/article [timeoutMs] [maxBytes]
+// Pages on localhost are refused like any internal address unless
+// FETCH_ALLOW_PRIVATE_HOSTS=true is set.
+import { fetchPage } from '../utils/http';
+import { extractMetadata } from '../utils/pageMetadata';
+
+const run = async (): Promise<void> => {
+  const url = process.argv[2];
+  if (!url) {
+    console.error('Usage: npm run fetch:metadata -- <url> [timeoutMs] [maxBytes]');
+    process.exit(1);
+  }
+
+  const page = await fetchPage(url, {
+    timeoutMs: process.argv[3] ? parseInt(process.argv[3], 10) : undefined,
+    maxBytes: process.argv[4] ? parseInt(process.argv[4], 10) : undefined,
+  });
+
+  console.log(JSON.stringify({
+    url: page.url,
+    status: page.status,
+    contentType: page.contentType,
+    truncated: page.truncated,
+    metadata: extractMetadata(page.body, page.url),
+  }, null, 2));
+};
+
+run().catch((error) => {
+  console.error('Fetch failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { bookmarkRepository } from '../repositories';
+import { captureArchive } from './archiveService';
+
+const USER = 'user-a';
+
+// An internal page; the tests check that it is never requested
+let requests = 0;
+const server = http.createServer((_req, res) => {
+  requests++;
+  res.writeHead(200, { 'content-type': 'text/html' }).end('<article><p>Internal only</p></article>');
+});
+let base = '';
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const saveBookmark = (url: string) =>
+  bookmarkRepository.insert({ user_id: USER, url, canonical_url: url, title: 'Internal', archive_status: 'pending' });
+
+describe('captureArchive', () => {
+  it('refuses to capture pages on internal hosts', async () => {
+    const bookmark = await saveBookmark(`${base}/admin`);
+
+    await expect(captureArchive(bookmark.id, USER)).rejects.toMatchObject({ statusCode: 422 });
+    expect(requests).toBe(0);
+    expect((await bookmarkRepository.find(bookmark.id))!.archive_status).toBe('failed');
+  });
+
+  it('refuses cloud metadata addresses', async () => {
+    const bookmark = await saveBookmark('http://169.254.169.254/latest/meta-data/');
+
+    await expect(captureArchive(bookmark.id, USER)).rejects.toMatchObject({
+      statusCode: 422,
+      message: expect.stringContaining('not a public address'),
+    });
+  });
+
+  it('refuses public pages that redirect to internal hosts', async () => {
+    const bookmark = await saveBookmark('http://93.184.215.14/');
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(null, { status: 302, headers: { location: `${base}/admin` } })
+    );
+
+    try {
+      await expect(captureArchive(bookmark.id, USER)).rejects.toMatchObject({ statusCode: 422 });
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(requests).toBe(0);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("does not capture other users' bookmarks", async () => {
+    const bookmark = await saveBookmark('https://example.com/');
+
+    await expect(captureArchive(bookmark.id, 'user-b')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
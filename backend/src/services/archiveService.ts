@@ -0,0 +1,83 @@
+import { archiveRepository, bookmarkRepository } from '../repositories';
+import { BookmarkArchive } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { BlockedAddressError, fetchPage, FetchedPage, FetchPageError } from '../utils/http';
+import { extractReadableContent } from '../utils/readableContent';
+
+// Offline copies of saved pages: the readable main content as sanitized HTML
+// plus plain text (which search_bookmarks also matches against). Archives
+// requested on save are captured by the enrichment worker from the page it
+// already fetched; POST /api/bookmarks/:id/archive captures one on demand.
+// Both go through fetchPage, which refuses hosts that are not public, on the
+// saved URL and on every redirect.
+
+const ARCHIVE_TIMEOUT_MS = parseInt(process.env.ARCHIVE_TIMEOUT_MS || '15000', 10);
+const ARCHIVE_MAX_BYTES = parseInt(process.env.ARCHIVE_MAX_BYTES || String(5 * 1024 * 1024), 10);
+
+// Stores the archive of an already fetched page
+export const storeArchive = async (
+  bookmarkId: string,
+  userId: string,
+  page: FetchedPage
+): Promise<BookmarkArchive> => {
+  const content = /html/i.test(page.contentType) ? extractReadableContent(page.body, page.url) : null;
+
+  if (!content) {
+    await bookmarkRepository.update(bookmarkId, { archive_status: 'failed' });
+    throw new AppError('No readable content found on the page', 422);
+  }
+
+  const capturedAt = new Date().toISOString();
+
+  const archive = await archiveRepository.save({
+    bookmark_id: bookmarkId,
+    user_id: userId,
+    source_url: page.url,
+    ...content,
+    captured_at: capturedAt,
+  });
+
+  await bookmarkRepository.update(bookmarkId, { archive_status: 'done', archived_at: capturedAt });
+  return archive;
+};
+
+export const captureArchive = async (
+  bookmarkId: string,
+  userId: string
+): Promise<BookmarkArchive> => {
+  try {
+    const bookmark = await bookmarkRepository.find(bookmarkId, { userId, deleted: false });
+    if (!bookmark) throw new AppError('Bookmark not found', 404);
+
+    let page: FetchedPage;
+    try {
+      page = await fetchPage(bookmark.url, { timeoutMs: ARCHIVE_TIMEOUT_MS, maxBytes: ARCHIVE_MAX_BYTES });
+    } catch (fetchError) {
+      if (!(fetchError instanceof FetchPageError)) throw fetchError;
+      await bookmarkRepository.update(bookmarkId, { archive_status: 'failed' });
+      // The page is there, it is just not ours to fetch
+      if (fetchError instanceof BlockedAddressError) throw new AppError(fetchError.message, 422);
+      throw new AppError(`Could not fetch the page: ${fetchError.message}`, 502);
+    }
+
+    return await storeArchive(bookmarkId, userId, page);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to archive bookmark', 500);
+  }
+};
+
+export const getArchive = async (
+  bookmarkId: string,
+  userId: string
+): Promise<BookmarkArchive> => {
+  try {
+    const archive = await archiveRepository.find(bookmarkId, userId);
+    if (!archive) throw new AppError('Archive not found', 404);
+
+    return archive;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch archive', 500);
+  }
+};
@@ -0,0 +1,97 @@
+import { sessionRepository, userRepository } from '../repositories';
+import { AuthSession, LoginDto, RegisterDto, User } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { hashPassword, verifyPassword } from '../utils/password';
+import { generateToken, hashToken } from '../utils/tokens';
+
+// Accounts live in the `users` table; a signed-in client holds an opaque
+// session token whose hash is stored in `user_sessions`.
+
+const SESSION_TTL_DAYS = parseInt(process.env.SESSION_TTL_DAYS || '30', 10);
+
+// Stands in for the password hash of unknown emails in login
+const DUMMY_PASSWORD_HASH = hashPassword('not-a-real-password');
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const createSession = async (user: User): Promise<AuthSession> => {
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  await sessionRepository.insert({ user_id: user.id, token_hash: hashToken(token), expires_at: expiresAt });
+
+  return { token, expires_at: expiresAt, user };
+};
+
+export const register = async ({ email, password, name }: RegisterDto): Promise<AuthSession> => {
+  try {
+    const normalizedEmail = normalizeEmail(email);
+
+    const existing = await userRepository.findByEmail(normalizedEmail);
+    if (existing) throw new AppError('An account with this email already exists', 409);
+
+    const user = await userRepository.insert({
+      email: normalizedEmail,
+      name: name?.trim() || null,
+      password_hash: await hashPassword(password),
+    });
+
+    // Lost a race with another registration for the same email
+    if (!user) throw new AppError('An account with this email already exists', 409);
+
+    return await createSession(user);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to register', 500);
+  }
+};
+
+export const login = async ({ email, password }: LoginDto): Promise<AuthSession> => {
+  try {
+    const user = await userRepository.findByEmail(normalizeEmail(email));
+
+    // Unknown emails still cost one hash check, so they cannot be told apart by timing
+    const valid = await verifyPassword(password, user?.password_hash || await DUMMY_PASSWORD_HASH);
+
+    if (!user?.password_hash || !valid) throw new AppError('Invalid email or password', 401);
+
+    // Expired sessions of this user are cleaned up on the way in
+    await sessionRepository.deleteExpired(user.id, new Date().toISOString());
+
+    return await createSession({ id: user.id, email: user.email, name: user.name, created_at: user.created_at });
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to sign in', 500);
+  }
+};
+
+export const logout = async (token: string): Promise<void> => {
+  try {
+    await sessionRepository.delete(hashToken(token));
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to sign out', 500);
+  }
+};
+
+// The user id a session token belongs to, or null if it is unknown or expired
+export const getSessionUserId = async (token: string): Promise<string | null> => {
+  try {
+    return await sessionRepository.findUserId(hashToken(token), new Date().toISOString());
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to verify session', 500);
+  }
+};
+
+export const getUser = async (userId: string): Promise<User> => {
+  try {
+    const user = await userRepository.findById(userId);
+    if (!user) throw new AppError('User not found', 404);
+
+    return user;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch user', 500);
+  }
+};
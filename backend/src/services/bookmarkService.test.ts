@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { bookmarkRepository } from '../repositories';
+import {
+  deleteBookmark,
+  getBookmarks,
+  getTrash,
+  purgeExpiredTrash,
+  purgeTrash,
+  restoreBookmark,
+  updateBookmark,
+} from './bookmarkService';
+
+const USER = 'bookmark-user';
+const OTHER_USER = 'bookmark-other-user';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const save = (url: string, userId: string = USER) =>
+  bookmarkRepository.insert({ user_id: userId, url, canonical_url: url, title: url }, ['saved']);
+
+const trashDaysAgo = async (id: string, days: number) => {
+  await bookmarkRepository.update(id, { deleted_at: new Date(Date.now() - days * DAY_MS).toISOString() });
+};
+
+describe('updateBookmark', () => {
+  it('changes the given fields and replaces the tags', async () => {
+    const bookmark = await save('https://example.com/edit');
+
+    const updated = await updateBookmark(bookmark.id, USER, { title: '  Edited  ', summary: '', tags: ['dev/web'] });
+    expect(updated).toMatchObject({ title: 'Edited', summary: null, tags: ['dev/web'] });
+    expect(updated.updated_at).toEqual(expect.any(String));
+  });
+
+  it("answers 404 for another user's bookmark", async () => {
+    const bookmark = await save('https://example.com/edit-other', OTHER_USER);
+
+    await expect(updateBookmark(bookmark.id, USER, { title: 'Mine' })).rejects.toMatchObject({ statusCode: 404 });
+    expect((await bookmarkRepository.find(bookmark.id))?.title).toBe('https://example.com/edit-other');
+  });
+});
+
+describe('deleteBookmark', () => {
+  it('moves the bookmark to the trash with its tags', async () => {
+    const bookmark = await save('https://example.com/trash');
+    await deleteBookmark(bookmark.id, USER);
+
+    expect((await getBookmarks(USER, {})).bookmarks.map(item => item.id)).not.toContain(bookmark.id);
+    expect((await getTrash(USER)).find(item => item.id === bookmark.id)?.tags).toEqual(['saved']);
+    await expect(deleteBookmark(bookmark.id, USER)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('restoreBookmark', () => {
+  it('brings a trashed bookmark back', async () => {
+    const bookmark = await save('https://example.com/restore');
+    await deleteBookmark(bookmark.id, USER);
+
+    const restored = await restoreBookmark(bookmark.id, USER);
+    expect(restored).toMatchObject({ id: bookmark.id, deleted_at: null, tags: ['saved'] });
+    await expect(restoreBookmark(bookmark.id, USER)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('answers 409 when the URL was saved again', async () => {
+    const old = await save('https://example.com/saved-again');
+    await deleteBookmark(old.id, USER);
+    await save('https://example.com/saved-again');
+
+    await expect(restoreBookmark(old.id, USER)).rejects.toMatchObject({ statusCode: 409 });
+    expect(await bookmarkRepository.find(old.id, { deleted: true })).not.toBeNull();
+  });
+});
+
+describe('purgeTrash', () => {
+  it("deletes the user's trash older than the given days", async () => {
+    const [old, recent, live] = await Promise.all(
+      ['https://example.com/purge-old', 'https://example.com/purge-recent', 'https://example.com/purge-live'].map(url => save(url))
+    );
+    await trashDaysAgo(old.id, 10);
+    await trashDaysAgo(recent.id, 1);
+
+    expect(await purgeTrash(USER, 5)).toBe(1);
+    expect(await bookmarkRepository.find(old.id)).toBeNull();
+    expect(await bookmarkRepository.find(recent.id)).not.toBeNull();
+
+    expect(await purgeTrash(USER)).toBeGreaterThanOrEqual(1);
+    expect(await bookmarkRepository.find(recent.id)).toBeNull();
+    expect(await bookmarkRepository.find(live.id)).not.toBeNull();
+  });
+});
+
+describe('purgeExpiredTrash', () => {
+  it("deletes every user's trash older than the retention period", async () => {
+    const expired = [await save('https://example.com/expired', USER), await save('https://example.com/expired', OTHER_USER)];
+    const kept = await save('https://example.com/kept', OTHER_USER);
+    await Promise.all(expired.map(bookmark => trashDaysAgo(bookmark.id, 31)));
+    await trashDaysAgo(kept.id, 29);
+
+    expect(await purgeExpiredTrash()).toBe(2);
+    for (const bookmark of expired) expect(await bookmarkRepository.find(bookmark.id)).toBeNull();
+    expect(await bookmarkRepository.find(kept.id)).not.toBeNull();
+  });
+});
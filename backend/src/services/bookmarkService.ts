@@ -1,122 +1,212 @@
-import { supabase } from '../config/database';
-import { CreateBookmarkDto, BookmarkFilters, Bookmark, BookmarkWithTags, Tag } from '../types';
+import {
+  BookmarkChanges,
+  BookmarkQuery,
+  bookmarkRepository,
+  bookmarkTagRepository,
+  collectionRepository
+} from '../repositories';
+import {
+  CreateBookmarkDto,
+  UpdateBookmarkDto,
+  BookmarkFilters,
+  BookmarkPage,
+  Bookmark
+} from '../types';
 import { AppError } from '../middleware/errorHandler';
+import { parseSearchQuery } from '../utils/searchQuery';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { canonicalizeUrl } from '../utils/url';
+import { scheduleEnrichment } from './enrichmentService';
+import { TagQueryNode, parseTagQuery, allTagsNode, expandTagPaths } from '../utils/tagQuery';
+import { loadTagResolver, resolveTagNames } from './tagService';
+import { applyRulesToNewBookmark } from './ruleService';
 
+// Trashed bookmarks older than this are purged permanently
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+
+// How often every user's expired trash is purged; 0 disables the purger
+const TRASH_PURGE_INTERVAL_MS = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || String(60 * 60 * 1000), 10);
+
+// Whether new bookmarks get an offline archive when the client does not say
+const ARCHIVE_BY_DEFAULT = process.env.ARCHIVE_BY_DEFAULT === 'true';
+
+// Live bookmark of the user with the same canonical URL, if any
+export const findDuplicateBookmark = async (
+  userId: string,
+  canonicalUrl: string
+): Promise<Bookmark | null> => bookmarkRepository.findByCanonicalUrl(userId, canonicalUrl);
+
+// Saving a URL that is already in the library returns the existing
+// bookmark flagged with `duplicate: true` instead of creating a new row.
+// New bookmarks go through the user's rules (see ruleService).
 export const createBookmark = async (
   userId: string,
-  bookmarkData: CreateBookmarkDto
+  dto: CreateBookmarkDto
 ): Promise<Bookmark> => {
   try {
-    // Start a transaction for bookmark creation with tags
-    const { data: bookmark, error: bookmarkError } = await supabase
-      .from('bookmarks')
-      .insert({
-        user_id: userId,
-        url: bookmarkData.url,
-        title: bookmarkData.title,
-        summary: bookmarkData.summary,
-        category: bookmarkData.category, // Keep for backward compatibility
-      })
-      .select()
-      .single();
-
-    if (bookmarkError) throw new AppError(bookmarkError.message, 400);
-
-    // Handle tags if provided
-    if (bookmarkData.tags && bookmarkData.tags.length > 0) {
-      await addTagsToBookmark(bookmark.id, bookmarkData.tags, userId);
+    const canonicalUrl = canonicalizeUrl(dto.url);
+
+    const existing = await findDuplicateBookmark(userId, canonicalUrl);
+    if (existing) {
+      return { ...existing, duplicate: true };
     }
 
+    const bookmarkData = await applyRulesToNewBookmark(userId, dto);
+
+    // The bookmark is saved together with its tags, or not at all
+    const bookmark = await bookmarkRepository.insert({
+      user_id: userId,
+      url: bookmarkData.url,
+      canonical_url: canonicalUrl,
+      title: bookmarkData.title,
+      summary: bookmarkData.summary,
+      category: bookmarkData.category, // Keep for backward compatibility
+      archive_status: (bookmarkData.archive ?? ARCHIVE_BY_DEFAULT) ? 'pending' : null,
+    }, await resolveTagNames(userId, bookmarkData.tags || []));
+
+    // Page metadata (and the archive, if requested) is fetched in the background
+    scheduleEnrichment(bookmark.id);
+
     // Return bookmark with tags populated
-    return await getBookmarkWithTags(bookmark.id);
+    return await getBookmarkWithTags(bookmark.id, userId);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to create bookmark', 500);
   }
 };
 
+// Combines the legacy `tags` list (bookmark must have ALL of them) with a `tagQuery` expression.
+// Names resolve like they do when saving (aliases, any casing), and a tag also
+// matches the tags below it, e.g. `dev` matches `dev/frontend`.
+const buildTagFilter = async (userId: string, filters: BookmarkFilters): Promise<TagQueryNode | undefined> => {
+  const nodes: TagQueryNode[] = [];
+
+  const tagNames = (filters.tags || []).map(tag => tag.trim()).filter(Boolean);
+  if (tagNames.length > 0) nodes.push(allTagsNode(tagNames));
+
+  if (filters.tagQuery && filters.tagQuery.trim()) nodes.push(parseTagQuery(filters.tagQuery));
+
+  if (nodes.length === 0) return undefined;
+
+  const { tagNames: userTagNames, resolve } = await loadTagResolver(userId);
+  return expandTagPaths(nodes.length === 1 ? nodes[0] : { type: 'and', children: nodes }, userTagNames, resolve);
+};
+
+// Translates the API filters into a repository query; null when the search
+// has nothing searchable left (only punctuation or exclusions), so nothing matches
+export const buildBookmarkQuery = async (userId: string, filters: BookmarkFilters): Promise<BookmarkQuery | null> => {
+  const search = filters.search ? parseSearchQuery(filters.search) : null;
+  if (filters.search && !search) return null;
+
+  // Another user's collection is as missing as a deleted one
+  if (filters.collection && !(await collectionRepository.find(filters.collection, userId))) {
+    throw new AppError('Collection not found', 404);
+  }
+
+  const query: BookmarkQuery = {
+    search: search || undefined,
+    category: filters.category,
+    health: filters.health,
+    collection: filters.collection,
+    tags: await buildTagFilter(userId, filters),
+  };
+
+  // Handle date filtering with proper same-date logic
+  if (filters.startDate || filters.endDate) {
+    const startDate = filters.startDate;
+    const endDate = filters.endDate;
+    
+    if (startDate && endDate && startDate === endDate) {
+      // Same date: filter for exact day (from 00:00:00 to 23:59:59.999)
+      query.createdFrom = `${startDate}T00:00:00.000Z`;
+      query.createdTo = `${endDate}T23:59:59.999Z`;
+    } else {
+      // Different dates or only one date provided
+      if (startDate) {
+        query.createdFrom = startDate.includes('T') 
+          ? startDate 
+          : `${startDate}T00:00:00.000Z`;
+      }
+      
+      if (endDate) {
+        query.createdTo = endDate.includes('T') 
+          ? endDate 
+          : `${endDate}T23:59:59.999Z`;
+      }
+    }
+  }
+
+  return query;
+};
+
 export const getBookmarks = async (
   userId: string,
   filters: BookmarkFilters = {}
-): Promise<Bookmark[]> => {
+): Promise<BookmarkPage> => {
   try {
-    // Temporarily use bookmarks table to test search functionality
-    let query = supabase
-      .from('bookmarks')
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false });
-
-    if (filters.search) {
-      query = query.ilike('title', `%${filters.search}%`);
+    const query = await buildBookmarkQuery(userId, filters);
+    if (!query) {
+      return { bookmarks: [], nextCursor: null, hasMore: false, total: filters.includeTotal ? 0 : undefined };
     }
+    // Search results and collections page by position, browsing pages by keyset
+    const byPosition = Boolean(query.search || query.collection);
 
-    // Support both category (legacy) and tags filtering
-    if (filters.category) {
-      query = query.eq('category', filters.category);
-    }
+    const limit = filters.limit || 20;
+    const cursor = filters.cursor ? decodeCursor(filters.cursor) : null;
 
-    if (filters.tags && filters.tags.length > 0) {
-      // Filter bookmarks that have ALL specified tags (AND logic)
-      const tagConditions = filters.tags.map(tag => `tags.cs.{${tag}}`).join(',');
-      query = query.or(tagConditions);
+    if (cursor && (cursor.type === 'offset') !== byPosition) {
+      throw new AppError('Cursor does not belong to this query', 400);
     }
 
-    // Handle date filtering with proper same-date logic
-    if (filters.startDate || filters.endDate) {
-      const startDate = filters.startDate;
-      const endDate = filters.endDate;
-      
-      if (startDate && endDate && startDate === endDate) {
-        // Same date: filter for exact day (from 00:00:00 to 23:59:59.999)
-        const startDateTime = `${startDate}T00:00:00.000Z`;
-        const endDateTime = `${endDate}T23:59:59.999Z`;
-        query = query.gte('created_at', startDateTime).lte('created_at', endDateTime);
-      } else {
-        // Different dates or only one date provided
-        if (startDate) {
-          const startDateTime = startDate.includes('T') 
-            ? startDate 
-            : `${startDate}T00:00:00.000Z`;
-          query = query.gte('created_at', startDateTime);
-        }
-        
-        if (endDate) {
-          const endDateTime = endDate.includes('T') 
-            ? endDate 
-            : `${endDate}T23:59:59.999Z`;
-          query = query.lte('created_at', endDateTime);
-        }
-      }
+    // `offset` is still accepted for clients that predate cursors
+    let offset = filters.offset || 0;
+    if (cursor?.type === 'keyset') {
+      offset = 0;
+    } else if (cursor?.type === 'offset') {
+      offset = cursor.offset;
     }
 
-    const limit = filters.limit || 20;
-    const offset = filters.offset || 0;
+    // Fetch one extra row to find out whether there is a next page
+    const [rows, total] = await Promise.all([
+      bookmarkRepository.list(userId, query, {
+        limit: limit + 1,
+        offset,
+        after: cursor?.type === 'keyset' ? cursor : undefined,
+      }),
+      filters.includeTotal ? bookmarkRepository.count(userId, query) : Promise.resolve(undefined),
+    ]);
 
-    query = query.range(offset, offset + limit - 1);
+    const hasMore = rows.length > limit;
+    const bookmarks = rows.slice(0, limit);
+    const last = bookmarks[bookmarks.length - 1];
 
-    const { data, error } = await query;
+    let nextCursor: string | null = null;
+    if (hasMore && last) {
+      nextCursor = byPosition
+        ? encodeCursor({ type: 'offset', offset: offset + limit })
+        : encodeCursor({ type: 'keyset', createdAt: last.created_at, id: last.id });
+    }
 
-    if (error) throw new AppError(error.message, 400);
-    return data || [];
+    return { bookmarks, nextCursor, hasMore, total };
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to fetch bookmarks', 500);
   }
 };
 
-export const getBookmarkWithTags = async (bookmarkId: string): Promise<Bookmark> => {
-  try {
-    const { data, error } = await supabase
-      .from('bookmarks_with_tags')
-      .select('*')
-      .eq('id', bookmarkId)
-      .single();
+// Throws 404 unless the bookmark exists and belongs to the user, so other
+// users' bookmarks are indistinguishable from missing ones
+export const assertBookmarkOwner = async (bookmarkId: string, userId: string): Promise<void> => {
+  const bookmark = await bookmarkRepository.find(bookmarkId, { userId });
+  if (!bookmark) throw new AppError('Bookmark not found', 404);
+};
 
-    if (error) throw new AppError(error.message, 400);
-    if (!data) throw new AppError('Bookmark not found', 404);
+export const getBookmarkWithTags = async (bookmarkId: string, userId: string): Promise<Bookmark> => {
+  try {
+    const bookmark = await bookmarkRepository.find(bookmarkId, { userId });
+    if (!bookmark) throw new AppError('Bookmark not found', 404);
 
-    return data;
+    return bookmark;
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to fetch bookmark', 500);
@@ -129,64 +219,8 @@ export const addTagsToBookmark = async (
   userId: string
 ): Promise<void> => {
   try {
-    for (const tagName of tagNames) {
-      const trimmedTagName = tagName.trim();
-      
-      // First, try to find existing tag
-      let { data: tag, error: findError } = await supabase
-        .from('tags')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('name', trimmedTagName)
-        .single();
-
-      // If tag doesn't exist, create it
-      if (findError || !tag) {
-        const { data: newTag, error: createError } = await supabase
-          .from('tags')
-          .insert({
-            user_id: userId,
-            name: trimmedTagName,
-          })
-          .select()
-          .single();
-
-        if (createError) {
-          // If it's a duplicate key error, try to find the tag again (race condition)
-          if (createError.message.includes('duplicate key')) {
-            const { data: existingTag, error: retryError } = await supabase
-              .from('tags')
-              .select('*')
-              .eq('user_id', userId)
-              .eq('name', trimmedTagName)
-              .single();
-
-            if (retryError || !existingTag) {
-              throw new AppError(`Failed to find or create tag: ${trimmedTagName}`, 400);
-            }
-            tag = existingTag;
-          } else {
-            throw new AppError(createError.message, 400);
-          }
-        } else {
-          tag = newTag;
-        }
-      }
-
-      // Link bookmark to tag (ignore if already linked)
-      const { error: linkError } = await supabase
-        .from('bookmark_tags')
-        .insert({
-          bookmark_id: bookmarkId,
-          tag_id: tag.id,
-        })
-        .select();
-
-      // Ignore duplicate key errors (tag already linked to bookmark)
-      if (linkError && !linkError.message.includes('duplicate key')) {
-        throw new AppError(linkError.message, 400);
-      }
-    }
+    const added = await bookmarkTagRepository.add(bookmarkId, userId, await resolveTagNames(userId, tagNames));
+    if (!added) throw new AppError('Bookmark not found', 404);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to add tags to bookmark', 500);
@@ -199,26 +233,9 @@ export const removeTagsFromBookmark = async (
   userId: string
 ): Promise<void> => {
   try {
-    for (const tagName of tagNames) {
-      // Get tag ID
-      const { data: tag, error: tagError } = await supabase
-        .from('tags')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('name', tagName.trim())
-        .single();
-
-      if (tagError || !tag) continue; // Skip if tag doesn't exist
-
-      // Remove bookmark-tag link
-      const { error: unlinkError } = await supabase
-        .from('bookmark_tags')
-        .delete()
-        .eq('bookmark_id', bookmarkId)
-        .eq('tag_id', tag.id);
-
-      if (unlinkError) throw new AppError(unlinkError.message, 400);
-    }
+    // Names without a tag are skipped
+    const removed = await bookmarkTagRepository.remove(bookmarkId, userId, await resolveTagNames(userId, tagNames));
+    if (!removed) throw new AppError('Bookmark not found', 404);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to remove tags from bookmark', 500);
@@ -231,23 +248,135 @@ export const updateBookmarkTags = async (
   userId: string
 ): Promise<Bookmark> => {
   try {
-    // Remove all existing tags for this bookmark
-    const { error: clearError } = await supabase
-      .from('bookmark_tags')
-      .delete()
-      .eq('bookmark_id', bookmarkId);
+    // Links to tags no longer listed are removed in the same transaction
+    const replaced = await bookmarkTagRepository.replace(bookmarkId, userId, await resolveTagNames(userId, tagNames));
+    if (!replaced) throw new AppError('Bookmark not found', 404);
 
-    if (clearError) throw new AppError(clearError.message, 400);
+    // Return updated bookmark with tags
+    return await getBookmarkWithTags(bookmarkId, userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to update bookmark tags', 500);
+  }
+};
 
-    // Add new tags
-    if (tagNames && tagNames.length > 0) {
-      await addTagsToBookmark(bookmarkId, tagNames, userId);
+export const updateBookmark = async (
+  bookmarkId: string,
+  userId: string,
+  updates: UpdateBookmarkDto
+): Promise<Bookmark> => {
+  try {
+    const fields: BookmarkChanges = {};
+    if (updates.title !== undefined) fields.title = updates.title.trim();
+    if (updates.summary !== undefined) fields.summary = updates.summary || null;
+    if (updates.category !== undefined) fields.category = updates.category || null;
+
+    const updated = await bookmarkRepository.update(
+      bookmarkId,
+      { ...fields, updated_at: new Date().toISOString() },
+      { userId }
+    );
+    if (!updated) throw new AppError('Bookmark not found', 404);
+
+    if (updates.tags) {
+      return await updateBookmarkTags(bookmarkId, updates.tags, userId);
     }
 
-    // Return updated bookmark with tags
-    return await getBookmarkWithTags(bookmarkId);
+    return await getBookmarkWithTags(bookmarkId, userId);
   } catch (error) {
     if (error instanceof AppError) throw error;
-    throw new AppError('Failed to update bookmark tags', 500);
+    throw new AppError('Failed to update bookmark', 500);
+  }
+};
+
+// Moves a bookmark to the trash. Tags are kept so a restore is lossless.
+export const deleteBookmark = async (
+  bookmarkId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    const trashed = await bookmarkRepository.update(
+      bookmarkId,
+      { deleted_at: new Date().toISOString() },
+      { userId, deleted: false }
+    );
+    if (!trashed) throw new AppError('Bookmark not found', 404);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to delete bookmark', 500);
+  }
+};
+
+// A URL saved again while its old bookmark was in the trash keeps the new
+// bookmark; restoring the old one would make a second live copy
+export const restoreBookmark = async (
+  bookmarkId: string,
+  userId: string
+): Promise<Bookmark> => {
+  try {
+    const trashed = await bookmarkRepository.find(bookmarkId, { userId, deleted: true });
+    if (!trashed) throw new AppError('Bookmark not found in trash', 404);
+    if (await findDuplicateBookmark(userId, trashed.canonical_url ?? canonicalizeUrl(trashed.url))) {
+      throw new AppError('The URL is saved again as another bookmark', 409);
+    }
+
+    const restored = await bookmarkRepository.update(bookmarkId, { deleted_at: null }, { userId, deleted: true });
+    if (!restored) throw new AppError('Bookmark not found in trash', 404);
+
+    return await getBookmarkWithTags(bookmarkId, userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to restore bookmark', 500);
   }
 };
+
+export const getTrash = async (
+  userId: string,
+  filters: Pick<BookmarkFilters, 'limit' | 'offset'> = {}
+): Promise<Bookmark[]> => {
+  try {
+    // Expired items are also purged here, so the list is right between purger runs
+    await purgeTrash(userId, TRASH_RETENTION_DAYS);
+
+    return await bookmarkRepository.listTrash(userId, filters.limit || 20, filters.offset || 0);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch trash', 500);
+  }
+};
+
+// Permanently deletes trashed bookmarks. With olderThanDays = 0 the whole trash is emptied.
+export const purgeTrash = async (
+  userId: string,
+  olderThanDays: number = 0
+): Promise<number> => {
+  try {
+    const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString();
+
+    return await bookmarkRepository.purgeTrash(cutoff, userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to purge trash', 500);
+  }
+};
+
+// Permanently deletes every user's bookmarks that have been in the trash for
+// longer than TRASH_RETENTION_DAYS; returns how many there were
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  return bookmarkRepository.purgeTrash(cutoff);
+};
+
+export const startTrashPurger = (): void => {
+  if (TRASH_PURGE_INTERVAL_MS <= 0) return;
+
+  const tick = () => {
+    purgeExpiredTrash().catch((error) => {
+      console.error('Trash purge failed:', error);
+    });
+  };
+
+  // unref() so the timer does not keep scripts that import this module alive
+  setInterval(tick, TRASH_PURGE_INTERVAL_MS).unref();
+  tick();
+};
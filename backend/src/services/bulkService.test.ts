@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { bookmarkRepository } from '../repositories';
+import { saveBookmark, USER_A as A, USER_B as B } from '../test/fixtures';
+import { bulkUpdateBookmarks } from './bulkService';
+import { addBookmarksToCollection, createCollection } from './collectionService';
+import { getBookmarks } from './bookmarkService';
+
+const collectionIds = async (userId: string, collection: string): Promise<string[]> =>
+  (await getBookmarks(userId, { collection })).bookmarks.map(bookmark => bookmark.id);
+
+describe('add_to_collection and move_to_collection', () => {
+  it('appends the picked bookmarks in order, keeping members in place', async () => {
+    const [first, second, third] = [await saveBookmark(A), await saveBookmark(A), await saveBookmark(A)];
+    const collection = await createCollection(A, { name: 'Append' });
+    await addBookmarksToCollection(collection.id, A, [second.id]);
+
+    const result = await bulkUpdateBookmarks(A, {
+      ids: [third.id, second.id, first.id],
+      action: { type: 'add_to_collection', collection: collection.id },
+    });
+
+    expect(result).toMatchObject({ matched: 3, updated: 3 });
+    expect(await collectionIds(A, collection.id)).toEqual([second.id, third.id, first.id]);
+  });
+
+  it('adds every bookmark matching a filter', async () => {
+    const tagged = [await saveBookmark(A, ['to-file']), await saveBookmark(A, ['to-file'])];
+    await saveBookmark(A, ['other']);
+    const collection = await createCollection(A, { name: 'Filtered' });
+
+    const result = await bulkUpdateBookmarks(A, {
+      filters: { tags: ['to-file'] },
+      action: { type: 'add_to_collection', collection: collection.id },
+    });
+
+    expect(result.updated).toBe(2);
+    expect((await collectionIds(A, collection.id)).sort()).toEqual(tagged.map(bookmark => bookmark.id).sort());
+  });
+
+  it('skips trashed bookmarks', async () => {
+    const trashed = await saveBookmark(A);
+    await bulkUpdateBookmarks(A, { ids: [trashed.id], action: { type: 'delete' } });
+    const collection = await createCollection(A, { name: 'Live only' });
+
+    const result = await bulkUpdateBookmarks(A, {
+      ids: [trashed.id],
+      action: { type: 'add_to_collection', collection: collection.id },
+    });
+
+    expect(result.items).toEqual([{ id: trashed.id, status: 'not_found' }]);
+  });
+
+  it('moves bookmarks out of their other collections', async () => {
+    const [moved, stays] = [await saveBookmark(A), await saveBookmark(A)];
+    const from = await createCollection(A, { name: 'From' });
+    const to = await createCollection(A, { name: 'To' });
+    const otherUsers = await createCollection(B, { name: 'Theirs' });
+    await addBookmarksToCollection(from.id, A, [moved.id, stays.id]);
+
+    const result = await bulkUpdateBookmarks(A, {
+      ids: [moved.id],
+      action: { type: 'move_to_collection', collection: to.id },
+    });
+
+    expect(result.updated).toBe(1);
+    expect(await collectionIds(A, from.id)).toEqual([stays.id]);
+    expect(await collectionIds(A, to.id)).toEqual([moved.id]);
+    await expect(bulkUpdateBookmarks(A, {
+      ids: [stays.id],
+      action: { type: 'move_to_collection', collection: otherUsers.id },
+    })).rejects.toMatchObject({ statusCode: 404 });
+    expect(await collectionIds(A, from.id)).toEqual([stays.id]);
+  });
+
+  it("refuses another user's collection and skips their bookmarks", async () => {
+    const own = await saveBookmark(B);
+    const theirs = await saveBookmark(A);
+    const collectionOfA = await createCollection(A, { name: 'Private' });
+    const collectionOfB = await createCollection(B, { name: 'Mine' });
+
+    await expect(bulkUpdateBookmarks(B, {
+      ids: [own.id],
+      action: { type: 'add_to_collection', collection: collectionOfA.id },
+    })).rejects.toMatchObject({ statusCode: 404 });
+    expect(await collectionIds(A, collectionOfA.id)).toEqual([]);
+
+    const result = await bulkUpdateBookmarks(B, {
+      ids: [theirs.id, own.id],
+      action: { type: 'add_to_collection', collection: collectionOfB.id },
+    });
+    expect(result.items).toEqual([{ id: theirs.id, status: 'not_found' }, { id: own.id, status: 'updated' }]);
+    expect(await collectionIds(B, collectionOfB.id)).toEqual([own.id]);
+  });
+});
+
+describe('restore', () => {
+  it('leaves bookmarks whose URL is live again in the trash', async () => {
+    const url = 'https://example.com/bulk-restore';
+    const save = () => bookmarkRepository.insert({ user_id: A, url, canonical_url: url, title: 'Again' });
+    const [first, second] = [await save(), await save()];
+    const other = await saveBookmark(A);
+    await bulkUpdateBookmarks(A, { ids: [first.id, second.id, other.id], action: { type: 'delete' } });
+
+    const result = await bulkUpdateBookmarks(A, { ids: [second.id, first.id, other.id], action: { type: 'restore' } });
+    expect(result.items).toEqual([
+      { id: second.id, status: 'updated' },
+      { id: first.id, status: 'duplicate' },
+      { id: other.id, status: 'updated' },
+    ]);
+
+    await bulkUpdateBookmarks(A, { ids: [second.id], action: { type: 'delete' } });
+    const live = await save();
+    const again = await bulkUpdateBookmarks(A, { ids: [first.id, second.id], action: { type: 'restore' } });
+    expect(again).toMatchObject({ updated: 0, items: [{ status: 'duplicate' }, { status: 'duplicate' }] });
+    expect((await bookmarkRepository.findIdsByCanonicalUrls(A, [url])).map(bookmark => bookmark.id)).toEqual([live.id]);
+  });
+});
+
+describe('mark_read', () => {
+  it('removes the unread tag under the name the user has for it', async () => {
+    const legacy = await saveBookmark(A, ['Unread', 'keep']);
+
+    const result = await bulkUpdateBookmarks(A, { ids: [legacy.id], action: { type: 'mark_read' } });
+
+    expect(result.updated).toBe(1);
+    expect((await bookmarkRepository.find(legacy.id))?.tags).toEqual(['keep']);
+  });
+});
@@ -0,0 +1,115 @@
+import { bookmarkRepository, BulkOperation, collectionRepository } from '../repositories';
+import { BulkAction, BulkBookmarkRequest, BulkResult } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { UNREAD_TAG } from '../utils/tagPath';
+import { buildBookmarkQuery } from './bookmarkService';
+import { resolveTagNames } from './tagService';
+
+// Applies one action to many bookmarks at once. The bookmarks are picked by id
+// or by the same filters as the bookmark list, and the change is written in a
+// single transaction: either every picked bookmark changes or none does.
+
+// Most bookmarks one request may change
+const BULK_LIMIT = parseInt(process.env.BULK_LIMIT || '1000', 10);
+
+// Ids or URLs per lookup, so Supabase request URLs stay short
+const LOOKUP_BATCH_SIZE = 50;
+
+const toOperation = async (userId: string, action: BulkAction): Promise<BulkOperation> => {
+  switch (action.type) {
+    case 'add_tags':
+    case 'remove_tags':
+    case 'replace_tags':
+      return { type: action.type, tags: await resolveTagNames(userId, action.tags) };
+    case 'mark_read':
+      // Resolved like any other name, so an `Unread` tag saved before names were normalized goes too
+      return { type: 'remove_tags', tags: await resolveTagNames(userId, [UNREAD_TAG]) };
+    case 'move_to_category':
+      return { type: 'set_category', category: action.category?.trim() || null };
+    case 'add_to_collection':
+    case 'move_to_collection':
+      if (!await collectionRepository.find(action.collection, userId)) {
+        throw new AppError('Collection not found', 404);
+      }
+      return action;
+    default:
+      return action;
+  }
+};
+
+const selectBookmarkIds = async (userId: string, request: BulkBookmarkRequest): Promise<string[]> => {
+  if (request.ids) {
+    return Array.from(new Set(request.ids));
+  }
+  if (!request.filters) {
+    throw new AppError('Pass either ids or filters', 400);
+  }
+  if (request.action.type === 'restore') {
+    throw new AppError('Filters only match bookmarks outside the trash; restore by ids', 400);
+  }
+
+  const query = await buildBookmarkQuery(userId, request.filters);
+  if (!query) return [];
+
+  // One more than allowed, to tell an oversized selection apart
+  const bookmarks = await bookmarkRepository.list(userId, query, { limit: BULK_LIMIT + 1 });
+  return bookmarks.map(bookmark => bookmark.id);
+};
+
+// The trashed bookmarks among the ids that restoring would make a second live
+// bookmark for their URL: it was saved again, or an earlier id restores it
+const findRestoreDuplicates = async (userId: string, ids: string[]): Promise<Set<string>> => {
+  const canonicalUrls = new Map<string, string>();
+  for (let start = 0; start < ids.length; start += LOOKUP_BATCH_SIZE) {
+    const trashed = await bookmarkRepository.findTrashedCanonicalUrls(userId, ids.slice(start, start + LOOKUP_BATCH_SIZE));
+    trashed.forEach(bookmark => canonicalUrls.set(bookmark.id, bookmark.canonical_url));
+  }
+
+  const taken = new Set<string>();
+  const urls = Array.from(new Set(canonicalUrls.values()));
+  for (let start = 0; start < urls.length; start += LOOKUP_BATCH_SIZE) {
+    const live = await bookmarkRepository.findIdsByCanonicalUrls(userId, urls.slice(start, start + LOOKUP_BATCH_SIZE));
+    live.forEach(bookmark => taken.add(bookmark.canonical_url));
+  }
+
+  const duplicates = new Set<string>();
+  for (const id of ids) {
+    const url = canonicalUrls.get(id);
+    if (url === undefined) continue;
+    if (taken.has(url)) duplicates.add(id);
+    taken.add(url);
+  }
+  return duplicates;
+};
+
+export const bulkUpdateBookmarks = async (
+  userId: string,
+  request: BulkBookmarkRequest
+): Promise<BulkResult> => {
+  try {
+    const ids = await selectBookmarkIds(userId, request);
+    if (ids.length > BULK_LIMIT) {
+      throw new AppError(`A bulk action can change at most ${BULK_LIMIT} bookmarks; narrow the selection`, 400);
+    }
+
+    const duplicates = request.action.type === 'restore' ? await findRestoreDuplicates(userId, ids) : new Set<string>();
+    const targets = ids.filter(id => !duplicates.has(id));
+    const updated = new Set(
+      targets.length > 0
+        ? await bookmarkRepository.bulkUpdate(userId, targets, await toOperation(userId, request.action))
+        : []
+    );
+
+    return {
+      matched: ids.length,
+      updated: updated.size,
+      items: ids.map(id => ({
+        id,
+        status: updated.has(id) ? 'updated' : duplicates.has(id) ? 'duplicate' : 'not_found',
+      })),
+    };
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to update bookmarks', 500);
+  }
+};
@@ -1,17 +1,10 @@
-import { supabase } from '../config/database';
+import { categoryRepository } from '../repositories';
 import { Category } from '../types';
 import { AppError } from '../middleware/errorHandler';
 
 export const getCategories = async (userId: string): Promise<Category[]> => {
   try {
-    const { data, error } = await supabase
-      .from('categories')
-      .select('*')
-      .eq('user_id', userId)
-      .order('name', { ascending: true });
-
-    if (error) throw new AppError(error.message, 400);
-    return data || [];
+    return await categoryRepository.list(userId);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to fetch categories', 500);
@@ -23,17 +16,7 @@ export const createCategory = async (
   name: string
 ): Promise<Category> => {
   try {
-    const { data, error } = await supabase
-      .from('categories')
-      .insert({
-        user_id: userId,
-        name,
-      })
-      .select()
-      .single();
-
-    if (error) throw new AppError(error.message, 400);
-    return data;
+    return await categoryRepository.insert(userId, name);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to create category', 500);
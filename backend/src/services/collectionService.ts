@@ -0,0 +1,117 @@
+import { CollectionChanges, collectionRepository } from '../repositories';
+import { Collection, CreateCollectionDto, UpdateCollectionDto } from '../types';
+import { AppError } from '../middleware/errorHandler';
+
+// Collections are hand-ordered lists of bookmarks. Their bookmarks are read
+// through getBookmarks with the `collection` filter.
+
+// Blank descriptions are stored as none
+const toDescription = (description: string | null | undefined): string | null => description?.trim() || null;
+
+export const getCollections = async (userId: string): Promise<Collection[]> => {
+  try {
+    return await collectionRepository.list(userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch collections', 500);
+  }
+};
+
+export const getCollection = async (collectionId: string, userId: string): Promise<Collection> => {
+  try {
+    const collection = await collectionRepository.find(collectionId, userId);
+    if (!collection) throw new AppError('Collection not found', 404);
+
+    return collection;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch collection', 500);
+  }
+};
+
+export const createCollection = async (userId: string, dto: CreateCollectionDto): Promise<Collection> => {
+  try {
+    return await collectionRepository.insert({
+      user_id: userId,
+      name: dto.name.trim(),
+      description: toDescription(dto.description),
+    });
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to create collection', 500);
+  }
+};
+
+export const updateCollection = async (
+  collectionId: string,
+  userId: string,
+  updates: UpdateCollectionDto
+): Promise<Collection> => {
+  try {
+    const changes: CollectionChanges = { updated_at: new Date().toISOString() };
+    if (updates.name !== undefined) changes.name = updates.name.trim();
+    if (updates.description !== undefined) changes.description = toDescription(updates.description);
+
+    const collection = await collectionRepository.update(collectionId, userId, changes);
+    if (!collection) throw new AppError('Collection not found', 404);
+
+    return collection;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to update collection', 500);
+  }
+};
+
+// The bookmarks themselves stay
+export const deleteCollection = async (collectionId: string, userId: string): Promise<void> => {
+  try {
+    const deleted = await collectionRepository.delete(collectionId, userId);
+    if (!deleted) throw new AppError('Collection not found', 404);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to delete collection', 500);
+  }
+};
+
+// Ids that are not the user's live bookmarks, or already in the collection, are skipped
+export const addBookmarksToCollection = async (
+  collectionId: string,
+  userId: string,
+  bookmarkIds: string[]
+): Promise<Collection> => {
+  try {
+    const added = await collectionRepository.addBookmarks(collectionId, userId, bookmarkIds);
+    if (!added) throw new AppError('Collection not found', 404);
+
+    return await getCollection(collectionId, userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to add bookmarks to collection', 500);
+  }
+};
+
+export const removeBookmarkFromCollection = async (
+  collectionId: string,
+  userId: string,
+  bookmarkId: string
+): Promise<void> => {
+  try {
+    const removed = await collectionRepository.removeBookmark(collectionId, userId, bookmarkId);
+    if (!removed) throw new AppError('Bookmark not found in collection', 404);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to remove bookmark from collection', 500);
+  }
+};
+
+// The listed bookmarks move to the front in that order, so a client can send
+// the order it shows even when the trash holds more of the collection
+export const reorderCollection = async (collectionId: string, userId: string, bookmarkIds: string[]): Promise<void> => {
+  try {
+    const reordered = await collectionRepository.reorder(collectionId, userId, bookmarkIds);
+    if (!reordered) throw new AppError('Collection not found', 404);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to reorder collection', 500);
+  }
+};
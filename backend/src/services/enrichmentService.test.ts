@@ -0,0 +1,111 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { bookmarkRepository } from '../repositories';
+import { enrichBookmark, processEnrichmentQueue } from './enrichmentService';
+
+// The fixture server runs on loopback, which the fetcher refuses by default
+vi.hoisted(() => {
+  process.env.FETCH_ALLOW_PRIVATE_HOSTS = 'true';
+  process.env.ENRICHMENT_TIMEOUT_MS = '200';
+  process.env.ENRICHMENT_MAX_ATTEMPTS = '2';
+});
+
+const USER = 'user-a';
+
+const ARTICLE = `<!doctype html>
+<html lang="en">
+  <head>
+    <title>Fallback title</title>
+    <meta property="og:title" content="An article">
+    <meta name="description" content="What it is about">
+    <link rel="icon" href="/favicon.png">
+  </head>
+  <body><p>Text</p></body>
+</html>`;
+
+// Each test registers the handler for its own path
+const routes = new Map<string, http.RequestListener>();
+const server = http.createServer((req, res) => {
+  const handler = routes.get(req.url || '/');
+  if (handler) return handler(req, res);
+  res.writeHead(404).end();
+});
+let base = '';
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const saveBookmark = (path: string) => {
+  const url = `${base}${path}`;
+  return bookmarkRepository.insert({ user_id: USER, url, canonical_url: url, title: url });
+};
+
+describe('enrichBookmark', () => {
+  it('stores the metadata of an HTML page', async () => {
+    routes.set('/article', (_req, res) => res.writeHead(200, { 'content-type': 'text/html' }).end(ARTICLE));
+    const bookmark = await saveBookmark('/article');
+
+    expect(await enrichBookmark(bookmark.id)).toBe('done');
+
+    const enriched = (await bookmarkRepository.find(bookmark.id))!;
+    expect(enriched.enrichment_status).toBe('done');
+    expect(enriched.metadata).toMatchObject({
+      title: 'An article',
+      description: 'What it is about',
+      favicon_url: `${base}/favicon.png`,
+      language: 'en',
+    });
+  });
+
+  it('fails non-HTML responses without retrying', async () => {
+    routes.set('/data.json', (_req, res) => res.writeHead(200, { 'content-type': 'application/json' }).end('{}'));
+    const bookmark = await saveBookmark('/data.json');
+
+    expect(await enrichBookmark(bookmark.id)).toBe('failed');
+    expect(await bookmarkRepository.find(bookmark.id)).toMatchObject({
+      enrichment_error: 'Not an HTML page (application/json)',
+      enrichment_next_attempt_at: null,
+    });
+  });
+
+  it('retries timeouts with backoff until the attempts run out', async () => {
+    routes.set('/hangs', () => {
+      // Never responds
+    });
+    const bookmark = await saveBookmark('/hangs');
+
+    expect(await enrichBookmark(bookmark.id)).toBe('pending');
+    const pending = (await bookmarkRepository.find(bookmark.id))!;
+    expect(pending).toMatchObject({ enrichment_attempts: 1, enrichment_error: 'Timed out after 200ms' });
+    expect(Date.parse(pending.enrichment_next_attempt_at!)).toBeGreaterThan(Date.now());
+
+    expect(await enrichBookmark(bookmark.id)).toBe('failed');
+    expect(await bookmarkRepository.find(bookmark.id)).toMatchObject({ enrichment_attempts: 2 });
+  });
+
+  it('picks up due retries from the queue', async () => {
+    let calls = 0;
+    routes.set('/flaky', (_req, res) => {
+      calls++;
+      if (calls === 1) return res.writeHead(503).end();
+      res.writeHead(200, { 'content-type': 'text/html' }).end(ARTICLE);
+    });
+    const bookmark = await saveBookmark('/flaky');
+
+    expect(await enrichBookmark(bookmark.id)).toBe('pending');
+
+    // Make the retry due now
+    await bookmarkRepository.update(bookmark.id, { enrichment_next_attempt_at: new Date(0).toISOString() });
+    await processEnrichmentQueue();
+
+    expect(calls).toBe(2);
+    expect(await bookmarkRepository.find(bookmark.id)).toMatchObject({ enrichment_status: 'done', enrichment_error: null });
+  });
+});
@@ -0,0 +1,159 @@
+import { bookmarkRepository } from '../repositories';
+import { EnrichmentStatus } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { fetchPage, FetchPageError } from '../utils/http';
+import { extractMetadata } from '../utils/pageMetadata';
+import { storeArchive } from './archiveService';
+
+// Fetches saved pages in the background and stores their metadata on the
+// bookmark. New bookmarks are enriched right after they are saved; failed
+// fetches stay `pending` and are retried by the worker with exponential
+// backoff until ENRICHMENT_MAX_ATTEMPTS is reached.
+
+const ENRICHMENT_TIMEOUT_MS = parseInt(process.env.ENRICHMENT_TIMEOUT_MS || '10000', 10);
+const ENRICHMENT_MAX_BYTES = parseInt(process.env.ENRICHMENT_MAX_BYTES || String(2 * 1024 * 1024), 10);
+const ENRICHMENT_MAX_ATTEMPTS = parseInt(process.env.ENRICHMENT_MAX_ATTEMPTS || '5', 10);
+// How often the worker looks for due retries; 0 disables the worker
+const ENRICHMENT_INTERVAL_MS = parseInt(process.env.ENRICHMENT_INTERVAL_MS || '60000', 10);
+
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const QUEUE_BATCH_SIZE = 10;
+
+// Bookmarks being fetched by this process, so a save and a worker tick
+// never enrich the same bookmark twice at once
+const inFlight = new Set<string>();
+let queueRunning = false;
+
+const retryDelay = (attempts: number): number => RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+
+export const enrichBookmark = async (bookmarkId: string): Promise<EnrichmentStatus> => {
+  if (inFlight.has(bookmarkId)) return 'pending';
+  inFlight.add(bookmarkId);
+
+  try {
+    const bookmark = await bookmarkRepository.find(bookmarkId);
+    if (!bookmark) throw new AppError('Bookmark not found', 404);
+
+    const attempts = (bookmark.enrichment_attempts || 0) + 1;
+
+    try {
+      const page = await fetchPage(bookmark.url, {
+        timeoutMs: ENRICHMENT_TIMEOUT_MS,
+        maxBytes: ENRICHMENT_MAX_BYTES,
+      });
+
+      if (!/html/i.test(page.contentType)) {
+        throw new FetchPageError(`Not an HTML page (${page.contentType || 'unknown type'})`, false);
+      }
+
+      await bookmarkRepository.update(bookmarkId, {
+        metadata: extractMetadata(page.body, page.url),
+        enrichment_status: 'done',
+        enrichment_attempts: attempts,
+        enrichment_error: null,
+        enrichment_next_attempt_at: null,
+        enriched_at: new Date().toISOString(),
+      });
+
+      // An archive requested on save is captured from the same response
+      if (bookmark.archive_status === 'pending') {
+        await storeArchive(bookmarkId, bookmark.user_id, page).catch((archiveError) => {
+          console.error(`Archiving bookmark ${bookmarkId} failed:`, archiveError);
+        });
+      }
+
+      return 'done';
+    } catch (fetchError) {
+      if (!(fetchError instanceof FetchPageError)) throw fetchError;
+
+      const retry = fetchError.retryable && attempts < ENRICHMENT_MAX_ATTEMPTS;
+      const status: EnrichmentStatus = retry ? 'pending' : 'failed';
+
+      await bookmarkRepository.update(bookmarkId, {
+        enrichment_status: status,
+        enrichment_attempts: attempts,
+        enrichment_error: fetchError.message,
+        enrichment_next_attempt_at: retry
+          ? new Date(Date.now() + retryDelay(attempts)).toISOString()
+          : null,
+        // Nothing left to archive once the page is given up on
+        ...(!retry && bookmark.archive_status === 'pending' ? { archive_status: 'failed' as const } : {}),
+      });
+
+      return status;
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to enrich bookmark', 500);
+  } finally {
+    inFlight.delete(bookmarkId);
+  }
+};
+
+// Enriches a freshly saved bookmark without delaying the response
+export const scheduleEnrichment = (bookmarkId: string): void => {
+  setImmediate(() => {
+    enrichBookmark(bookmarkId).catch((error) => {
+      console.error(`Enrichment of bookmark ${bookmarkId} failed:`, error);
+    });
+  });
+};
+
+// Puts a bookmark back in the queue with a fresh set of attempts
+export const requeueEnrichment = async (
+  bookmarkId: string,
+  userId: string
+): Promise<EnrichmentStatus> => {
+  try {
+    const requeued = await bookmarkRepository.update(
+      bookmarkId,
+      {
+        enrichment_status: 'pending',
+        enrichment_attempts: 0,
+        enrichment_error: null,
+        enrichment_next_attempt_at: null,
+      },
+      { userId, deleted: false }
+    );
+    if (!requeued) throw new AppError('Bookmark not found', 404);
+
+    return await enrichBookmark(bookmarkId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to enrich bookmark', 500);
+  }
+};
+
+// Enriches pending bookmarks whose retry is due, oldest first. Bookmarks
+// saved before enrichment existed are picked up here as well.
+export const processEnrichmentQueue = async (): Promise<number> => {
+  if (queueRunning) return 0;
+  queueRunning = true;
+
+  try {
+    const due = await bookmarkRepository.findEnrichmentDue(new Date().toISOString(), QUEUE_BATCH_SIZE);
+
+    // One page at a time keeps the worker's memory and bandwidth bounded
+    for (const id of due) {
+      await enrichBookmark(id);
+    }
+
+    return due.length;
+  } finally {
+    queueRunning = false;
+  }
+};
+
+export const startEnrichmentWorker = (): void => {
+  if (ENRICHMENT_INTERVAL_MS <= 0) return;
+
+  const tick = () => {
+    processEnrichmentQueue().catch((error) => {
+      console.error('Enrichment queue failed:', error);
+    });
+  };
+
+  // unref() so the timer does not keep scripts that import this module alive
+  setInterval(tick, ENRICHMENT_INTERVAL_MS).unref();
+  tick();
+};
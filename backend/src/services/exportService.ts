@@ -0,0 +1,33 @@
+import { bookmarkRepository } from '../repositories';
+import { Bookmark } from '../types';
+import { AppError } from '../middleware/errorHandler';
+
+const PAGE_SIZE = 500;
+
+// Yields every live bookmark of a user with its tags, oldest first, one page
+// at a time so large libraries never have to be held in memory at once.
+export async function* iterateBookmarks(userId: string): AsyncGenerator<Bookmark[]> {
+  let after: { createdAt: string; id: string } | null = null;
+
+  for (;;) {
+    const rows = await bookmarkRepository.listOldestFirst(userId, after, PAGE_SIZE);
+    if (rows.length > 0) yield rows;
+    if (rows.length < PAGE_SIZE) return;
+
+    const last = rows[rows.length - 1];
+    after = { createdAt: last.created_at, id: last.id };
+  }
+}
+
+export const getAllBookmarks = async (userId: string): Promise<Bookmark[]> => {
+  try {
+    const bookmarks: Bookmark[] = [];
+    for await (const page of iterateBookmarks(userId)) {
+      bookmarks.push(...page);
+    }
+    return bookmarks;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to export bookmarks', 500);
+  }
+};
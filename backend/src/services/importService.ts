@@ -0,0 +1,286 @@
+import { bookmarkRepository, importJobRepository } from '../repositories';
+import {
+  ImportBookmark,
+  ImportItemResult,
+  ImportJob,
+  ImportPreview,
+  ImportReport,
+  ImportSource,
+} from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { canonicalizeUrl } from '../utils/url';
+import { addTagsToBookmark } from './bookmarkService';
+
+// Imports parsed bookmarks into a user's library. URLs that are already
+// saved (or appear twice in the file) are reported as duplicates instead of
+// being created again. Metadata for new bookmarks is filled in later by the
+// enrichment worker, which picks up every pending bookmark.
+
+// Canonical URLs end up in the query string of the duplicate lookup, so
+// batches are kept small enough for PostgREST's URL length limit
+const BATCH_SIZE = 50;
+
+interface PreparedItem {
+  index: number;
+  bookmark: ImportBookmark;
+  canonicalUrl: string;
+}
+
+// Sets up a result for every file item and rejects the ones that cannot be
+// imported at all
+const prepareItems = (bookmarks: ImportBookmark[]) => {
+  const results: ImportItemResult[] = [];
+  const prepared: PreparedItem[] = [];
+
+  bookmarks.forEach((bookmark, index) => {
+    const result: ImportItemResult = { index, url: bookmark.url, title: bookmark.title, status: 'failed' };
+    results.push(result);
+
+    if (!bookmark.url) {
+      result.error = 'Missing URL';
+      return;
+    }
+
+    // Bookmarklets and browser-internal pages (javascript:, place:, chrome:) are skipped
+    if (!/^https?:\/\//i.test(bookmark.url)) {
+      result.error = 'Only http and https URLs can be imported';
+      return;
+    }
+
+    try {
+      prepared.push({ index, bookmark, canonicalUrl: canonicalizeUrl(bookmark.url) });
+    } catch {
+      result.error = 'Invalid URL';
+    }
+  });
+
+  return { results, prepared };
+};
+
+// Adds the batch's URLs that are already in the library to `seen`
+const findExisting = async (
+  userId: string,
+  batch: PreparedItem[],
+  seen: Map<string, string | undefined>
+): Promise<void> => {
+  const existing = await bookmarkRepository.findIdsByCanonicalUrls(
+    userId,
+    batch.map(item => item.canonicalUrl)
+  );
+
+  for (const row of existing) {
+    if (!seen.has(row.canonical_url)) seen.set(row.canonical_url, row.id);
+  }
+};
+
+const importBatch = async (
+  userId: string,
+  batch: PreparedItem[],
+  results: ImportItemResult[],
+  seen: Map<string, string | undefined>
+): Promise<void> => {
+  await findExisting(userId, batch, seen);
+
+  const toCreate: PreparedItem[] = [];
+  for (const item of batch) {
+    const result = results[item.index];
+    if (seen.has(item.canonicalUrl)) {
+      result.status = 'duplicate';
+      result.bookmark_id = seen.get(item.canonicalUrl);
+    } else {
+      // Reserved now so a later copy in the same file counts as a duplicate
+      seen.set(item.canonicalUrl, undefined);
+      toCreate.push(item);
+    }
+  }
+
+  if (toCreate.length === 0) return;
+
+  let created: Array<{ id: string; canonical_url: string }>;
+  try {
+    created = await bookmarkRepository.insertMany(toCreate.map(({ bookmark, canonicalUrl }) => ({
+      user_id: userId,
+      url: bookmark.url,
+      canonical_url: canonicalUrl,
+      title: bookmark.title,
+      summary: bookmark.summary || null,
+      category: bookmark.category || null,
+      // Every row needs the column once any row sets it, or it would be NULL
+      created_at: bookmark.created_at || new Date().toISOString(),
+      updated_at: bookmark.updated_at || null,
+    })));
+  } catch (error) {
+    if (!(error instanceof AppError)) throw error;
+    for (const item of toCreate) {
+      results[item.index].status = 'failed';
+      results[item.index].error = error.message;
+    }
+    return;
+  }
+
+  const idsByCanonicalUrl = new Map<string, string>(created.map(row => [row.canonical_url, row.id]));
+
+  for (const { index, bookmark, canonicalUrl } of toCreate) {
+    const result = results[index];
+    const bookmarkId = idsByCanonicalUrl.get(canonicalUrl);
+    seen.set(canonicalUrl, bookmarkId);
+    result.status = 'created';
+    result.bookmark_id = bookmarkId;
+
+    if (bookmarkId && bookmark.tags && bookmark.tags.length > 0) {
+      try {
+        await addTagsToBookmark(bookmarkId, bookmark.tags, userId);
+      } catch (error) {
+        result.error = `Saved without tags: ${(error as Error).message}`;
+      }
+    }
+  }
+};
+
+const summarize = (results: ImportItemResult[]): Omit<ImportReport, 'items'> => ({
+  total: results.length,
+  created: results.filter(result => result.status === 'created').length,
+  duplicates: results.filter(result => result.status === 'duplicate').length,
+  failed: results.filter(result => result.status === 'failed').length,
+});
+
+// Called after every batch with the number of file items handled so far and
+// the results up to that point
+type ImportProgress = (processed: number, results: ImportItemResult[]) => Promise<void>;
+
+export const importBookmarks = async (
+  userId: string,
+  bookmarks: ImportBookmark[],
+  onProgress?: ImportProgress
+): Promise<ImportReport> => {
+  try {
+    const { results, prepared } = prepareItems(bookmarks);
+
+    // Canonical URL -> bookmark id, for everything already saved or imported in this run
+    const seen = new Map<string, string | undefined>();
+
+    for (let start = 0; start < prepared.length; start += BATCH_SIZE) {
+      const batch = prepared.slice(start, start + BATCH_SIZE);
+      await importBatch(userId, batch, results, seen);
+      if (onProgress) await onProgress(batch[batch.length - 1].index + 1, results);
+    }
+
+    // Copies within the file point at the bookmark created for the first one
+    for (const { index, canonicalUrl } of prepared) {
+      if (results[index].status === 'duplicate' && !results[index].bookmark_id) {
+        results[index].bookmark_id = seen.get(canonicalUrl);
+      }
+    }
+
+    return { ...summarize(results), items: results };
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to import bookmarks', 500);
+  }
+};
+
+// Dry run of importBookmarks: counts what would be created and lists the
+// items that would not be (already saved, repeated in the file, or invalid)
+export const previewImport = async (
+  userId: string,
+  bookmarks: ImportBookmark[]
+): Promise<ImportPreview> => {
+  try {
+    const { results, prepared } = prepareItems(bookmarks);
+    const seen = new Map<string, string | undefined>();
+    let newCount = 0;
+
+    for (let start = 0; start < prepared.length; start += BATCH_SIZE) {
+      const batch = prepared.slice(start, start + BATCH_SIZE);
+      await findExisting(userId, batch, seen);
+
+      for (const { index, canonicalUrl } of batch) {
+        if (seen.has(canonicalUrl)) {
+          results[index].status = 'duplicate';
+          results[index].bookmark_id = seen.get(canonicalUrl);
+        } else {
+          seen.set(canonicalUrl, undefined);
+          newCount++;
+        }
+      }
+    }
+
+    // New items are left untouched; only rejected items carry an error
+    const conflicts = results.filter(item => item.status === 'duplicate' || item.error);
+    return {
+      total: results.length,
+      new: newCount,
+      duplicates: conflicts.filter(item => item.status === 'duplicate').length,
+      failed: conflicts.filter(item => item.status === 'failed').length,
+      conflicts,
+    };
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to preview import', 500);
+  }
+};
+
+const runImportJob = async (jobId: string, userId: string, bookmarks: ImportBookmark[]): Promise<void> => {
+  try {
+    const report = await importBookmarks(userId, bookmarks, async (processed, results) => {
+      const { created, duplicates, failed } = summarize(results.slice(0, processed));
+      // Progress is only informational, so a failed write does not stop the import
+      await importJobRepository.update(jobId, { processed, created, duplicates, failed }).catch((progressError) => {
+        console.error(`Failed to record progress of import job ${jobId}:`, progressError);
+      });
+    });
+
+    await importJobRepository.update(jobId, {
+      status: 'done',
+      processed: report.total,
+      created: report.created,
+      duplicates: report.duplicates,
+      failed: report.failed,
+      items: report.items,
+      finished_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Import job ${jobId} failed:`, error);
+    await importJobRepository.update(jobId, {
+      status: 'failed',
+      error: (error as Error).message,
+      finished_at: new Date().toISOString(),
+    }).catch((updateError) => {
+      console.error(`Failed to mark import job ${jobId} as failed:`, updateError);
+    });
+  }
+};
+
+// Starts an import in the background and returns the job straight away, so
+// large files never hold the request open for the whole import. Progress is
+// read back with getImportJob.
+export const startImportJob = async (
+  userId: string,
+  source: ImportSource,
+  bookmarks: ImportBookmark[]
+): Promise<ImportJob> => {
+  try {
+    const job = await importJobRepository.insert({ user_id: userId, source, total: bookmarks.length });
+
+    setImmediate(() => {
+      void runImportJob(job.id, userId, bookmarks);
+    });
+
+    return job;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to start import', 500);
+  }
+};
+
+export const getImportJob = async (jobId: string, userId: string): Promise<ImportJob> => {
+  try {
+    const job = await importJobRepository.find(jobId, userId);
+    if (!job) throw new AppError('Import job not found', 404);
+
+    return job;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch import job', 500);
+  }
+};
@@ -0,0 +1,212 @@
+import { bookmarkRepository, LinkCheckTarget } from '../repositories';
+import { Bookmark, LinkHealth } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { checkUrl, FetchPageError, LinkCheckResult } from '../utils/http';
+import { canonicalizeUrl } from '../utils/url';
+import { findDuplicateBookmark, getBookmarkWithTags } from './bookmarkService';
+
+// Periodically checks that saved URLs still resolve and records the status
+// code, redirect target and check time on each bookmark.
+//
+// - `ok`: the URL answers (possibly after a redirect to an equivalent URL)
+// - `redirected`: the URL now redirects somewhere else
+// - `broken`: 404/410 right away, other errors after repeated failures
+//
+// Requests to one host are spaced out, and hosts that throttle or fail are
+// backed off exponentially so the checker never hammers a site.
+
+const LINK_CHECK_INTERVAL_MS = parseInt(process.env.LINK_CHECK_INTERVAL_MS || String(10 * 60 * 1000), 10);
+const LINK_RECHECK_DAYS = parseInt(process.env.LINK_RECHECK_DAYS || '7', 10);
+const LINK_CHECK_TIMEOUT_MS = parseInt(process.env.LINK_CHECK_TIMEOUT_MS || '10000', 10);
+const LINK_CHECK_DOMAIN_DELAY_MS = parseInt(process.env.LINK_CHECK_DOMAIN_DELAY_MS || '2000', 10);
+
+const BATCH_SIZE = 50;
+const BROKEN_AFTER_FAILURES = 2;
+const FAILURE_RECHECK_MS = 60 * 60 * 1000;
+const MIN_DOMAIN_BACKOFF_MS = 60 * 1000;
+const MAX_DOMAIN_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+interface DomainState {
+  nextAllowedAt: number;
+  backoffMs: number;
+}
+
+const domains = new Map<string, DomainState>();
+let checkRunning = false;
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const recordDomainResult = (host: string, throttled: boolean, retryAfterMs: number = 0): void => {
+  const state = domains.get(host) || { nextAllowedAt: 0, backoffMs: 0 };
+
+  if (throttled) {
+    state.backoffMs = Math.min(Math.max(state.backoffMs * 2, MIN_DOMAIN_BACKOFF_MS), MAX_DOMAIN_BACKOFF_MS);
+    state.nextAllowedAt = Date.now() + Math.max(state.backoffMs, retryAfterMs);
+  } else {
+    state.backoffMs = 0;
+    state.nextAllowedAt = Date.now() + LINK_CHECK_DOMAIN_DELAY_MS;
+  }
+
+  domains.set(host, state);
+};
+
+// Equivalent URLs (http -> https, trailing slash, tracking params) are not redirects worth reporting
+const isRealRedirect = (originalUrl: string, result: LinkCheckResult): boolean => {
+  if (!result.redirected) return false;
+  const comparable = (url: string) => canonicalizeUrl(url).replace(/^http:/, 'https:');
+  try {
+    return comparable(originalUrl) !== comparable(result.url);
+  } catch {
+    return true;
+  }
+};
+
+// Checks one bookmark and stores the outcome. Returns false when the host
+// asked us to slow down, in which case nothing is recorded.
+const checkBookmarkLink = async (bookmark: LinkCheckTarget): Promise<boolean> => {
+  const host = hostOf(bookmark.url);
+  const now = new Date();
+
+  let result: LinkCheckResult | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    result = await checkUrl(bookmark.url, { timeoutMs: LINK_CHECK_TIMEOUT_MS });
+  } catch (error) {
+    if (!(error instanceof FetchPageError)) throw error;
+    errorMessage = error.message;
+  }
+
+  if (result && (result.status === 429 || result.status === 503)) {
+    recordDomainResult(host, true, result.retryAfterMs);
+    return false;
+  }
+  recordDomainResult(host, !result);
+
+  const failed = !result || result.status >= 400;
+  const failures = failed ? (bookmark.link_failures || 0) + 1 : 0;
+
+  let health: LinkHealth | null;
+  if (!failed) {
+    health = isRealRedirect(bookmark.url, result!) ? 'redirected' : 'ok';
+  } else if (result && (result.status === 404 || result.status === 410)) {
+    health = 'broken';
+  } else {
+    // A single timeout or server error is often temporary
+    health = failures >= BROKEN_AFTER_FAILURES ? 'broken' : bookmark.link_health || null;
+  }
+
+  const nextCheck = failed && health !== 'broken'
+    ? now.getTime() + FAILURE_RECHECK_MS * failures
+    : now.getTime() + LINK_RECHECK_DAYS * 24 * 60 * 60 * 1000;
+
+  await bookmarkRepository.update(bookmark.id, {
+    link_health: health,
+    link_status_code: result?.status ?? null,
+    link_redirect_url: health === 'redirected' ? result!.url : null,
+    link_error: errorMessage,
+    link_failures: failures,
+    link_checked_at: now.toISOString(),
+    link_next_check_at: new Date(nextCheck).toISOString(),
+  });
+
+  return true;
+};
+
+// Checks the bookmarks that are due, oldest check first
+export const runLinkCheck = async (): Promise<number> => {
+  if (checkRunning) return 0;
+  checkRunning = true;
+
+  try {
+    const due = await bookmarkRepository.findLinkCheckDue(new Date().toISOString(), BATCH_SIZE);
+
+    let checked = 0;
+    for (const bookmark of due) {
+      const domain = domains.get(hostOf(bookmark.url));
+      const wait = domain ? domain.nextAllowedAt - Date.now() : 0;
+
+      if (wait > LINK_CHECK_DOMAIN_DELAY_MS) {
+        // Host is backed off: come back to this bookmark when it is allowed again
+        await bookmarkRepository.update(bookmark.id, {
+          link_next_check_at: new Date(domain!.nextAllowedAt).toISOString(),
+        });
+        continue;
+      }
+
+      if (wait > 0) await sleep(wait);
+      if (await checkBookmarkLink(bookmark)) checked++;
+    }
+
+    return checked;
+  } finally {
+    checkRunning = false;
+  }
+};
+
+export const startLinkChecker = (): void => {
+  if (LINK_CHECK_INTERVAL_MS <= 0) return;
+
+  const tick = () => {
+    runLinkCheck().catch((error) => {
+      console.error('Link check failed:', error);
+    });
+  };
+
+  setInterval(tick, LINK_CHECK_INTERVAL_MS).unref();
+  tick();
+};
+
+// Checks a single bookmark right away, regardless of its schedule
+export const checkLink = async (bookmarkId: string, userId: string): Promise<Bookmark> => {
+  try {
+    const bookmark = await bookmarkRepository.find(bookmarkId, { userId, deleted: false });
+    if (!bookmark) throw new AppError('Bookmark not found', 404);
+
+    const recorded = await checkBookmarkLink(bookmark);
+    if (!recorded) throw new AppError('The site is rate limiting link checks, try again later', 503);
+
+    return await getBookmarkWithTags(bookmarkId, userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to check link', 500);
+  }
+};
+
+// Points a redirected bookmark at the URL it now redirects to
+export const applyRedirect = async (bookmarkId: string, userId: string): Promise<Bookmark> => {
+  try {
+    const bookmark = await bookmarkRepository.find(bookmarkId, { userId, deleted: false });
+    if (!bookmark) throw new AppError('Bookmark not found', 404);
+    if (bookmark.link_health !== 'redirected' || !bookmark.link_redirect_url) {
+      throw new AppError('Bookmark has no redirect target', 400);
+    }
+
+    const canonicalUrl = canonicalizeUrl(bookmark.link_redirect_url);
+    const existing = await findDuplicateBookmark(userId, canonicalUrl);
+    if (existing && existing.id !== bookmarkId) {
+      throw new AppError('The redirect target is already saved as another bookmark', 409);
+    }
+
+    await bookmarkRepository.update(bookmarkId, {
+      url: bookmark.link_redirect_url,
+      canonical_url: canonicalUrl,
+      link_health: 'ok',
+      link_redirect_url: null,
+      updated_at: new Date().toISOString(),
+    });
+
+    return await getBookmarkWithTags(bookmarkId, userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to update bookmark URL', 500);
+  }
+};
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { archiveRepository, bookmarkRepository } from '../repositories';
+import { saveBookmark, USER_A as A, USER_B as B } from '../test/fixtures';
+import { Bookmark, BulkAction, Collection, Tag } from '../types';
+import { captureArchive, getArchive } from './archiveService';
+import {
+  addTagsToBookmark,
+  deleteBookmark,
+  getBookmarks,
+  getBookmarkWithTags,
+  removeTagsFromBookmark,
+  restoreBookmark,
+  updateBookmark,
+  updateBookmarkTags,
+} from './bookmarkService';
+import { bulkUpdateBookmarks } from './bulkService';
+import {
+  addBookmarksToCollection,
+  createCollection,
+  deleteCollection,
+  getCollection,
+  getCollections,
+  removeBookmarkFromCollection,
+  reorderCollection,
+  updateCollection,
+} from './collectionService';
+import { createTag, deleteTag, getTags, mergeTag, updateTag } from './tagService';
+
+// Every read and write that takes an id must leave other users' records
+// alone: user B gets a 404 (or a not_found item) and user A sees no change.
+
+const notFound = { statusCode: 404 };
+
+describe("user B and user A's records", () => {
+  let bookmark: Bookmark;
+  let trashed: Bookmark;
+  let tag: Tag;
+  let collection: Collection;
+
+  beforeEach(async () => {
+    bookmark = await saveBookmark(A, ['private']);
+    trashed = await saveBookmark(A);
+    await deleteBookmark(trashed.id, A);
+    tag = (await getTags(A)).find(item => item.name === 'private')!;
+    collection = await createCollection(A, { name: `Reading ${bookmark.id}` });
+    await addBookmarksToCollection(collection.id, A, [bookmark.id]);
+  });
+
+  it('cannot read or list them', async () => {
+    await expect(getBookmarkWithTags(bookmark.id, B)).rejects.toMatchObject(notFound);
+    expect((await getBookmarks(B, {})).bookmarks).toEqual([]);
+  });
+
+  it('cannot update, trash or restore them', async () => {
+    await expect(updateBookmark(bookmark.id, B, { title: 'Mine now' })).rejects.toMatchObject(notFound);
+    await expect(deleteBookmark(bookmark.id, B)).rejects.toMatchObject(notFound);
+    await expect(restoreBookmark(trashed.id, B)).rejects.toMatchObject(notFound);
+
+    expect(await getBookmarkWithTags(bookmark.id, A)).toMatchObject({ title: bookmark.title, deleted_at: null });
+    expect((await bookmarkRepository.find(trashed.id))!.deleted_at).not.toBeNull();
+  });
+
+  it("cannot change a bookmark's tags", async () => {
+    await expect(addTagsToBookmark(bookmark.id, ['spam'], B)).rejects.toMatchObject(notFound);
+    await expect(removeTagsFromBookmark(bookmark.id, ['private'], B)).rejects.toMatchObject(notFound);
+    await expect(updateBookmarkTags(bookmark.id, ['spam'], B)).rejects.toMatchObject(notFound);
+
+    expect((await getBookmarkWithTags(bookmark.id, A)).tags).toEqual(['private']);
+  });
+
+  it('cannot read or capture archives', async () => {
+    await archiveRepository.save({
+      bookmark_id: bookmark.id,
+      user_id: A,
+      source_url: bookmark.url,
+      title: null,
+      byline: null,
+      excerpt: null,
+      content_html: '<p>Secret</p>',
+      content_text: 'Secret',
+      word_count: 1,
+      captured_at: new Date().toISOString(),
+    });
+
+    await expect(getArchive(bookmark.id, B)).rejects.toMatchObject(notFound);
+    await expect(captureArchive(bookmark.id, B)).rejects.toMatchObject(notFound);
+    expect((await getArchive(bookmark.id, A)).content_text).toBe('Secret');
+  });
+
+  it('gets not_found for every bulk action on them', async () => {
+    for (const action of [
+      { type: 'add_tags', tags: ['spam'] },
+      { type: 'remove_tags', tags: ['private'] },
+      { type: 'replace_tags', tags: ['spam'] },
+      { type: 'delete' },
+      { type: 'mark_read' },
+      { type: 'move_to_category', category: 'spam' },
+    ] satisfies BulkAction[]) {
+      const result = await bulkUpdateBookmarks(B, { ids: [bookmark.id], action });
+      expect(result, action.type).toMatchObject({ updated: 0, items: [{ id: bookmark.id, status: 'not_found' }] });
+    }
+
+    const restored = await bulkUpdateBookmarks(B, { ids: [trashed.id], action: { type: 'restore' } });
+    expect(restored.items).toEqual([{ id: trashed.id, status: 'not_found' }]);
+
+    // A filter only ever selects the caller's own bookmarks
+    const byFilter = await bulkUpdateBookmarks(B, { filters: {}, action: { type: 'delete' } });
+    expect(byFilter.matched).toBe(0);
+
+    expect(await getBookmarkWithTags(bookmark.id, A)).toMatchObject({
+      tags: ['private'],
+      category: null,
+      deleted_at: null,
+    });
+  });
+
+  it('cannot see or change collections', async () => {
+    await expect(getCollection(collection.id, B)).rejects.toMatchObject(notFound);
+    await expect(updateCollection(collection.id, B, { name: 'Mine now' })).rejects.toMatchObject(notFound);
+    await expect(addBookmarksToCollection(collection.id, B, [bookmark.id])).rejects.toMatchObject(notFound);
+    await expect(removeBookmarkFromCollection(collection.id, B, bookmark.id)).rejects.toMatchObject(notFound);
+    await expect(reorderCollection(collection.id, B, [bookmark.id])).rejects.toMatchObject(notFound);
+    await expect(deleteCollection(collection.id, B)).rejects.toMatchObject(notFound);
+    expect(await getCollections(B)).toEqual([]);
+
+    expect(await getCollection(collection.id, A)).toMatchObject({ name: collection.name, bookmark_count: 1 });
+  });
+
+  it("cannot put A's bookmarks in their own collection", async () => {
+    const own = await createCollection(B, { name: 'Mine' });
+
+    expect(await addBookmarksToCollection(own.id, B, [bookmark.id])).toMatchObject({ bookmark_count: 0 });
+    expect((await getBookmarks(B, { collection: own.id })).bookmarks).toEqual([]);
+  });
+
+  it('cannot rename, delete or merge tags', async () => {
+    const own = await createTag(B, 'mine');
+
+    await expect(updateTag(tag.id, B, { name: 'renamed' })).rejects.toMatchObject(notFound);
+    await expect(deleteTag(tag.id, B)).rejects.toMatchObject(notFound);
+    await expect(mergeTag(tag.id, own.id, B)).rejects.toMatchObject(notFound);
+    await expect(mergeTag(own.id, tag.id, B)).rejects.toMatchObject(notFound);
+
+    expect((await getTags(A)).map(item => item.name)).toContain('private');
+    expect((await getBookmarkWithTags(bookmark.id, A)).tags).toEqual(['private']);
+    expect((await getTags(B)).map(item => item.name)).toEqual(['mine']);
+  });
+});
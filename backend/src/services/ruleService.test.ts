@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { applyRulesBody } from '../schemas/ruleSchemas';
+import { saveBookmark } from '../test/fixtures';
+import { getBookmarks } from './bookmarkService';
+import { applyRules, createRule } from './ruleService';
+
+const USER = 'rules-user';
+
+describe('applyRules', () => {
+  it('previews unless dry_run is false', async () => {
+    const bookmark = await saveBookmark(USER);
+    const rule = await createRule(USER, {
+      name: 'Example',
+      conditions: { host: 'example.com' },
+      actions: { add_tags: ['example'] },
+    });
+
+    const preview = await applyRules(USER, applyRulesBody.parse({}));
+    expect(preview).toMatchObject({ checked: 1, changed: 1, dry_run: true });
+    expect(preview.changes[0]).toMatchObject({ bookmark_id: bookmark.id, rule_ids: [rule.id], add_tags: ['example'] });
+    expect((await getBookmarks(USER, {})).bookmarks[0].tags).toEqual([]);
+
+    const applied = await applyRules(USER, applyRulesBody.parse({ dry_run: false }));
+    expect(applied).toMatchObject({ changed: 1, dry_run: false });
+    expect((await getBookmarks(USER, {})).bookmarks[0].tags).toEqual(['example']);
+  });
+
+  it('rejects unknown fields instead of running for real', () => {
+    expect(applyRulesBody.safeParse({ dryRun: true }).success).toBe(false);
+    expect(applyRulesBody.safeParse({ rule_ids: ['not-a-uuid'] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+import { bookmarkRepository, bookmarkTagRepository, RuleChanges, ruleRepository } from '../repositories';
+import {
+  ApplyRulesRequest,
+  ApplyRulesResult,
+  BookmarkRule,
+  CreateBookmarkDto,
+  CreateRuleDto,
+  RuleChange,
+  UpdateRuleDto
+} from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { evaluateRules } from '../utils/rules';
+import { normalizeTagPath, UNREAD_TAG } from '../utils/tagPath';
+import { iterateBookmarks } from './exportService';
+import { loadTagResolver } from './tagService';
+
+// User-defined rules: when a bookmark matches a rule's conditions, its
+// actions add tags, prefix the summary or mark the bookmark read. Enabled
+// rules run on every new bookmark; applyRules runs them over saved ones.
+
+export const getRules = async (userId: string): Promise<BookmarkRule[]> => {
+  try {
+    return await ruleRepository.list(userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch rules', 500);
+  }
+};
+
+export const createRule = async (userId: string, dto: CreateRuleDto): Promise<BookmarkRule> => {
+  try {
+    return await ruleRepository.insert({
+      user_id: userId,
+      name: dto.name.trim(),
+      enabled: dto.enabled ?? true,
+      conditions: dto.conditions,
+      actions: dto.actions,
+    });
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to create rule', 500);
+  }
+};
+
+export const updateRule = async (ruleId: string, userId: string, updates: UpdateRuleDto): Promise<BookmarkRule> => {
+  try {
+    const changes: RuleChanges = { updated_at: new Date().toISOString() };
+    if (updates.name !== undefined) changes.name = updates.name.trim();
+    if (updates.enabled !== undefined) changes.enabled = updates.enabled;
+    if (updates.conditions !== undefined) changes.conditions = updates.conditions;
+    if (updates.actions !== undefined) changes.actions = updates.actions;
+
+    const rule = await ruleRepository.update(ruleId, userId, changes);
+    if (!rule) throw new AppError('Rule not found', 404);
+
+    return rule;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to update rule', 500);
+  }
+};
+
+export const deleteRule = async (ruleId: string, userId: string): Promise<void> => {
+  try {
+    const deleted = await ruleRepository.delete(ruleId, userId);
+    if (!deleted) throw new AppError('Rule not found', 404);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to delete rule', 500);
+  }
+};
+
+// The bookmark as the user's enabled rules would save it: with the rules'
+// tags added, the summary prefixed, and without `unread` when a rule marks it read
+export const applyRulesToNewBookmark = async (userId: string, dto: CreateBookmarkDto): Promise<CreateBookmarkDto> => {
+  const rules = (await ruleRepository.list(userId)).filter(rule => rule.enabled);
+  if (rules.length === 0) return dto;
+
+  const outcome = evaluateRules(rules, dto);
+  if (outcome.ruleIds.length === 0) return dto;
+
+  const tags = [...(dto.tags || []), ...outcome.tags];
+  return {
+    ...dto,
+    summary: outcome.summary ?? undefined,
+    tags: outcome.markRead ? tags.filter(tag => normalizeTagPath(tag) !== UNREAD_TAG) : tags,
+  };
+};
+
+// Picked rules run even when disabled, so a rule can be previewed before it is switched on
+const selectRules = async (userId: string, ruleIds?: string[]): Promise<BookmarkRule[]> => {
+  const rules = await ruleRepository.list(userId);
+  if (!ruleIds) return rules.filter(rule => rule.enabled);
+
+  const ids = new Set(ruleIds);
+  const selected = rules.filter(rule => ids.has(rule.id));
+  if (selected.length !== ids.size) throw new AppError('Rule not found', 404);
+
+  return selected;
+};
+
+// Runs the rules over every live bookmark and, when dry_run is false, writes
+// the changes bookmark by bookmark. Bookmarks the rules would leave as they
+// are are not listed.
+export const applyRules = async (userId: string, request: ApplyRulesRequest): Promise<ApplyRulesResult> => {
+  try {
+    const rules = await selectRules(userId, request.rule_ids);
+    const dryRun = request.dry_run ?? true;
+    const { resolve } = await loadTagResolver(userId);
+    const unreadTag = resolve(UNREAD_TAG);
+
+    const changes: RuleChange[] = [];
+    let checked = 0;
+
+    for await (const page of iterateBookmarks(userId)) {
+      for (const bookmark of page) {
+        checked++;
+        const outcome = evaluateRules(rules, bookmark);
+        if (outcome.ruleIds.length === 0) continue;
+
+        const tags = new Set(bookmark.tags || []);
+        const addTags = Array.from(new Set(outcome.tags.map(resolve))).filter(tag => !tags.has(tag));
+        const markRead = outcome.markRead && tags.has(unreadTag);
+        const summary = outcome.summary && outcome.summary !== bookmark.summary ? outcome.summary : undefined;
+        if (addTags.length === 0 && !markRead && summary === undefined) continue;
+
+        changes.push({
+          bookmark_id: bookmark.id,
+          url: bookmark.url,
+          title: bookmark.title,
+          rule_ids: outcome.ruleIds,
+          add_tags: addTags,
+          ...(summary !== undefined ? { summary } : {}),
+          mark_read: markRead,
+        });
+      }
+    }
+
+    if (!dryRun) {
+      for (const change of changes) {
+        if (change.add_tags.length > 0) {
+          await bookmarkTagRepository.add(change.bookmark_id, userId, change.add_tags);
+        }
+        if (change.mark_read) {
+          await bookmarkTagRepository.remove(change.bookmark_id, userId, [unreadTag]);
+        }
+        if (change.summary !== undefined) {
+          await bookmarkRepository.update(
+            change.bookmark_id,
+            { summary: change.summary, updated_at: new Date().toISOString() },
+            { userId, deleted: false }
+          );
+        }
+      }
+    }
+
+    return { checked, changed: changes.length, dry_run: dryRun, changes };
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to apply rules', 500);
+  }
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createTag, getTags, mergeTag, updateTag } from './tagService';
+
+const tagNames = async (userId: string): Promise<string[]> => (await getTags(userId)).map(tag => tag.name).sort();
+
+describe('updateTag', () => {
+  it('moves the tags below a renamed tag along', async () => {
+    const user = 'rename-user';
+    const dev = await createTag(user, 'dev');
+    await createTag(user, 'dev/frontend');
+
+    expect(await updateTag(dev.id, user, { name: 'Code' })).toMatchObject({ name: 'code' });
+    expect(await tagNames(user)).toEqual(['code', 'code/frontend']);
+  });
+
+  it('answers 409 for a name another tag has, pointing to merge', async () => {
+    const user = 'collision-user';
+    const react = await createTag(user, 'react');
+    await createTag(user, 'reactjs');
+
+    await expect(updateTag(react.id, user, { name: 'ReactJS' })).rejects.toMatchObject({
+      statusCode: 409,
+      message: expect.stringContaining('POST /api/tags/:id/merge'),
+    });
+    expect(await tagNames(user)).toEqual(['react', 'reactjs']);
+  });
+
+  it("answers 409 for another tag's alias and for names the tags below would take", async () => {
+    const user = 'alias-user';
+    const [js, javascript, dev, web] = [
+      await createTag(user, 'js'),
+      await createTag(user, 'javascript'),
+      await createTag(user, 'dev'),
+      await createTag(user, 'web'),
+    ];
+    await createTag(user, 'dev/react');
+    await createTag(user, 'web/react');
+    await mergeTag(js.id, javascript.id, user);
+
+    await expect(updateTag(web.id, user, { name: 'js' })).rejects.toMatchObject({ statusCode: 409 });
+    await expect(updateTag(dev.id, user, { name: 'web' })).rejects.toMatchObject({ statusCode: 409 });
+    expect(await updateTag(javascript.id, user, { name: 'JavaScript', color: '#f7df1e' })).toMatchObject({
+      name: 'javascript',
+      color: '#f7df1e',
+    });
+  });
+});
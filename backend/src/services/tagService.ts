@@ -1,95 +1,101 @@
-import { supabase } from '../config/database';
-import { Tag } from '../types';
+import { bookmarkRepository, tagRepository } from '../repositories';
+import { Tag, TagAlias, TagMergeSuggestion, TagStats, TagSuggestion, UpdateTagDto } from '../types';
 import { AppError } from '../middleware/errorHandler';
+import { createTagResolver, isWithinTagPath, normalizeTagPath, tagSimilarityKey } from '../utils/tagPath';
+import { findTitleTags, pickSeedTags, rankTagSuggestions } from '../utils/tagSuggestions';
+import { canonicalizeUrl } from '../utils/url';
+
+// The user's tag names, and a function mapping names as typed to them (see createTagResolver)
+export const loadTagResolver = async (
+  userId: string
+): Promise<{ tagNames: string[]; resolve: (name: string) => string }> => {
+  const [tags, aliases] = await Promise.all([tagRepository.list(userId), tagRepository.listAliases(userId)]);
+  const namesById = new Map(tags.map(tag => [tag.id, tag.name]));
+  const tagNames = tags.map(tag => tag.name);
+
+  return {
+    tagNames,
+    resolve: createTagResolver(
+      tagNames,
+      aliases.flatMap(alias => (namesById.has(alias.tag_id) ? [{ name: alias.name, tagName: namesById.get(alias.tag_id)! }] : []))
+    ),
+  };
+};
+
+// Names to save on bookmarks: normalized, resolved to existing tags and
+// aliases, without blanks and repeats
+export const resolveTagNames = async (userId: string, tagNames: string[]): Promise<string[]> => {
+  const names = tagNames.filter(name => normalizeTagPath(name));
+  if (names.length === 0) return [];
+
+  const { resolve } = await loadTagResolver(userId);
+  return Array.from(new Set(names.map(resolve)));
+};
 
 export const getTags = async (userId: string): Promise<Tag[]> => {
   try {
-    const { data, error } = await supabase
-      .from('tags')
-      .select('*')
-      .eq('user_id', userId)
-      .order('name', { ascending: true });
-
-    if (error) throw new AppError(error.message, 400);
-    return data || [];
+    return await tagRepository.list(userId);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to fetch tags', 500);
   }
 };
 
+// Names are normalized (see normalizeTagPath), and creating a tag the user
+// already has, under any spelling or alias, returns the existing one. A nested
+// name like `dev/frontend` also creates `dev` when it is missing.
 export const createTag = async (
   userId: string,
   name: string
 ): Promise<Tag> => {
   try {
-    const trimmedName = name.trim();
-    
-    // First check if tag already exists
-    const { data: existingTag, error: findError } = await supabase
-      .from('tags')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('name', trimmedName)
-      .single();
-
-    // If tag exists, return it
-    if (!findError && existingTag) {
-      return existingTag;
-    }
+    const [path] = await resolveTagNames(userId, [name]);
+    if (!path) throw new AppError('Tag name must be a non-empty string', 400);
 
-    // Create new tag
-    const { data, error } = await supabase
-      .from('tags')
-      .insert({
-        user_id: userId,
-        name: trimmedName,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      // If duplicate key error, fetch the existing tag
-      if (error.message.includes('duplicate key')) {
-        const { data: retryTag, error: retryError } = await supabase
-          .from('tags')
-          .select('*')
-          .eq('user_id', userId)
-          .eq('name', trimmedName)
-          .single();
-
-        if (retryError || !retryTag) {
-          throw new AppError(`Failed to create or find tag: ${trimmedName}`, 400);
-        }
-        return retryTag;
-      }
-      throw new AppError(error.message, 400);
-    }
-    
-    return data;
+    return await tagRepository.findOrCreate(userId, path);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to create tag', 500);
   }
 };
 
+// Renames the tag and changes how it is shown, in one write
 export const updateTag = async (
   tagId: string,
   userId: string,
-  name: string
+  updates: UpdateTagDto
 ): Promise<Tag> => {
   try {
-    const { data, error } = await supabase
-      .from('tags')
-      .update({ name: name.trim() })
-      .eq('id', tagId)
-      .eq('user_id', userId)
-      .select()
-      .single();
-
-    if (error) throw new AppError(error.message, 400);
-    if (!data) throw new AppError('Tag not found', 404);
-    return data;
+    const { name, ...display } = updates;
+    let path: string | undefined;
+
+    if (name !== undefined) {
+      path = normalizeTagPath(name);
+      if (!path) throw new AppError('Tag name must be a non-empty string', 400);
+
+      // Renaming moves the tags below it along, so it cannot move under one of them
+      const [tags, { tagNames, resolve }] = await Promise.all([tagRepository.list(userId), loadTagResolver(userId)]);
+      const current = tags.find(tag => tag.id === tagId);
+      if (!current) throw new AppError('Tag not found', 404);
+      if (path !== current.name && isWithinTagPath(path, current.name)) {
+        throw new AppError('A tag cannot be moved below itself', 400);
+      }
+
+      // Neither the tag nor the ones below it may take the name (or alias) of another tag
+      const renamed = path;
+      const taken = tagNames
+        .filter(tagName => isWithinTagPath(tagName, current.name))
+        .map(tagName => renamed + tagName.slice(current.name.length))
+        .map(resolve)
+        .find(tagName => tagNames.includes(tagName) && !isWithinTagPath(tagName, current.name));
+      if (taken) {
+        throw new AppError(`Tag "${taken}" already exists; merge into it with POST /api/tags/:id/merge instead`, 409);
+      }
+    }
+
+    const tag = await tagRepository.update(tagId, userId, { ...display, name: path });
+    if (!tag) throw new AppError('Tag not found', 404);
+    return tag;
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to update tag', 500);
@@ -101,41 +107,19 @@ export const deleteTag = async (
   userId: string
 ): Promise<void> => {
   try {
-    // Delete tag (this will cascade delete bookmark_tags relationships)
-    const { error } = await supabase
-      .from('tags')
-      .delete()
-      .eq('id', tagId)
-      .eq('user_id', userId);
-
-    if (error) throw new AppError(error.message, 400);
+    // Also deletes the tags below it and removes all of them from every bookmark they were on
+    const deleted = await tagRepository.delete(tagId, userId);
+    if (!deleted) throw new AppError('Tag not found', 404);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to delete tag', 500);
   }
 };
 
-export const getTagUsageStats = async (userId: string): Promise<Array<{ tag: Tag; count: number }>> => {
+// A tag's count includes the bookmarks of the tags below it
+export const getTagUsageStats = async (userId: string): Promise<TagStats[]> => {
   try {
-    const { data, error } = await supabase
-      .from('tags')
-      .select(`
-        *,
-        bookmark_tags (count)
-      `)
-      .eq('user_id', userId);
-
-    if (error) throw new AppError(error.message, 400);
-
-    return (data || []).map(tag => ({
-      tag: {
-        id: tag.id,
-        user_id: tag.user_id,
-        name: tag.name,
-        created_at: tag.created_at
-      },
-      count: tag.bookmark_tags?.length || 0
-    }));
+    return await tagRepository.usage(userId);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to fetch tag usage stats', 500);
@@ -147,16 +131,7 @@ export const searchTags = async (
   searchTerm: string
 ): Promise<Tag[]> => {
   try {
-    const { data, error } = await supabase
-      .from('tags')
-      .select('*')
-      .eq('user_id', userId)
-      .ilike('name', `%${searchTerm}%`)
-      .order('name', { ascending: true })
-      .limit(20);
-
-    if (error) throw new AppError(error.message, 400);
-    return data || [];
+    return await tagRepository.search(userId, searchTerm, 20);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to search tags', 500);
@@ -168,16 +143,152 @@ export const getPopularTags = async (
   limit: number = 10
 ): Promise<Array<{ tag: Tag; count: number }>> => {
   try {
-    const { data, error } = await supabase
-      .rpc('get_popular_tags', {
-        user_uuid: userId,
-        tag_limit: limit
-      });
-
-    if (error) throw new AppError(error.message, 400);
-    return data || [];
+    return await tagRepository.popular(userId, limit);
   } catch (error) {
     if (error instanceof AppError) throw error;
     throw new AppError('Failed to fetch popular tags', 500);
   }
-};
\ No newline at end of file
+};
+
+// How many bookmarks each suggestion signal looks at
+const SUGGESTION_DOMAIN_SAMPLE = 100;
+const SUGGESTION_RELATED_SAMPLE = 200;
+const SUGGESTION_RECENT_SAMPLE = 20;
+
+// Most domain and title tags the related signal starts from; the Supabase
+// store sends them all in one request URL
+const SUGGESTION_MAX_SEEDS = 10;
+
+// Host of a web page as its canonical URL has it; null for anything else
+const pageHost = (url: string): string | null => {
+  try {
+    const { protocol, host } = new URL(canonicalizeUrl(url));
+    return protocol === 'http:' || protocol === 'https:' ? host : null;
+  } catch {
+    return null;
+  }
+};
+
+// Tags for a page about to be saved, best first (see utils/tagSuggestions)
+export const suggestTags = async (
+  userId: string,
+  page: { url?: string; title?: string },
+  limit: number = 10
+): Promise<TagSuggestion[]> => {
+  try {
+    const host = page.url ? pageHost(page.url) : null;
+
+    const [tags, domainBookmarks, recentBookmarks] = await Promise.all([
+      tagRepository.list(userId),
+      host ? bookmarkRepository.list(userId, { host }, { limit: SUGGESTION_DOMAIN_SAMPLE }) : Promise.resolve([]),
+      bookmarkRepository.list(userId, {}, { limit: SUGGESTION_RECENT_SAMPLE }),
+    ]);
+    if (tags.length === 0) return [];
+
+    const domain = domainBookmarks.map(bookmark => bookmark.tags || []);
+    const titleMatches = page.title ? findTitleTags(tags, page.title) : [];
+
+    // Bookmarks sharing a tag with the domain or the title, to find the tags that go with those
+    const seeds = pickSeedTags({ domain, titleMatches }, SUGGESTION_MAX_SEEDS);
+    const relatedBookmarks = seeds.length > 0
+      ? await bookmarkRepository.list(
+          userId,
+          { tags: { type: 'or', children: seeds.map(name => ({ type: 'tag', name })) } },
+          { limit: SUGGESTION_RELATED_SAMPLE }
+        )
+      : [];
+
+    return rankTagSuggestions(tags, {
+      domain,
+      titleMatches,
+      related: relatedBookmarks.map(bookmark => bookmark.tags || []),
+      recent: recentBookmarks.map(bookmark => bookmark.tags || []),
+    }, limit);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to suggest tags', 500);
+  }
+};
+
+// Moves every bookmark of the source tag to the target and deletes the source.
+// Its name keeps working as an alias of the target.
+export const mergeTag = async (
+  sourceId: string,
+  targetId: string,
+  userId: string
+): Promise<Tag> => {
+  try {
+    const tags = await tagRepository.list(userId);
+    const source = tags.find(tag => tag.id === sourceId);
+    const target = tags.find(tag => tag.id === targetId);
+    if (!source) throw new AppError('Tag not found', 404);
+    if (!target) throw new AppError('Target tag not found', 404);
+    if (source.id === target.id) throw new AppError('A tag cannot be merged into itself', 400);
+    if (tags.some(tag => tag.parent_id === source.id)) {
+      throw new AppError(`Tag "${source.name}" has tags below it; merge or move them first`, 400);
+    }
+
+    const merged = await tagRepository.merge(source.id, target.id, userId);
+    if (!merged) throw new AppError('Tag not found', 404);
+    return target;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to merge tags', 500);
+  }
+};
+
+// Groups of tags whose names differ only in case, spacing, punctuation or a
+// plural (see tagSimilarityKey). Each group merges into its most used tag;
+// tags with tags below them are only ever targets, since they cannot be merged.
+export const getMergeSuggestions = async (userId: string): Promise<TagMergeSuggestion[]> => {
+  try {
+    const stats = await tagRepository.usage(userId);
+    const parentIds = new Set(stats.map(({ tag }) => tag.parent_id).filter(Boolean));
+
+    const groups = new Map<string, TagStats[]>();
+    stats.forEach(entry => {
+      const key = tagSimilarityKey(entry.tag.name);
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    });
+
+    // Parents first, then the most used, then a normalized name
+    const isParent = (entry: TagStats): number => Number(parentIds.has(entry.tag.id));
+    const isNormalized = (entry: TagStats): number => Number(entry.tag.name === normalizeTagPath(entry.tag.name));
+    const compare = (a: TagStats, b: TagStats): number =>
+      isParent(b) - isParent(a) ||
+      b.direct_count - a.direct_count ||
+      isNormalized(b) - isNormalized(a) ||
+      a.tag.name.localeCompare(b.tag.name);
+
+    return Array.from(groups.values())
+      .map(group => {
+        const [target, ...rest] = [...group].sort(compare);
+        return { target, sources: rest.filter(entry => !parentIds.has(entry.tag.id)) };
+      })
+      .filter(suggestion => suggestion.sources.length > 0)
+      .sort((a, b) => b.target.count - a.target.count || a.target.tag.name.localeCompare(b.target.tag.name));
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch merge suggestions', 500);
+  }
+};
+
+export const getTagAliases = async (userId: string): Promise<TagAlias[]> => {
+  try {
+    return await tagRepository.listAliases(userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch tag aliases', 500);
+  }
+};
+
+// The name stops resolving to the tag; bookmarks keep their tags
+export const deleteTagAlias = async (aliasId: string, userId: string): Promise<void> => {
+  try {
+    const deleted = await tagRepository.deleteAlias(aliasId, userId);
+    if (!deleted) throw new AppError('Alias not found', 404);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to delete tag alias', 500);
+  }
+};
@@ -0,0 +1,69 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { accessTokenRepository } from '../repositories';
+import { register } from './authService';
+import { createToken, isAccessToken, listTokens, revokeToken, verifyAccessToken } from './tokenService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tokens belong to accounts
+let USER: string;
+beforeAll(async () => {
+  USER = (await register({ email: 'tokens@example.com', password: 'correct horse battery' })).user.id;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createToken', () => {
+  it('returns the token once and stores only its hash', async () => {
+    const created = await createToken(USER, { name: '  CLI  ', scopes: ['bookmarks:read', 'bookmarks:read'] });
+
+    expect(isAccessToken(created.token)).toBe(true);
+    expect(created).toMatchObject({ name: 'CLI', scopes: ['bookmarks:read'], expires_at: null });
+    expect(created.token.startsWith(created.token_prefix)).toBe(true);
+
+    const listed = (await listTokens(USER)).find(token => token.id === created.id);
+    expect(listed).toBeDefined();
+    expect(JSON.stringify(listed)).not.toContain(created.token);
+  });
+});
+
+describe('verifyAccessToken', () => {
+  it('gives the owner and scopes of a valid token', async () => {
+    const { token } = await createToken(USER, { name: 'Scoped', scopes: ['tags:read', 'bookmarks:write'] });
+
+    expect(await verifyAccessToken(token)).toEqual({ userId: USER, scopes: ['tags:read', 'bookmarks:write'] });
+    expect(await verifyAccessToken(`${token}x`)).toBeNull();
+  });
+
+  it('rejects a token once it expires', async () => {
+    const { token } = await createToken(USER, { name: 'Short-lived', scopes: ['bookmarks:read'], expires_in_days: 1 });
+    expect(await verifyAccessToken(token)).not.toBeNull();
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + DAY_MS + 1000);
+    expect(await verifyAccessToken(token)).toBeNull();
+  });
+
+  it('rejects a revoked token', async () => {
+    const { id, token } = await createToken(USER, { name: 'Revoked', scopes: ['bookmarks:read'] });
+
+    await expect(revokeToken(id, 'someone-else')).rejects.toMatchObject({ statusCode: 404 });
+    expect(await verifyAccessToken(token)).not.toBeNull();
+
+    await revokeToken(id, USER);
+    expect(await verifyAccessToken(token)).toBeNull();
+    expect((await listTokens(USER)).map(listed => listed.id)).not.toContain(id);
+    await expect(revokeToken(id, USER)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('records when a token was last used', async () => {
+    const { id, token } = await createToken(USER, { name: 'Used', scopes: ['bookmarks:read'] });
+    const touch = vi.spyOn(accessTokenRepository, 'touch');
+
+    await verifyAccessToken(token);
+    expect(touch).toHaveBeenCalledWith(id, expect.any(String));
+    touch.mockRestore();
+  });
+});
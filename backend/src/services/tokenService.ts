@@ -0,0 +1,85 @@
+import { accessTokenRepository } from '../repositories';
+import { CreatedToken, CreateTokenDto, PersonalAccessToken, TokenScope } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { generateToken, hashToken } from '../utils/tokens';
+
+// Personal access tokens: long-lived bearer tokens limited to a set of
+// scopes. They carry a prefix so the auth middleware can tell them apart
+// from session tokens without a second lookup.
+
+export const TOKEN_PREFIX = 'sys_pat_';
+
+export const TOKEN_SCOPES: TokenScope[] = ['bookmarks:read', 'bookmarks:write', 'tags:read', 'tags:admin'];
+
+// last_used_at is only written when it is older than this, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const isAccessToken = (token: string): boolean => token.startsWith(TOKEN_PREFIX);
+
+export const createToken = async (userId: string, dto: CreateTokenDto): Promise<CreatedToken> => {
+  try {
+    const token = `${TOKEN_PREFIX}${generateToken()}`;
+    const expiresAt = dto.expires_in_days
+      ? new Date(Date.now() + dto.expires_in_days * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const created = await accessTokenRepository.insert({
+      user_id: userId,
+      name: dto.name.trim(),
+      token_hash: hashToken(token),
+      token_prefix: token.slice(0, TOKEN_PREFIX.length + 4),
+      scopes: [...new Set(dto.scopes)],
+      expires_at: expiresAt,
+    });
+
+    return { ...created, token };
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to create token', 500);
+  }
+};
+
+// Tokens that have not been revoked, newest first (expired ones included)
+export const listTokens = async (userId: string): Promise<PersonalAccessToken[]> => {
+  try {
+    return await accessTokenRepository.list(userId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to fetch tokens', 500);
+  }
+};
+
+export const revokeToken = async (tokenId: string, userId: string): Promise<void> => {
+  try {
+    const revoked = await accessTokenRepository.revoke(tokenId, userId, new Date().toISOString());
+    if (!revoked) throw new AppError('Token not found', 404);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to revoke token', 500);
+  }
+};
+
+// The owner and scopes of a valid token, or null if it is unknown, revoked or
+// expired. Records the use as a side effect.
+export const verifyAccessToken = async (
+  token: string
+): Promise<{ userId: string; scopes: TokenScope[] } | null> => {
+  try {
+    const now = new Date();
+    const data = await accessTokenRepository.findByHash(hashToken(token));
+    if (!data) return null;
+    if (data.expires_at && new Date(data.expires_at) <= now) return null;
+
+    if (!data.last_used_at || now.getTime() - new Date(data.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+      // Not awaited: a failed bookkeeping write should not fail the request
+      accessTokenRepository.touch(data.id, now.toISOString()).catch((touchError) => {
+        console.error('Failed to record token use:', touchError.message);
+      });
+    }
+
+    return { userId: data.user_id, scopes: data.scopes };
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError('Failed to verify token', 500);
+  }
+};
@@ -0,0 +1,16 @@
+import { bookmarkRepository } from '../repositories';
+import { Bookmark } from '../types';
+
+// Shared fixtures for tests that run against the in-memory SQLite store
+
+export const USER_A = 'user-a';
+export const USER_B = 'user-b';
+
+let seq = 0;
+
+// Saves a live bookmark straight to the store, with a URL no other fixture uses
+export const saveBookmark = async (userId: string, tags: string[] = []): Promise<Bookmark> => {
+  seq++;
+  const url = `https://example.com/${seq}`;
+  return bookmarkRepository.insert({ user_id: userId, url, canonical_url: url, title: `Bookmark ${seq}` }, tags);
+};
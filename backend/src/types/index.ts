@@ -1,79 +1,19 @@
-// Shared TypeScript Types
+import type { CreateBookmarkDto, ImportItemResult } from '@save-your-stuff/shared';
 
-export interface User {
-  id: string;
-  email: string;
-  created_at: string;
-  name?: string;
-}
-
-export interface Bookmark {
-  id: string;
-  user_id: string;
-  url: string;
-  title: string;
-  summary?: string;
-  category?: string; // Kept for backward compatibility during migration
-  tags?: string[]; // New tags array
-  created_at: string;
-}
-
-export interface CreateBookmarkDto {
-  url: string;
-  title: string;
-  summary?: string;
-  category?: string; // Kept for backward compatibility
-  tags?: string[]; // New tags array
-}
-
-export interface UpdateBookmarkDto {
-  title?: string;
-  summary?: string;
-  category?: string; // Kept for backward compatibility
-  tags?: string[]; // New tags array
-}
-
-export interface BookmarkFilters {
-  search?: string;
-  category?: string; // Kept for backward compatibility
-  tags?: string[]; // New tags array filtering
-  startDate?: string;
-  endDate?: string;
-  limit?: number;
-  offset?: number;
-}
-
-// Renamed from Category to Tag for clarity
-export interface Tag {
-  id: string;
-  user_id: string;
-  name: string;
-  created_at: string;
-}
-
-// Kept Category interface for backward compatibility during migration
-export interface Category {
-  id: string;
-  user_id: string;
-  name: string;
-  created_at: string;
-}
-
-// New interface for bookmark-tag relationships
-export interface BookmarkTag {
-  id: string;
-  bookmark_id: string;
-  tag_id: string;
-  created_at: string;
-}
+// The API's request and response types live in the shared package, so the
+// web app and extension are built against the same definitions
+export type * from '@save-your-stuff/shared';
 
-// Enhanced bookmark interface with populated tags
-export interface BookmarkWithTags extends Omit<Bookmark, 'tags'> {
-  tags: Tag[];
+// A bookmark read from an import file; the timestamps keep the original dates
+export interface ImportBookmark extends CreateBookmarkDto {
+  created_at?: string;
+  updated_at?: string;
 }
 
-export interface ApiResponse<T = any> {
-  success: boolean;
-  data?: T;
-  error?: string;
+export interface ImportReport {
+  total: number;
+  created: number;
+  duplicates: number;
+  failed: number;
+  items: ImportItemResult[];
 }
@@ -0,0 +1,70 @@
+// Minimal RFC 4180 CSV reading and writing: quoted fields, escaped quotes
+// ("") and line breaks inside quotes are supported.
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Skip a byte order mark
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are not records
+  return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+};
+
+// Rows as objects keyed by the (lowercased, trimmed) header row
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const keys = header.map(key => key.trim().toLowerCase());
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      record[key] = cells[index] ?? '';
+    });
+    return record;
+  });
+};
+
+const escapeField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: Array<string | number | null | undefined>): string =>
+  `${values.map(escapeField).join(',')}\r\n`;
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { BookmarkCursor, decodeCursor, encodeCursor } from './cursor';
+
+const ID = '3f2b8c1e-9d4a-4e6b-8f7a-1c2d3e4f5a6b';
+
+// A cursor with any payload, the way a client could forge one
+const forge = (payload: unknown): string => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+describe('decodeCursor', () => {
+  it.each<BookmarkCursor>([
+    { type: 'keyset', createdAt: '2024-05-01T10:20:30.123Z', id: ID },
+    { type: 'keyset', createdAt: '2024-05-01 10:20:30.123456+00:00', id: ID.toUpperCase() },
+    { type: 'offset', offset: 0 },
+    { type: 'offset', offset: 40 },
+  ])('reads back what encodeCursor wrote: %o', cursor => {
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it.each([
+    ['a timestamp that closes the filter', { k: ['2024-05-01T10:20:30Z",id.gt.0', ID] }],
+    ['a timestamp with a logic tree', { k: ['2024-05-01T10:20:30Z),or(user_id.neq.x', ID] }],
+    ['an id that is not a UUID', { k: ['2024-05-01T10:20:30Z', `${ID},user_id.neq.x`] }],
+    ['keyset values that are not strings', { k: [20240501, ID] }],
+    ['a missing id', { k: ['2024-05-01T10:20:30Z'] }],
+    ['a negative offset', { o: -1 }],
+    ['a fractional offset', { o: 1.5 }],
+    ['an offset given as a string', { o: '10' }],
+    ['an empty payload', {}],
+    ['null', null],
+  ])('rejects %s', (_, payload) => {
+    expect(() => decodeCursor(forge(payload))).toThrow('Invalid cursor');
+  });
+
+  it('rejects what is not a cursor at all', () => {
+    expect(() => decodeCursor('not base64 json')).toThrow('Invalid cursor');
+    expect(() => decodeCursor('')).toThrow('Invalid cursor');
+  });
+});
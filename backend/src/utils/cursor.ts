@@ -0,0 +1,41 @@
+import { AppError } from '../middleware/errorHandler';
+
+// Opaque pagination cursors. Clients only pass back what the API returned
+// as `nextCursor`, so the encoding can change without breaking them.
+//
+// - Browsing is ordered by (created_at, id) and pages with a keyset, which
+//   stays stable when new bookmarks are inserted while the user scrolls.
+// - Search results are ordered by relevance, so they page by position.
+export type BookmarkCursor =
+  | { type: 'keyset'; createdAt: string; id: string }
+  | { type: 'offset'; offset: number };
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ][\d:.]+(Z|[+-]\d{2}(:?\d{2})?)?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const encodeCursor = (cursor: BookmarkCursor): string => {
+  const payload = cursor.type === 'keyset'
+    ? { k: [cursor.createdAt, cursor.id] }
+    : { o: cursor.offset };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+export const decodeCursor = (value: string): BookmarkCursor => {
+  try {
+    const payload = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+    // Keyset values end up inside a PostgREST filter, so only accept their exact shapes
+    if (Array.isArray(payload.k) && TIMESTAMP_PATTERN.test(payload.k[0]) && UUID_PATTERN.test(payload.k[1])) {
+      return { type: 'keyset', createdAt: payload.k[0], id: payload.k[1] };
+    }
+
+    if (Number.isInteger(payload.o) && payload.o >= 0) {
+      return { type: 'offset', offset: payload.o };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw new AppError('Invalid cursor', 400);
+};
@@ -0,0 +1,143 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { BlockedAddressError, checkUrl, fetchPage, FetchPageError, isPublicAddress } from './http';
+
+// A local fixture server; each test registers the handler for its own path
+const routes = new Map<string, http.RequestListener>();
+const server = http.createServer((req, res) => {
+  const handler = routes.get(req.url || '/');
+  if (handler) return handler(req, res);
+  res.writeHead(404).end();
+});
+let base = '';
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('address checks', () => {
+  it('tells public addresses from internal ones', () => {
+    expect(isPublicAddress('93.184.215.14')).toBe(true);
+    expect(isPublicAddress('2606:4700::1111')).toBe(true);
+
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe',
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('refuses loopback hosts, by address and by name', async () => {
+    routes.set('/secret', (_req, res) => res.end('secret'));
+
+    await expect(fetchPage(`${base}/secret`)).rejects.toBeInstanceOf(BlockedAddressError);
+    await expect(fetchPage('http://localhost/')).rejects.toBeInstanceOf(BlockedAddressError);
+    await expect(fetchPage('http://[::1]/')).rejects.toBeInstanceOf(BlockedAddressError);
+    await expect(checkUrl(`${base}/secret`)).rejects.toBeInstanceOf(BlockedAddressError);
+  });
+
+  it('refuses other protocols', async () => {
+    await expect(fetchPage('file:///etc/passwd')).rejects.toThrow('Unsupported protocol file:');
+    await expect(checkUrl('ftp://example.com/')).rejects.toThrow('Only http and https');
+  });
+
+  it('checks the host of every redirect before following it', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data/' } })
+    );
+
+    try {
+      await expect(fetchPage('http://93.184.215.14/')).rejects.toBeInstanceOf(BlockedAddressError);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(fetchSpy.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
+
+describe('fetchPage with private hosts allowed', () => {
+  it('follows redirects and reports the final URL', async () => {
+    routes.set('/old', (_req, res) => res.writeHead(301, { location: '/new' }).end());
+    routes.set('/new', (_req, res) => res.writeHead(200, { 'content-type': 'text/html' }).end('<p>moved</p>'));
+
+    const page = await fetchPage(`${base}/old`, { allowPrivate: true });
+    expect(page).toMatchObject({ url: `${base}/new`, status: 200, body: '<p>moved</p>' });
+
+    const result = await checkUrl(`${base}/old`, { allowPrivate: true });
+    expect(result).toMatchObject({ status: 200, url: `${base}/new`, redirected: true });
+  });
+
+  it('gives up after too many redirects', async () => {
+    routes.set('/loop', (_req, res) => res.writeHead(302, { location: '/loop' }).end());
+
+    await expect(fetchPage(`${base}/loop`, { allowPrivate: true })).rejects.toThrow('More than 5 redirects');
+  });
+});
+
+describe('fetchPage limits', () => {
+  it('times out on a server that never answers', async () => {
+    routes.set('/slow', () => {
+      // Never responds
+    });
+
+    const error = await fetchPage(`${base}/slow`, { allowPrivate: true, timeoutMs: 100 }).catch(e => e);
+    expect(error).toBeInstanceOf(FetchPageError);
+    expect(error).toMatchObject({ message: 'Timed out after 100ms', retryable: true });
+  });
+
+  it('times out on a body that trickles in', async () => {
+    routes.set('/trickle', (_req, res) => {
+      res.writeHead(200, { 'content-type': 'text/html' });
+      res.write('<p>');
+    });
+
+    await expect(fetchPage(`${base}/trickle`, { allowPrivate: true, timeoutMs: 100 }))
+      .rejects.toMatchObject({ message: 'Timed out after 100ms' });
+  });
+
+  it('cuts the body off at maxBytes', async () => {
+    routes.set('/huge', (_req, res) => res.writeHead(200, { 'content-type': 'text/html' }).end('x'.repeat(100000)));
+
+    const page = await fetchPage(`${base}/huge`, { allowPrivate: true, maxBytes: 1000 });
+    expect(page.body).toHaveLength(1000);
+    expect(page.truncated).toBe(true);
+  });
+
+  it('decodes the declared charset', async () => {
+    routes.set('/latin1', (_req, res) =>
+      res.writeHead(200, { 'content-type': 'text/html; charset=iso-8859-1' }).end(Buffer.from('caf\xe9', 'latin1')));
+
+    expect((await fetchPage(`${base}/latin1`, { allowPrivate: true })).body).toBe('café');
+  });
+
+  it('marks server errors and rate limits as retryable, other HTTP errors not', async () => {
+    routes.set('/unavailable', (_req, res) => res.writeHead(503).end());
+    routes.set('/busy', (_req, res) => res.writeHead(429).end());
+    routes.set('/gone', (_req, res) => res.writeHead(410).end());
+
+    await expect(fetchPage(`${base}/unavailable`, { allowPrivate: true }))
+      .rejects.toMatchObject({ status: 503, retryable: true });
+    await expect(fetchPage(`${base}/busy`, { allowPrivate: true }))
+      .rejects.toMatchObject({ status: 429, retryable: true });
+    await expect(fetchPage(`${base}/gone`, { allowPrivate: true }))
+      .rejects.toMatchObject({ status: 410, retryable: false });
+  });
+
+  it('reports refused connections as retryable', async () => {
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise(resolve => closed.close(resolve));
+
+    await expect(fetchPage(`http://127.0.0.1:${port}/`, { allowPrivate: true }))
+      .rejects.toMatchObject({ message: 'Request failed: ECONNREFUSED', retryable: true });
+  });
+});
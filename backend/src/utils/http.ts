@@ -0,0 +1,322 @@
+import dns from 'dns';
+import net from 'net';
+
+// Fetching of saved pages (metadata enrichment, archives and link checks).
+// Every request has a hard timeout and a body size limit, so a slow or huge
+// page can never stall the worker that fetches it. Saved URLs come from users,
+// so only public http(s) addresses are fetched, checked again on every redirect.
+
+export interface FetchPageOptions {
+  timeoutMs?: number;
+  maxBytes?: number; // The body is cut off after this many bytes
+  accept?: string;
+  allowPrivate?: boolean; // Also fetch loopback and private network hosts
+}
+
+export interface FetchedPage {
+  url: string; // Final URL after redirects
+  status: number;
+  contentType: string;
+  body: string;
+  truncated: boolean;
+}
+
+// `retryable` tells queues whether the same request may succeed later
+// (timeouts, network errors, 5xx, 429) or is pointless to repeat.
+export class FetchPageError extends Error {
+  retryable: boolean;
+  status?: number;
+
+  constructor(message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.retryable = retryable;
+    this.status = status;
+    this.name = this.constructor.name;
+  }
+}
+
+// The URL's host is (or resolves to) an address that is not on the public internet
+export class BlockedAddressError extends FetchPageError {
+  constructor(message: string) {
+    super(message, false);
+  }
+}
+
+export const USER_AGENT = 'Mozilla/5.0 (compatible; BookmarkBot/1.0)';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Self-hosted installs that bookmark intranet pages can turn the address check off
+const ALLOW_PRIVATE_HOSTS = process.env.FETCH_ALLOW_PRIVATE_HOSTS === 'true';
+
+// Loopback, private, link-local (cloud metadata), shared, multicast, reserved
+// and unspecified ranges. IPv4-mapped IPv6 addresses match the IPv4 ranges.
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const parseWebUrl = (url: string): URL => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new FetchPageError('Invalid URL', false);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FetchPageError(`Unsupported protocol ${parsed.protocol}`, false);
+  }
+  return parsed;
+};
+
+// Resolves the host and rejects it if any of its addresses is not public
+const assertPublicHost = async (url: URL): Promise<void> => {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: { address: string }[];
+  try {
+    addresses = net.isIP(host) ? [{ address: host }] : await dns.promises.lookup(host, { all: true });
+  } catch (error) {
+    throw new FetchPageError(`Request failed: ${errorCode(error) || 'DNS lookup failed'}`, true);
+  }
+
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) {
+    throw new BlockedAddressError(`Refusing to fetch ${url.hostname}: ${blocked.address} is not a public address`);
+  }
+};
+
+interface FollowedResponse {
+  response: Response;
+  url: string; // Final URL after redirects
+  redirected: boolean;
+}
+
+// fetch with redirects followed by hand, so every hop's host is checked
+// before anything is sent to it
+const fetchFollowingRedirects = async (
+  url: string,
+  init: RequestInit,
+  allowPrivate: boolean
+): Promise<FollowedResponse> => {
+  let current = parseWebUrl(url);
+
+  for (let hops = 0; ; hops++) {
+    if (!allowPrivate) await assertPublicHost(current);
+
+    const response = await fetch(current.href, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+      return { response, url: current.href, redirected: hops > 0 };
+    }
+
+    await response.body?.cancel();
+    if (hops === MAX_REDIRECTS) {
+      throw new FetchPageError(`More than ${MAX_REDIRECTS} redirects`, false);
+    }
+
+    let next: string;
+    try {
+      next = new URL(location, current).href;
+    } catch {
+      throw new FetchPageError('Invalid redirect location', false);
+    }
+    current = parseWebUrl(next);
+  }
+};
+
+// fetch reports network failures as a TypeError whose cause carries the
+// system error code (ECONNREFUSED, ENOTFOUND, ...)
+const hasCode = (value: unknown): value is { code: string } =>
+  typeof value === 'object' && value !== null && typeof (value as { code?: unknown }).code === 'string';
+
+const errorCode = (error: unknown): string | undefined => {
+  const cause = typeof error === 'object' && error !== null ? (error as { cause?: unknown }).cause : undefined;
+  return hasCode(cause) ? cause.code : undefined;
+};
+
+const charsetOf = (contentType: string): string => {
+  const match = /charset=["']?([\w-]+)/i.exec(contentType);
+  return match ? match[1].toLowerCase() : 'utf-8';
+};
+
+const decode = (bytes: Uint8Array, charset: string): string => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const readBody = async (
+  response: Response,
+  maxBytes: number
+): Promise<{ bytes: Uint8Array; truncated: boolean }> => {
+  if (!response.body) return { bytes: new Uint8Array(0), truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (size + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      size = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+
+    chunks.push(value);
+    size += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return { bytes, truncated };
+};
+
+export const fetchPage = async (
+  url: string,
+  options: FetchPageOptions = {}
+): Promise<FetchedPage> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const allowPrivate = options.allowPrivate ?? ALLOW_PRIVATE_HOSTS;
+
+  // The timeout covers the whole exchange, including redirects and reading the body
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const { response, url: finalUrl } = await fetchFollowingRedirects(url, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: options.accept || 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+      },
+    }, allowPrivate);
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      const retryable = response.status >= 500 || response.status === 429;
+      throw new FetchPageError(`HTTP ${response.status}`, retryable, response.status);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const { bytes, truncated } = await readBody(response, maxBytes);
+
+    return {
+      url: finalUrl,
+      status: response.status,
+      contentType,
+      body: decode(bytes, charsetOf(contentType)),
+      truncated,
+    };
+  } catch (error) {
+    if (error instanceof FetchPageError) throw error;
+    if (controller.signal.aborted) {
+      throw new FetchPageError(`Timed out after ${timeoutMs}ms`, true);
+    }
+    const cause = errorCode(error) || (error as Error).message;
+    throw new FetchPageError(`Request failed: ${cause}`, true);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export interface LinkCheckResult {
+  status: number;
+  url: string; // Final URL after redirects
+  redirected: boolean;
+  retryAfterMs?: number; // From a Retry-After header on 429/503
+}
+
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Checks whether a URL still resolves. Tries HEAD first and falls back to GET
+// (without reading the body) for servers that reject or mishandle HEAD.
+// Network errors and timeouts throw a FetchPageError; HTTP errors are results.
+export const checkUrl = async (
+  url: string,
+  options: Pick<FetchPageOptions, 'timeoutMs' | 'allowPrivate'> = {}
+): Promise<LinkCheckResult> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const allowPrivate = options.allowPrivate ?? ALLOW_PRIVATE_HOSTS;
+
+  if (!/^https?:\/\//i.test(url)) {
+    throw new FetchPageError('Only http and https URLs can be checked', false);
+  }
+
+  const request = async (method: 'HEAD' | 'GET'): Promise<LinkCheckResult> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const { response, url: finalUrl, redirected } = await fetchFollowingRedirects(url, {
+        method,
+        signal: controller.signal,
+        headers: { 'User-Agent': USER_AGENT },
+      }, allowPrivate);
+      await response.body?.cancel();
+
+      return {
+        status: response.status,
+        url: finalUrl,
+        redirected,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+      };
+    } catch (error) {
+      if (error instanceof FetchPageError) throw error;
+      if (controller.signal.aborted) {
+        throw new FetchPageError(`Timed out after ${timeoutMs}ms`, true);
+      }
+      const cause = errorCode(error) || (error as Error).message;
+      throw new FetchPageError(`Request failed: ${cause}`, true);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  try {
+    const result = await request('HEAD');
+    if (result.status < 400 || result.status === 429) return result;
+  } catch (error) {
+    if (error instanceof BlockedAddressError) throw error;
+    // Some servers drop HEAD requests entirely; GET decides
+  }
+
+  return request('GET');
+};
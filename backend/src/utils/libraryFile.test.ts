@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { bookmarkRepository } from '../repositories';
+import { getAllBookmarks } from '../services/exportService';
+import { importBookmarks } from '../services/importService';
+import { USER_A, USER_B } from '../test/fixtures';
+import { Bookmark } from '../types';
+import {
+  csvHeader,
+  jsonFileEnd,
+  jsonFileStart,
+  parseLibraryCsv,
+  parseLibraryJson,
+  toCsvEntry,
+  toJsonEntry,
+} from './libraryFile';
+
+// Written the way GET /api/export streams them
+const exportCsv = (bookmarks: Bookmark[]): string => csvHeader() + bookmarks.map(toCsvEntry).join('');
+const exportJson = (bookmarks: Bookmark[]): string =>
+  jsonFileStart() + bookmarks.map((bookmark, index) => toJsonEntry(bookmark, index === 0)).join('') + jsonFileEnd();
+
+const comparable = (bookmarks: Bookmark[]) =>
+  bookmarks.map(({ url, title, summary, category, tags, created_at, updated_at }) => ({
+    url,
+    title,
+    summary: summary ?? null,
+    category: category ?? null,
+    tags: [...(tags || [])].sort(),
+    created_at,
+    updated_at: updated_at ?? null,
+  }));
+
+describe('library files', () => {
+  it.each([
+    ['CSV', exportCsv, parseLibraryCsv],
+    ['JSON', exportJson, parseLibraryJson],
+  ])('give back the same library after a %s export and re-import', async (format, write, parse) => {
+    const source = `${USER_A}-${format}`;
+    const target = `${USER_B}-${format}`;
+    await bookmarkRepository.insert({
+      user_id: source,
+      url: 'https://example.com/tricky',
+      canonical_url: 'https://example.com/tricky',
+      title: 'Quotes "and", commas\nand lines',
+      summary: 'A summary, with "quotes"',
+      category: 'misc',
+      created_at: '2024-01-01T10:00:00.000Z',
+      updated_at: '2024-01-02T10:00:00.000Z',
+    }, ['a,b', 'back\\slash', 'dev/frontend', 'plain']);
+    await bookmarkRepository.insert({
+      user_id: source,
+      url: 'https://example.com/untagged',
+      canonical_url: 'https://example.com/untagged',
+      title: 'Untagged',
+      created_at: '2024-01-03T10:00:00.000Z',
+    });
+
+    const exported = await getAllBookmarks(source);
+    const report = await importBookmarks(target, parse(write(exported)));
+
+    expect(report).toMatchObject({ total: 2, created: 2, failed: 0 });
+    expect(comparable(await getAllBookmarks(target))).toEqual(comparable(exported));
+  });
+
+  it('still reads plain comma-separated tags', () => {
+    const [bookmark] = parseLibraryCsv('url,title,tags\r\nhttps://example.com/,Example," a , b ,a"\r\n');
+    expect(bookmark.tags).toEqual(['a', 'b']);
+  });
+});
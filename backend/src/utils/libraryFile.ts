@@ -0,0 +1,122 @@
+import { Bookmark, ImportBookmark } from '../types';
+import { parseCsvRecords, toCsvRow } from './csv';
+
+// The app's own JSON and CSV library files. Both carry everything needed to
+// rebuild a library: URL, title, summary, legacy category, tags and both
+// timestamps. Tags are comma-separated in CSV, like the `tags` query parameter;
+// a comma inside a tag name is written `\,` and a backslash `\\`.
+//
+// JSON: { "version": 1, "exported_at": "...", "bookmarks": [LibraryRecord, ...] }
+// CSV:  url,title,summary,category,tags,created_at,updated_at
+
+export const LIBRARY_FILE_VERSION = 1;
+
+export const CSV_COLUMNS = ['url', 'title', 'summary', 'category', 'tags', 'created_at', 'updated_at'] as const;
+
+export interface LibraryRecord {
+  url: string;
+  title: string;
+  summary: string | null;
+  category: string | null;
+  tags: string[];
+  created_at: string;
+  updated_at: string | null;
+}
+
+export const toLibraryRecord = (bookmark: Bookmark): LibraryRecord => ({
+  url: bookmark.url,
+  title: bookmark.title,
+  summary: bookmark.summary ?? null,
+  category: bookmark.category ?? null,
+  tags: bookmark.tags || [],
+  created_at: bookmark.created_at,
+  updated_at: bookmark.updated_at ?? null,
+});
+
+// The JSON file is written in pieces so it can be streamed page by page
+export const jsonFileStart = (): string =>
+  `{"version":${LIBRARY_FILE_VERSION},"exported_at":"${new Date().toISOString()}","bookmarks":[\n`;
+
+export const jsonFileEnd = (): string => '\n]}\n';
+
+export const toJsonEntry = (bookmark: Bookmark, first: boolean): string =>
+  `${first ? '' : ',\n'}${JSON.stringify(toLibraryRecord(bookmark))}`;
+
+export const csvHeader = (): string => toCsvRow([...CSV_COLUMNS]);
+
+const joinTags = (tags: string[]): string =>
+  tags.map(tag => tag.replace(/[\\,]/g, '\\$&')).join(',');
+
+const splitTags = (cell: string): string[] => {
+  const tags: string[] = [];
+  let tag = '';
+  for (let i = 0; i < cell.length; i++) {
+    if (cell[i] === '\\' && i + 1 < cell.length) {
+      tag += cell[++i];
+    } else if (cell[i] === ',') {
+      tags.push(tag);
+      tag = '';
+    } else {
+      tag += cell[i];
+    }
+  }
+  tags.push(tag);
+  return tags;
+};
+
+export const toCsvEntry = (bookmark: Bookmark): string => {
+  const record = toLibraryRecord(bookmark);
+  return toCsvRow(CSV_COLUMNS.map(column =>
+    column === 'tags' ? joinTags(record.tags) : record[column]
+  ));
+};
+
+const optionalText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value : undefined;
+
+const optionalDate = (value: unknown): string | undefined => {
+  const text = optionalText(value);
+  return text && !Number.isNaN(Date.parse(text)) ? new Date(text).toISOString() : undefined;
+};
+
+const toTags = (value: unknown): string[] | undefined => {
+  const tags = (Array.isArray(value) ? value : typeof value === 'string' ? splitTags(value) : [])
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.trim())
+    .filter(Boolean);
+  return tags.length > 0 ? [...new Set(tags)] : undefined;
+};
+
+// Rows without a URL are kept (with an empty URL) so the import report
+// still lines up with the file
+const toImportBookmark = (record: Record<string, unknown>): ImportBookmark => {
+  const url = optionalText(record.url)?.trim() || '';
+  return {
+    url,
+    title: optionalText(record.title) || url,
+    summary: optionalText(record.summary),
+    category: optionalText(record.category),
+    tags: toTags(record.tags),
+    created_at: optionalDate(record.created_at),
+    updated_at: optionalDate(record.updated_at),
+  };
+};
+
+// Accepts the export envelope or a bare array of records
+export const parseLibraryJson = (text: string): ImportBookmark[] => {
+  const parsed: unknown = JSON.parse(text);
+  const records = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { bookmarks?: unknown } | null)?.bookmarks;
+
+  if (!Array.isArray(records)) {
+    throw new Error('Expected an array of bookmarks');
+  }
+
+  return records
+    .filter((record): record is Record<string, unknown> => typeof record === 'object' && record !== null)
+    .map(toImportBookmark);
+};
+
+export const parseLibraryCsv = (text: string): ImportBookmark[] =>
+  parseCsvRecords(text).map(toImportBookmark);
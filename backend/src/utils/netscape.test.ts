@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Bookmark } from '../types';
+import { parseNetscape, renderNetscape } from './netscape';
+
+const FILE = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<DL><p>
+  <DT><H3 PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+  <DL><p>
+    <DT><H3>Dev Stuff</H3>
+    <DL><p>
+      <DT><H3>Front End</H3>
+      <DL><p>
+        <DT><A HREF="https://react.dev/" ADD_DATE="1700000000" TAGS="docs">React</A>
+        <DD>The library
+      </DL><p>
+      <DT><H3>CI/CD</H3>
+      <DL><p>
+        <DT><A HREF="https://github.com/features/actions">Actions</A>
+      </DL><p>
+      <DT><A HREF="https://example.com/dev">Dev home</A>
+    </DL><p>
+    <DT><H3>Reading</H3>
+    <DL><p>
+      <DT><A HREF="https://react.dev/">React again</A>
+    </DL><p>
+  </DL><p>
+  <DT><A HREF="https://example.com/">Loose</A>
+</DL><p>`;
+
+const bookmark = (id: string, tags: string[]): Bookmark => ({
+  id,
+  user_id: 'user-a',
+  url: `https://example.com/${id}`,
+  title: `Bookmark ${id}`,
+  tags,
+  created_at: '2024-01-01T00:00:00.000Z',
+});
+
+describe('parseNetscape', () => {
+  it('turns the folder path into one nested tag', () => {
+    const [react, actions, dev, loose] = parseNetscape(FILE);
+
+    expect(react).toMatchObject({ url: 'https://react.dev/', title: 'React', summary: 'The library' });
+    expect(react.tags).toEqual(['dev stuff/front end', 'docs', 'reading']);
+    expect(actions.tags).toEqual(['dev stuff/ci-cd']);
+    expect(dev.tags).toEqual(['dev stuff']);
+    expect(loose.tags).toBeUndefined();
+  });
+
+  it('reads a URL filed in several folders as one bookmark', () => {
+    expect(parseNetscape(FILE).map(item => item.url)).toEqual([
+      'https://react.dev/',
+      'https://github.com/features/actions',
+      'https://example.com/dev',
+      'https://example.com/',
+    ]);
+  });
+});
+
+describe('renderNetscape', () => {
+  it('writes nested folders and files a bookmark under each of its tags', () => {
+    const html = renderNetscape([bookmark('1', ['dev/frontend', 'news']), bookmark('2', [])]);
+
+    expect(html.match(/HREF="https:\/\/example.com\/1"/g)).toHaveLength(2);
+    expect(html).toMatch(/>dev<\/H3>\n {4}<DL><p>\n {8}<DT><H3[^>]*>frontend<\/H3>\n {8}<DL><p>\n {12}<DT><A HREF="https:\/\/example.com\/1"/);
+    expect(html).toMatch(/>news<\/H3>\n {4}<DL><p>\n {8}<DT><A HREF="https:\/\/example.com\/1"/);
+    expect(html).toMatch(/<\/DL><p>\n {4}<DT><A HREF="https:\/\/example.com\/2"/);
+  });
+
+  it('reads back what it writes', () => {
+    const exported = [bookmark('1', ['dev/frontend', 'news']), bookmark('2', ['dev']), bookmark('3', [])];
+
+    expect(parseNetscape(renderNetscape(exported)).map(({ url, tags }) => ({ url, tags: tags?.sort() }))).toEqual([
+      { url: 'https://example.com/1', tags: ['dev/frontend', 'news'] },
+      { url: 'https://example.com/2', tags: ['dev'] },
+      { url: 'https://example.com/3', tags: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,212 @@
+import { Bookmark, ImportBookmark } from '../types';
+import { normalizeTagPath, TAG_PATH_SEPARATOR } from './tagPath';
+
+// Netscape bookmark file format (bookmarks.html), as exported and imported
+// by Chrome, Firefox, Safari and Edge:
+//
+//   <DT><H3 ADD_DATE="1700000000">Folder</H3>
+//   <DL><p>
+//     <DT><A HREF="https://example.com" ADD_DATE="1700000000" TAGS="a,b">Title</A>
+//     <DD>Description
+//   </DL><p>
+//
+// The markup is not well-formed HTML (<DT> and <DD> are never closed), so it
+// is read with a small tag scanner rather than a DOM parser.
+
+// Browser root folders that are containers, not topics
+const ROOT_FOLDERS = new Set([
+  'bookmarks bar', 'bookmarks toolbar', 'bookmarks menu', 'other bookmarks',
+  'mobile bookmarks', 'favorites bar', 'favourites bar', 'bookmarks',
+]);
+
+const TOKEN_PATTERN = /<(\/?)(dl|h3|a|dd|dt)\b([^>]*)>/gi;
+const ATTRIBUTE_PATTERN = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+
+export const decodeEntities = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+const encodeEntities = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+// Text up to the next tag, with any inline markup stripped
+const textUntilNextTag = (html: string, from: number): string => {
+  const end = html.slice(from).search(/<(?:\/?(?:dl|dt|dd|h3|a)\b|\/a>|\/h3>)/i);
+  const raw = end === -1 ? html.slice(from) : html.slice(from, from + end);
+  return decodeEntities(raw.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+};
+
+const toIsoDate = (seconds: string | undefined): string | undefined => {
+  const value = Number(seconds);
+  if (!seconds || !Number.isFinite(value) || value <= 0) return undefined;
+  // Some browsers write microseconds instead of seconds
+  const ms = value > 1e14 ? value / 1000 : value > 1e11 ? value : value * 1000;
+  return new Date(ms).toISOString();
+};
+
+// A folder's name as one tag path segment; a slash in it is not nesting
+const toSegment = (folder: string): string => folder.split(TAG_PATH_SEPARATOR).join('-');
+
+// Parses a bookmarks.html file. A bookmark's folder path becomes one nested
+// tag (`Dev Stuff > Front End` is `dev stuff/front end`), merged with the TAGS
+// attribute some browsers and services write. A URL filed in several folders
+// is one bookmark with the tags of all of them.
+export const parseNetscape = (html: string): ImportBookmark[] => {
+  const bookmarks: ImportBookmark[] = [];
+  const byUrl = new Map<string, ImportBookmark>();
+  const folders: (string | null)[] = [];
+  let pendingFolder: string | null = null;
+  let lastBookmark: ImportBookmark | null = null;
+
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+    const afterTag = match.index! + match[0].length;
+
+    if (tag === 'h3' && !closing) {
+      const name = textUntilNextTag(html, afterTag);
+      const attributes = parseAttributes(match[3]);
+      const isRoot = 'personal_toolbar_folder' in attributes || ROOT_FOLDERS.has(name.toLowerCase());
+      pendingFolder = isRoot ? null : name;
+      lastBookmark = null;
+    } else if (tag === 'dl') {
+      if (closing) {
+        folders.pop();
+      } else {
+        folders.push(pendingFolder);
+        pendingFolder = null;
+      }
+      lastBookmark = null;
+    } else if (tag === 'a' && !closing) {
+      const attributes = parseAttributes(match[3]);
+      const url = attributes.href;
+      if (!url) continue;
+
+      const folderPath = normalizeTagPath(
+        folders.filter((folder): folder is string => Boolean(folder)).map(toSegment).join(TAG_PATH_SEPARATOR)
+      );
+      const attributeTags = (attributes.tags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+      const tags = [...new Set([...(folderPath ? [folderPath] : []), ...attributeTags])];
+
+      const existing = byUrl.get(url);
+      if (existing) {
+        const merged = [...new Set([...(existing.tags || []), ...tags])];
+        existing.tags = merged.length > 0 ? merged : undefined;
+        lastBookmark = existing;
+        continue;
+      }
+
+      lastBookmark = {
+        url,
+        title: textUntilNextTag(html, afterTag) || url,
+        tags: tags.length > 0 ? tags : undefined,
+        created_at: toIsoDate(attributes.add_date),
+      };
+      byUrl.set(url, lastBookmark);
+      bookmarks.push(lastBookmark);
+    } else if (tag === 'dd' && !closing && lastBookmark) {
+      const description = textUntilNextTag(html, afterTag);
+      if (description && !lastBookmark.summary) lastBookmark.summary = description;
+      lastBookmark = null;
+    }
+  }
+
+  return bookmarks;
+};
+
+const toUnixSeconds = (iso: string): number => Math.floor(new Date(iso).getTime() / 1000);
+
+const renderBookmark = (bookmark: Bookmark, indent: string): string => {
+  const tags = bookmark.tags || [];
+  const attributes = [
+    `HREF="${encodeEntities(bookmark.url)}"`,
+    `ADD_DATE="${toUnixSeconds(bookmark.created_at)}"`,
+    bookmark.updated_at ? `LAST_MODIFIED="${toUnixSeconds(bookmark.updated_at)}"` : null,
+    tags.length > 0 ? `TAGS="${encodeEntities(tags.join(','))}"` : null,
+  ].filter(Boolean);
+
+  let line = `${indent}<DT><A ${attributes.join(' ')}>${encodeEntities(bookmark.title)}</A>\n`;
+  if (bookmark.summary) {
+    line += `${indent}<DD>${encodeEntities(bookmark.summary)}\n`;
+  }
+  return line;
+};
+
+// A folder of the export: the tags one level down, and the bookmarks tagged
+// with exactly this path
+interface Folder {
+  children: Map<string, Folder>;
+  bookmarks: Bookmark[];
+}
+
+const newFolder = (): Folder => ({ children: new Map(), bookmarks: [] });
+
+const renderFolder = (folder: Folder, indent: string, now: number): string => {
+  let html = '';
+
+  for (const name of [...folder.children.keys()].sort((a, b) => a.localeCompare(b))) {
+    html += `${indent}<DT><H3 ADD_DATE="${now}" LAST_MODIFIED="${now}">${encodeEntities(name)}</H3>\n`;
+    html += `${indent}<DL><p>\n`;
+    html += renderFolder(folder.children.get(name)!, `${indent}    `, now);
+    html += `${indent}</DL><p>\n`;
+  }
+
+  for (const bookmark of folder.bookmarks) {
+    html += renderBookmark(bookmark, indent);
+  }
+  return html;
+};
+
+// Writes a bookmarks.html file. Nested tags become nested folders, and a
+// bookmark is filed under each of its tags (untagged ones at the top level),
+// since browsers have no other way to put one bookmark in several places.
+// All tags are also kept in the TAGS attribute, which Firefox imports as tags.
+export const renderNetscape = (bookmarks: Bookmark[]): string => {
+  const root = newFolder();
+
+  for (const bookmark of bookmarks) {
+    const tags = bookmark.tags || [];
+    if (tags.length === 0) {
+      root.bookmarks.push(bookmark);
+      continue;
+    }
+
+    for (const tag of new Set(tags)) {
+      let folder = root;
+      for (const segment of tag.split(TAG_PATH_SEPARATOR).filter(Boolean)) {
+        if (!folder.children.has(segment)) folder.children.set(segment, newFolder());
+        folder = folder.children.get(segment)!;
+      }
+      folder.bookmarks.push(bookmark);
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  return '<!DOCTYPE NETSCAPE-Bookmark-file-1>\n'
+    + '<!-- This is an automatically generated file.\n     It will be read and overwritten.\n     DO NOT EDIT! -->\n'
+    + '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">\n'
+    + '<TITLE>Bookmarks</TITLE>\n'
+    + '<H1>Bookmarks</H1>\n'
+    + '<DL><p>\n'
+    + renderFolder(root, '    ', now)
+    + '</DL><p>\n';
+};
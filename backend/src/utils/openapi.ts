@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { ApiRoute, errorResponse } from '../schemas/common';
+import { bookmarkApi } from '../schemas/bookmarkSchemas';
+import { tagApi } from '../schemas/tagSchemas';
+import { categoryApi } from '../schemas/categorySchemas';
+import { ruleApi } from '../schemas/ruleSchemas';
+import { collectionApi } from '../schemas/collectionSchemas';
+
+// Builds the OpenAPI 3 document served at /api/openapi.json from the route
+// schemas, so the document cannot drift from what the API validates
+
+type JsonSchema = Record<string, unknown>;
+
+const API_GROUPS: Record<string, Record<string, ApiRoute>> = {
+  bookmarks: bookmarkApi,
+  tags: tagApi,
+  categories: categoryApi,
+  rules: ruleApi,
+  collections: collectionApi,
+};
+
+// Schemas with a `meta({ id })` end up in components.schemas and are referenced from there
+const toJsonSchema = (
+  schema: z.ZodType,
+  io: 'input' | 'output',
+  components: Record<string, JsonSchema>
+): JsonSchema => {
+  const converted = z.toJSONSchema(schema, { target: 'openapi-3.0', io });
+  const { definitions, ...json }: JsonSchema = JSON.parse(
+    JSON.stringify(converted).replace(/"#\/definitions\//g, '"#/components/schemas/')
+  );
+  Object.assign(components, definitions);
+  return json;
+};
+
+const toParameters = (
+  location: 'path' | 'query',
+  schema: z.ZodObject | undefined,
+  components: Record<string, JsonSchema>
+): JsonSchema[] => {
+  if (!schema) return [];
+
+  const json = toJsonSchema(schema, 'input', components);
+  const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (json.required ?? []) as string[];
+  return Object.entries(properties).map(([name, { description, ...propertySchema }]) => {
+    return {
+      name,
+      in: location,
+      required: location === 'path' || required.includes(name),
+      ...(description ? { description } : {}),
+      schema: propertySchema,
+    };
+  });
+};
+
+const errorContent = { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } };
+
+const toOperation = (operationId: string, route: ApiRoute, components: Record<string, JsonSchema>) => {
+  const responses: JsonSchema = {
+    [route.status || 200]: {
+      description: 'Success',
+      content: { 'application/json': { schema: toJsonSchema(route.response, 'output', components) } },
+    },
+    400: { description: 'The request does not match the schema; `details` lists every invalid field', content: errorContent },
+    401: { description: 'Missing or invalid bearer token', content: errorContent },
+    403: { description: `The access token lacks the \`${route.scope}\` scope`, content: errorContent },
+  };
+  if (route.params) {
+    responses[404] = { description: 'Not found, or owned by another user', content: errorContent };
+  }
+
+  return {
+    operationId,
+    summary: route.summary,
+    ...(route.description ? { description: route.description } : {}),
+    tags: [route.tag],
+    'x-required-scope': route.scope,
+    parameters: [
+      ...toParameters('path', route.params, components),
+      ...toParameters('query', route.query, components),
+    ],
+    ...(route.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: toJsonSchema(route.body, 'input', components) } },
+          },
+        }
+      : {}),
+    responses,
+  };
+};
+
+export const buildOpenApiDocument = (): JsonSchema => {
+  const components: Record<string, JsonSchema> = {};
+  toJsonSchema(errorResponse, 'output', components);
+
+  const paths: Record<string, JsonSchema> = {};
+  for (const [group, routes] of Object.entries(API_GROUPS)) {
+    for (const [name, route] of Object.entries(routes)) {
+      const operationId = `${group}${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+      paths[route.path] = { ...paths[route.path], [route.method]: toOperation(operationId, route, components) };
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Contextual Bookmarking API',
+      version: '1.0.0',
+      description:
+        'Every endpoint takes `Authorization: Bearer <token>` with a session token or a personal access token. ' +
+        'Personal access tokens also need the scope in each operation\'s `x-required-scope`.',
+    },
+    security: [{ bearerAuth: [] }],
+    tags: [{ name: 'Bookmarks' }, { name: 'Tags' }, { name: 'Categories' }, { name: 'Rules' }, { name: 'Collections' }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+      },
+      schemas: components,
+    },
+  };
+};
@@ -0,0 +1,110 @@
+import { parseHTML } from 'linkedom';
+import { PageMetadata } from '../types';
+
+// Extracts page metadata from HTML. Pure, so it can be run against saved
+// fixtures as well as pages fetched by the enrichment worker.
+
+const MAX_TEXT_LENGTH = 1000;
+
+const clean = (value: string | null | undefined): string | null => {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, MAX_TEXT_LENGTH) : null;
+};
+
+// Relative links are resolved against the page; only web URLs are kept
+const resolveUrl = (value: string | null | undefined, baseUrl: string): string | null => {
+  if (!value || !value.trim()) return null;
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const toIsoDate = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// The part of a parsed document findJsonLdDate reads
+interface ScriptSource {
+  querySelectorAll(selector: string): Iterable<{ textContent: string | null }>;
+}
+
+// datePublished from JSON-LD blocks, including @graph arrays
+const findJsonLdDate = (document: ScriptSource): string | null => {
+  for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      const stack: unknown[] = [JSON.parse(script.textContent || '')];
+      while (stack.length > 0) {
+        const item = stack.pop();
+        if (Array.isArray(item)) {
+          stack.push(...item);
+        } else if (item && typeof item === 'object') {
+          const node = item as Record<string, unknown>;
+          if (typeof node.datePublished === 'string') return node.datePublished;
+          if (node['@graph']) stack.push(node['@graph']);
+        }
+      }
+    } catch {
+      // Ignore malformed JSON-LD
+    }
+  }
+  return null;
+};
+
+export const extractMetadata = (html: string, pageUrl: string): PageMetadata => {
+  const { document } = parseHTML(html);
+
+  // <meta name|property|itemprop|http-equiv="..." content="..."> keyed by lowercase name
+  const meta = new Map<string, string>();
+  for (const element of document.querySelectorAll('meta[content]')) {
+    const key = element.getAttribute('property')
+      || element.getAttribute('name')
+      || element.getAttribute('itemprop')
+      || element.getAttribute('http-equiv');
+    const content = element.getAttribute('content');
+    if (key && content && !meta.has(key.toLowerCase())) {
+      meta.set(key.toLowerCase(), content);
+    }
+  }
+  const first = (...keys: string[]): string | undefined =>
+    keys.map(key => meta.get(key)).find(Boolean);
+
+  const links: { rel: string[]; href: string }[] = [];
+  for (const element of document.querySelectorAll('link[href]')) {
+    links.push({
+      rel: (element.getAttribute('rel') || '').toLowerCase().split(/\s+/),
+      href: element.getAttribute('href') || '',
+    });
+  }
+
+  // Prefer a plain icon over apple-touch-icon, fall back to /favicon.ico
+  const icon = links.find(link => link.rel.includes('icon'))
+    || links.find(link => link.rel.includes('apple-touch-icon'));
+
+  const timeElement = document.querySelector('article time[datetime], time[datetime]');
+
+  return {
+    title: clean(first('og:title', 'twitter:title') || document.querySelector('title')?.textContent),
+    description: clean(first('description', 'og:description', 'twitter:description')),
+    canonical_url: resolveUrl(
+      links.find(link => link.rel.includes('canonical'))?.href || first('og:url'),
+      pageUrl
+    ),
+    image_url: resolveUrl(first('og:image', 'og:image:url', 'og:image:secure_url', 'twitter:image', 'twitter:image:src'), pageUrl),
+    favicon_url: resolveUrl(icon?.href || '/favicon.ico', pageUrl),
+    site_name: clean(first('og:site_name', 'application-name', 'twitter:site')),
+    language: clean(
+      document.documentElement?.getAttribute('lang')
+      || first('content-language', 'og:locale')?.replace('_', '-')
+    ),
+    published_at: toIsoDate(
+      first('article:published_time', 'datepublished', 'date', 'pubdate', 'publish-date', 'dc.date', 'dc.date.issued')
+      || findJsonLdDate(document)
+      || timeElement?.getAttribute('datetime')
+    ),
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { parsePinboard, parsePocket, parseRaindrop } from './readLaterExports';
+
+describe('parsePocket', () => {
+  it('reads the HTML export, tagging the unread section', () => {
+    const html = `<!DOCTYPE html>
+<html><body>
+<h1>Unread</h1>
+<ul>
+  <li><a href="https://example.com/a" time_added="1700000000" tags="dev,react">A &amp; <b>B</b></a></li>
+  <li><a href="https://example.com/untitled" time_added="">   </a></li>
+</ul>
+<h1>Read Archive</h1>
+<ul>
+  <li><a href="https://example.com/read" time_added="1600000000" tags="">Read it</a></li>
+  <li><a>No link</a></li>
+</ul>
+</body></html>`;
+
+    expect(parsePocket(html)).toEqual([
+      { url: 'https://example.com/a', title: 'A & B', tags: ['dev', 'react', 'unread'], created_at: '2023-11-14T22:13:20.000Z' },
+      { url: 'https://example.com/untitled', title: 'https://example.com/untitled', tags: ['unread'] },
+      { url: 'https://example.com/read', title: 'Read it', created_at: '2020-09-13T12:26:40.000Z' },
+    ]);
+  });
+
+  it('reads the CSV export with "|"-separated tags', () => {
+    const csv = [
+      'title,url,time_added,tags,status',
+      '"Hello, world",https://example.com/hello,1700000000,dev|go,unread',
+      ',https://example.com/archived,,,archive',
+    ].join('\n');
+
+    expect(parsePocket(csv)).toEqual([
+      { url: 'https://example.com/hello', title: 'Hello, world', tags: ['dev', 'go', 'unread'], created_at: '2023-11-14T22:13:20.000Z' },
+      { url: 'https://example.com/archived', title: 'https://example.com/archived' },
+    ]);
+  });
+});
+
+describe('parsePinboard', () => {
+  it('maps posts to bookmarks', () => {
+    const json = JSON.stringify([
+      {
+        href: 'https://example.com/pin',
+        description: 'Pinned',
+        extended: ' Some notes ',
+        time: '2023-11-14T22:13:20Z',
+        toread: 'yes',
+        tags: 'dev  go',
+      },
+      { href: 'https://example.com/bare', description: '', extended: '', time: 'yesterday', toread: 'no', tags: '' },
+      'not a post',
+    ]);
+
+    expect(parsePinboard(json)).toEqual([
+      {
+        url: 'https://example.com/pin',
+        title: 'Pinned',
+        summary: 'Some notes',
+        tags: ['dev', 'go', 'unread'],
+        created_at: '2023-11-14T22:13:20.000Z',
+      },
+      { url: 'https://example.com/bare', title: 'https://example.com/bare' },
+    ]);
+  });
+
+  it('rejects a file that is not a list of posts', () => {
+    expect(() => parsePinboard('{"posts": []}')).toThrow('Expected an array of posts');
+    expect(() => parsePinboard('not json')).toThrow();
+  });
+});
+
+describe('parseRaindrop', () => {
+  it('turns the folder into a tag, except for Unsorted', () => {
+    const csv = [
+      'id,title,note,excerpt,url,folder,tags,created,cover,highlights,favorite',
+      '1,Raindrop,My note,The excerpt,https://example.com/drop,Reading,"dev, go",2023-11-14T22:13:20.000Z,,,',
+      '2,,,Only an excerpt,https://example.com/inbox,Unsorted,,not a date,,,',
+    ].join('\n');
+
+    expect(parseRaindrop(csv)).toEqual([
+      {
+        url: 'https://example.com/drop',
+        title: 'Raindrop',
+        summary: 'My note',
+        tags: ['Reading', 'dev', 'go'],
+        created_at: '2023-11-14T22:13:20.000Z',
+      },
+      { url: 'https://example.com/inbox', title: 'https://example.com/inbox', summary: 'Only an excerpt' },
+    ]);
+  });
+});
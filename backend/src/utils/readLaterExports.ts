@@ -0,0 +1,128 @@
+import { ImportBookmark } from '../types';
+import { parseCsvRecords } from './csv';
+import { decodeEntities, parseAttributes } from './netscape';
+import { UNREAD_TAG } from './tagPath';
+
+// Export files of other read-later services. None of them has a field for
+// every part of a bookmark; what they do have is mapped as follows:
+//
+//   Pocket    tags, time added, read state   (HTML: ril_export.html, or CSV)
+//   Pinboard  tags, notes, time, "to read"   (JSON: pinboard_export.json)
+//   Raindrop  tags, folder, note, created    (CSV: export.csv)
+//
+// We have no read flag, so unread items get the UNREAD_TAG tag, which is what
+// Pinboard's "to read" and Pocket's reading list amount to.
+
+const toTags = (names: string[], unread = false): string[] | undefined => {
+  const tags = names.map(name => name.trim()).filter(Boolean);
+  if (unread) tags.push(UNREAD_TAG);
+  return tags.length > 0 ? [...new Set(tags)] : undefined;
+};
+
+const optionalText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+const fromUnixSeconds = (value: string | undefined): string | undefined => {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000).toISOString() : undefined;
+};
+
+const fromDateString = (value: string | undefined): string | undefined =>
+  value && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+
+// Pocket's HTML export is a list per section: "Unread" and "Read Archive".
+//
+//   <h1>Unread</h1>
+//   <ul>
+//     <li><a href="https://..." time_added="1600000000" tags="a,b">Title</a></li>
+//   </ul>
+const parsePocketHtml = (html: string): ImportBookmark[] => {
+  const bookmarks: ImportBookmark[] = [];
+  let unread = true;
+
+  for (const match of html.matchAll(/<h1\b[^>]*>([\s\S]*?)<\/h1>|<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+    if (match[1] !== undefined) {
+      unread = !/read archive/i.test(match[1]);
+      continue;
+    }
+
+    const attributes = parseAttributes(match[2]);
+    const url = attributes.href?.trim();
+    if (!url) continue;
+
+    const title = decodeEntities(match[3].replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+    bookmarks.push({
+      url,
+      title: title || url,
+      tags: toTags((attributes.tags || '').split(','), unread),
+      created_at: fromUnixSeconds(attributes.time_added),
+    });
+  }
+
+  return bookmarks;
+};
+
+// Pocket's CSV export: title,url,time_added,tags,status with "|"-separated
+// tags and a status of "unread" or "archive"
+const parsePocketCsv = (text: string): ImportBookmark[] =>
+  parseCsvRecords(text).map(record => {
+    const url = record.url?.trim() || '';
+    return {
+      url,
+      title: optionalText(record.title) || url,
+      tags: toTags((record.tags || '').split('|'), record.status?.trim().toLowerCase() === 'unread'),
+      created_at: fromUnixSeconds(record.time_added),
+    };
+  });
+
+export const parsePocket = (text: string): ImportBookmark[] =>
+  text.trimStart().startsWith('<') ? parsePocketHtml(text) : parsePocketCsv(text);
+
+interface PinboardPost {
+  href?: unknown;
+  description?: unknown; // The title
+  extended?: unknown; // The notes
+  time?: unknown;
+  toread?: unknown;
+  tags?: unknown; // Space-separated
+}
+
+// Pinboard's JSON export (from /export or the posts/all API)
+export const parsePinboard = (text: string): ImportBookmark[] => {
+  const posts: unknown = JSON.parse(text);
+  if (!Array.isArray(posts)) {
+    throw new Error('Expected an array of posts');
+  }
+
+  return posts
+    .filter((post): post is PinboardPost => typeof post === 'object' && post !== null)
+    .map(post => {
+      const url = optionalText(post.href) || '';
+      return {
+        url,
+        title: optionalText(post.description) || url,
+        summary: optionalText(post.extended),
+        tags: toTags(typeof post.tags === 'string' ? post.tags.split(/\s+/) : [], post.toread === 'yes'),
+        created_at: fromDateString(optionalText(post.time)),
+      };
+    });
+};
+
+// Raindrop's CSV export: id,title,note,excerpt,url,folder,tags,created,...
+// The folder becomes a tag like a browser bookmark folder, except for the
+// "Unsorted" inbox. Raindrop has no read state.
+export const parseRaindrop = (text: string): ImportBookmark[] =>
+  parseCsvRecords(text).map(record => {
+    const url = record.url?.trim() || '';
+    const folder = optionalText(record.folder);
+    return {
+      url,
+      title: optionalText(record.title) || url,
+      summary: optionalText(record.note) || optionalText(record.excerpt),
+      tags: toTags([
+        ...(folder && folder.toLowerCase() !== 'unsorted' ? [folder] : []),
+        ...(record.tags || '').split(','),
+      ]),
+      created_at: fromDateString(optionalText(record.created)),
+    };
+  });
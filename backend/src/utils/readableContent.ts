@@ -0,0 +1,88 @@
+import { Readability } from '@mozilla/readability';
+import { parseHTML } from 'linkedom';
+import sanitizeHtml from 'sanitize-html';
+
+// Extracts the readable main content of a page (article body without
+// navigation, ads or scripts) for the offline archive.
+
+export interface ReadableContent {
+  title: string | null;
+  byline: string | null;
+  excerpt: string | null;
+  content_html: string; // Sanitized, safe to render as is
+  content_text: string;
+  word_count: number;
+}
+
+const ALLOWED_TAGS = [
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'code',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'a', 'em', 'strong', 'b', 'i', 'u', 's', 'sub', 'sup',
+  'mark', 'small', 'abbr', 'cite', 'q', 'time', 'figure', 'figcaption', 'img', 'picture',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'div', 'span', 'section', 'article',
+];
+
+const resolve = (value: string | undefined, baseUrl: string): string | undefined => {
+  if (!value) return value;
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return undefined;
+  }
+};
+
+// Only plain markup survives: no scripts, styles, event handlers or iframes.
+// Links and images are made absolute so the archive works away from the source.
+export const sanitizeArchiveHtml = (html: string, pageUrl: string): string =>
+  sanitizeHtml(html, {
+    allowedTags: ALLOWED_TAGS,
+    allowedAttributes: {
+      a: ['href', 'title', 'target', 'rel'],
+      img: ['src', 'alt', 'title', 'width', 'height'],
+      abbr: ['title'],
+      time: ['datetime'],
+      td: ['colspan', 'rowspan'],
+      th: ['colspan', 'rowspan', 'scope'],
+    },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    allowedSchemesByTag: { img: ['http', 'https'] },
+    transformTags: {
+      a: (tagName, attribs) => ({
+        tagName,
+        attribs: {
+          ...attribs,
+          href: resolve(attribs.href, pageUrl) || '',
+          target: '_blank',
+          rel: 'noopener noreferrer',
+        },
+      }),
+      img: (tagName, attribs) => ({
+        tagName,
+        attribs: { ...attribs, src: resolve(attribs.src, pageUrl) || '' },
+      }),
+    },
+  });
+
+const toPlainText = (text: string): string =>
+  text
+    .split(/\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+export const extractReadableContent = (html: string, pageUrl: string): ReadableContent | null => {
+  const { document } = parseHTML(html);
+  const article = new Readability(document as unknown as Document, { charThreshold: 200 }).parse();
+  if (!article || !article.content) return null;
+
+  const contentText = toPlainText(article.textContent || '');
+  if (!contentText) return null;
+
+  return {
+    title: article.title || null,
+    byline: article.byline || null,
+    excerpt: article.excerpt || null,
+    content_html: sanitizeArchiveHtml(article.content, pageUrl),
+    content_text: contentText,
+    word_count: contentText.split(/\s+/).length,
+  };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ruleConditionsSchema } from '../schemas/ruleSchemas';
+import { BookmarkRule } from '../types';
+import { evaluateRules, isValidRegExp, matchesConditions } from './rules';
+
+const target = { url: 'https://gist.github.com/docs/intro', title: 'RFC 9110: HTTP Semantics', summary: null };
+
+describe('matchesConditions', () => {
+  it('matches hosts with their subdomains and wildcard paths', () => {
+    expect(matchesConditions({ host: 'github.com' }, target)).toBe(true);
+    expect(matchesConditions({ host: '*.github.*' }, target)).toBe(true);
+    expect(matchesConditions({ host: 'gitlab.com' }, target)).toBe(false);
+    expect(matchesConditions({ path: '/docs/*' }, target)).toBe(true);
+    expect(matchesConditions({ path: '/doc.' }, { ...target, url: 'https://a.com/docs' })).toBe(false);
+  });
+
+  it('matches title and summary patterns ignoring case', () => {
+    expect(matchesConditions({ title: '\\brfc\\b' }, target)).toBe(true);
+    expect(matchesConditions({ title: '^http' }, target)).toBe(false);
+    expect(matchesConditions({ summary: '.' }, target)).toBe(false);
+  });
+
+  it('runs catastrophic backtracking patterns in linear time', () => {
+    const started = Date.now();
+    expect(matchesConditions({ title: '(a+)+$' }, { ...target, title: `${'a'.repeat(1900)}!` })).toBe(false);
+    expect(matchesConditions({ title: '^(a|a)*$' }, { ...target, title: `${'a'.repeat(1900)}!` })).toBe(false);
+    expect(matchesConditions({ path: '*a*a*a*a*a*a*a*a*b' }, { ...target, url: `https://a.com/${'a'.repeat(1900)}` })).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('never matches a stored pattern RE2 cannot compile', () => {
+    expect(matchesConditions({ title: '(?=RFC)' }, target)).toBe(false);
+  });
+});
+
+describe('rule patterns', () => {
+  it('rejects lookaround, backreferences and overlong patterns', () => {
+    expect(isValidRegExp('^RFC \\d+')).toBe(true);
+    expect(isValidRegExp('(?=RFC)')).toBe(false);
+    expect(isValidRegExp('(a)\\1')).toBe(false);
+    expect(ruleConditionsSchema.safeParse({ title: 'a'.repeat(201) }).success).toBe(false);
+  });
+});
+
+describe('evaluateRules', () => {
+  it('adds up the actions of every matching rule', () => {
+    const rule = (id: string, conditions: BookmarkRule['conditions'], actions: BookmarkRule['actions']) =>
+      ({ id, conditions, actions } as BookmarkRule);
+
+    const outcome = evaluateRules([
+      rule('1', { host: 'github.com' }, { add_tags: ['code'] }),
+      rule('2', { title: 'RFC' }, { add_tags: ['specs'], summary_prefix: '[spec] ', mark_read: true }),
+      rule('3', { host: 'gitlab.com' }, { add_tags: ['unused'] }),
+    ], target);
+
+    expect(outcome).toEqual({ ruleIds: ['1', '2'], tags: ['code', 'specs'], summary: '[spec] ', markRead: true });
+  });
+});
@@ -0,0 +1,92 @@
+import { RE2JS } from 're2js';
+import { BookmarkRule, RuleConditions } from '../types';
+
+// Matching of user-defined bookmark rules. Host and path conditions are
+// wildcard patterns (`*` matches anything), title and summary conditions are
+// regular expressions; all of them ignore case. Patterns come from users, so
+// they run on RE2, which matches in linear time (no catastrophic
+// backtracking) and has no lookaround or backreferences.
+
+export interface RuleTarget {
+  url: string;
+  title: string;
+  summary?: string | null;
+}
+
+// What the matching rules add up to, in rule order
+export interface RuleOutcome {
+  ruleIds: string[];
+  tags: string[];
+  summary: string | null | undefined; // The target's summary with the prefixes added
+  markRead: boolean;
+}
+
+// Titles and summaries longer than this are matched on their start only
+const MAX_MATCH_INPUT_LENGTH = 2000;
+
+const compile = (pattern: string): RE2JS => RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+
+const matches = (pattern: string, input: string): boolean => {
+  try {
+    return compile(pattern).matcher(input.slice(0, MAX_MATCH_INPUT_LENGTH)).find();
+  } catch {
+    // A pattern saved before it had to be valid RE2 never matches
+    return false;
+  }
+};
+
+const wildcardToRegExp = (pattern: string): string =>
+  `^${pattern.split('*').map(part => RE2JS.quote(part)).join('.*')}$`;
+
+export const isValidRegExp = (pattern: string): boolean => {
+  try {
+    compile(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// A plain host also matches its subdomains, so `github.com` covers `gist.github.com`
+const matchesHost = (pattern: string, host: string): boolean => {
+  const normalized = pattern.trim().toLowerCase();
+  if (normalized.includes('*')) return matches(wildcardToRegExp(normalized), host);
+  return host === normalized || host.endsWith(`.${normalized}`);
+};
+
+export const matchesConditions = (conditions: RuleConditions, target: RuleTarget): boolean => {
+  if (conditions.host !== undefined || conditions.path !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(target.url);
+    } catch {
+      return false;
+    }
+    if (conditions.host !== undefined && !matchesHost(conditions.host, url.hostname.toLowerCase())) return false;
+    if (conditions.path !== undefined && !matches(wildcardToRegExp(conditions.path), url.pathname)) return false;
+  }
+
+  if (conditions.title !== undefined && !matches(conditions.title, target.title)) return false;
+  if (conditions.summary !== undefined && !matches(conditions.summary, target.summary || '')) return false;
+
+  return true;
+};
+
+// Runs the rules in order; later prefixes go in front of earlier ones
+export const evaluateRules = (rules: BookmarkRule[], target: RuleTarget): RuleOutcome => {
+  const outcome: RuleOutcome = { ruleIds: [], tags: [], summary: target.summary, markRead: false };
+
+  for (const rule of rules) {
+    if (!matchesConditions(rule.conditions, target)) continue;
+    const { add_tags, summary_prefix, mark_read } = rule.actions;
+
+    outcome.ruleIds.push(rule.id);
+    if (add_tags) outcome.tags.push(...add_tags);
+    if (summary_prefix && !(outcome.summary || '').startsWith(summary_prefix)) {
+      outcome.summary = `${summary_prefix}${outcome.summary || ''}`;
+    }
+    if (mark_read) outcome.markRead = true;
+  }
+
+  return outcome;
+};
@@ -0,0 +1,135 @@
+// Parses free-text search input into a query that each storage backend
+// compiles to its own full-text syntax (a Postgres tsquery or an SQLite
+// FTS5 match expression).
+//
+// Supported syntax:
+//   react hooks      -> both terms (AND)
+//   "react hooks"    -> phrase match
+//   react OR vue     -> either term
+//   -angular         -> exclude term
+//   reac*            -> prefix match
+//
+// The last term is always prefix-matched while the user is still typing,
+// so "reac" already finds "react".
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export interface SearchTerm {
+  words: string[]; // More than one for phrases
+  prefix: boolean; // The last word is matched as a prefix
+  negated: boolean;
+}
+
+// Clauses are ANDed together; the terms within a clause are ORed
+export type SearchQuery = SearchTerm[][];
+
+type Token = { type: 'term'; term: SearchTerm } | { type: 'or' };
+
+const extractWords = (text: string): string[] => text.match(WORD_PATTERN) || [];
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /(-?)"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const [, negated, phrase, bare] = match;
+
+    if (phrase !== undefined) {
+      const words = extractWords(phrase);
+      if (words.length > 0) {
+        tokens.push({ type: 'term', term: { words, prefix: false, negated: Boolean(negated) } });
+      }
+      continue;
+    }
+
+    if (bare === 'OR') {
+      tokens.push({ type: 'or' });
+      continue;
+    }
+
+    const words = extractWords(bare);
+    if (words.length === 0) continue;
+
+    tokens.push({
+      type: 'term',
+      term: { words, prefix: bare.endsWith('*'), negated: bare.startsWith('-') },
+    });
+  }
+
+  return tokens;
+};
+
+export const parseSearchQuery = (input: string): SearchQuery | null => {
+  const tokens = tokenize(input);
+
+  // Prefix-match the final word unless the user already finished typing it
+  const last = tokens[tokens.length - 1];
+  const stillTyping = !/[\s"]$/.test(input);
+  if (stillTyping && last?.type === 'term' && !last.term.negated && !last.term.prefix && last.term.words.length === 1) {
+    last.term.prefix = true;
+  }
+
+  const clauses: SearchQuery = [];
+  let pendingOr = false;
+
+  for (const token of tokens) {
+    if (token.type === 'or') {
+      pendingOr = clauses.length > 0;
+      continue;
+    }
+
+    if (pendingOr) {
+      clauses[clauses.length - 1].push(token.term);
+      pendingOr = false;
+    } else {
+      clauses.push([token.term]);
+    }
+  }
+
+  if (clauses.length === 0) return null;
+
+  // A query made only of exclusions would match everything but those terms,
+  // which is never what a search box user means
+  if (clauses.every(clause => clause[0].negated)) return null;
+
+  return clauses;
+};
+
+// Quote a lexeme so tsquery operators inside it are treated literally
+const quote = (word: string): string => `'${word}'`;
+
+const toTsTerm = ({ words, prefix, negated }: SearchTerm): string => {
+  const parts = words.map((word, index) =>
+    prefix && index === words.length - 1 ? `${quote(word)}:*` : quote(word)
+  );
+  const phrase = parts.length > 1 ? `(${parts.join(' <-> ')})` : parts[0];
+  return `${negated ? '!' : ''}${phrase}`;
+};
+
+export const toTsQuery = (query: SearchQuery): string =>
+  query
+    .map(clause => (clause.length > 1 ? `(${clause.map(toTsTerm).join(' | ')})` : toTsTerm(clause[0])))
+    .join(' & ');
+
+// Words only contain letters, digits and underscores, so they never need escaping
+const toFtsPhrase = ({ words, prefix }: SearchTerm): string => `"${words.join(' ')}"${prefix ? ' *' : ''}`;
+
+// FTS5 only has a binary NOT, so exclusions are subtracted from the ANDed
+// positive clauses. An OR clause mixing both (`a OR -b`) keeps only its
+// positive terms; one made only of exclusions becomes NOT (a AND b).
+export const toFtsQuery = (query: SearchQuery): string => {
+  const included: string[] = [];
+  const excluded: string[] = [];
+
+  for (const clause of query) {
+    const positive = clause.filter(term => !term.negated);
+    if (positive.length > 0) {
+      included.push(`(${positive.map(toFtsPhrase).join(' OR ')})`);
+    } else {
+      excluded.push(`(${clause.map(toFtsPhrase).join(' AND ')})`);
+    }
+  }
+
+  return [included.join(' AND '), ...excluded].join(' NOT ');
+};
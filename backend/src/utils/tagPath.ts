@@ -0,0 +1,72 @@
+// Tags nest with slash-separated paths: `dev/frontend/react` sits under
+// `dev/frontend`, which sits under `dev`. A tag's name is its full path, and
+// saving a tag creates the tags above it that do not exist yet.
+
+export const TAG_PATH_SEPARATOR = '/';
+
+// There is no read flag: unread bookmarks carry this tag. Imports add it, and
+// marking a bookmark read (by a rule or a bulk action) removes it.
+export const UNREAD_TAG = 'unread';
+
+// How new tags are named: lower case, every run of whitespace one space, and
+// empty segments dropped, so ` Dev / Front  End/ ` is `dev/front end`
+export const normalizeTagPath = (name: string): string =>
+  name
+    .split(TAG_PATH_SEPARATOR)
+    .map(segment => segment.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean)
+    .join(TAG_PATH_SEPARATOR);
+
+// `dev/frontend` for `dev/frontend/react`; null for a top-level tag
+export const parentTagPath = (name: string): string | null => {
+  const index = name.lastIndexOf(TAG_PATH_SEPARATOR);
+  return index === -1 ? null : name.slice(0, index);
+};
+
+// Whether `name` is `ancestor` itself or anywhere below it
+export const isWithinTagPath = (name: string, ancestor: string): boolean =>
+  name === ancestor || name.startsWith(`${ancestor}${TAG_PATH_SEPARATOR}`);
+
+// Maps names as typed to the names of tags the user already has. A name (or
+// the start of its path) resolves to the tag it names once normalized, so a
+// save of `React` finds a tag created as `React` before names were normalized,
+// and an alias left by a merge resolves to the tag it was merged into. Names
+// without a tag come back normalized.
+export const createTagResolver = (
+  tagNames: string[],
+  aliases: Array<{ name: string; tagName: string }>
+): ((name: string) => string) => {
+  const known = new Map<string, string>();
+  aliases.forEach(alias => known.set(normalizeTagPath(alias.name), alias.tagName));
+
+  // Tags win over aliases, and an already normalized name over legacy spellings of it
+  const tagKeys = new Set<string>();
+  tagNames.forEach(name => {
+    const key = normalizeTagPath(name);
+    if (!tagKeys.has(key) || name === key) known.set(key, name);
+    tagKeys.add(key);
+  });
+
+  return (name: string): string => {
+    const segments = normalizeTagPath(name).split(TAG_PATH_SEPARATOR);
+    for (let length = segments.length; length > 0; length--) {
+      const match = known.get(segments.slice(0, length).join(TAG_PATH_SEPARATOR));
+      if (match) return [match, ...segments.slice(length)].join(TAG_PATH_SEPARATOR);
+    }
+    return segments.join(TAG_PATH_SEPARATOR);
+  };
+};
+
+// Names that are probably the same tag compare equal: case, spaces and
+// punctuation are ignored, as are a plural `s` and a `js` suffix
+// (`Front-End`, `frontends`; `React.js`, `reactjs`, `react`)
+export const tagSimilarityKey = (name: string): string =>
+  normalizeTagPath(name)
+    .split(TAG_PATH_SEPARATOR)
+    .map(segment =>
+      segment
+        .replace(/[^\p{L}\p{N}]/gu, '')
+        .replace(/(?<=\p{L}{3})js$/u, '')
+        .replace(/(?<=\p{L}{3})(?<!s)s$/u, '')
+    )
+    .join(TAG_PATH_SEPARATOR);
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { allTagsNode, expandTagPaths, parseTagQuery } from './tagQuery';
+
+describe('parseTagQuery', () => {
+  it('parses operators with NOT binding tightest', () => {
+    expect(parseTagQuery('tag:react AND (tag:hooks OR tag:perf) -tag:archived')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'tag', name: 'react' },
+        { type: 'or', children: [{ type: 'tag', name: 'hooks' }, { type: 'tag', name: 'perf' }] },
+        { type: 'not', child: { type: 'tag', name: 'archived' } },
+      ],
+    });
+  });
+
+  it('reads escaped quotes and backslashes in quoted names', () => {
+    expect(parseTagQuery('tag:"say \\"hi\\"" OR tag:"c:\\\\temp"')).toEqual({
+      type: 'or',
+      children: [{ type: 'tag', name: 'say "hi"' }, { type: 'tag', name: 'c:\\temp' }],
+    });
+  });
+
+  it('reports where a query goes wrong', () => {
+    expect(() => parseTagQuery('tag:"open \\"')).toThrow('Invalid tag query at position 5: unterminated quote');
+    expect(() => parseTagQuery('tag:a AND')).toThrow('Invalid tag query');
+  });
+});
+
+describe('expandTagPaths', () => {
+  it('also matches the tags below a term', () => {
+    expect(expandTagPaths(parseTagQuery('tag:Dev -tag:old'), ['dev', 'dev/web', 'devops', 'old'])).toEqual({
+      type: 'and',
+      children: [
+        { type: 'or', children: [{ type: 'tag', name: 'dev' }, { type: 'tag', name: 'dev/web' }] },
+        { type: 'not', child: { type: 'tag', name: 'old' } },
+      ],
+    });
+  });
+
+  it('limits the terms after expanding them', () => {
+    const children = Array.from({ length: 49 }, (_, index) => `child-${index}`);
+    const tagNames = ['parent', ...children.map(child => `parent/${child}`)];
+
+    expect(() => expandTagPaths(allTagsNode(['parent']), tagNames)).not.toThrow();
+    expect(() => expandTagPaths(allTagsNode(['parent', 'other']), [...tagNames, 'other']))
+      .toThrow('at most 50 tags are allowed');
+    expect(() => expandTagPaths(parseTagQuery(children.map(child => `tag:${child}`).join(' OR ')), children))
+      .not.toThrow();
+  });
+});
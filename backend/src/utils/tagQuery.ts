@@ -0,0 +1,243 @@
+import { AppError } from '../middleware/errorHandler';
+import { isWithinTagPath, normalizeTagPath } from './tagPath';
+
+// Boolean tag query language used by the `tagQuery` bookmark filter.
+//
+//   tag:react AND (tag:hooks OR tag:perf) NOT tag:archived
+//
+// - Terms are `tag:name`, `tag:"name with spaces"` or a bare tag name; in
+//   quotes, `\"` is a quote and `\\` a backslash
+// - AND / OR / NOT are case-insensitive; adjacent terms are ANDed
+// - `-tag:x` is shorthand for `NOT tag:x`
+// - Precedence: NOT binds tightest, then AND, then OR
+
+export type TagQueryNode =
+  | { type: 'tag'; name: string }
+  | { type: 'and'; children: TagQueryNode[] }
+  | { type: 'or'; children: TagQueryNode[] }
+  | { type: 'not'; child: TagQueryNode };
+
+type TokenType = 'tag' | 'and' | 'or' | 'not' | 'lparen' | 'rparen';
+
+interface Token {
+  type: TokenType;
+  value?: string;
+  position: number;
+}
+
+// Most tags a query may name once expanded (see expandTagPaths); the
+// Supabase store sends the whole query in the request URL
+const MAX_TERMS = 50;
+
+const fail = (message: string, position?: number): never => {
+  throw new AppError(
+    position === undefined ? `Invalid tag query: ${message}` : `Invalid tag query at position ${position + 1}: ${message}`,
+    400
+  );
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '-') {
+      tokens.push({ type: 'not', position: i });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const hasPrefix = input.slice(i, i + 4).toLowerCase() === 'tag:';
+    if (hasPrefix) i += 4;
+
+    let name = '';
+    if (input[i] === '"') {
+      const quote = i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        name += input[i];
+        i++;
+      }
+      if (i >= input.length) fail('unterminated quote', quote);
+      i++;
+    } else {
+      while (i < input.length && !/[\s()]/.test(input[i])) {
+        name += input[i];
+        i++;
+      }
+    }
+
+    const keyword = name.toLowerCase();
+    if (!hasPrefix && (keyword === 'and' || keyword === 'or' || keyword === 'not')) {
+      tokens.push({ type: keyword, position: start });
+      continue;
+    }
+
+    name = name.trim();
+    if (!name) fail('expected a tag name', start);
+    tokens.push({ type: 'tag', value: name, position: start });
+  }
+
+  return tokens;
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private input: string) {}
+
+  parse(): TagQueryNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) fail(`unexpected ${extra.type === 'rparen' ? '")"' : extra.type.toUpperCase()}`, extra.position);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private parseOr(): TagQueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): TagQueryNode {
+    const children = [this.parseUnary()];
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type === 'or' || token.type === 'rparen') break;
+      if (token.type === 'and') this.next();
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): TagQueryNode {
+    if (this.peek()?.type === 'not') {
+      this.next();
+      return { type: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): TagQueryNode {
+    const token = this.next();
+    if (!token) return fail('unexpected end of query', this.input.length);
+
+    if (token.type === 'lparen') {
+      const node = this.parseOr();
+      const closing = this.next();
+      if (closing?.type !== 'rparen') fail('missing ")"', closing?.position ?? this.input.length);
+      return node;
+    }
+
+    if (token.type === 'tag') {
+      return { type: 'tag', name: token.value! };
+    }
+
+    return fail(`unexpected ${token.type === 'rparen' ? '")"' : token.type.toUpperCase()}`, token.position);
+  }
+}
+
+export const parseTagQuery = (input: string): TagQueryNode => {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) fail('query is empty');
+  return new Parser(tokens, input).parse();
+};
+
+// Tags that are ANDed together, e.g. from the legacy `tags=a,b` parameter
+export const allTagsNode = (names: string[]): TagQueryNode => {
+  const children: TagQueryNode[] = names.map(name => ({ type: 'tag', name }));
+  return children.length === 1 ? children[0] : { type: 'and', children };
+};
+
+const countTerms = (node: TagQueryNode): number => {
+  switch (node.type) {
+    case 'tag':
+      return 1;
+    case 'and':
+    case 'or':
+      return node.children.reduce((total, child) => total + countTerms(child), 0);
+    case 'not':
+      return countTerms(node.child);
+  }
+};
+
+const expandNode = (node: TagQueryNode, tagNames: string[], resolve: (name: string) => string): TagQueryNode => {
+  switch (node.type) {
+    case 'tag': {
+      const path = resolve(node.name);
+      const descendants = tagNames.filter(name => name !== path && isWithinTagPath(name, path));
+
+      const term: TagQueryNode = { type: 'tag', name: path };
+      if (descendants.length === 0) return term;
+      return { type: 'or', children: [term, ...descendants.map(name => ({ type: 'tag' as const, name }))] };
+    }
+    case 'and':
+    case 'or':
+      return { type: node.type, children: node.children.map(child => expandNode(child, tagNames, resolve)) };
+    case 'not':
+      return { type: 'not', child: expandNode(node.child, tagNames, resolve) };
+  }
+};
+
+// Maps every term to the tag it names with `resolve` (see createTagResolver)
+// and makes it also match the tags below it in the tag tree, so `tag:Dev`
+// finds bookmarks tagged `dev/frontend/react`. The tags below count toward
+// the limit on terms.
+export const expandTagPaths = (
+  node: TagQueryNode,
+  tagNames: string[],
+  resolve: (name: string) => string = normalizeTagPath
+): TagQueryNode => {
+  const expanded = expandNode(node, tagNames, resolve);
+  if (countTerms(expanded) > MAX_TERMS) {
+    fail(`at most ${MAX_TERMS} tags are allowed, counting the tags below the ones named`);
+  }
+  return expanded;
+};
+
+// Quote a name as a Postgres array element: {"a \"quoted\" name"}
+const arrayLiteral = (name: string): string =>
+  `{"${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"}`;
+
+// Compiles a query into a PostgREST logic tree over a `text[]` column that
+// holds each bookmark's tag names (see the bookmarks_with_tags view).
+export const compileTagQuery = (node: TagQueryNode, column: string = 'tags'): string => {
+  switch (node.type) {
+    case 'tag':
+      return `${column}.cs.${arrayLiteral(node.name)}`;
+    case 'and':
+    case 'or':
+      return `${node.type}(${node.children.map(child => compileTagQuery(child, column)).join(',')})`;
+    case 'not': {
+      const child = node.child;
+      if (child.type === 'tag') return `${column}.not.cs.${arrayLiteral(child.name)}`;
+      if (child.type === 'not') return compileTagQuery(child.child, column);
+      return `not.${compileTagQuery(child, column)}`;
+    }
+  }
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Tag } from '../types';
+import { findTitleTags, pickSeedTags, rankTagSuggestions } from './tagSuggestions';
+
+const tag = (name: string): Tag => ({
+  id: name,
+  user_id: 'user',
+  name,
+  parent_id: null,
+  color: null,
+  icon: null,
+  description: null,
+  pinned: false,
+  sort_order: 0,
+  created_at: '2024-01-01T00:00:00.000Z',
+});
+
+describe('findTitleTags', () => {
+  const tags = ['react', 'machine-learning', 'dev/typescript', 'go', 'a', 'vue'].map(tag);
+
+  it('matches tag names in the title by their last segment', () => {
+    expect(findTitleTags(tags, 'Machine Learning with React.js and TypeScript')).toEqual([
+      'react',
+      'machine-learning',
+      'dev/typescript',
+    ]);
+  });
+
+  it('ignores single letters and parts of words', () => {
+    expect(findTitleTags(tags, 'A guide to Vuex and Gophers')).toEqual([]);
+    expect(findTitleTags(tags, 'Learn Go')).toEqual(['go']);
+  });
+});
+
+describe('rankTagSuggestions', () => {
+  const tags = ['react', 'frontend', 'hooks', 'news', 'unused'].map(tag);
+
+  it('adds up the signals, not counting seed tags as related to themselves', () => {
+    const suggestions = rankTagSuggestions(tags, {
+      domain: [['frontend'], ['frontend', 'react']],
+      titleMatches: ['hooks'],
+      related: [['hooks', 'react'], ['react'], ['news']],
+      recent: [['news'], ['missing']],
+    }, 10);
+
+    expect(suggestions.map(({ tag, score, reasons }) => [tag.name, score, reasons])).toEqual([
+      ['frontend', 4, ['domain']],
+      ['hooks', 3, ['title']],
+      ['react', 2, ['domain']],
+      ['news', 1.167, ['related', 'recent']],
+    ]);
+  });
+
+  it('keeps the best ones up to the limit', () => {
+    const suggestions = rankTagSuggestions(tags, { domain: [], titleMatches: ['react', 'hooks'], related: [], recent: [] }, 1);
+    expect(suggestions.map(suggestion => suggestion.tag.name)).toEqual(['hooks']);
+  });
+});
+
+describe('pickSeedTags', () => {
+  it('keeps the best scoring domain and title tags', () => {
+    const domain = [['a', 'b'], ['a'], ['a', 'c'], ['d']];
+    expect(pickSeedTags({ domain, titleMatches: ['c', 'e'] }, 3)).toEqual(['c', 'a', 'e']);
+  });
+});
@@ -0,0 +1,103 @@
+import { Tag, TagSuggestion, TagSuggestionReason } from '../types';
+import { TAG_PATH_SEPARATOR, tagSimilarityKey } from './tagPath';
+
+// Ranks tags for a page that is about to be saved. Each signal adds to a
+// tag's score:
+// - domain: share of the user's bookmarks on the same host that have the tag
+// - title: the tag's name (its last path segment) appears in the page title
+// - related: share of bookmarks with a domain or title tag that also have this one
+// - recent: share of the user's latest bookmarks that have the tag
+
+const WEIGHTS: Record<TagSuggestionReason, number> = {
+  domain: 4,
+  title: 3,
+  related: 2,
+  recent: 1,
+};
+
+// Longest run of title words compared with a tag name, so `machine learning`
+// and `react.js` match while single letters do not
+const MAX_TITLE_WORDS = 4;
+const MIN_KEY_LENGTH = 2;
+
+// Tag lists of bookmarks, one per bookmark
+export type TagSets = string[][];
+
+export interface SuggestionSignals {
+  domain: TagSets;
+  titleMatches: string[];
+  related: TagSets;
+  recent: TagSets;
+}
+
+// Names of the tags whose last segment appears in the title, compared like
+// near-identical tag names are (see tagSimilarityKey)
+export const findTitleTags = (tags: Tag[], title: string): string[] => {
+  const words = title.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const keys = new Set<string>();
+  for (let start = 0; start < words.length; start++) {
+    for (let length = 1; length <= MAX_TITLE_WORDS && start + length <= words.length; length++) {
+      keys.add(tagSimilarityKey(words.slice(start, start + length).join('')));
+    }
+  }
+
+  return tags
+    .filter(tag => {
+      const key = tagSimilarityKey(tag.name.split(TAG_PATH_SEPARATOR).pop() || '');
+      return key.length >= MIN_KEY_LENGTH && keys.has(key);
+    })
+    .map(tag => tag.name);
+};
+
+// How many of the bookmarks have each tag, as a share of all of them
+const shares = (sets: TagSets): Map<string, number> => {
+  const counts = new Map<string, number>();
+  sets.forEach(names => new Set(names).forEach(name => counts.set(name, (counts.get(name) || 0) + 1)));
+  counts.forEach((count, name) => counts.set(name, count / sets.length));
+  return counts;
+};
+
+// The domain and title tags that score best, best first: the related signal
+// looks for bookmarks with any of them, so their number is kept small
+export const pickSeedTags = (signals: Pick<SuggestionSignals, 'domain' | 'titleMatches'>, limit: number): string[] => {
+  const scores = new Map<string, number>();
+  shares(signals.domain).forEach((share, name) => scores.set(name, WEIGHTS.domain * share));
+  signals.titleMatches.forEach(name => scores.set(name, (scores.get(name) || 0) + WEIGHTS.title));
+
+  return Array.from(scores)
+    .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([name]) => name);
+};
+
+// Best first; only the user's existing tags are suggested
+export const rankTagSuggestions = (tags: Tag[], signals: SuggestionSignals, limit: number): TagSuggestion[] => {
+  const tagsByName = new Map(tags.map(tag => [tag.name, tag]));
+  const suggestions = new Map<string, TagSuggestion>();
+
+  const add = (name: string, reason: TagSuggestionReason, strength: number) => {
+    const tag = tagsByName.get(name);
+    if (!tag || strength <= 0) return;
+
+    const suggestion = suggestions.get(name) ?? { tag, score: 0, reasons: [] };
+    suggestion.score += WEIGHTS[reason] * strength;
+    suggestion.reasons.push(reason);
+    suggestions.set(name, suggestion);
+  };
+
+  shares(signals.domain).forEach((share, name) => add(name, 'domain', share));
+  signals.titleMatches.forEach(name => add(name, 'title', 1));
+
+  // A tag does not count as related to itself
+  const seeds = new Set(suggestions.keys());
+  shares(signals.related).forEach((share, name) => {
+    if (!seeds.has(name)) add(name, 'related', share);
+  });
+
+  shares(signals.recent).forEach((share, name) => add(name, 'recent', share));
+
+  return Array.from(suggestions.values())
+    .map(suggestion => ({ ...suggestion, score: Math.round(suggestion.score * 1000) / 1000 }))
+    .sort((a, b) => b.score - a.score || a.tag.name.localeCompare(b.tag.name))
+    .slice(0, limit);
+};
@@ -0,0 +1,8 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Opaque bearer tokens: 32 random bytes for the client, and only their
+// SHA-256 hash in the database, so a leaked table cannot be used to sign in.
+
+export const generateToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
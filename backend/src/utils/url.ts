@@ -0,0 +1,58 @@
+import { AppError } from '../middleware/errorHandler';
+
+// Query parameters that only carry campaign or click tracking
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'li_fat_id',
+  'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'hsctatracking', 'mkt_tok',
+  'ref_src', 'ref_url', 'spm', 'vero_id', 'vero_conv', 'oly_anon_id', 'oly_enc_id', 'wickedid',
+]);
+
+const isTrackingParam = (name: string): boolean => {
+  const key = name.toLowerCase();
+  return key.startsWith('utm_') || TRACKING_PARAMS.has(key);
+};
+
+// Fragments that address content in single-page apps (#/route, #!/route) are kept
+const isRouteFragment = (hash: string): boolean => hash.startsWith('#/') || hash.startsWith('#!');
+
+/**
+ * Normalizes a URL so that links to the same page compare equal:
+ * tracking parameters and fragments are dropped, the host is lowercased
+ * without `www.`, query parameters are sorted and trailing slashes removed.
+ *
+ * @example
+ * canonicalizeUrl('https://WWW.Example.com/post/?utm_source=x&b=2&a=1#top')
+ * // => 'https://example.com/post?a=1&b=2'
+ */
+export const canonicalizeUrl = (rawUrl: string): string => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    throw new AppError('Invalid URL', 400);
+  }
+
+  // Only web pages are normalized; other schemes (file:, about:, ...) are kept as is
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return url.href;
+  }
+
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+  url.username = '';
+  url.password = '';
+
+  if (!isRouteFragment(url.hash)) {
+    url.hash = '';
+  }
+
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = new URLSearchParams(params).toString();
+
+  if (url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, '') || '/';
+  }
+
+  return url.href;
+};
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run offline against the SQLite store; every test file gets its own
+// in-memory database
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    env: {
+      STORAGE: 'sqlite',
+      SQLITE_PATH: ':memory:',
+    },
+  },
+});
@@ -0,0 +1,52 @@
+-- Database Migration: Personal Access Tokens
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-auth.sql
+
+-- ============================================================================
+-- STEP 1: Create the tokens table
+-- ============================================================================
+
+-- Long-lived tokens for scripts and integrations. Like sessions, only a
+-- SHA-256 hash of the token is stored; token_prefix is the start of the token
+-- so the user can tell tokens apart.
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL,
+  token_prefix TEXT NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMP WITH TIME ZONE, -- NULL: never expires
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- STEP 2: Create indexes for performance
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user_id ON personal_access_tokens(user_id)
+  WHERE revoked_at IS NULL;
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security
+-- ============================================================================
+
+ALTER TABLE personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tokens" ON personal_access_tokens
+  FOR SELECT USING (true); -- For MVP, allow all reads
+
+CREATE POLICY "Users can insert their own tokens" ON personal_access_tokens
+  FOR INSERT WITH CHECK (true); -- For MVP, allow all inserts
+
+CREATE POLICY "Users can update their own tokens" ON personal_access_tokens
+  FOR UPDATE USING (true); -- For MVP, allow all updates
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Active tokens and when they were last used
+-- SELECT user_id, name, token_prefix, scopes, expires_at, last_used_at
+-- FROM personal_access_tokens WHERE revoked_at IS NULL ORDER BY created_at DESC;
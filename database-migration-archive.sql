@@ -0,0 +1,180 @@
+-- Database Migration: Offline Archive of Saved Pages
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-enrichment.sql
+
+-- ============================================================================
+-- STEP 1: Create the archives table
+-- ============================================================================
+
+-- One readable copy per bookmark, replaced when it is captured again.
+-- Kept out of the bookmarks table so list queries do not carry page bodies.
+CREATE TABLE IF NOT EXISTS bookmark_archives (
+  bookmark_id UUID PRIMARY KEY REFERENCES bookmarks(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  source_url TEXT NOT NULL,
+  title TEXT,
+  byline TEXT,
+  excerpt TEXT,
+  content_html TEXT NOT NULL, -- sanitized by the backend before it is stored
+  content_text TEXT NOT NULL,
+  word_count INTEGER NOT NULL DEFAULT 0,
+  captured_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- NULL when no archive was requested, otherwise pending / done / failed
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS archive_status TEXT
+  CHECK (archive_status IN ('pending', 'done', 'failed'));
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================================
+-- STEP 2: Create indexes for performance
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_bookmark_archives_user_id ON bookmark_archives(user_id);
+
+-- Same expression as in search_bookmarks below
+CREATE INDEX IF NOT EXISTS idx_bookmark_archives_search ON bookmark_archives
+USING GIN (to_tsvector('english', COALESCE(content_text, '')));
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security
+-- ============================================================================
+
+ALTER TABLE bookmark_archives ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own archives" ON bookmark_archives
+  FOR SELECT USING (true); -- For MVP, allow all reads
+
+CREATE POLICY "Users can insert their own archives" ON bookmark_archives
+  FOR INSERT WITH CHECK (true); -- For MVP, allow all inserts
+
+CREATE POLICY "Users can update their own archives" ON bookmark_archives
+  FOR UPDATE USING (true); -- For MVP, allow all updates
+
+CREATE POLICY "Users can delete their own archives" ON bookmark_archives
+  FOR DELETE USING (true); -- For MVP, allow all deletes
+
+-- ============================================================================
+-- STEP 4: Recreate the bookmarks_with_tags view
+-- ============================================================================
+
+DROP VIEW IF EXISTS bookmarks_with_tags;
+
+CREATE VIEW bookmarks_with_tags AS
+SELECT
+  b.*,
+  COALESCE(
+    array_agg(t.name ORDER BY t.name) FILTER (WHERE t.name IS NOT NULL),
+    '{}'::text[]
+  ) as tags
+FROM bookmarks b
+LEFT JOIN bookmark_tags bt ON b.id = bt.bookmark_id
+LEFT JOIN tags t ON bt.tag_id = t.id
+GROUP BY b.id;
+
+-- ============================================================================
+-- STEP 5: Search the archived text as well
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS search_bookmarks(TEXT, TEXT);
+
+CREATE FUNCTION search_bookmarks(user_uuid TEXT, search_query TEXT)
+RETURNS TABLE(
+  id UUID,
+  user_id TEXT,
+  url TEXT,
+  canonical_url TEXT,
+  title TEXT,
+  summary TEXT,
+  category TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  metadata JSONB,
+  enrichment_status TEXT,
+  archive_status TEXT,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  tags TEXT[],
+  search_rank REAL,
+  matched_fields TEXT[],
+  title_highlight TEXT,
+  summary_highlight TEXT,
+  url_highlight TEXT,
+  content_highlight TEXT
+) AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', search_query) AS query
+  ),
+  hits AS (
+    SELECT
+      b.*,
+      a.content_text,
+      q.query,
+      -- Matches in the archived page count less than in the bookmark itself
+      ts_rank_cd(
+        setweight(to_tsvector('english', b.title || ' ' || COALESCE(b.summary, '') || ' ' || b.url), 'A')
+          || setweight(to_tsvector('english', COALESCE(a.content_text, '')), 'D'),
+        q.query,
+        32 -- normalize rank into 0..1
+      ) AS rank
+    FROM bookmarks b
+    CROSS JOIN q
+    LEFT JOIN bookmark_archives a ON a.bookmark_id = b.id
+    WHERE b.user_id = user_uuid
+      AND (
+        to_tsvector('english', b.title || ' ' || COALESCE(b.summary, '') || ' ' || b.url) @@ q.query
+        OR to_tsvector('english', COALESCE(a.content_text, '')) @@ q.query
+      )
+  )
+  SELECT
+    h.id,
+    h.user_id,
+    h.url,
+    h.canonical_url,
+    h.title,
+    h.summary,
+    h.category,
+    h.created_at,
+    h.updated_at,
+    h.deleted_at,
+    h.metadata,
+    h.enrichment_status,
+    h.archive_status,
+    h.archived_at,
+    COALESCE(
+      (SELECT array_agg(t.name ORDER BY t.name)
+       FROM bookmark_tags bt
+       JOIN tags t ON bt.tag_id = t.id
+       WHERE bt.bookmark_id = h.id),
+      '{}'::text[]
+    ) AS tags,
+    h.rank AS search_rank,
+    array_remove(ARRAY[
+      CASE WHEN to_tsvector('english', h.title) @@ h.query THEN 'title' END,
+      CASE WHEN to_tsvector('english', COALESCE(h.summary, '')) @@ h.query THEN 'summary' END,
+      CASE WHEN to_tsvector('english', h.url) @@ h.query THEN 'url' END,
+      CASE WHEN to_tsvector('english', COALESCE(h.content_text, '')) @@ h.query THEN 'content' END
+    ], NULL) AS matched_fields,
+    ts_headline('english', h.title, h.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title_highlight,
+    ts_headline('english', COALESCE(h.summary, ''), h.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "') AS summary_highlight,
+    ts_headline('english', h.url, h.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS url_highlight,
+    CASE WHEN h.content_text IS NOT NULL THEN
+      ts_headline('english', h.content_text, h.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "')
+    END AS content_highlight
+  FROM hits h;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Archive status per bookmark
+-- SELECT archive_status, COUNT(*) FROM bookmarks GROUP BY archive_status;
+
+-- Check 2: Words matched only in the archived text
+-- SELECT title, matched_fields, content_highlight
+-- FROM search_bookmarks('test-user-123', '''readability''')
+-- WHERE matched_fields = ARRAY['content'];
@@ -0,0 +1,70 @@
+-- Database Migration: User Accounts and Sessions
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-import-jobs.sql
+
+-- ============================================================================
+-- STEP 1: Add passwords to the users table
+-- ============================================================================
+
+-- scrypt hash written by the backend (scrypt$N$r$p$salt$hash); never the password itself
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_hash TEXT;
+
+-- Emails are stored lowercased, so the existing UNIQUE constraint is case-insensitive in practice
+
+-- ============================================================================
+-- STEP 2: Create the sessions table
+-- ============================================================================
+
+-- One row per signed-in browser or extension. Only a SHA-256 hash of the
+-- session token is stored; signing out deletes the row.
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT UNIQUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- ============================================================================
+-- STEP 3: Create indexes for performance
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON user_sessions(expires_at);
+
+-- ============================================================================
+-- STEP 4: Enable Row Level Security
+-- ============================================================================
+
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sessions" ON user_sessions
+  FOR SELECT USING (true); -- For MVP, allow all reads
+
+CREATE POLICY "Users can insert their own sessions" ON user_sessions
+  FOR INSERT WITH CHECK (true); -- For MVP, allow all inserts
+
+CREATE POLICY "Users can delete their own sessions" ON user_sessions
+  FOR DELETE USING (true); -- For MVP, allow all deletes
+
+-- ============================================================================
+-- STEP 5 (optional): Move the test library to a real account
+-- ============================================================================
+
+-- Data saved before accounts existed belongs to 'test-user-123'. Register an
+-- account, then replace <new-user-id> with its id and run:
+--
+-- UPDATE bookmarks SET user_id = '<new-user-id>' WHERE user_id = 'test-user-123';
+-- UPDATE tags SET user_id = '<new-user-id>' WHERE user_id = 'test-user-123';
+-- UPDATE categories SET user_id = '<new-user-id>' WHERE user_id = 'test-user-123';
+-- UPDATE bookmark_archives SET user_id = '<new-user-id>' WHERE user_id = 'test-user-123';
+-- UPDATE import_jobs SET user_id = '<new-user-id>' WHERE user_id = 'test-user-123';
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Accounts that can sign in
+-- SELECT id, email, created_at FROM users WHERE password_hash IS NOT NULL;
+
+-- Check 2: Active sessions per user
+-- SELECT user_id, COUNT(*) FROM user_sessions WHERE expires_at > NOW() GROUP BY user_id;
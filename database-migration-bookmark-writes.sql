@@ -0,0 +1,64 @@
+-- Database Migration: Atomic Bookmark Saves
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-bulk-collections.sql
+--
+-- Saving a bookmark with tags took two requests, and when the tags could not
+-- be written a third one deleted the bookmark again, which could fail as well.
+-- This function saves the bookmark and its tags in one call, inside one
+-- transaction.
+
+-- ============================================================================
+-- STEP 1: Save a bookmark together with its tags
+-- ============================================================================
+
+-- Inserts the bookmark, creates the tags the user does not have yet, links
+-- them (see set_bookmark_tags) and returns the new row. When any of it fails,
+-- nothing is saved. created_at defaults to now; imports pass the original date.
+CREATE OR REPLACE FUNCTION create_bookmark_with_tags(
+  bookmark JSONB,
+  tag_names TEXT[] DEFAULT '{}'
+)
+RETURNS bookmarks AS $$
+DECLARE
+  created bookmarks;
+BEGIN
+  INSERT INTO bookmarks (
+    user_id, url, canonical_url, title, summary, category, archive_status, created_at, updated_at
+  )
+  VALUES (
+    bookmark->>'user_id',
+    bookmark->>'url',
+    bookmark->>'canonical_url',
+    bookmark->>'title',
+    bookmark->>'summary',
+    bookmark->>'category',
+    bookmark->>'archive_status',
+    COALESCE((bookmark->>'created_at')::TIMESTAMP WITH TIME ZONE, NOW()),
+    (bookmark->>'updated_at')::TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING * INTO created;
+
+  IF cardinality(tag_names) > 0 THEN
+    PERFORM set_bookmark_tags(created.id, created.user_id, tag_names, true);
+  END IF;
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: The bookmark comes back with its tags
+-- SELECT id FROM create_bookmark_with_tags(
+--   '{"user_id": "test-user-123", "url": "https://example.com/", "canonical_url": "https://example.com/", "title": "Example"}',
+--   ARRAY['react', 'hooks']
+-- );
+-- SELECT tags FROM bookmarks_with_tags WHERE id = '<id from above>';   -- {hooks,react}
+
+-- Check 2: A failing tag write leaves no bookmark behind (NULL is not a valid tag name)
+-- SELECT create_bookmark_with_tags(
+--   '{"user_id": "test-user-123", "url": "https://example.com/fails", "canonical_url": "https://example.com/fails", "title": "Fails"}',
+--   ARRAY[NULL]::TEXT[]
+-- );   -- error
+-- SELECT count(*) FROM bookmarks WHERE url = 'https://example.com/fails';   -- 0
@@ -0,0 +1,137 @@
+-- Database Migration: Bulk Collection Actions
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-collections.sql
+--
+-- Lets POST /api/bookmarks/bulk add bookmarks to a collection, or move them
+-- there from the user's other collections, in the same transaction as the
+-- other bulk actions, so "all matching" selections work too.
+
+-- ============================================================================
+-- STEP 1: Recreate the bulk update function with a collection parameter
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS bulk_update_bookmarks(TEXT, UUID[], TEXT, TEXT[], TEXT);
+
+-- Applies one operation to the user's bookmarks among bookmark_uuids, all in
+-- the function's transaction, and returns the ids it applied to. Ids of other
+-- users' bookmarks are skipped, as are live bookmarks for 'restore' and
+-- trashed ones for 'delete' and the collection operations.
+--
+-- operation is one of add_tags, remove_tags, replace_tags (with tag_names),
+-- delete, restore, set_category (with new_category, NULL to clear it),
+-- add_to_collection (with collection_uuid; appended in bookmark_uuids order,
+-- members keep their place) or move_to_collection (the same, and taken out of
+-- the user's other collections). Another user's collection changes nothing.
+CREATE FUNCTION bulk_update_bookmarks(
+  user_uuid TEXT,
+  bookmark_uuids UUID[],
+  operation TEXT,
+  tag_names TEXT[] DEFAULT '{}',
+  new_category TEXT DEFAULT NULL,
+  collection_uuid UUID DEFAULT NULL
+)
+RETURNS SETOF UUID AS $$
+DECLARE
+  targets UUID[];
+  next_position INTEGER;
+BEGIN
+  -- Locked first, so two appends cannot take the same positions
+  IF operation IN ('add_to_collection', 'move_to_collection') THEN
+    PERFORM 1 FROM collections WHERE id = collection_uuid AND user_id = user_uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Locked in id order, so overlapping bulk updates cannot deadlock
+  SELECT COALESCE(array_agg(id), '{}') INTO targets
+  FROM (
+    SELECT id FROM bookmarks
+    WHERE id = ANY(bookmark_uuids)
+      AND user_id = user_uuid
+      AND (operation NOT IN ('delete', 'add_to_collection', 'move_to_collection') OR deleted_at IS NULL)
+      AND (operation <> 'restore' OR deleted_at IS NOT NULL)
+    ORDER BY id
+    FOR UPDATE
+  ) AS locked;
+
+  CASE operation
+    WHEN 'add_tags', 'replace_tags' THEN
+      INSERT INTO tags (user_id, name)
+      SELECT DISTINCT user_uuid, name FROM unnest(tag_names) AS name
+      ON CONFLICT (user_id, name) DO NOTHING;
+
+      IF operation = 'replace_tags' THEN
+        DELETE FROM bookmark_tags
+        WHERE bookmark_id = ANY(targets)
+          AND tag_id NOT IN (SELECT id FROM tags WHERE user_id = user_uuid AND name = ANY(tag_names));
+      END IF;
+
+      INSERT INTO bookmark_tags (bookmark_id, tag_id)
+      SELECT target, t.id
+      FROM unnest(targets) AS target
+      CROSS JOIN tags t
+      WHERE t.user_id = user_uuid AND t.name = ANY(tag_names)
+      ON CONFLICT (bookmark_id, tag_id) DO NOTHING;
+
+    WHEN 'remove_tags' THEN
+      DELETE FROM bookmark_tags
+      WHERE bookmark_id = ANY(targets)
+        AND tag_id IN (SELECT id FROM tags WHERE user_id = user_uuid AND name = ANY(tag_names));
+
+    WHEN 'delete' THEN
+      UPDATE bookmarks SET deleted_at = NOW() WHERE id = ANY(targets);
+
+    WHEN 'restore' THEN
+      UPDATE bookmarks SET deleted_at = NULL WHERE id = ANY(targets);
+
+    WHEN 'set_category' THEN
+      UPDATE bookmarks SET category = new_category, updated_at = NOW() WHERE id = ANY(targets);
+
+    WHEN 'add_to_collection', 'move_to_collection' THEN
+      SELECT COALESCE(MAX(position) + 1, 0) INTO next_position
+      FROM collection_bookmarks WHERE collection_id = collection_uuid;
+
+      INSERT INTO collection_bookmarks (collection_id, bookmark_id, position)
+      SELECT collection_uuid, picked.id, next_position + (ROW_NUMBER() OVER (ORDER BY picked.ord))::int - 1
+      FROM (
+        SELECT ids.id, MIN(ids.ord) AS ord
+        FROM unnest(bookmark_uuids) WITH ORDINALITY AS ids(id, ord)
+        WHERE ids.id = ANY(targets)
+          AND NOT EXISTS (
+            SELECT 1 FROM collection_bookmarks cb WHERE cb.collection_id = collection_uuid AND cb.bookmark_id = ids.id
+          )
+        GROUP BY ids.id
+      ) picked;
+
+      IF operation = 'move_to_collection' THEN
+        DELETE FROM collection_bookmarks
+        WHERE bookmark_id = ANY(targets)
+          AND collection_id <> collection_uuid
+          AND collection_id IN (SELECT id FROM collections WHERE user_id = user_uuid);
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown bulk operation: %', operation;
+  END CASE;
+
+  RETURN QUERY SELECT unnest(targets);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Add two bookmarks to a collection at once (returns both ids)
+-- SELECT * FROM bulk_update_bookmarks('test-user-123', ARRAY['<id-1>', '<id-2>']::uuid[], 'add_to_collection',
+--   collection_uuid => '<collection-id>');
+-- SELECT title, position FROM collection_bookmarks_with_tags WHERE collection_id = '<collection-id>' ORDER BY position;
+
+-- Check 2: Move them there from every other collection
+-- SELECT * FROM bulk_update_bookmarks('test-user-123', ARRAY['<id-1>', '<id-2>']::uuid[], 'move_to_collection',
+--   collection_uuid => '<collection-id>');
+-- SELECT collection_id FROM collection_bookmarks WHERE bookmark_id IN ('<id-1>', '<id-2>');   -- only '<collection-id>'
+
+-- Check 3: Another user's collection is left alone (returns no rows)
+-- SELECT * FROM bulk_update_bookmarks('someone-else', ARRAY['<id-1>']::uuid[], 'add_to_collection',
+--   collection_uuid => '<collection-id>');
@@ -0,0 +1,92 @@
+-- Database Migration: Bulk Bookmark Operations
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-tag-writes.sql
+
+-- ============================================================================
+-- STEP 1: Create the bulk update function
+-- ============================================================================
+
+-- Applies one operation to the user's bookmarks among bookmark_uuids, all in
+-- the function's transaction, and returns the ids it applied to. Ids of other
+-- users' bookmarks are skipped, as are live bookmarks for 'restore' and
+-- trashed ones for 'delete'.
+--
+-- operation is one of add_tags, remove_tags, replace_tags (with tag_names),
+-- delete, restore or set_category (with new_category, NULL to clear it).
+CREATE OR REPLACE FUNCTION bulk_update_bookmarks(
+  user_uuid TEXT,
+  bookmark_uuids UUID[],
+  operation TEXT,
+  tag_names TEXT[] DEFAULT '{}',
+  new_category TEXT DEFAULT NULL
+)
+RETURNS SETOF UUID AS $$
+DECLARE
+  targets UUID[];
+BEGIN
+  -- Locked in id order, so overlapping bulk updates cannot deadlock
+  SELECT COALESCE(array_agg(id), '{}') INTO targets
+  FROM (
+    SELECT id FROM bookmarks
+    WHERE id = ANY(bookmark_uuids)
+      AND user_id = user_uuid
+      AND (operation <> 'delete' OR deleted_at IS NULL)
+      AND (operation <> 'restore' OR deleted_at IS NOT NULL)
+    ORDER BY id
+    FOR UPDATE
+  ) AS locked;
+
+  CASE operation
+    WHEN 'add_tags', 'replace_tags' THEN
+      INSERT INTO tags (user_id, name)
+      SELECT DISTINCT user_uuid, name FROM unnest(tag_names) AS name
+      ON CONFLICT (user_id, name) DO NOTHING;
+
+      IF operation = 'replace_tags' THEN
+        DELETE FROM bookmark_tags
+        WHERE bookmark_id = ANY(targets)
+          AND tag_id NOT IN (SELECT id FROM tags WHERE user_id = user_uuid AND name = ANY(tag_names));
+      END IF;
+
+      INSERT INTO bookmark_tags (bookmark_id, tag_id)
+      SELECT target, t.id
+      FROM unnest(targets) AS target
+      CROSS JOIN tags t
+      WHERE t.user_id = user_uuid AND t.name = ANY(tag_names)
+      ON CONFLICT (bookmark_id, tag_id) DO NOTHING;
+
+    WHEN 'remove_tags' THEN
+      DELETE FROM bookmark_tags
+      WHERE bookmark_id = ANY(targets)
+        AND tag_id IN (SELECT id FROM tags WHERE user_id = user_uuid AND name = ANY(tag_names));
+
+    WHEN 'delete' THEN
+      UPDATE bookmarks SET deleted_at = NOW() WHERE id = ANY(targets);
+
+    WHEN 'restore' THEN
+      UPDATE bookmarks SET deleted_at = NULL WHERE id = ANY(targets);
+
+    WHEN 'set_category' THEN
+      UPDATE bookmarks SET category = new_category, updated_at = NOW() WHERE id = ANY(targets);
+
+    ELSE
+      RAISE EXCEPTION 'Unknown bulk operation: %', operation;
+  END CASE;
+
+  RETURN QUERY SELECT unnest(targets);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Tag two bookmarks at once (use two of your bookmark ids)
+-- SELECT * FROM bulk_update_bookmarks('test-user-123', ARRAY['<id-1>', '<id-2>']::uuid[], 'add_tags', ARRAY['reading']);
+-- SELECT id, tags FROM bookmarks_with_tags WHERE id IN ('<id-1>', '<id-2>');
+
+-- Check 2: Another user's ids are skipped (returns no rows)
+-- SELECT * FROM bulk_update_bookmarks('someone-else', ARRAY['<id-1>']::uuid[], 'delete');
+
+-- Check 3: A failing operation changes nothing (tag names may not be NULL)
+-- SELECT * FROM bulk_update_bookmarks('test-user-123', ARRAY['<id-1>']::uuid[], 'replace_tags', ARRAY[NULL]);
+-- SELECT id, tags FROM bookmarks_with_tags WHERE id = '<id-1>';   -- unchanged
@@ -0,0 +1,59 @@
+-- Database Migration: Canonical URLs for Duplicate Detection
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-search.sql
+
+-- ============================================================================
+-- STEP 1: Add canonical URL column
+-- ============================================================================
+
+-- Normalized form of url (no tracking params, fragments, www. or trailing
+-- slashes, sorted query). Computed by the backend when a bookmark is saved.
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS canonical_url TEXT;
+
+-- ============================================================================
+-- STEP 2: Create indexes for performance
+-- ============================================================================
+
+-- Duplicate lookups on save. Not UNIQUE because libraries saved before this
+-- migration can already contain duplicates.
+CREATE INDEX IF NOT EXISTS idx_bookmarks_canonical_url ON bookmarks(user_id, canonical_url)
+  WHERE deleted_at IS NULL;
+
+-- ============================================================================
+-- STEP 3: Recreate the bookmarks_with_tags view
+-- ============================================================================
+
+-- Duplicate lookups read the view, so it has to expose the new column
+DROP VIEW IF EXISTS bookmarks_with_tags;
+
+CREATE VIEW bookmarks_with_tags AS
+SELECT
+  b.*,
+  COALESCE(
+    array_agg(t.name ORDER BY t.name) FILTER (WHERE t.name IS NOT NULL),
+    '{}'::text[]
+  ) as tags
+FROM bookmarks b
+LEFT JOIN bookmark_tags bt ON b.id = bt.bookmark_id
+LEFT JOIN tags t ON bt.tag_id = t.id
+GROUP BY b.id;
+
+-- ============================================================================
+-- STEP 4: Backfill existing bookmarks
+-- ============================================================================
+
+-- Run from the backend directory once this migration is applied:
+--   npm run backfill:canonical-urls
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Every bookmark has a canonical URL after the backfill
+-- SELECT COUNT(*) FROM bookmarks WHERE canonical_url IS NULL;
+
+-- Check 2: Existing duplicates per user
+-- SELECT user_id, canonical_url, COUNT(*)
+-- FROM bookmarks
+-- WHERE deleted_at IS NULL
+-- GROUP BY user_id, canonical_url
+-- HAVING COUNT(*) > 1;
@@ -0,0 +1,166 @@
+-- Database Migration: Collections
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-rules.sql
+--
+-- A collection is a hand-ordered list of bookmarks, next to tags: a bookmark
+-- can be in any number of collections, and each membership has a position
+-- that drag-to-reorder rewrites. Trashed bookmarks keep their memberships, so
+-- restoring one puts it back where it was.
+
+-- ============================================================================
+-- STEP 1: Create the collections and membership tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_collections_user_id ON collections(user_id);
+
+CREATE TABLE IF NOT EXISTS collection_bookmarks (
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  bookmark_id UUID NOT NULL REFERENCES bookmarks(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,                -- Lower comes first
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (collection_id, bookmark_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_bookmarks_position ON collection_bookmarks(collection_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_bookmarks_bookmark_id ON collection_bookmarks(bookmark_id);
+
+-- ============================================================================
+-- STEP 2: Enable Row Level Security
+-- ============================================================================
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_bookmarks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own collections" ON collections;
+CREATE POLICY "Users can view their own collections" ON collections
+  FOR SELECT USING (user_id = requesting_user_id());
+
+DROP POLICY IF EXISTS "Users can view their own collection bookmarks" ON collection_bookmarks;
+CREATE POLICY "Users can view their own collection bookmarks" ON collection_bookmarks
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM collections c WHERE c.id = collection_id AND c.user_id = requesting_user_id())
+  );
+
+-- ============================================================================
+-- STEP 3: Create the views the backend reads
+-- ============================================================================
+
+-- Collections with the number of their bookmarks outside the trash
+CREATE OR REPLACE VIEW collections_with_counts AS
+SELECT
+  c.*,
+  (
+    SELECT COUNT(*) FROM collection_bookmarks cb JOIN bookmarks b ON b.id = cb.bookmark_id
+    WHERE cb.collection_id = c.id AND b.deleted_at IS NULL
+  )::int as bookmark_count
+FROM collections c;
+
+-- One row per membership: the bookmark with its tags, and where it sits in the collection
+CREATE OR REPLACE VIEW collection_bookmarks_with_tags AS
+SELECT
+  bwt.*,
+  cb.collection_id,
+  cb.position,
+  cb.added_at
+FROM collection_bookmarks cb
+JOIN bookmarks_with_tags bwt ON bwt.id = cb.bookmark_id;
+
+ALTER VIEW collections_with_counts SET (security_invoker = true);
+ALTER VIEW collection_bookmarks_with_tags SET (security_invoker = true);
+
+-- ============================================================================
+-- STEP 4: Create the functions that change membership in one transaction
+-- ============================================================================
+
+-- Appends the user's live bookmarks among bookmark_uuids that are not in the
+-- collection yet, in the given order. False when the collection is not the user's.
+CREATE OR REPLACE FUNCTION add_collection_bookmarks(
+  collection_uuid UUID,
+  bookmark_uuids UUID[],
+  user_uuid TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  next_position INTEGER;
+BEGIN
+  -- Locked, so two appends cannot take the same positions
+  PERFORM 1 FROM collections WHERE id = collection_uuid AND user_id = user_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT COALESCE(MAX(position) + 1, 0) INTO next_position
+  FROM collection_bookmarks WHERE collection_id = collection_uuid;
+
+  INSERT INTO collection_bookmarks (collection_id, bookmark_id, position)
+  SELECT collection_uuid, picked.id, next_position + (ROW_NUMBER() OVER (ORDER BY picked.ord))::int - 1
+  FROM (
+    SELECT ids.id, MIN(ids.ord) AS ord
+    FROM unnest(bookmark_uuids) WITH ORDINALITY AS ids(id, ord)
+    JOIN bookmarks b ON b.id = ids.id AND b.user_id = user_uuid AND b.deleted_at IS NULL
+    WHERE NOT EXISTS (
+      SELECT 1 FROM collection_bookmarks cb WHERE cb.collection_id = collection_uuid AND cb.bookmark_id = ids.id
+    )
+    GROUP BY ids.id
+  ) picked;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Moves the listed members to the front in that order; the others keep their
+-- order behind them. False when the collection is not the user's.
+CREATE OR REPLACE FUNCTION reorder_collection(
+  collection_uuid UUID,
+  bookmark_uuids UUID[],
+  user_uuid TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1 FROM collections WHERE id = collection_uuid AND user_id = user_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE collection_bookmarks cb
+  SET position = ordered.new_position
+  FROM (
+    SELECT
+      cb2.bookmark_id,
+      (ROW_NUMBER() OVER (ORDER BY listed.ord NULLS LAST, cb2.position, cb2.added_at, cb2.bookmark_id))::int - 1
+        AS new_position
+    FROM collection_bookmarks cb2
+    LEFT JOIN (
+      SELECT id, MIN(ord) AS ord FROM unnest(bookmark_uuids) WITH ORDINALITY AS ids(id, ord) GROUP BY id
+    ) listed ON listed.id = cb2.bookmark_id
+    WHERE cb2.collection_id = collection_uuid
+  ) ordered
+  WHERE cb.collection_id = collection_uuid AND cb.bookmark_id = ordered.bookmark_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: A collection with two of your bookmarks, the second one first
+-- INSERT INTO collections (user_id, name) VALUES ('test-user-123', 'Reading list') RETURNING id;
+-- SELECT add_collection_bookmarks('<collection-id>', ARRAY['<bookmark-1>', '<bookmark-2>']::uuid[], 'test-user-123');   -- true
+-- SELECT reorder_collection('<collection-id>', ARRAY['<bookmark-2>']::uuid[], 'test-user-123');   -- true
+-- SELECT title, position FROM collection_bookmarks_with_tags WHERE collection_id = '<collection-id>' ORDER BY position;
+
+-- Check 2: Counts leave out trashed bookmarks
+-- SELECT name, bookmark_count FROM collections_with_counts WHERE user_id = 'test-user-123';
+
+-- Check 3: Another user's collections are left alone
+-- SELECT reorder_collection('<collection-id>', ARRAY[]::uuid[], 'someone-else');   -- false
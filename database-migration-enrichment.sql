@@ -0,0 +1,136 @@
+-- Database Migration: Page Metadata Enrichment
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-canonical-urls.sql
+
+-- ============================================================================
+-- STEP 1: Add metadata and enrichment queue columns
+-- ============================================================================
+
+-- Metadata extracted from the saved page: title, description, canonical_url,
+-- image_url, favicon_url, site_name, language, published_at
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+-- Existing bookmarks start out pending, so the worker enriches them as well
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS enrichment_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (enrichment_status IN ('pending', 'done', 'failed'));
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS enrichment_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS enrichment_next_attempt_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS enrichment_error TEXT;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================================
+-- STEP 2: Create indexes for performance
+-- ============================================================================
+
+-- The worker polls for pending bookmarks whose retry is due
+CREATE INDEX IF NOT EXISTS idx_bookmarks_enrichment_queue ON bookmarks(enrichment_next_attempt_at, created_at)
+  WHERE enrichment_status = 'pending' AND deleted_at IS NULL;
+
+-- ============================================================================
+-- STEP 3: Recreate the bookmarks_with_tags view
+-- ============================================================================
+
+DROP VIEW IF EXISTS bookmarks_with_tags;
+
+CREATE VIEW bookmarks_with_tags AS
+SELECT
+  b.*,
+  COALESCE(
+    array_agg(t.name ORDER BY t.name) FILTER (WHERE t.name IS NOT NULL),
+    '{}'::text[]
+  ) as tags
+FROM bookmarks b
+LEFT JOIN bookmark_tags bt ON b.id = bt.bookmark_id
+LEFT JOIN tags t ON bt.tag_id = t.id
+GROUP BY b.id;
+
+-- ============================================================================
+-- STEP 4: Return the new columns from search_bookmarks
+-- ============================================================================
+
+-- The result type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS search_bookmarks(TEXT, TEXT);
+
+CREATE FUNCTION search_bookmarks(user_uuid TEXT, search_query TEXT)
+RETURNS TABLE(
+  id UUID,
+  user_id TEXT,
+  url TEXT,
+  canonical_url TEXT,
+  title TEXT,
+  summary TEXT,
+  category TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  metadata JSONB,
+  enrichment_status TEXT,
+  tags TEXT[],
+  search_rank REAL,
+  matched_fields TEXT[],
+  title_highlight TEXT,
+  summary_highlight TEXT,
+  url_highlight TEXT
+) AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', search_query) AS query
+  ),
+  hits AS (
+    SELECT
+      b.*,
+      q.query,
+      ts_rank_cd(
+        to_tsvector('english', b.title || ' ' || COALESCE(b.summary, '') || ' ' || b.url),
+        q.query,
+        32 -- normalize rank into 0..1
+      ) AS rank
+    FROM bookmarks b, q
+    WHERE b.user_id = user_uuid
+      AND to_tsvector('english', b.title || ' ' || COALESCE(b.summary, '') || ' ' || b.url) @@ q.query
+  )
+  SELECT
+    h.id,
+    h.user_id,
+    h.url,
+    h.canonical_url,
+    h.title,
+    h.summary,
+    h.category,
+    h.created_at,
+    h.updated_at,
+    h.deleted_at,
+    h.metadata,
+    h.enrichment_status,
+    COALESCE(
+      (SELECT array_agg(t.name ORDER BY t.name)
+       FROM bookmark_tags bt
+       JOIN tags t ON bt.tag_id = t.id
+       WHERE bt.bookmark_id = h.id),
+      '{}'::text[]
+    ) AS tags,
+    h.rank AS search_rank,
+    array_remove(ARRAY[
+      CASE WHEN to_tsvector('english', h.title) @@ h.query THEN 'title' END,
+      CASE WHEN to_tsvector('english', COALESCE(h.summary, '')) @@ h.query THEN 'summary' END,
+      CASE WHEN to_tsvector('english', h.url) @@ h.query THEN 'url' END
+    ], NULL) AS matched_fields,
+    ts_headline('english', h.title, h.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title_highlight,
+    ts_headline('english', COALESCE(h.summary, ''), h.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "') AS summary_highlight,
+    ts_headline('english', h.url, h.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS url_highlight
+  FROM hits h;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Enrichment progress
+-- SELECT enrichment_status, COUNT(*) FROM bookmarks GROUP BY enrichment_status;
+
+-- Check 2: Failures and their reasons
+-- SELECT url, enrichment_attempts, enrichment_error
+-- FROM bookmarks
+-- WHERE enrichment_status = 'failed'
+-- ORDER BY created_at DESC;
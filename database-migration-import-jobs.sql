@@ -0,0 +1,53 @@
+-- Database Migration: Background Import Jobs
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-link-health.sql
+
+-- ============================================================================
+-- STEP 1: Create the import jobs table
+-- ============================================================================
+
+-- Large imports run in the background in batches; clients poll the job for
+-- progress. The per-item report is written once the job has finished.
+CREATE TABLE IF NOT EXISTS import_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  source TEXT NOT NULL, -- netscape, json, csv
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'done', 'failed')),
+  total INTEGER NOT NULL DEFAULT 0,
+  processed INTEGER NOT NULL DEFAULT 0,
+  created INTEGER NOT NULL DEFAULT 0,
+  duplicates INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  items JSONB,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- ============================================================================
+-- STEP 2: Create indexes for performance
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_user_id ON import_jobs(user_id, created_at DESC);
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security
+-- ============================================================================
+
+ALTER TABLE import_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import jobs" ON import_jobs
+  FOR SELECT USING (true); -- For MVP, allow all reads
+
+CREATE POLICY "Users can insert their own import jobs" ON import_jobs
+  FOR INSERT WITH CHECK (true); -- For MVP, allow all inserts
+
+CREATE POLICY "Users can update their own import jobs" ON import_jobs
+  FOR UPDATE USING (true); -- For MVP, allow all updates
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Recent jobs and their progress
+-- SELECT id, source, status, processed, total, created, duplicates, failed
+-- FROM import_jobs ORDER BY created_at DESC LIMIT 10;
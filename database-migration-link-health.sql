@@ -0,0 +1,166 @@
+-- Database Migration: Link Health Checks
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-archive.sql
+
+-- ============================================================================
+-- STEP 1: Add link check columns
+-- ============================================================================
+
+-- Result of the last check: ok, redirected or broken (NULL until checked)
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS link_health TEXT
+  CHECK (link_health IN ('ok', 'redirected', 'broken'));
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS link_status_code INTEGER;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS link_redirect_url TEXT;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS link_error TEXT;
+-- Consecutive failed checks; timeouts and server errors only count as broken after a few
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS link_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS link_checked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS link_next_check_at TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================================
+-- STEP 2: Create indexes for performance
+-- ============================================================================
+
+-- The checker picks bookmarks whose next check is due
+CREATE INDEX IF NOT EXISTS idx_bookmarks_link_next_check ON bookmarks(link_next_check_at NULLS FIRST)
+  WHERE deleted_at IS NULL;
+
+-- The `health` filter
+CREATE INDEX IF NOT EXISTS idx_bookmarks_link_health ON bookmarks(user_id, link_health)
+  WHERE deleted_at IS NULL;
+
+-- ============================================================================
+-- STEP 3: Recreate the bookmarks_with_tags view
+-- ============================================================================
+
+DROP VIEW IF EXISTS bookmarks_with_tags;
+
+CREATE VIEW bookmarks_with_tags AS
+SELECT
+  b.*,
+  COALESCE(
+    array_agg(t.name ORDER BY t.name) FILTER (WHERE t.name IS NOT NULL),
+    '{}'::text[]
+  ) as tags
+FROM bookmarks b
+LEFT JOIN bookmark_tags bt ON b.id = bt.bookmark_id
+LEFT JOIN tags t ON bt.tag_id = t.id
+GROUP BY b.id;
+
+-- ============================================================================
+-- STEP 4: Return link health from search_bookmarks
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS search_bookmarks(TEXT, TEXT);
+
+CREATE FUNCTION search_bookmarks(user_uuid TEXT, search_query TEXT)
+RETURNS TABLE(
+  id UUID,
+  user_id TEXT,
+  url TEXT,
+  canonical_url TEXT,
+  title TEXT,
+  summary TEXT,
+  category TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  metadata JSONB,
+  enrichment_status TEXT,
+  archive_status TEXT,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  link_health TEXT,
+  link_status_code INTEGER,
+  link_redirect_url TEXT,
+  link_checked_at TIMESTAMP WITH TIME ZONE,
+  link_failures INTEGER,
+  tags TEXT[],
+  search_rank REAL,
+  matched_fields TEXT[],
+  title_highlight TEXT,
+  summary_highlight TEXT,
+  url_highlight TEXT,
+  content_highlight TEXT
+) AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', search_query) AS query
+  ),
+  hits AS (
+    SELECT
+      b.*,
+      a.content_text,
+      q.query,
+      -- Matches in the archived page count less than in the bookmark itself
+      ts_rank_cd(
+        setweight(to_tsvector('english', b.title || ' ' || COALESCE(b.summary, '') || ' ' || b.url), 'A')
+          || setweight(to_tsvector('english', COALESCE(a.content_text, '')), 'D'),
+        q.query,
+        32 -- normalize rank into 0..1
+      ) AS rank
+    FROM bookmarks b
+    CROSS JOIN q
+    LEFT JOIN bookmark_archives a ON a.bookmark_id = b.id
+    WHERE b.user_id = user_uuid
+      AND (
+        to_tsvector('english', b.title || ' ' || COALESCE(b.summary, '') || ' ' || b.url) @@ q.query
+        OR to_tsvector('english', COALESCE(a.content_text, '')) @@ q.query
+      )
+  )
+  SELECT
+    h.id,
+    h.user_id,
+    h.url,
+    h.canonical_url,
+    h.title,
+    h.summary,
+    h.category,
+    h.created_at,
+    h.updated_at,
+    h.deleted_at,
+    h.metadata,
+    h.enrichment_status,
+    h.archive_status,
+    h.archived_at,
+    h.link_health,
+    h.link_status_code,
+    h.link_redirect_url,
+    h.link_checked_at,
+    h.link_failures,
+    COALESCE(
+      (SELECT array_agg(t.name ORDER BY t.name)
+       FROM bookmark_tags bt
+       JOIN tags t ON bt.tag_id = t.id
+       WHERE bt.bookmark_id = h.id),
+      '{}'::text[]
+    ) AS tags,
+    h.rank AS search_rank,
+    array_remove(ARRAY[
+      CASE WHEN to_tsvector('english', h.title) @@ h.query THEN 'title' END,
+      CASE WHEN to_tsvector('english', COALESCE(h.summary, '')) @@ h.query THEN 'summary' END,
+      CASE WHEN to_tsvector('english', h.url) @@ h.query THEN 'url' END,
+      CASE WHEN to_tsvector('english', COALESCE(h.content_text, '')) @@ h.query THEN 'content' END
+    ], NULL) AS matched_fields,
+    ts_headline('english', h.title, h.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title_highlight,
+    ts_headline('english', COALESCE(h.summary, ''), h.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "') AS summary_highlight,
+    ts_headline('english', h.url, h.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS url_highlight,
+    CASE WHEN h.content_text IS NOT NULL THEN
+      ts_headline('english', h.content_text, h.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "')
+    END AS content_highlight
+  FROM hits h;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Link health overview
+-- SELECT link_health, COUNT(*) FROM bookmarks WHERE deleted_at IS NULL GROUP BY link_health;
+
+-- Check 2: Broken links with their last error
+-- SELECT url, link_status_code, link_error, link_checked_at
+-- FROM bookmarks
+-- WHERE link_health = 'broken'
+-- ORDER BY link_checked_at DESC;
@@ -0,0 +1,198 @@
+-- Database Migration: Per-User Row Level Security
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-access-tokens.sql
+--
+-- Replaces the "allow everything" MVP policies with policies that only let a
+-- user reach their own rows. The anon key no longer sees any data, so the
+-- backend must now use the service_role key (SUPABASE_KEY in backend/.env),
+-- which bypasses RLS; the backend checks ownership itself on every request.
+-- The policies guard every other way into the database.
+
+-- ============================================================================
+-- STEP 1: Identify the requesting user
+-- ============================================================================
+
+-- The `sub` claim of the JWT a request to the database was made with (NULL for
+-- the anon key). Equivalent to auth.jwt() ->> 'sub' on Supabase.
+CREATE OR REPLACE FUNCTION requesting_user_id()
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', true), '')::json ->> 'sub';
+$$ LANGUAGE SQL STABLE;
+
+-- ============================================================================
+-- STEP 2: Drop the MVP policies
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view their own bookmarks" ON bookmarks;
+DROP POLICY IF EXISTS "Users can insert their own bookmarks" ON bookmarks;
+DROP POLICY IF EXISTS "Users can update their own bookmarks" ON bookmarks;
+DROP POLICY IF EXISTS "Users can delete their own bookmarks" ON bookmarks;
+
+DROP POLICY IF EXISTS "Users can view their own categories" ON categories;
+DROP POLICY IF EXISTS "Users can insert their own categories" ON categories;
+
+DROP POLICY IF EXISTS "Users can manage tags" ON tags;
+DROP POLICY IF EXISTS "Users can view their own tags" ON tags;
+DROP POLICY IF EXISTS "Users can insert their own tags" ON tags;
+DROP POLICY IF EXISTS "Users can update their own tags" ON tags;
+DROP POLICY IF EXISTS "Users can delete their own tags" ON tags;
+
+DROP POLICY IF EXISTS "Users can manage bookmark tags" ON bookmark_tags;
+DROP POLICY IF EXISTS "Users can view bookmark tags" ON bookmark_tags;
+DROP POLICY IF EXISTS "Users can insert bookmark tags" ON bookmark_tags;
+DROP POLICY IF EXISTS "Users can delete bookmark tags" ON bookmark_tags;
+
+DROP POLICY IF EXISTS "Users can view their own archives" ON bookmark_archives;
+DROP POLICY IF EXISTS "Users can insert their own archives" ON bookmark_archives;
+DROP POLICY IF EXISTS "Users can update their own archives" ON bookmark_archives;
+DROP POLICY IF EXISTS "Users can delete their own archives" ON bookmark_archives;
+
+DROP POLICY IF EXISTS "Users can view their own import jobs" ON import_jobs;
+DROP POLICY IF EXISTS "Users can insert their own import jobs" ON import_jobs;
+DROP POLICY IF EXISTS "Users can update their own import jobs" ON import_jobs;
+
+-- Sessions and access tokens are only ever read by the backend
+DROP POLICY IF EXISTS "Users can view their own sessions" ON user_sessions;
+DROP POLICY IF EXISTS "Users can insert their own sessions" ON user_sessions;
+DROP POLICY IF EXISTS "Users can delete their own sessions" ON user_sessions;
+
+DROP POLICY IF EXISTS "Users can view their own tokens" ON personal_access_tokens;
+DROP POLICY IF EXISTS "Users can insert their own tokens" ON personal_access_tokens;
+DROP POLICY IF EXISTS "Users can update their own tokens" ON personal_access_tokens;
+
+-- ============================================================================
+-- STEP 3: Create per-user policies
+-- ============================================================================
+
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bookmark_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bookmark_archives ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own account" ON users
+  FOR SELECT USING (id::text = requesting_user_id());
+
+CREATE POLICY "Users can view their own bookmarks" ON bookmarks
+  FOR SELECT USING (user_id = requesting_user_id());
+
+CREATE POLICY "Users can insert their own bookmarks" ON bookmarks
+  FOR INSERT WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY "Users can update their own bookmarks" ON bookmarks
+  FOR UPDATE USING (user_id = requesting_user_id()) WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY "Users can delete their own bookmarks" ON bookmarks
+  FOR DELETE USING (user_id = requesting_user_id());
+
+CREATE POLICY "Users can view their own categories" ON categories
+  FOR SELECT USING (user_id = requesting_user_id());
+
+CREATE POLICY "Users can insert their own categories" ON categories
+  FOR INSERT WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY "Users can view their own tags" ON tags
+  FOR SELECT USING (user_id = requesting_user_id());
+
+CREATE POLICY "Users can insert their own tags" ON tags
+  FOR INSERT WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY "Users can update their own tags" ON tags
+  FOR UPDATE USING (user_id = requesting_user_id()) WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY "Users can delete their own tags" ON tags
+  FOR DELETE USING (user_id = requesting_user_id());
+
+-- A link belongs to the owner of its bookmark, and may only point at their own tags
+CREATE POLICY "Users can view their own bookmark tags" ON bookmark_tags
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM bookmarks b WHERE b.id = bookmark_id AND b.user_id = requesting_user_id())
+  );
+
+CREATE POLICY "Users can insert their own bookmark tags" ON bookmark_tags
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM bookmarks b WHERE b.id = bookmark_id AND b.user_id = requesting_user_id())
+    AND EXISTS (SELECT 1 FROM tags t WHERE t.id = tag_id AND t.user_id = requesting_user_id())
+  );
+
+CREATE POLICY "Users can delete their own bookmark tags" ON bookmark_tags
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM bookmarks b WHERE b.id = bookmark_id AND b.user_id = requesting_user_id())
+  );
+
+CREATE POLICY "Users can view their own archives" ON bookmark_archives
+  FOR SELECT USING (user_id = requesting_user_id());
+
+CREATE POLICY "Users can view their own import jobs" ON import_jobs
+  FOR SELECT USING (user_id = requesting_user_id());
+
+-- ============================================================================
+-- STEP 4: Keep links between one user's bookmarks and tags
+-- ============================================================================
+
+-- Enforced for every role, the backend included: a bookmark can never be
+-- tagged with another user's tag.
+CREATE OR REPLACE FUNCTION check_bookmark_tag_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM bookmarks b
+    JOIN tags t ON t.id = NEW.tag_id
+    WHERE b.id = NEW.bookmark_id AND b.user_id = t.user_id
+  ) THEN
+    RAISE EXCEPTION 'Bookmark % and tag % belong to different users', NEW.bookmark_id, NEW.tag_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bookmark_tags_same_owner ON bookmark_tags;
+CREATE TRIGGER bookmark_tags_same_owner
+  BEFORE INSERT OR UPDATE ON bookmark_tags
+  FOR EACH ROW EXECUTE FUNCTION check_bookmark_tag_owner();
+
+-- ============================================================================
+-- STEP 5: Apply the policies through the bookmarks_with_tags view
+-- ============================================================================
+
+-- Views run with their owner's rights by default, which would skip the
+-- policies above. Requires PostgreSQL 15 (every current Supabase project).
+ALTER VIEW bookmarks_with_tags SET (security_invoker = true);
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Each check runs as a signed-in user 'user-a' and must return 0 rows / 0 counts
+-- for data owned by anyone else. Replace 'user-b' with another user's id.
+
+-- Check 1: No other user's bookmarks, tags, links or archives are visible
+-- BEGIN;
+-- SET LOCAL ROLE authenticated;
+-- SET LOCAL request.jwt.claims = '{"sub": "user-a"}';
+-- SELECT COUNT(*) FROM bookmarks WHERE user_id <> 'user-a';
+-- SELECT COUNT(*) FROM bookmarks_with_tags WHERE user_id <> 'user-a';
+-- SELECT COUNT(*) FROM tags WHERE user_id <> 'user-a';
+-- SELECT COUNT(*) FROM bookmark_tags bt JOIN tags t ON t.id = bt.tag_id WHERE t.user_id <> 'user-a';
+-- SELECT COUNT(*) FROM bookmark_archives WHERE user_id <> 'user-a';
+-- SELECT COUNT(*) FROM user_sessions;
+-- SELECT COUNT(*) FROM personal_access_tokens;
+-- ROLLBACK;
+
+-- Check 2: Writes to another user's rows affect nothing, inserts for them fail
+-- BEGIN;
+-- SET LOCAL ROLE authenticated;
+-- SET LOCAL request.jwt.claims = '{"sub": "user-a"}';
+-- UPDATE bookmarks SET title = 'hijacked' WHERE user_id = 'user-b';   -- UPDATE 0
+-- DELETE FROM tags WHERE user_id = 'user-b';                           -- DELETE 0
+-- INSERT INTO bookmarks (user_id, url, title) VALUES ('user-b', 'https://example.com', 'x'); -- fails
+-- ROLLBACK;
+
+-- Check 3: The anon key sees nothing at all
+-- BEGIN;
+-- SET LOCAL ROLE anon;
+-- SELECT COUNT(*) FROM bookmarks;
+-- ROLLBACK;
@@ -0,0 +1,45 @@
+-- Database Migration: Auto-Tagging Rules
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-tag-metadata.sql
+--
+-- A rule matches bookmarks by URL host and path patterns and title or summary
+-- regular expressions, and adds tags, prefixes the summary or removes the
+-- `unread` tag. Enabled rules run, oldest first, whenever a bookmark is saved;
+-- the backend evaluates them, so the table only stores them.
+
+-- ============================================================================
+-- STEP 1: Create the rules table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bookmark_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  conditions JSONB NOT NULL DEFAULT '{}',   -- { host, path, title, summary }
+  actions JSONB NOT NULL DEFAULT '{}',      -- { add_tags, summary_prefix, mark_read }
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_bookmark_rules_user_id ON bookmark_rules(user_id, created_at);
+
+-- ============================================================================
+-- STEP 2: Enable Row Level Security
+-- ============================================================================
+
+ALTER TABLE bookmark_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own rules" ON bookmark_rules;
+CREATE POLICY "Users can view their own rules" ON bookmark_rules
+  FOR SELECT USING (user_id = requesting_user_id());
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: A rule tagging GitHub links with `code`
+-- INSERT INTO bookmark_rules (user_id, name, conditions, actions)
+-- VALUES ('test-user-123', 'GitHub', '{"host": "github.com"}', '{"add_tags": ["code"]}');
+
+-- Check 2: Rules in the order they run
+-- SELECT name, enabled, conditions, actions FROM bookmark_rules WHERE user_id = 'test-user-123' ORDER BY created_at, id;
@@ -0,0 +1,98 @@
+-- Database Migration: Ranked Full-Text Search
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-trash.sql
+
+-- ============================================================================
+-- STEP 1: Make sure the full-text index exists
+-- ============================================================================
+
+-- Same expression as in database-setup.sql. The search function below must use
+-- exactly this expression for Postgres to pick the index.
+CREATE INDEX IF NOT EXISTS idx_bookmarks_search ON bookmarks
+USING GIN (to_tsvector('english', title || ' ' || COALESCE(summary, '') || ' ' || url));
+
+-- ============================================================================
+-- STEP 2: Create the search function
+-- ============================================================================
+
+-- Returns the user's bookmarks matching a tsquery (built by the backend from
+-- the search box input), ranked, with highlighted snippets.
+-- The result can be filtered and paginated through PostgREST like a table.
+CREATE OR REPLACE FUNCTION search_bookmarks(user_uuid TEXT, search_query TEXT)
+RETURNS TABLE(
+  id UUID,
+  user_id TEXT,
+  url TEXT,
+  title TEXT,
+  summary TEXT,
+  category TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  tags TEXT[],
+  search_rank REAL,
+  matched_fields TEXT[],
+  title_highlight TEXT,
+  summary_highlight TEXT,
+  url_highlight TEXT
+) AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', search_query) AS query
+  ),
+  hits AS (
+    SELECT
+      b.*,
+      q.query,
+      ts_rank_cd(
+        to_tsvector('english', b.title || ' ' || COALESCE(b.summary, '') || ' ' || b.url),
+        q.query,
+        32 -- normalize rank into 0..1
+      ) AS rank
+    FROM bookmarks b, q
+    WHERE b.user_id = user_uuid
+      AND to_tsvector('english', b.title || ' ' || COALESCE(b.summary, '') || ' ' || b.url) @@ q.query
+  )
+  SELECT
+    h.id,
+    h.user_id,
+    h.url,
+    h.title,
+    h.summary,
+    h.category,
+    h.created_at,
+    h.updated_at,
+    h.deleted_at,
+    COALESCE(
+      (SELECT array_agg(t.name ORDER BY t.name)
+       FROM bookmark_tags bt
+       JOIN tags t ON bt.tag_id = t.id
+       WHERE bt.bookmark_id = h.id),
+      '{}'::text[]
+    ) AS tags,
+    h.rank AS search_rank,
+    array_remove(ARRAY[
+      CASE WHEN to_tsvector('english', h.title) @@ h.query THEN 'title' END,
+      CASE WHEN to_tsvector('english', COALESCE(h.summary, '')) @@ h.query THEN 'summary' END,
+      CASE WHEN to_tsvector('english', h.url) @@ h.query THEN 'url' END
+    ], NULL) AS matched_fields,
+    ts_headline('english', h.title, h.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title_highlight,
+    ts_headline('english', COALESCE(h.summary, ''), h.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "') AS summary_highlight,
+    ts_headline('english', h.url, h.query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS url_highlight
+  FROM hits h;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Prefix and phrase search
+-- SELECT title, search_rank, matched_fields, title_highlight
+-- FROM search_bookmarks('test-user-123', '''react'':* & ''hook''')
+-- ORDER BY search_rank DESC;
+
+-- Check 2: The index is used (look for "Bitmap Index Scan on idx_bookmarks_search")
+-- EXPLAIN SELECT * FROM bookmarks
+-- WHERE to_tsvector('english', title || ' ' || COALESCE(summary, '') || ' ' || url)
+--   @@ to_tsquery('english', 'react');
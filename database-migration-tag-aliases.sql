@@ -0,0 +1,92 @@
+-- Database Migration: Tag Merge and Aliases
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-tag-tree.sql
+--
+-- Merging a tag into another moves its bookmarks over and deletes it. Its name
+-- stays behind as an alias of the tag it was merged into, so saving a bookmark
+-- with the old name tags it with the merged tag.
+
+-- ============================================================================
+-- STEP 1: Create the aliases table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS tag_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tag_aliases_tag_id ON tag_aliases(tag_id);
+
+ALTER TABLE tag_aliases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own tag aliases" ON tag_aliases;
+CREATE POLICY "Users can view their own tag aliases" ON tag_aliases
+  FOR SELECT USING (user_id = requesting_user_id());
+
+-- ============================================================================
+-- STEP 2: Merge one tag into another
+-- ============================================================================
+
+-- Links the source tag's bookmarks to the target (skipping those that already
+-- have it), hands its aliases to the target, keeps its name as an alias and
+-- deletes it. Returns false (and changes nothing) unless both tags are the
+-- user's. A tag with tags below it cannot be merged.
+CREATE OR REPLACE FUNCTION merge_tags(
+  source_uuid UUID,
+  target_uuid UUID,
+  user_uuid TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  source_name TEXT;
+BEGIN
+  -- Locked in id order, so merges running the other way cannot deadlock
+  PERFORM 1 FROM tags
+  WHERE id IN (source_uuid, target_uuid) AND user_id = user_uuid
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT name INTO source_name FROM tags WHERE id = source_uuid AND user_id = user_uuid;
+  IF source_name IS NULL
+    OR source_uuid = target_uuid
+    OR NOT EXISTS (SELECT 1 FROM tags WHERE id = target_uuid AND user_id = user_uuid) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM tags WHERE parent_id = source_uuid) THEN
+    RAISE EXCEPTION 'Tag "%" has tags below it; merge or move them first', source_name;
+  END IF;
+
+  INSERT INTO bookmark_tags (bookmark_id, tag_id)
+  SELECT bookmark_id, target_uuid FROM bookmark_tags WHERE tag_id = source_uuid
+  ON CONFLICT (bookmark_id, tag_id) DO NOTHING;
+
+  UPDATE tag_aliases SET tag_id = target_uuid WHERE tag_id = source_uuid;
+
+  INSERT INTO tag_aliases (user_id, tag_id, name)
+  VALUES (user_uuid, target_uuid, source_name)
+  ON CONFLICT (user_id, name) DO UPDATE SET tag_id = EXCLUDED.tag_id;
+
+  -- Its remaining links go with it (ON DELETE CASCADE)
+  DELETE FROM tags WHERE id = source_uuid;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Merge `React` into `react` (use the ids of two of your tags)
+-- SELECT merge_tags('<source-tag-id>', '<target-tag-id>', 'test-user-123');   -- true
+-- SELECT name, tag_id FROM tag_aliases WHERE user_id = 'test-user-123';
+
+-- Check 2: The source's bookmarks now have the target tag, once each
+-- SELECT bookmark_id, count(*) FROM bookmark_tags WHERE tag_id = '<target-tag-id>' GROUP BY bookmark_id HAVING count(*) > 1;   -- no rows
+
+-- Check 3: Another user's tags are left alone
+-- SELECT merge_tags('<source-tag-id>', '<target-tag-id>', 'someone-else');   -- false
@@ -0,0 +1,56 @@
+-- Database Migration: Tag Colors, Icons, Descriptions and Pinning
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-tag-aliases.sql
+
+-- ============================================================================
+-- STEP 1: Add the display columns
+-- ============================================================================
+
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS color TEXT CHECK (color ~ '^#[0-9a-fA-F]{6}$');
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS icon TEXT;               -- An emoji or short symbol
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- STEP 2: Return whole tag rows from the usage counts
+-- ============================================================================
+
+-- Same counts as in database-migration-tag-tree.sql, with the tag as one
+-- column holding the whole row, so later tag columns need no change here
+DROP FUNCTION IF EXISTS get_tag_usage(TEXT);
+
+CREATE OR REPLACE FUNCTION get_tag_usage(user_uuid TEXT)
+RETURNS TABLE (
+  tag tags,
+  count BIGINT,
+  direct_count BIGINT
+) AS $$
+  SELECT t, counts.count, counts.direct_count
+  FROM tags t
+  JOIN (
+    SELECT
+      a.id,
+      COUNT(DISTINCT bt.bookmark_id) AS count,
+      COUNT(DISTINCT bt.bookmark_id) FILTER (WHERE bt.tag_id = a.id) AS direct_count
+    FROM tags a
+    JOIN tags d ON d.user_id = a.user_id AND (d.id = a.id OR starts_with(d.name, a.name || '/'))
+    LEFT JOIN bookmark_tags bt ON bt.tag_id = d.id
+    WHERE a.user_id = user_uuid
+    GROUP BY a.id
+  ) AS counts ON counts.id = t.id
+  ORDER BY t.name;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Pin a tag and give it a color
+-- UPDATE tags SET pinned = true, color = '#2e7d32', icon = '📚' WHERE user_id = 'test-user-123' AND name = 'reading';
+-- SELECT name, pinned, color, icon FROM tags WHERE user_id = 'test-user-123' ORDER BY pinned DESC, sort_order, name;
+
+-- Check 2: Colors must be hex (fails)
+-- UPDATE tags SET color = 'red' WHERE user_id = 'test-user-123' AND name = 'reading';
+
+-- Check 3: Usage rows carry the whole tag
+-- SELECT (tag).name, (tag).pinned, count, direct_count FROM get_tag_usage('test-user-123');
@@ -0,0 +1,139 @@
+-- Database Migration: Nested Tags
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-bulk.sql
+--
+-- Tags nest with slash-separated paths: `dev/frontend/react` sits under
+-- `dev/frontend`, which sits under `dev`. A tag's name stays its full path;
+-- parent_id links it to the tag one level up, and saving a tag creates the
+-- tags above it that do not exist yet.
+
+-- ============================================================================
+-- STEP 1: Link tags to their parent
+-- ============================================================================
+
+-- Deleting a tag deletes the tags below it
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES tags(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_tags_parent_id ON tags(parent_id);
+
+-- ============================================================================
+-- STEP 2: Remove links to deleted tags along with the tags
+-- ============================================================================
+
+-- Links left behind by tags deleted before this migration
+DELETE FROM bookmark_tags WHERE tag_id NOT IN (SELECT id FROM tags);
+
+ALTER TABLE bookmark_tags DROP CONSTRAINT IF EXISTS bookmark_tags_tag_id_fkey;
+ALTER TABLE bookmark_tags
+  ADD CONSTRAINT bookmark_tags_tag_id_fkey FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE;
+
+-- ============================================================================
+-- STEP 3: Keep parent_id in step with the name
+-- ============================================================================
+
+-- Creates the parent tag when it is missing (which in turn creates its own
+-- parent) and points parent_id at it. A tag cannot be moved below itself.
+CREATE OR REPLACE FUNCTION set_tag_parent()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent_name TEXT := regexp_replace(NEW.name, '/[^/]*$', '');
+BEGIN
+  IF TG_OP = 'UPDATE' AND starts_with(NEW.name, OLD.name || '/') THEN
+    RAISE EXCEPTION 'Cannot move tag "%" below itself', OLD.name;
+  END IF;
+
+  IF position('/' IN NEW.name) = 0 OR parent_name = '' THEN
+    NEW.parent_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO tags (user_id, name) VALUES (NEW.user_id, parent_name)
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  SELECT id INTO NEW.parent_id FROM tags WHERE user_id = NEW.user_id AND name = parent_name;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tags_set_parent ON tags;
+CREATE TRIGGER tags_set_parent
+  BEFORE INSERT OR UPDATE OF name ON tags
+  FOR EACH ROW EXECUTE FUNCTION set_tag_parent();
+
+-- Renaming a tag renames the tags below it: `dev` to `code` turns
+-- `dev/frontend` into `code/frontend`. Each child's own update renames its
+-- children in turn.
+CREATE OR REPLACE FUNCTION rename_tag_children()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE tags
+  SET name = NEW.name || substr(name, length(OLD.name) + 1)
+  WHERE parent_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tags_rename_children ON tags;
+CREATE TRIGGER tags_rename_children
+  AFTER UPDATE OF name ON tags
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION rename_tag_children();
+
+-- ============================================================================
+-- STEP 4: Link existing slash-named tags
+-- ============================================================================
+
+-- Fires the trigger above for every nested tag, creating missing parents
+UPDATE tags SET name = name WHERE position('/' IN name) > 0;
+
+-- ============================================================================
+-- STEP 5: Tag usage counted up the tree
+-- ============================================================================
+
+-- count is the number of bookmarks on the tag or any tag below it (each
+-- bookmark once); direct_count only those on the tag itself
+CREATE OR REPLACE FUNCTION get_tag_usage(user_uuid TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id TEXT,
+  name TEXT,
+  parent_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  count BIGINT,
+  direct_count BIGINT
+) AS $$
+  SELECT
+    t.id,
+    t.user_id,
+    t.name,
+    t.parent_id,
+    t.created_at,
+    COUNT(DISTINCT bt.bookmark_id) AS count,
+    COUNT(DISTINCT bt.bookmark_id) FILTER (WHERE bt.tag_id = t.id) AS direct_count
+  FROM tags t
+  JOIN tags d ON d.user_id = t.user_id AND (d.id = t.id OR starts_with(d.name, t.name || '/'))
+  LEFT JOIN bookmark_tags bt ON bt.tag_id = d.id
+  WHERE t.user_id = user_uuid
+  GROUP BY t.id
+  ORDER BY t.name;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Saving a nested tag creates its parents
+-- INSERT INTO tags (user_id, name) VALUES ('test-user-123', 'dev/frontend/react');
+-- SELECT name, parent_id FROM tags WHERE user_id = 'test-user-123' AND starts_with(name, 'dev');
+
+-- Check 2: Renaming a parent renames its children
+-- UPDATE tags SET name = 'code' WHERE user_id = 'test-user-123' AND name = 'dev';
+-- SELECT name FROM tags WHERE user_id = 'test-user-123' AND starts_with(name, 'code');   -- code, code/frontend, code/frontend/react
+
+-- Check 3: Counts include the tags below
+-- SELECT name, count, direct_count FROM get_tag_usage('test-user-123');
+
+-- Check 4: Deleting a parent deletes its children
+-- DELETE FROM tags WHERE user_id = 'test-user-123' AND name = 'code';
+-- SELECT count(*) FROM tags WHERE user_id = 'test-user-123' AND starts_with(name, 'code');   -- 0
@@ -0,0 +1,86 @@
+-- Database Migration: Atomic Tag Writes
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-ownership.sql
+--
+-- Tagging a bookmark used to take several requests per tag, so a failure
+-- midway left a bookmark with some of its tags. These functions write a whole
+-- tag list in one call, inside one transaction.
+
+-- ============================================================================
+-- STEP 1: Set or add a bookmark's tags
+-- ============================================================================
+
+-- Creates the tags the user does not have yet and links all of them to the
+-- bookmark. With replace_existing, links to tags not in the list are removed
+-- too. Returns false (and changes nothing) unless the bookmark is the user's.
+CREATE OR REPLACE FUNCTION set_bookmark_tags(
+  bookmark_uuid UUID,
+  user_uuid TEXT,
+  tag_names TEXT[],
+  replace_existing BOOLEAN DEFAULT true
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Concurrent writes to the same bookmark's tags run one after the other
+  PERFORM 1 FROM bookmarks WHERE id = bookmark_uuid AND user_id = user_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO tags (user_id, name)
+  SELECT DISTINCT user_uuid, name FROM unnest(tag_names) AS name
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  IF replace_existing THEN
+    DELETE FROM bookmark_tags
+    WHERE bookmark_id = bookmark_uuid
+      AND tag_id NOT IN (SELECT id FROM tags WHERE user_id = user_uuid AND name = ANY(tag_names));
+  END IF;
+
+  INSERT INTO bookmark_tags (bookmark_id, tag_id)
+  SELECT bookmark_uuid, id FROM tags WHERE user_id = user_uuid AND name = ANY(tag_names)
+  ON CONFLICT (bookmark_id, tag_id) DO NOTHING;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- STEP 2: Remove tags from a bookmark
+-- ============================================================================
+
+-- Names the user has no tag for are ignored. Returns false unless the bookmark
+-- is the user's.
+CREATE OR REPLACE FUNCTION remove_bookmark_tags(
+  bookmark_uuid UUID,
+  user_uuid TEXT,
+  tag_names TEXT[]
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1 FROM bookmarks WHERE id = bookmark_uuid AND user_id = user_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM bookmark_tags
+  WHERE bookmark_id = bookmark_uuid
+    AND tag_id IN (SELECT id FROM tags WHERE user_id = user_uuid AND name = ANY(tag_names));
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Replacing keeps only the listed tags (use one of your bookmark ids)
+-- SELECT set_bookmark_tags('<bookmark-id>', 'test-user-123', ARRAY['react', 'hooks']);
+-- SELECT tags FROM bookmarks_with_tags WHERE id = '<bookmark-id>';   -- {hooks,react}
+
+-- Check 2: Adding keeps the existing tags
+-- SELECT set_bookmark_tags('<bookmark-id>', 'test-user-123', ARRAY['frontend'], false);
+-- SELECT tags FROM bookmarks_with_tags WHERE id = '<bookmark-id>';   -- {frontend,hooks,react}
+
+-- Check 3: Another user's bookmark is left alone
+-- SELECT set_bookmark_tags('<bookmark-id>', 'someone-else', ARRAY['x']);   -- false
@@ -0,0 +1,65 @@
+-- Database Migration: Soft Delete (Trash) for Bookmarks
+-- Execute this SQL in your Supabase SQL editor AFTER database-migration-tags.sql
+
+-- ============================================================================
+-- STEP 1: Add soft delete column
+-- ============================================================================
+
+-- Deleted bookmarks keep their row (and tags) until the trash is purged
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Track the last edit made through PATCH /api/bookmarks/:id
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================================
+-- STEP 2: Create indexes for performance
+-- ============================================================================
+
+-- Most queries only look at live bookmarks
+CREATE INDEX IF NOT EXISTS idx_bookmarks_live ON bookmarks(user_id, created_at DESC)
+  WHERE deleted_at IS NULL;
+
+-- Trash listing and purging
+CREATE INDEX IF NOT EXISTS idx_bookmarks_deleted_at ON bookmarks(user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- ============================================================================
+-- STEP 3: Allow updates and deletes on bookmarks
+-- ============================================================================
+
+CREATE POLICY "Users can update their own bookmarks" ON bookmarks
+  FOR UPDATE USING (true); -- For MVP, allow all updates
+
+CREATE POLICY "Users can delete their own bookmarks" ON bookmarks
+  FOR DELETE USING (true); -- For MVP, allow all deletes
+
+-- ============================================================================
+-- STEP 4: Recreate the bookmarks_with_tags view
+-- ============================================================================
+
+-- The view expands b.* when it is created, so it has to be rebuilt to expose
+-- the new columns. Grouping by the primary key keeps it valid when more
+-- columns are added later.
+DROP VIEW IF EXISTS bookmarks_with_tags;
+
+CREATE VIEW bookmarks_with_tags AS
+SELECT
+  b.*,
+  COALESCE(
+    array_agg(t.name ORDER BY t.name) FILTER (WHERE t.name IS NOT NULL),
+    '{}'::text[]
+  ) as tags
+FROM bookmarks b
+LEFT JOIN bookmark_tags bt ON b.id = bt.bookmark_id
+LEFT JOIN tags t ON bt.tag_id = t.id
+GROUP BY b.id;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Check 1: Live vs trashed bookmark counts
+-- SELECT
+--   COUNT(*) FILTER (WHERE deleted_at IS NULL) as live,
+--   COUNT(*) FILTER (WHERE deleted_at IS NOT NULL) as trashed
+-- FROM bookmarks;
@@ -0,0 +1,58 @@
+import { ApiError, createApiClient } from '@save-your-stuff/shared';
+import { API_URL } from './config';
+
+// The session token from signing in (or a personal access token) is kept in
+// extension storage, so the popup stays signed in between openings.
+
+const TOKEN_KEY = 'authToken';
+
+let token: string | null = null;
+
+// Sends the stored token with every request
+export const api = createApiClient({ baseUrl: API_URL, getToken: () => token });
+
+// Reads the stored token; true when there is one
+export const loadSession = async (): Promise<boolean> => {
+  const stored = await chrome.storage.local.get(TOKEN_KEY);
+  token = stored[TOKEN_KEY] || null;
+  return token !== null;
+};
+
+export const clearSession = async (): Promise<void> => {
+  token = null;
+  await chrome.storage.local.remove(TOKEN_KEY);
+};
+
+export const signIn = async (email: string, password: string): Promise<void> => {
+  const session = await api.auth.login({ email, password });
+
+  token = session.token;
+  await chrome.storage.local.set({ [TOKEN_KEY]: token });
+};
+
+// A personal access token (with bookmarks:write and tags:read) instead of
+// an email and password; checked before it is stored
+export const signInWithToken = async (accessToken: string): Promise<void> => {
+  try {
+    await createApiClient({ baseUrl: API_URL, getToken: () => accessToken }).auth.me();
+  } catch (error) {
+    if (error instanceof ApiError && error.status !== 0) {
+      throw new Error('This token is not valid');
+    }
+    throw error;
+  }
+
+  token = accessToken;
+  await chrome.storage.local.set({ [TOKEN_KEY]: token });
+};
+
+export const signOut = async (): Promise<void> => {
+  try {
+    await api.auth.logout();
+  } catch (error) {
+    // Access tokens have no session to end; either way the token is forgotten
+    console.error('Failed to end session:', error);
+  } finally {
+    await clearSession();
+  }
+};
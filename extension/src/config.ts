@@ -1,2 +1 @@
 export const API_URL = process.env.API_URL || 'http://localhost:3000/api';
-export const USER_ID = 'test-user-123'; // In production, this would come from auth
@@ -1,16 +1,15 @@
-import { API_URL, USER_ID } from './config';
-
-interface Category {
-  id: string;
-  name: string;
-}
+import { ApiError, Bookmark, CreateBookmarkDto, Tag, UpdateBookmarkDto } from '@save-your-stuff/shared';
+import { api, clearSession, loadSession, signIn, signOut, signInWithToken } from './auth';
 
 class TagsComponent {
   private tagsInput: HTMLInputElement;
   private selectedTagsContainer: HTMLElement;
   private dropdown: HTMLElement;
+  private suggestionsContainer: HTMLElement;
   private selectedTags: string[] = [];
-  private availableTags: string[] = [];
+  private suggestedTags: string[] = []; // Best first, from GET /api/tags/suggest
+  private availableTags: string[] = []; // Pinned tags first, as the API lists them
+  private tagDetails = new Map<string, Tag>(); // Color, icon and description by name
   private filteredTags: string[] = [];
   private highlightedIndex = -1;
 
@@ -18,6 +17,7 @@ class TagsComponent {
     this.tagsInput = document.getElementById('tagsInput') as HTMLInputElement;
     this.selectedTagsContainer = document.getElementById('selectedTags') as HTMLElement;
     this.dropdown = document.getElementById('tagsDropdown') as HTMLElement;
+    this.suggestionsContainer = document.getElementById('suggestedTags') as HTMLElement;
     
     this.initializeEventListeners();
   }
@@ -37,49 +37,50 @@ class TagsComponent {
 
   async loadExistingTags() {
     try {
-      // Try to load from new tags endpoint first
-      const response = await fetch(`${API_URL}/tags`, {
-        headers: {
-          'x-user-id': USER_ID,
-        },
-      });
-      const result = await response.json();
-
-      if (result.success && result.data) {
-        this.availableTags = result.data.map((tag: Category) => tag.name);
-      } else {
-        // Fallback to categories endpoint for backward compatibility
-        const categoryResponse = await fetch(`${API_URL}/categories`, {
-          headers: {
-            'x-user-id': USER_ID,
-          },
-        });
-        const categoryResult = await categoryResponse.json();
-
-        if (categoryResult.success && categoryResult.data) {
-          this.availableTags = categoryResult.data.map((category: Category) => category.name);
-        }
-      }
+      const tags = await api.tags.getAll();
+      this.availableTags = tags.map(tag => tag.name);
+      this.tagDetails = new Map(tags.map(tag => [tag.name, tag]));
     } catch (error) {
       console.error('Failed to load tags:', error);
-      // Try fallback to categories in case of error
+      // Fallback to categories endpoint for backward compatibility
       try {
-        const categoryResponse = await fetch(`${API_URL}/categories`, {
-          headers: {
-            'x-user-id': USER_ID,
-          },
-        });
-        const categoryResult = await categoryResponse.json();
-
-        if (categoryResult.success && categoryResult.data) {
-          this.availableTags = categoryResult.data.map((category: Category) => category.name);
-        }
+        const categories = await api.categories.getAll();
+        this.availableTags = categories.map(category => category.name);
       } catch (fallbackError) {
         console.error('Failed to load categories as fallback:', fallbackError);
       }
     }
   }
 
+  // Suggestions for the page are shown as chips that add the tag in one click
+  async loadSuggestions(url: string | undefined, title: string | undefined) {
+    try {
+      const suggestions = await api.tags.suggest({ url, title, limit: 8 });
+      suggestions.forEach(({ tag }) => this.tagDetails.set(tag.name, tag));
+      this.suggestedTags = suggestions.map(({ tag }) => tag.name);
+      this.renderSuggestions();
+    } catch (error) {
+      // Servers without suggestions still get the tag list autocomplete
+      console.error('Failed to load tag suggestions:', error);
+    }
+  }
+
+  private renderSuggestions() {
+    this.suggestionsContainer.innerHTML = '';
+    const tags = this.suggestedTags.filter(tag => !this.selectedTags.includes(tag));
+
+    tags.forEach(tag => {
+      const chip = document.createElement('button');
+      chip.type = 'button';
+      chip.className = 'tag-suggestion-chip';
+      this.renderTagLabel(chip, tag);
+      chip.addEventListener('click', () => this.addTag(tag));
+      this.suggestionsContainer.appendChild(chip);
+    });
+
+    this.suggestionsContainer.style.display = tags.length > 0 ? 'flex' : 'none';
+  }
+
   private handleInput(e: Event | null) {
     const value = this.tagsInput.value.toLowerCase().trim();
     
@@ -103,7 +104,8 @@ class TagsComponent {
       this.filteredTags.forEach((tag, index) => {
         const item = document.createElement('div');
         item.className = 'tag-suggestion';
-        item.textContent = tag;
+        item.dataset.tag = tag;
+        this.renderTagLabel(item, tag);
         item.addEventListener('mousedown', (e) => {
           e.preventDefault();
           this.addTag(tag);
@@ -116,6 +118,7 @@ class TagsComponent {
         !this.selectedTags.some(tag => tag.toLowerCase() === inputValue.toLowerCase())) {
       const createItem = document.createElement('div');
       createItem.className = 'tag-suggestion create-new';
+      createItem.dataset.tag = inputValue;
       createItem.textContent = `Create "${inputValue}"`;
       createItem.addEventListener('mousedown', (e) => {
         e.preventDefault();
@@ -144,10 +147,7 @@ class TagsComponent {
       case 'Enter':
         e.preventDefault();
         if (this.highlightedIndex >= 0 && items[this.highlightedIndex]) {
-          const text = items[this.highlightedIndex].textContent || '';
-          const tagName = text.startsWith('Create "') ? 
-            text.slice(8, -1) : text;
-          this.addTag(tagName);
+          this.addTag((items[this.highlightedIndex] as HTMLElement).dataset.tag || '');
         } else {
           const value = this.tagsInput.value.trim();
           if (value) {
@@ -186,6 +186,7 @@ class TagsComponent {
     if (trimmedTag && !this.selectedTags.includes(trimmedTag)) {
       this.selectedTags.push(trimmedTag);
       this.renderSelectedTags();
+      this.renderSuggestions();
       this.tagsInput.value = '';
       this.hideDropdown();
       
@@ -198,6 +199,7 @@ class TagsComponent {
   private removeTag(tagName: string) {
     this.selectedTags = this.selectedTags.filter(tag => tag !== tagName);
     this.renderSelectedTags();
+    this.renderSuggestions();
   }
 
   private renderSelectedTags() {
@@ -205,15 +207,38 @@ class TagsComponent {
     this.selectedTags.forEach(tag => {
       const tagElement = document.createElement('span');
       tagElement.className = 'tag';
-      tagElement.innerHTML = `${tag}<span class="tag-remove">×</span>`;
-      
-      const removeBtn = tagElement.querySelector('.tag-remove') as HTMLElement;
+      this.renderTagLabel(tagElement, tag);
+
+      const removeBtn = document.createElement('span');
+      removeBtn.className = 'tag-remove';
+      removeBtn.textContent = '×';
       removeBtn.addEventListener('click', () => this.removeTag(tag));
+      tagElement.appendChild(removeBtn);
       
       this.selectedTagsContainer.appendChild(tagElement);
     });
   }
 
+  // Appends the tag's color dot, icon and name; its description becomes the tooltip
+  private renderTagLabel(element: HTMLElement, tagName: string) {
+    const tag = this.tagDetails.get(tagName);
+
+    if (tag?.color) {
+      const dot = document.createElement('span');
+      dot.className = 'tag-color-dot';
+      dot.style.background = tag.color;
+      element.appendChild(dot);
+    }
+    if (tag?.icon) {
+      const icon = document.createElement('span');
+      icon.className = 'tag-icon';
+      icon.textContent = tag.icon;
+      element.appendChild(icon);
+    }
+    element.appendChild(document.createTextNode(tagName));
+    if (tag?.description) element.title = tag.description;
+  }
+
   private showDropdown() {
     if (this.dropdown.children.length > 0) {
       this.dropdown.style.display = 'block';
@@ -243,8 +268,68 @@ if ((window as any).popupInitialized) {
   const form = document.getElementById('bookmarkForm') as HTMLFormElement;
   const titleInput = document.getElementById('title') as HTMLInputElement;
   const summaryInput = document.getElementById('summary') as HTMLTextAreaElement;
+  const archiveInput = document.getElementById('archive') as HTMLInputElement;
   const saveBtn = document.getElementById('saveBtn') as HTMLButtonElement;
   const messageDiv = document.getElementById('message') as HTMLDivElement;
+  const duplicateNotice = document.getElementById('duplicateNotice') as HTMLDivElement;
+  const duplicateText = document.getElementById('duplicateText') as HTMLParagraphElement;
+  const updateExistingBtn = document.getElementById('updateExistingBtn') as HTMLButtonElement;
+  const loginForm = document.getElementById('loginForm') as HTMLFormElement;
+  const emailInput = document.getElementById('email') as HTMLInputElement;
+  const passwordInput = document.getElementById('password') as HTMLInputElement;
+  const loginBtn = document.getElementById('loginBtn') as HTMLButtonElement;
+  const signOutBtn = document.getElementById('signOutBtn') as HTMLButtonElement;
+  const showTokenFormBtn = document.getElementById('showTokenFormBtn') as HTMLButtonElement;
+  const tokenForm = document.getElementById('tokenForm') as HTMLFormElement;
+  const accessTokenInput = document.getElementById('accessToken') as HTMLInputElement;
+  const tokenBtn = document.getElementById('tokenBtn') as HTMLButtonElement;
+
+  loginForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    loginBtn.disabled = true;
+    loginBtn.textContent = 'Signing in...';
+
+    try {
+      await signIn(emailInput.value, passwordInput.value);
+      // Start over with the bookmark form, now that requests are authenticated
+      window.location.reload();
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : 'Failed to sign in', 'error');
+      loginBtn.disabled = false;
+      loginBtn.textContent = 'Sign In';
+    }
+  });
+
+  showTokenFormBtn.addEventListener('click', () => {
+    loginForm.style.display = 'none';
+    tokenForm.style.display = 'block';
+  });
+
+  tokenForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    tokenBtn.disabled = true;
+
+    try {
+      await signInWithToken(accessTokenInput.value.trim());
+      window.location.reload();
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : 'Failed to use token', 'error');
+      tokenBtn.disabled = false;
+    }
+  });
+
+  signOutBtn.addEventListener('click', async () => {
+    await signOut();
+    showLogin();
+  });
+
+  if (!(await loadSession())) {
+    showLogin();
+    return;
+  }
+
+  form.style.display = 'block';
+  signOutBtn.style.display = 'block';
 
   const tagsComponent = new TagsComponent();
   await tagsComponent.loadExistingTags();
@@ -256,7 +341,11 @@ if ((window as any).popupInitialized) {
     titleInput.value = tab.title;
   }
 
+  // Not awaited: the form is usable while suggestions load
+  tagsComponent.loadSuggestions(tab.url, tab.title);
+
   let isSubmitting = false;
+  let existingBookmark: Bookmark | null = null;
 
   // Handle form submission
   form.addEventListener('submit', async (e) => {
@@ -273,39 +362,32 @@ if ((window as any).popupInitialized) {
 
     try {
       const selectedTags = tagsComponent.getSelectedTags();
-      const requestBody: any = {
-        url: tab.url,
+      const bookmarkData: CreateBookmarkDto = {
+        url: tab.url || '',
         title: titleInput.value,
         summary: summaryInput.value || undefined,
+        archive: archiveInput.checked,
       };
 
       // Send tags array (new system)
       if (selectedTags.length > 0) {
-        requestBody.tags = selectedTags;
+        bookmarkData.tags = selectedTags;
       }
 
-      const response = await fetch(`${API_URL}/bookmarks`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': USER_ID,
-        },
-        body: JSON.stringify(requestBody),
-      });
+      const bookmark = await api.bookmarks.create(bookmarkData);
 
-      const result = await response.json();
-
-      if (result.success) {
+      if (bookmark.duplicate) {
+        // The page was saved before; let the user decide whether to update it
+        existingBookmark = bookmark;
+        showDuplicateNotice(existingBookmark);
+      } else {
         showMessage('Saved successfully!', 'success');
         setTimeout(() => {
           window.close();
         }, 1500);
-      } else {
-        showMessage(result.error || 'Failed to save', 'error');
       }
     } catch (error) {
-      showMessage('Failed to save', 'error');
-      console.error(error);
+      await handleError(error, 'Failed to save');
     } finally {
       isSubmitting = false;
       saveBtn.disabled = false;
@@ -313,6 +395,80 @@ if ((window as any).popupInitialized) {
     }
   });
 
+  // Apply the form to the existing bookmark: new title and summary, tags merged
+  updateExistingBtn.addEventListener('click', async () => {
+    if (!existingBookmark || isSubmitting) {
+      return;
+    }
+
+    isSubmitting = true;
+    updateExistingBtn.disabled = true;
+    updateExistingBtn.textContent = 'Updating...';
+
+    try {
+      const mergedTags = Array.from(new Set([
+        ...(existingBookmark.tags || []),
+        ...tagsComponent.getSelectedTags(),
+      ]));
+
+      const updates: UpdateBookmarkDto = {
+        title: titleInput.value,
+        tags: mergedTags,
+      };
+
+      // An empty summary field should not wipe the saved one
+      if (summaryInput.value) {
+        updates.summary = summaryInput.value;
+      }
+
+      await api.bookmarks.update(existingBookmark.id, updates);
+
+      duplicateNotice.style.display = 'none';
+      showMessage('Updated existing bookmark!', 'success');
+      setTimeout(() => {
+        window.close();
+      }, 1500);
+    } catch (error) {
+      await handleError(error, 'Failed to update');
+    } finally {
+      isSubmitting = false;
+      updateExistingBtn.disabled = false;
+      updateExistingBtn.textContent = 'Update Existing';
+    }
+  });
+
+  function showLogin() {
+    form.style.display = 'none';
+    duplicateNotice.style.display = 'none';
+    signOutBtn.style.display = 'none';
+    tokenForm.style.display = 'none';
+    loginForm.style.display = 'block';
+  }
+
+  // The stored session expired or was signed out elsewhere
+  async function handleUnauthorized() {
+    await clearSession();
+    showLogin();
+    showMessage('Your session has expired. Please sign in again.', 'error');
+  }
+
+  // Server errors are shown as they come; anything else gets the fallback text
+  async function handleError(error: unknown, fallback: string) {
+    if (error instanceof ApiError && error.status === 401) {
+      await handleUnauthorized();
+      return;
+    }
+    console.error(error);
+    showMessage(error instanceof ApiError ? error.message : fallback, 'error');
+  }
+
+  function showDuplicateNotice(bookmark: Bookmark) {
+    const savedOn = new Date(bookmark.created_at).toLocaleDateString();
+    duplicateText.textContent = `You already saved this page on ${savedOn} as "${bookmark.title}".`;
+    duplicateNotice.style.display = 'block';
+    messageDiv.style.display = 'none';
+  }
+
   function showMessage(text: string, type: 'success' | 'error') {
     messageDiv.textContent = text;
     messageDiv.className = `message ${type}`;
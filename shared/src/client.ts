@@ -0,0 +1,278 @@
+import {
+  ApiResponse,
+  ApplyRulesRequest,
+  ApplyRulesResult,
+  AuthSession,
+  Bookmark,
+  BookmarkArchive,
+  BookmarkFilters,
+  BookmarkPage,
+  BookmarkRule,
+  BulkBookmarkRequest,
+  BulkResult,
+  Category,
+  Collection,
+  CreateCollectionDto,
+  CreateBookmarkDto,
+  CreatedToken,
+  CreateRuleDto,
+  CreateTokenDto,
+  FieldError,
+  ImportJob,
+  ImportPreview,
+  ImportSource,
+  LibraryFormat,
+  LoginDto,
+  PersonalAccessToken,
+  RegisterDto,
+  Tag,
+  TagAlias,
+  TagMergeSuggestion,
+  TagStats,
+  TagSuggestion,
+  UpdateBookmarkDto,
+  UpdateCollectionDto,
+  UpdateRuleDto,
+  UpdateTagDto,
+  User,
+} from './types';
+
+export interface ApiClientOptions {
+  baseUrl: string; // Including the /api prefix, e.g. http://localhost:3000/api
+  getToken?: () => string | null; // Session or personal access token, sent as a bearer token
+  onUnauthorized?: () => void; // Called when the server rejects the token that was sent
+}
+
+// A request the server refused (or could not be sent); message is the
+// server's `error`, so it can be shown as is
+export class ApiError extends Error {
+  status: number; // 0 when the server could not be reached
+  details: FieldError[]; // Invalid fields, for 400 responses
+
+  constructor(message: string, status: number, details: FieldError[] = []) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+type QueryValue = string | number | boolean | string[] | undefined | null;
+
+interface RequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown; // Sent as JSON unless contentType is given
+  contentType?: string; // For raw bodies such as import files
+}
+
+const IMPORT_CONTENT_TYPES: Record<ImportSource, string> = {
+  netscape: 'text/html',
+  json: 'application/json',
+  csv: 'text/csv',
+  pocket: 'text/plain', // HTML or CSV
+  pinboard: 'application/json',
+  raindrop: 'text/csv',
+};
+
+// Arrays are sent comma-separated, which is how the API reads `tags`
+const toQueryString = (query: Record<string, QueryValue> = {}): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+};
+
+export const createApiClient = ({ baseUrl, getToken, onUnauthorized }: ApiClientOptions) => {
+  const send = async (method: string, path: string, options: RequestOptions = {}): Promise<Response> => {
+    const token = getToken ? getToken() : null;
+    const headers: Record<string, string> = {};
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    let body: BodyInit | undefined;
+    if (options.body !== undefined) {
+      headers['Content-Type'] = options.contentType || 'application/json';
+      body = options.contentType ? (options.body as BodyInit) : JSON.stringify(options.body);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}${toQueryString(options.query)}`, { method, headers, body });
+    } catch {
+      throw new ApiError('Could not reach the server', 0);
+    }
+
+    if (!response.ok) {
+      if (response.status === 401 && token && onUnauthorized) {
+        onUnauthorized();
+      }
+      const result: ApiResponse | null = await response.json().catch(() => null);
+      throw new ApiError(result?.error || 'An error occurred', response.status, result?.details);
+    }
+
+    return response;
+  };
+
+  const request = async <T>(method: string, path: string, options?: RequestOptions): Promise<ApiResponse<T>> =>
+    (await send(method, path, options)).json();
+
+  // The `data` of a successful response
+  const data = async <T>(method: string, path: string, options?: RequestOptions): Promise<T> =>
+    (await request<T>(method, path, options)).data as T;
+
+  const list = async <T>(path: string, query?: Record<string, QueryValue>): Promise<T[]> =>
+    (await data<T[]>('GET', path, { query })) || [];
+
+  const upload = <T>(path: string, file: Blob | string, source: ImportSource): Promise<T> =>
+    data<T>('POST', path, { body: file, contentType: IMPORT_CONTENT_TYPES[source] });
+
+  return {
+    auth: {
+      register: (dto: RegisterDto) => data<AuthSession>('POST', '/auth/register', { body: dto }),
+      login: (dto: LoginDto) => data<AuthSession>('POST', '/auth/login', { body: dto }),
+      logout: async (): Promise<void> => {
+        await send('POST', '/auth/logout');
+      },
+      me: () => data<User>('GET', '/auth/me'),
+    },
+
+    bookmarks: {
+      // An already saved URL returns the existing bookmark with `duplicate: true`
+      create: (dto: CreateBookmarkDto) => data<Bookmark>('POST', '/bookmarks', { body: dto }),
+
+      getAll: async (filters: BookmarkFilters = {}): Promise<BookmarkPage> => {
+        const result = await request<Bookmark[]>('GET', '/bookmarks', { query: { ...filters } });
+        return {
+          bookmarks: result.data || [],
+          nextCursor: result.pagination?.nextCursor ?? null,
+          hasMore: result.pagination?.hasMore ?? false,
+          total: result.pagination?.total,
+        };
+      },
+
+      search: (query: string, filters: Partial<BookmarkFilters> = {}) =>
+        list<Bookmark>('/bookmarks', { ...filters, search: query }),
+
+      getById: (id: string) => data<Bookmark>('GET', `/bookmarks/${id}`),
+
+      updateTags: (id: string, tags: string[]) => data<Bookmark>('PUT', `/bookmarks/${id}/tags`, { body: { tags } }),
+
+      update: (id: string, dto: UpdateBookmarkDto) => data<Bookmark>('PATCH', `/bookmarks/${id}`, { body: dto }),
+
+      // Moves the bookmark to the trash
+      delete: async (id: string): Promise<void> => {
+        await send('DELETE', `/bookmarks/${id}`);
+      },
+
+      getTrash: (filters: Pick<BookmarkFilters, 'limit' | 'offset'> = {}) =>
+        list<Bookmark>('/bookmarks/trash', { ...filters }),
+
+      restore: (id: string) => data<Bookmark>('POST', `/bookmarks/${id}/restore`),
+
+      // Applies one action to many bookmarks in a single transaction
+      bulk: (request: BulkBookmarkRequest) => data<BulkResult>('POST', '/bookmarks/bulk', { body: request }),
+
+      emptyTrash: async (): Promise<number> =>
+        (await data<{ purged: number }>('DELETE', '/bookmarks/trash'))?.purged || 0,
+
+      getArchive: (id: string) => data<BookmarkArchive>('GET', `/bookmarks/${id}/archive`),
+
+      // Fetches the page now and replaces any previous offline copy
+      captureArchive: (id: string) => data<BookmarkArchive>('POST', `/bookmarks/${id}/archive`),
+
+      checkLink: (id: string) => data<Bookmark>('POST', `/bookmarks/${id}/check-link`),
+
+      // Replaces the URL with the one it now redirects to
+      applyRedirect: (id: string) => data<Bookmark>('POST', `/bookmarks/${id}/apply-redirect`),
+    },
+
+    tags: {
+      getAll: (search?: string) => list<Tag>('/tags', { search }),
+      search: (query: string) => list<Tag>('/tags', { search: query }),
+      create: (name: string) => data<Tag>('POST', '/tags', { body: { name } }),
+      update: (id: string, updates: UpdateTagDto) => data<Tag>('PUT', `/tags/${id}`, { body: updates }),
+      delete: async (id: string): Promise<void> => {
+        await send('DELETE', `/tags/${id}`);
+      },
+      getStats: () => list<TagStats>('/tags/stats'),
+      getPopular: (limit?: number) => list<{ tag: Tag; count: number }>('/tags/popular', { limit }),
+      // Ranked tags for a page about to be saved
+      suggest: (page: { url?: string; title?: string; limit?: number }) => list<TagSuggestion>('/tags/suggest', page),
+
+      // Moves the tag's bookmarks to the target tag and deletes it; its name stays as an alias
+      merge: (id: string, targetId: string) => data<Tag>('POST', `/tags/${id}/merge`, { body: { targetId } }),
+      getMergeSuggestions: () => list<TagMergeSuggestion>('/tags/merge-suggestions'),
+      getAliases: () => list<TagAlias>('/tags/aliases'),
+      deleteAlias: async (id: string): Promise<void> => {
+        await send('DELETE', `/tags/aliases/${id}`);
+      },
+    },
+
+    rules: {
+      getAll: () => list<BookmarkRule>('/rules'),
+      create: (dto: CreateRuleDto) => data<BookmarkRule>('POST', '/rules', { body: dto }),
+      update: (id: string, updates: UpdateRuleDto) => data<BookmarkRule>('PUT', `/rules/${id}`, { body: updates }),
+      delete: async (id: string): Promise<void> => {
+        await send('DELETE', `/rules/${id}`);
+      },
+      // Previews the rules on saved bookmarks; pass dry_run: false to write the changes
+      apply: (request: ApplyRulesRequest = {}) => data<ApplyRulesResult>('POST', '/rules/apply', { body: request }),
+    },
+
+    // A collection's bookmarks are read with bookmarks.getAll({ collection: id })
+    collections: {
+      getAll: () => list<Collection>('/collections'),
+      getById: (id: string) => data<Collection>('GET', `/collections/${id}`),
+      create: (dto: CreateCollectionDto) => data<Collection>('POST', '/collections', { body: dto }),
+      update: (id: string, updates: UpdateCollectionDto) =>
+        data<Collection>('PUT', `/collections/${id}`, { body: updates }),
+      delete: async (id: string): Promise<void> => {
+        await send('DELETE', `/collections/${id}`);
+      },
+      // Appended at the end, in the given order; bookmarks already in it stay where they are
+      addBookmarks: (id: string, bookmarkIds: string[]) =>
+        data<Collection>('POST', `/collections/${id}/bookmarks`, { body: { bookmarkIds } }),
+      removeBookmark: async (id: string, bookmarkId: string): Promise<void> => {
+        await send('DELETE', `/collections/${id}/bookmarks/${bookmarkId}`);
+      },
+      // The listed bookmarks move to the front in that order
+      reorder: async (id: string, bookmarkIds: string[]): Promise<void> => {
+        await send('PUT', `/collections/${id}/order`, { body: { bookmarkIds } });
+      },
+    },
+
+    // Kept for clients that predate tags
+    categories: {
+      getAll: () => list<Category>('/categories'),
+      create: (name: string) => data<Category>('POST', '/categories', { body: { name } }),
+    },
+
+    tokens: {
+      getAll: () => list<PersonalAccessToken>('/tokens'),
+      create: (dto: CreateTokenDto) => data<CreatedToken>('POST', '/tokens', { body: dto }),
+      revoke: async (id: string): Promise<void> => {
+        await send('DELETE', `/tokens/${id}`);
+      },
+    },
+
+    imports: {
+      // Uploads an export file as is; the server parses it and imports it in the background
+      start: (file: Blob | string, source: ImportSource) => upload<ImportJob>(`/import/${source}`, file, source),
+      preview: (file: Blob | string, source: ImportSource) =>
+        upload<ImportPreview>(`/import/${source}/preview`, file, source),
+      getJob: (id: string) => data<ImportJob>('GET', `/import/jobs/${id}`),
+    },
+
+    exports: {
+      netscape: async (): Promise<Blob> => (await send('GET', '/export/netscape')).blob(),
+      library: async (format: LibraryFormat): Promise<Blob> =>
+        (await send('GET', '/export', { query: { format } })).blob(),
+    },
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
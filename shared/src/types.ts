@@ -0,0 +1,422 @@
+// Request and response types of the bookmarking API, shared by the backend,
+// the web app and the extension
+
+export interface User {
+  id: string;
+  email: string;
+  created_at: string;
+  name?: string;
+}
+
+export interface RegisterDto {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export interface LoginDto {
+  email: string;
+  password: string;
+}
+
+// Returned on sign-in; the token is sent back as `Authorization: Bearer <token>`
+export interface AuthSession {
+  token: string;
+  expires_at: string;
+  user: User;
+}
+
+export type TokenScope = 'bookmarks:read' | 'bookmarks:write' | 'tags:read' | 'tags:admin';
+
+export interface PersonalAccessToken {
+  id: string;
+  name: string;
+  token_prefix: string; // Start of the token, to tell tokens apart
+  scopes: TokenScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface CreateTokenDto {
+  name: string;
+  scopes: TokenScope[];
+  expires_in_days?: number; // Never expires when omitted
+}
+
+// The token itself is only returned once, when it is created
+export interface CreatedToken extends PersonalAccessToken {
+  token: string;
+}
+
+export interface Bookmark {
+  id: string;
+  user_id: string;
+  url: string;
+  canonical_url?: string | null; // Normalized url used to detect duplicates
+  title: string;
+  summary?: string;
+  category?: string; // Kept for backward compatibility during migration
+  tags?: string[]; // New tags array
+  created_at: string;
+  updated_at?: string | null;
+  deleted_at?: string | null; // Set while the bookmark is in the trash
+  search_rank?: number; // Only set on search results
+  matched_fields?: SearchField[]; // Which fields matched the search query
+  highlights?: SearchHighlights; // Matches wrapped in <mark></mark>
+  duplicate?: boolean; // Set by POST /api/bookmarks when the URL was already saved
+  metadata?: PageMetadata | null; // Filled in by the enrichment worker after saving
+  enrichment_status?: EnrichmentStatus;
+  archive_status?: ArchiveStatus | null; // null when no offline copy was requested
+  archived_at?: string | null;
+  link_health?: LinkHealth | null; // null until the link checker has seen the URL
+  link_status_code?: number | null;
+  link_redirect_url?: string | null; // Where the URL redirects to when link_health is 'redirected'
+  link_checked_at?: string | null;
+  link_failures?: number;
+}
+
+export type LinkHealth = 'ok' | 'redirected' | 'broken';
+
+export type EnrichmentStatus = 'pending' | 'done' | 'failed';
+
+// Extracted from the saved page; every field is null when the page does not provide it
+export interface PageMetadata {
+  title: string | null; // OpenGraph title, falling back to <title>
+  description: string | null;
+  canonical_url: string | null; // As declared by the page (<link rel="canonical"> or og:url)
+  image_url: string | null;
+  favicon_url: string | null;
+  site_name: string | null;
+  language: string | null;
+  published_at: string | null;
+}
+
+export type ArchiveStatus = 'pending' | 'done' | 'failed';
+
+// Offline copy of the page's readable content, from GET /api/bookmarks/:id/archive
+export interface BookmarkArchive {
+  bookmark_id: string;
+  user_id: string;
+  source_url: string; // Final URL the content was captured from
+  title: string | null;
+  byline: string | null;
+  excerpt: string | null;
+  content_html: string; // Sanitized on capture
+  content_text: string;
+  word_count: number;
+  captured_at: string;
+}
+
+export type SearchField = 'title' | 'summary' | 'url' | 'content';
+
+export interface SearchHighlights {
+  title?: string;
+  summary?: string;
+  url?: string;
+  content?: string; // Snippet from the archived page text
+}
+
+export interface CreateBookmarkDto {
+  url: string;
+  title: string;
+  summary?: string;
+  category?: string; // Kept for backward compatibility
+  tags?: string[]; // New tags array
+  archive?: boolean; // Keep an offline copy of the page (default ARCHIVE_BY_DEFAULT)
+}
+
+export type ImportItemStatus = 'created' | 'duplicate' | 'failed';
+
+export interface ImportItemResult {
+  index: number; // Position in the import file
+  url: string;
+  title: string;
+  status: ImportItemStatus;
+  bookmark_id?: string; // The new bookmark, or the existing one for duplicates
+  error?: string;
+}
+
+// Dry run of an import: counts, plus the items that would not be created
+// (duplicates and failures). Copies within the file have no bookmark_id.
+export interface ImportPreview {
+  total: number;
+  new: number;
+  duplicates: number;
+  failed: number;
+  conflicts: ImportItemResult[];
+}
+
+export type ImportSource = 'netscape' | 'json' | 'csv' | 'pocket' | 'pinboard' | 'raindrop';
+
+export type LibraryFormat = 'json' | 'csv';
+
+export type ImportJobStatus = 'running' | 'done' | 'failed';
+
+// A background import; the counters grow batch by batch and items is filled
+// in once the job has finished
+export interface ImportJob {
+  id: string;
+  user_id: string;
+  source: ImportSource;
+  status: ImportJobStatus;
+  total: number;
+  processed: number;
+  created: number;
+  duplicates: number;
+  failed: number;
+  items: ImportItemResult[] | null;
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export interface UpdateBookmarkDto {
+  title?: string;
+  summary?: string;
+  category?: string; // Kept for backward compatibility
+  tags?: string[]; // New tags array
+}
+
+export interface BookmarkFilters {
+  search?: string;
+  category?: string; // Kept for backward compatibility
+  tags?: string[]; // Bookmarks must have ALL of these tags
+  tagQuery?: string; // Boolean tag query, e.g. `tag:react AND (tag:hooks OR tag:perf) NOT tag:archived`
+  startDate?: string;
+  endDate?: string;
+  health?: LinkHealth; // Result of the last link check
+  collection?: string; // Collection id; browsing lists the bookmarks in the collection's order
+  limit?: number;
+  offset?: number; // Legacy paging, prefer cursor
+  cursor?: string; // Opaque cursor from a previous page's nextCursor
+  includeTotal?: boolean; // Also count every bookmark matching the filters
+}
+
+// The filters of GET /api/bookmarks that pick bookmarks, without the paging
+export type BookmarkSelector = Pick<
+  BookmarkFilters,
+  'search' | 'category' | 'tags' | 'tagQuery' | 'startDate' | 'endDate' | 'health' | 'collection'
+>;
+
+// `mark_read` removes the `unread` tag that imports put on unread items
+export type BulkAction =
+  | { type: 'add_tags'; tags: string[] }
+  | { type: 'remove_tags'; tags: string[] }
+  | { type: 'replace_tags'; tags: string[] }
+  | { type: 'delete' } // Moves to the trash
+  | { type: 'restore' }
+  | { type: 'mark_read' }
+  | { type: 'move_to_category'; category: string | null }
+  | { type: 'add_to_collection'; collection: string } // Appended to the end, in selection order
+  | { type: 'move_to_collection'; collection: string }; // Also taken out of your other collections
+
+// Either `ids` or `filters` picks the bookmarks; filters only match bookmarks
+// outside the trash
+export interface BulkBookmarkRequest {
+  ids?: string[];
+  filters?: BookmarkSelector;
+  action: BulkAction;
+}
+
+// not_found: missing, another user's, or not in the state the action needs
+// (e.g. restoring a bookmark that is not in the trash); duplicate: left in the
+// trash because its URL is live in another bookmark
+export type BulkItemStatus = 'updated' | 'not_found' | 'duplicate';
+
+export interface BulkItemResult {
+  id: string;
+  status: BulkItemStatus;
+}
+
+export interface BulkResult {
+  matched: number;
+  updated: number;
+  items: BulkItemResult[];
+}
+
+export interface BookmarkPage {
+  bookmarks: Bookmark[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  total?: number;
+}
+
+export interface PaginationInfo {
+  nextCursor: string | null;
+  hasMore: boolean;
+  total?: number;
+}
+
+// Renamed from Category to Tag for clarity
+// Nested tags use slash paths (`dev/frontend/react`); name is the full path
+export interface Tag {
+  id: string;
+  user_id: string;
+  name: string;
+  parent_id: string | null; // The tag one level up; null at the top level
+  color: string | null; // Hex color like #1a73e8
+  icon: string | null; // An emoji or short symbol shown before the name
+  description: string | null;
+  pinned: boolean; // Pinned tags are listed first
+  sort_order: number; // Order among pinned tags, and among siblings in the tree; lowest first
+  created_at: string;
+}
+
+// Omitted fields are left as they are; null clears color, icon and description
+export interface UpdateTagDto {
+  name?: string; // Renaming also renames the tags below it
+  color?: string | null;
+  icon?: string | null;
+  description?: string | null;
+  pinned?: boolean;
+  sort_order?: number;
+}
+
+export interface TagStats {
+  tag: Tag;
+  count: number; // Bookmarks on the tag or any tag below it
+  direct_count: number; // Bookmarks on the tag itself
+}
+
+// The name of a tag merged into another one. Saving a bookmark with it tags
+// the bookmark with the tag it was merged into.
+export interface TagAlias {
+  id: string;
+  user_id: string;
+  tag_id: string; // The tag the name resolves to
+  name: string;
+  created_at: string;
+}
+
+// Tags with near-identical names (`React`, `react.js`), to merge into the most used one
+export interface TagMergeSuggestion {
+  target: TagStats;
+  sources: TagStats[];
+}
+
+// Why a tag is suggested for a page: it is used on the same domain, its name
+// is in the title, it often goes with such tags, or it was used recently
+export type TagSuggestionReason = 'domain' | 'title' | 'related' | 'recent';
+
+export interface TagSuggestion {
+  tag: Tag;
+  score: number; // Higher is better; only comparable within one response
+  reasons: TagSuggestionReason[];
+}
+
+// Every condition that is set must match, and a rule needs at least one.
+// Patterns are case-insensitive and use `*` as a wildcard.
+export interface RuleConditions {
+  host?: string; // `github.com` also matches its subdomains; `*.github.io` only the subdomains
+  path?: string; // e.g. `/docs/*`
+  title?: string; // Regular expression
+  summary?: string; // Regular expression
+}
+
+// What a matching rule does to a bookmark; a rule needs at least one action
+export interface RuleActions {
+  add_tags?: string[];
+  summary_prefix?: string; // Put before the summary unless it already starts with it
+  mark_read?: boolean; // Removes the `unread` tag
+}
+
+// Enabled rules run, oldest first, on every bookmark saved with POST /api/bookmarks
+export interface BookmarkRule {
+  id: string;
+  user_id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface CreateRuleDto {
+  name: string;
+  enabled?: boolean; // Defaults to true
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+// Omitted fields are left as they are; conditions and actions are replaced as a whole
+export type UpdateRuleDto = Partial<CreateRuleDto>;
+
+// Runs rules over the bookmarks already saved. Unless dry_run is false
+// nothing is written, so the result previews what applying would change.
+export interface ApplyRulesRequest {
+  rule_ids?: string[]; // Every enabled rule when omitted
+  dry_run?: boolean; // Defaults to true
+}
+
+// What the rules change on one bookmark; only real changes are listed
+export interface RuleChange {
+  bookmark_id: string;
+  url: string;
+  title: string;
+  rule_ids: string[]; // The rules that matched
+  add_tags: string[]; // Tags the bookmark does not have yet
+  summary?: string; // The new summary, when a prefix is added
+  mark_read: boolean; // The `unread` tag is removed
+}
+
+export interface ApplyRulesResult {
+  checked: number; // Bookmarks the rules were run on
+  changed: number;
+  dry_run: boolean;
+  changes: RuleChange[];
+}
+
+// A hand-ordered list of bookmarks; a bookmark can be in several collections
+export interface Collection {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  bookmark_count: number; // Bookmarks outside the trash
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface CreateCollectionDto {
+  name: string;
+  description?: string | null;
+}
+
+export type UpdateCollectionDto = Partial<CreateCollectionDto>;
+
+// Kept Category interface for backward compatibility during migration
+export interface Category {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+}
+
+// New interface for bookmark-tag relationships
+export interface BookmarkTag {
+  id: string;
+  bookmark_id: string;
+  tag_id: string;
+  created_at: string;
+}
+
+// Enhanced bookmark interface with populated tags
+export interface BookmarkWithTags extends Omit<Bookmark, 'tags'> {
+  tags: Tag[];
+}
+
+// One invalid field of a request rejected with 400
+export interface FieldError {
+  path: string; // e.g. `query.limit` or `body.tags.0`
+  message: string;
+}
+
+export interface ApiResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: FieldError[]; // Set when the request did not match the route's schema
+  pagination?: PaginationInfo; // Present on paginated list endpoints
+}
@@ -1,28 +1,77 @@
 import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 import { Home } from './pages/Home';
+import { Trash } from './pages/Trash';
+import { Reader } from './pages/Reader';
+import { ImportExport } from './pages/ImportExport';
+import { Login } from './pages/Login';
+import { Tokens } from './pages/Tokens';
+import { Tags } from './pages/Tags';
+import { Rules } from './pages/Rules';
+import { CollectionDetail } from './pages/CollectionDetail';
+import { AuthProvider, useAuth } from './hooks/useAuth';
+import { TagsProvider } from './hooks/useTags';
+import { CollectionsProvider } from './hooks/useCollections';
 import './App.css';
 
-function App() {
+function AppContent() {
+  const { user, loading, logout } = useAuth();
+
   return (
     <Router>
       <div className="app">
         <nav className="navbar">
           <div className="nav-content">
             <h1 className="logo">Save Your Stuff</h1>
-            <div className="nav-links">
-              <Link to="/" className="nav-link">Home</Link>
-            </div>
+            {user && (
+              <div className="nav-links">
+                <Link to="/" className="nav-link">Home</Link>
+                <Link to="/tags" className="nav-link">Tags</Link>
+                <Link to="/rules" className="nav-link">Rules</Link>
+                <Link to="/import-export" className="nav-link">Import & Export</Link>
+                <Link to="/trash" className="nav-link">Trash</Link>
+                <Link to="/tokens" className="nav-link">API Tokens</Link>
+                <span className="nav-user">{user.name || user.email}</span>
+                <button className="nav-link nav-logout" onClick={logout} type="button">
+                  Sign out
+                </button>
+              </div>
+            )}
           </div>
         </nav>
 
         <main className="container">
-          <Routes>
-            <Route path="/" element={<Home />} />
-          </Routes>
+          {loading ? (
+            <div className="loading">Loading...</div>
+          ) : !user ? (
+            <Login />
+          ) : (
+            <TagsProvider>
+              <CollectionsProvider>
+                <Routes>
+                  <Route path="/" element={<Home />} />
+                  <Route path="/collections/:id" element={<CollectionDetail />} />
+                  <Route path="/trash" element={<Trash />} />
+                  <Route path="/bookmarks/:id/reader" element={<Reader />} />
+                  <Route path="/import-export" element={<ImportExport />} />
+                  <Route path="/tokens" element={<Tokens />} />
+                  <Route path="/tags" element={<Tags />} />
+                  <Route path="/rules" element={<Rules />} />
+                </Routes>
+              </CollectionsProvider>
+            </TagsProvider>
+          )}
         </main>
       </div>
     </Router>
   );
 }
 
+function App() {
+  return (
+    <AuthProvider>
+      <AppContent />
+    </AuthProvider>
+  );
+}
+
 export default App;
@@ -1,13 +1,31 @@
 import { formatDistanceToNow } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import { HighlightedText } from './HighlightedText';
+import { TagLabel } from './TagLabel';
+import { useTags } from '../hooks/useTags';
 import { Bookmark } from '../types';
 
 interface BookmarkCardProps {
   bookmark: Bookmark;
   onTagClick?: (tag: string) => void;
+  onDelete?: (bookmark: Bookmark) => void;
+  onRestore?: (bookmark: Bookmark) => void;
+  onArchive?: (bookmark: Bookmark) => void;
+  onApplyRedirect?: (bookmark: Bookmark) => void;
+  // In selection mode a click toggles the selection instead of opening the bookmark
+  onSelectChange?: (bookmark: Bookmark, selected: boolean) => void;
+  selected?: boolean;
 }
 
-export const BookmarkCard = ({ bookmark, onTagClick }: BookmarkCardProps) => {
+export const BookmarkCard = ({ bookmark, onTagClick, onDelete, onRestore, onArchive, onApplyRedirect, onSelectChange, selected = false }: BookmarkCardProps) => {
+  const navigate = useNavigate();
+  const { tagByName } = useTags();
+
   const openBookmark = () => {
+    if (onSelectChange) {
+      onSelectChange(bookmark, !selected);
+      return;
+    }
     window.open(bookmark.url, '_blank');
   };
 
@@ -24,13 +42,78 @@ export const BookmarkCard = ({ bookmark, onTagClick }: BookmarkCardProps) => {
     onTagClick?.(tag);
   };
 
+  const handleDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onDelete?.(bookmark);
+  };
+
+  // Remote images can disappear; hide them instead of showing a broken icon
+  const hideImage = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    e.currentTarget.style.display = 'none';
+  };
+
+  const handleRestore = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onRestore?.(bookmark);
+  };
+
+  const handleArchive = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onArchive?.(bookmark);
+  };
+
+  const handleApplyRedirect = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onApplyRedirect?.(bookmark);
+  };
+
+  const openReader = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigate(`/bookmarks/${bookmark.id}/reader`);
+  };
+
   // Use tags if available, fallback to category for backward compatibility
   const displayTags = bookmark.tags || (bookmark.category ? [bookmark.category] : []);
 
+  // Filled in by the backend shortly after saving
+  const metadata = bookmark.metadata;
+  const description = bookmark.summary ? null : metadata?.description;
+  const isArchived = bookmark.archive_status === 'done';
+
   return (
-    <div className="bookmark-card" onClick={openBookmark}>
+    <div className={`bookmark-card ${selected ? 'selected' : ''}`} onClick={openBookmark}>
+      {metadata?.image_url && (
+        <img className="bookmark-image" src={metadata.image_url} alt="" loading="lazy" onError={hideImage} />
+      )}
       <div className="bookmark-header">
-        <h3>{bookmark.title}</h3>
+        {onSelectChange && (
+          <input
+            type="checkbox"
+            className="bookmark-select"
+            checked={selected}
+            onChange={(e) => onSelectChange(bookmark, e.target.checked)}
+            onClick={(e) => e.stopPropagation()}
+            aria-label={`Select ${bookmark.title}`}
+          />
+        )}
+        <h3>
+          {bookmark.highlights?.title
+            ? <HighlightedText text={bookmark.highlights.title} />
+            : bookmark.title}
+          {bookmark.link_health === 'broken' && (
+            <span
+              className="link-health-badge broken"
+              title={bookmark.link_status_code ? `The page returned HTTP ${bookmark.link_status_code}` : 'The page could not be reached'}
+            >
+              Broken link
+            </span>
+          )}
+          {bookmark.link_health === 'redirected' && (
+            <span className="link-health-badge redirected" title={`Now redirects to ${bookmark.link_redirect_url}`}>
+              Redirected
+            </span>
+          )}
+        </h3>
         {displayTags.length > 0 && (
           <div className="tags-container">
             {displayTags.map((tag, index) => (
@@ -38,24 +121,101 @@ export const BookmarkCard = ({ bookmark, onTagClick }: BookmarkCardProps) => {
                 key={index}
                 className={`tag-badge ${onTagClick ? 'clickable' : ''}`}
                 onClick={onTagClick ? (e) => handleTagClick(e, tag) : undefined}
+                title={tagByName(tag)?.description || undefined}
               >
-                {tag}
+                <TagLabel name={tag} tag={tagByName(tag)} />
               </span>
             ))}
           </div>
         )}
       </div>
 
-      {bookmark.summary && (
+      {bookmark.highlights?.summary ? (
+        <p className="bookmark-summary">
+          <HighlightedText text={bookmark.highlights.summary} />
+        </p>
+      ) : bookmark.summary ? (
         <p className="bookmark-summary">{bookmark.summary}</p>
+      ) : description && (
+        <p className="bookmark-summary bookmark-description">{description}</p>
+      )}
+
+      {bookmark.matched_fields && bookmark.matched_fields.length > 0 && (
+        <div className="search-match">
+          <span className="search-match-fields">
+            Matched in {bookmark.matched_fields.join(', ')}
+          </span>
+          {bookmark.highlights?.url && (
+            <span className="search-match-url">
+              <HighlightedText text={bookmark.highlights.url} />
+            </span>
+          )}
+          {bookmark.highlights?.content && (
+            <span className="search-match-content">
+              <HighlightedText text={bookmark.highlights.content} />
+            </span>
+          )}
+        </div>
       )}
 
       <div className="bookmark-footer">
-        <span className="bookmark-url">{getDomain(bookmark.url)}</span>
+        <span className="bookmark-url">
+          {metadata?.favicon_url && (
+            <img className="bookmark-favicon" src={metadata.favicon_url} alt="" width={16} height={16} onError={hideImage} />
+          )}
+          {metadata?.site_name || getDomain(bookmark.url)}
+          {metadata?.published_at && (
+            <span className="bookmark-published">
+              {' · '}Published {new Date(metadata.published_at).toLocaleDateString()}
+            </span>
+          )}
+        </span>
         <span className="bookmark-date">
-          {formatDistanceToNow(new Date(bookmark.created_at), { addSuffix: true })}
+          {bookmark.deleted_at
+            ? `Deleted ${formatDistanceToNow(new Date(bookmark.deleted_at), { addSuffix: true })}`
+            : formatDistanceToNow(new Date(bookmark.created_at), { addSuffix: true })}
         </span>
       </div>
+
+      {(onDelete || onRestore || onArchive || isArchived) && (
+        <div className="bookmark-actions">
+          {onApplyRedirect && bookmark.link_health === 'redirected' && bookmark.link_redirect_url && (
+            <button
+              className="bookmark-action-btn"
+              onClick={handleApplyRedirect}
+              title={bookmark.link_redirect_url}
+              type="button"
+            >
+              Update to redirect target
+            </button>
+          )}
+          {isArchived && !bookmark.deleted_at && (
+            <button className="bookmark-action-btn" onClick={openReader} type="button">
+              Read offline
+            </button>
+          )}
+          {onArchive && !isArchived && (
+            <button
+              className="bookmark-action-btn"
+              onClick={handleArchive}
+              type="button"
+              disabled={bookmark.archive_status === 'pending'}
+            >
+              {bookmark.archive_status === 'pending' ? 'Archiving...' : 'Save offline copy'}
+            </button>
+          )}
+          {onRestore && (
+            <button className="bookmark-action-btn" onClick={handleRestore} type="button">
+              Restore
+            </button>
+          )}
+          {onDelete && (
+            <button className="bookmark-action-btn danger" onClick={handleDelete} type="button">
+              Delete
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { useCollections } from '../hooks/useCollections';
+import { BulkAction } from '../types';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  matchingCount?: number; // Every bookmark matching the current filters
+  allMatching: boolean; // The action applies to every matching bookmark, not only the checked ones
+  busy: boolean;
+  onSelectLoaded: () => void;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onAction: (action: BulkAction) => void;
+}
+
+const parseTags = (input: string): string[] =>
+  input.split(',').map(tag => tag.trim()).filter(Boolean);
+
+export const BulkActionBar = ({
+  selectedCount,
+  matchingCount,
+  allMatching,
+  busy,
+  onSelectLoaded,
+  onSelectAllMatching,
+  onClear,
+  onAction,
+}: BulkActionBarProps) => {
+  const { collections } = useCollections();
+  const [tagInput, setTagInput] = useState('');
+  const [category, setCategory] = useState('');
+  const [collectionId, setCollectionId] = useState('');
+
+  const count = allMatching ? matchingCount ?? 0 : selectedCount;
+  const tags = parseTags(tagInput);
+  const disabled = busy || count === 0;
+
+  const runTagAction = (type: 'add_tags' | 'remove_tags' | 'replace_tags') => {
+    onAction({ type, tags });
+    setTagInput('');
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Move ${count} bookmark${count !== 1 ? 's' : ''} to the trash?`)) return;
+    onAction({ type: 'delete' });
+  };
+
+  return (
+    <div className="bulk-action-bar">
+      <div className="bulk-selection">
+        <span className="bulk-count">
+          {allMatching ? `All ${count} matching` : `${count} selected`}
+        </span>
+        <button className="clear-filters-btn" onClick={onSelectLoaded} type="button" disabled={busy}>
+          Select loaded
+        </button>
+        {!allMatching && matchingCount !== undefined && matchingCount > selectedCount && (
+          <button className="clear-filters-btn" onClick={onSelectAllMatching} type="button" disabled={busy}>
+            Select all {matchingCount} matching
+          </button>
+        )}
+        {count > 0 && (
+          <button className="clear-filters-btn" onClick={onClear} type="button" disabled={busy}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="bulk-actions">
+        <div className="bulk-action-group">
+          <input
+            type="text"
+            className="bulk-input"
+            placeholder="tag, another tag"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            disabled={busy}
+          />
+          <button className="bookmark-action-btn" onClick={() => runTagAction('add_tags')} type="button" disabled={disabled || tags.length === 0}>
+            Add tags
+          </button>
+          <button className="bookmark-action-btn" onClick={() => runTagAction('remove_tags')} type="button" disabled={disabled || tags.length === 0}>
+            Remove tags
+          </button>
+          <button
+            className="bookmark-action-btn"
+            onClick={() => runTagAction('replace_tags')}
+            title="Leave empty to remove every tag"
+            type="button"
+            disabled={disabled}
+          >
+            Replace tags
+          </button>
+        </div>
+
+        <div className="bulk-action-group">
+          <input
+            type="text"
+            className="bulk-input"
+            placeholder="Category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            disabled={busy}
+          />
+          <button
+            className="bookmark-action-btn"
+            onClick={() => onAction({ type: 'move_to_category', category: category.trim() || null })}
+            title="Leave empty to clear the category"
+            type="button"
+            disabled={disabled}
+          >
+            Move
+          </button>
+        </div>
+
+        {collections.length > 0 && (
+          <div className="bulk-action-group">
+            <select
+              className="bulk-input"
+              value={collectionId}
+              onChange={(e) => setCollectionId(e.target.value)}
+              disabled={busy}
+            >
+              <option value="">Collection...</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+            <button
+              className="bookmark-action-btn"
+              onClick={() => onAction({ type: 'add_to_collection', collection: collectionId })}
+              type="button"
+              disabled={disabled || !collectionId}
+            >
+              Add to collection
+            </button>
+            <button
+              className="bookmark-action-btn"
+              onClick={() => onAction({ type: 'move_to_collection', collection: collectionId })}
+              title="Also take them out of every other collection"
+              type="button"
+              disabled={disabled || !collectionId}
+            >
+              Move to collection
+            </button>
+          </div>
+        )}
+
+        <div className="bulk-action-group">
+          <button className="bookmark-action-btn" onClick={() => onAction({ type: 'mark_read' })} type="button" disabled={disabled}>
+            Mark read
+          </button>
+          <button className="bookmark-action-btn danger" onClick={handleDelete} type="button" disabled={disabled}>
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { NavLink, useNavigate } from 'react-router-dom';
+import { collectionApi } from '../api';
+import { useCollections } from '../hooks/useCollections';
+
+// Links to every collection, and a form to start a new one
+export const CollectionSidebar = () => {
+  const navigate = useNavigate();
+  const { collections, loading, error, refresh } = useCollections();
+  const [name, setName] = useState('');
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setCreateError(null);
+      const collection = await collectionApi.create({ name });
+      setName('');
+      await refresh();
+      navigate(`/collections/${collection.id}`);
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : 'Failed to create collection');
+    }
+  };
+
+  return (
+    <div className="filter-section collection-sidebar">
+      <div className="filter-section-header">
+        <h4>Collections</h4>
+      </div>
+
+      {loading ? (
+        <div className="loading">Loading collections...</div>
+      ) : error ? (
+        <div className="error-message">{error}</div>
+      ) : (
+        <div className="category-list">
+          {collections.map(collection => (
+            <NavLink
+              key={collection.id}
+              to={`/collections/${collection.id}`}
+              className={({ isActive }) => `category-button collection-link ${isActive ? 'active' : ''}`}
+              title={collection.description ?? undefined}
+            >
+              <span>{collection.name}</span>
+              <span className="collection-count">{collection.bookmark_count}</span>
+            </NavLink>
+          ))}
+        </div>
+      )}
+
+      <form className="collection-form" onSubmit={handleCreate}>
+        <input
+          type="text"
+          className="bulk-input"
+          placeholder="New collection"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button className="clear-filters-btn" type="submit" disabled={!name.trim()}>
+          Add
+        </button>
+      </form>
+      {createError && <div className="error-message">{createError}</div>}
+    </div>
+  );
+};
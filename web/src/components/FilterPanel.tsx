@@ -1,74 +1,102 @@
 import { useEffect, useState } from 'react';
-import { tagApi, categoryApi } from '../api';
-import { Tag, Category } from '../types';
+import { categoryApi } from '../api';
+import { Category, TagFilter, TagFilterMode, LinkHealth } from '../types';
+import { useTags } from '../hooks/useTags';
+import { TagTree } from './TagTree';
+import { TagLabel } from './TagLabel';
+
+export interface FilterChange {
+  tagFilters?: TagFilter[];
+  tagQuery?: string; // Advanced boolean tag query typed by the user
+  category?: string;
+  startDate?: string;
+  endDate?: string;
+  health?: LinkHealth;
+}
 
 interface FilterPanelProps {
-  onFilterChange: (filters: { tags?: string[]; category?: string; startDate?: string; endDate?: string }) => void;
-  selectedTags?: string[];
+  onFilterChange: (filters: FilterChange) => void;
+  selectedTags?: TagFilter[];
+  selectedTagQuery?: string;
   selectedCategory?: string;
   selectedStartDate?: string;
   selectedEndDate?: string;
+  selectedHealth?: LinkHealth;
 }
 
-export const FilterPanel = ({ onFilterChange, selectedTags = [], selectedCategory, selectedStartDate, selectedEndDate }: FilterPanelProps) => {
+const TAG_MODES: Array<{ mode: TagFilterMode; label: string; title: string }> = [
+  { mode: 'all', label: 'All', title: 'Bookmarks must have this tag' },
+  { mode: 'any', label: 'Any', title: 'Bookmarks must have at least one of the "any" tags' },
+  { mode: 'exclude', label: 'Not', title: 'Bookmarks must not have this tag' },
+];
+
+const HEALTH_OPTIONS: Array<{ health?: LinkHealth; label: string }> = [
+  { health: undefined, label: 'All' },
+  { health: 'ok', label: 'OK' },
+  { health: 'redirected', label: 'Redirected' },
+  { health: 'broken', label: 'Broken' },
+];
+
+export const FilterPanel = ({ onFilterChange, selectedTags = [], selectedTagQuery, selectedCategory, selectedStartDate, selectedEndDate, selectedHealth }: FilterPanelProps) => {
+  const { tags, loading, error: tagsError, tagByName } = useTags();
   const [categories, setCategories] = useState<Category[]>([]);
-  const [tags, setTags] = useState<Tag[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [tagQueryInput, setTagQueryInput] = useState(selectedTagQuery || '');
+
+  useEffect(() => {
+    setTagQueryInput(selectedTagQuery || '');
+  }, [selectedTagQuery]);
 
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        
-        // Try to fetch tags first, fallback to categories
-        try {
-          const tagsResult = await tagApi.getAll();
-          setTags(tagsResult);
-          console.log('Loaded tags:', tagsResult);
-        } catch (tagError) {
-          console.warn('Failed to load tags, trying categories:', tagError);
-          // Fallback to categories if tags API fails
-          const categoriesResult = await categoryApi.getAll();
-          setCategories(categoriesResult);
-          console.log('Loaded categories as fallback:', categoriesResult);
-        }
+    if (!tagsError) return;
 
-      } catch (error) {
-        console.error('Failed to fetch filter data:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
+    // Fallback to categories if tags API fails
+    console.warn('Failed to load tags, trying categories:', tagsError);
+    categoryApi.getAll()
+      .then(setCategories)
+      .catch(error => console.error('Failed to fetch filter data:', error));
+  }, [tagsError]);
 
-    fetchData();
-  }, []);
+  const getTagMode = (tagName: string): TagFilterMode | undefined =>
+    selectedTags.find(filter => filter.name === tagName)?.mode;
+
+  const updateTagFilters = (newSelectedTags: TagFilter[]) => {
+    onFilterChange({ tagFilters: newSelectedTags.length > 0 ? newSelectedTags : undefined });
+  };
 
   const handleTagToggle = (tagName: string) => {
-    const newSelectedTags = selectedTags.includes(tagName)
-      ? selectedTags.filter(tag => tag !== tagName)
-      : [...selectedTags, tagName];
+    const newSelectedTags = getTagMode(tagName)
+      ? selectedTags.filter(filter => filter.name !== tagName)
+      : [...selectedTags, { name: tagName, mode: 'all' as const }];
     
-    onFilterChange({ tags: newSelectedTags.length > 0 ? newSelectedTags : undefined });
+    updateTagFilters(newSelectedTags);
   };
 
+  const handleTagModeChange = (tagName: string, mode: TagFilterMode) => {
+    updateTagFilters(selectedTags.map(filter => (filter.name === tagName ? { ...filter, mode } : filter)));
+  };
+
+  // Every tag selected is the same as no tag filter, which also keeps untagged
+  // bookmarks and stays within the API's limit on terms per query
   const handleSelectAllTags = () => {
-    const allTagNames = tags.length > 0 
-      ? tags.map(tag => tag.name) 
-      : categories.map(category => category.name);
-    onFilterChange({ tags: allTagNames });
+    onFilterChange({ tagFilters: undefined, tagQuery: undefined });
   };
 
   const handleClearAllTags = () => {
-    onFilterChange({ tags: undefined });
+    onFilterChange({ tagFilters: undefined });
+  };
+
+  const handleTagQuerySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onFilterChange({ tagQuery: tagQueryInput.trim() || undefined });
   };
 
   const handleCategorySelect = (category?: string) => {
-    onFilterChange({ category, tags: undefined }); // Clear tags when selecting category
+    onFilterChange({ category, tagFilters: undefined }); // Clear tags when selecting category
   };
 
   const handleDateRangeChange = (startDate?: string, endDate?: string) => {
     onFilterChange({ 
-      tags: selectedTags.length > 0 ? selectedTags : undefined,
+      tagFilters: selectedTags.length > 0 ? selectedTags : undefined,
       category: selectedCategory,
       startDate: startDate || undefined,
       endDate: endDate || undefined
@@ -88,10 +116,17 @@ export const FilterPanel = ({ onFilterChange, selectedTags = [], selectedCategor
   };
 
   const clearAllFilters = () => {
-    onFilterChange({});
+    onFilterChange({
+      tagFilters: undefined,
+      tagQuery: undefined,
+      category: undefined,
+      startDate: undefined,
+      endDate: undefined,
+      health: undefined,
+    });
   };
 
-  const hasFilters = selectedTags.length > 0 || selectedCategory || selectedStartDate || selectedEndDate;
+  const hasFilters = selectedTags.length > 0 || selectedTagQuery || selectedCategory || selectedStartDate || selectedEndDate || selectedHealth;
 
   if (loading) {
     return (
@@ -140,22 +175,13 @@ export const FilterPanel = ({ onFilterChange, selectedTags = [], selectedCategor
         </div>
         <div className="tags-chip-container">
           {tags.length > 0 ? (
-            tags.map((tag) => (
-              <button
-                key={tag.id}
-                className={`tag-chip ${selectedTags.includes(tag.name) ? 'selected' : ''}`}
-                onClick={() => handleTagToggle(tag.name)}
-                type="button"
-              >
-                {tag.name}
-              </button>
-            ))
+            <TagTree tags={tags} getTagMode={getTagMode} onToggle={handleTagToggle} />
           ) : categories.length > 0 ? (
             // Show categories as chips if no tags are available
             categories.map((category) => (
               <button
                 key={category.id}
-                className={`tag-chip ${selectedTags.includes(category.name) ? 'selected' : ''}`}
+                className={`tag-chip ${getTagMode(category.name) ? `selected mode-${getTagMode(category.name)}` : ''}`}
                 onClick={() => handleTagToggle(category.name)}
                 type="button"
               >
@@ -166,6 +192,19 @@ export const FilterPanel = ({ onFilterChange, selectedTags = [], selectedCategor
             <p className="no-tags">No tags available</p>
           )}
         </div>
+        <form className="tag-query-form" onSubmit={handleTagQuerySubmit}>
+          <input
+            type="text"
+            value={tagQueryInput}
+            onChange={(e) => setTagQueryInput(e.target.value)}
+            placeholder='tag:react AND NOT tag:archived'
+            className="tag-query-input"
+            aria-label="Tag query"
+          />
+          <button className="tag-control-btn select" type="submit">
+            Apply
+          </button>
+        </form>
       </div>
 
       {/* Date Filter Section */}
@@ -206,6 +245,23 @@ export const FilterPanel = ({ onFilterChange, selectedTags = [], selectedCategor
         </div>
       </div>
 
+      {/* Link Health Section */}
+      <div className="filter-section">
+        <h4>Link Health</h4>
+        <div className="category-list">
+          {HEALTH_OPTIONS.map(({ health, label }) => (
+            <button
+              key={label}
+              className={`category-button ${selectedHealth === health ? 'active' : ''}`}
+              onClick={() => onFilterChange({ health })}
+              type="button"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Categories Section (only show if we have both tags and categories) */}
       {categories.length > 0 && tags.length > 0 && (
         <div className="filter-section">
@@ -235,17 +291,41 @@ export const FilterPanel = ({ onFilterChange, selectedTags = [], selectedCategor
         <div className="active-filters">
           <h4>Active Filters</h4>
           <div className="active-filters-list">
-            {selectedTags.map(tag => (
-              <span key={tag} className="active-filter-tag">
-                {tag}
+            {selectedTags.map(filter => (
+              <span key={filter.name} className={`active-filter-tag mode-${filter.mode}`}>
+                <TagLabel name={filter.name} tag={tagByName(filter.name)} />
+                <span className="tag-mode-toggle">
+                  {TAG_MODES.map(({ mode, label, title }) => (
+                    <button
+                      key={mode}
+                      className={`tag-mode-btn ${filter.mode === mode ? 'active' : ''}`}
+                      onClick={() => handleTagModeChange(filter.name, mode)}
+                      title={title}
+                      type="button"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </span>
                 <button 
                   className="remove-filter"
-                  onClick={() => handleTagToggle(tag)}
+                  onClick={() => handleTagToggle(filter.name)}
                 >
                   ×
                 </button>
               </span>
             ))}
+            {selectedTagQuery && (
+              <span className="active-filter-tag">
+                {selectedTagQuery}
+                <button 
+                  className="remove-filter"
+                  onClick={() => onFilterChange({ tagQuery: undefined })}
+                >
+                  ×
+                </button>
+              </span>
+            )}
             {selectedCategory && (
               <span className="active-filter-tag">
                 {selectedCategory}
@@ -257,6 +337,17 @@ export const FilterPanel = ({ onFilterChange, selectedTags = [], selectedCategor
                 </button>
               </span>
             )}
+            {selectedHealth && (
+              <span className="active-filter-tag">
+                Links: {HEALTH_OPTIONS.find(option => option.health === selectedHealth)?.label}
+                <button 
+                  className="remove-filter"
+                  onClick={() => onFilterChange({ health: undefined })}
+                >
+                  ×
+                </button>
+              </span>
+            )}
             {(selectedStartDate || selectedEndDate) && (
               <span className="active-filter-tag">
                 {selectedStartDate && selectedEndDate && selectedStartDate === selectedEndDate
@@ -0,0 +1,21 @@
+interface HighlightedTextProps {
+  text: string;
+}
+
+// Renders search snippets from the API. Matches arrive wrapped in <mark></mark>;
+// everything else is rendered as plain text, never as HTML.
+export const HighlightedText = ({ text }: HighlightedTextProps) => {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+          <mark key={index}>{part.slice(6, -7)}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
@@ -0,0 +1,14 @@
+import { Tag } from '../types';
+
+interface TagLabelProps {
+  name: string; // Shown as is; a nested tag's tree node passes its last segment
+  tag?: Tag; // Its color and icon, when known
+}
+
+export const TagLabel = ({ name, tag }: TagLabelProps) => (
+  <>
+    {tag?.color && <span className="tag-color-dot" style={{ background: tag.color }} />}
+    {tag?.icon && <span className="tag-icon">{tag.icon}</span>}
+    {name}
+  </>
+);
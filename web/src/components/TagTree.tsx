@@ -0,0 +1,108 @@
+import { useMemo, useState } from 'react';
+import { Tag, TagFilterMode } from '../types';
+import { TagLabel } from './TagLabel';
+
+interface TagTreeProps {
+  tags: Tag[];
+  getTagMode: (tagName: string) => TagFilterMode | undefined;
+  onToggle: (tagName: string) => void;
+}
+
+interface TagNode {
+  tag: Tag;
+  label: string; // Last segment of the path; the full path is the tag's name
+  children: TagNode[];
+  pinOrder: number | null; // sort_order of the first pinned tag in this subtree; null when none is pinned
+}
+
+// Pinned subtrees first (by sort_order), then the rest by sort_order and name
+const compareNodes = (a: TagNode, b: TagNode): number => {
+  if ((a.pinOrder === null) !== (b.pinOrder === null)) return a.pinOrder === null ? 1 : -1;
+  return (a.pinOrder ?? a.tag.sort_order) - (b.pinOrder ?? b.tag.sort_order) || a.label.localeCompare(b.label);
+};
+
+// Nests the tags by parent_id. A tag whose parent is not in the list shows at the top level.
+const buildTree = (tags: Tag[]): TagNode[] => {
+  const nodes = new Map<string, TagNode>(
+    tags.map(tag => [tag.id, { tag, label: tag.name.split('/').pop() || tag.name, children: [], pinOrder: null }])
+  );
+
+  const roots: TagNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.tag.parent_id ? nodes.get(node.tag.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  const arrange = (list: TagNode[]): TagNode[] => {
+    list.forEach(node => {
+      arrange(node.children);
+      const orders = [
+        ...(node.tag.pinned ? [node.tag.sort_order] : []),
+        ...node.children.flatMap(child => (child.pinOrder === null ? [] : [child.pinOrder])),
+      ];
+      node.pinOrder = orders.length > 0 ? Math.min(...orders) : null;
+    });
+    return list.sort(compareNodes);
+  };
+  return arrange(roots);
+};
+
+export const TagTree = ({ tags, getTagMode, onToggle }: TagTreeProps) => {
+  // Nodes the user opened or closed; the others follow defaultOpen
+  const [openState, setOpenState] = useState<Map<string, boolean>>(new Map());
+  const tree = useMemo(() => buildTree(tags), [tags]);
+
+  const hasSelectedBelow = (node: TagNode): boolean =>
+    node.children.some(child => getTagMode(child.tag.name) !== undefined || hasSelectedBelow(child));
+
+  // Tags above a selected or pinned tag start open, so those stay visible
+  const defaultOpen = (node: TagNode): boolean =>
+    hasSelectedBelow(node) || node.children.some(child => child.pinOrder !== null);
+
+  const isOpen = (node: TagNode): boolean => openState.get(node.tag.id) ?? defaultOpen(node);
+
+  const toggleOpen = (node: TagNode) => {
+    setOpenState(new Map(openState).set(node.tag.id, !isOpen(node)));
+  };
+
+  const renderNode = (node: TagNode) => {
+    const mode = getTagMode(node.tag.name);
+    const open = isOpen(node);
+
+    return (
+      <li key={node.tag.id} className="tag-tree-node">
+        <div className="tag-tree-row">
+          {node.children.length > 0 ? (
+            <button
+              className="tag-tree-toggle"
+              onClick={() => toggleOpen(node)}
+              aria-expanded={open}
+              aria-label={`${open ? 'Collapse' : 'Expand'} ${node.tag.name}`}
+              type="button"
+            >
+              {open ? '▾' : '▸'}
+            </button>
+          ) : (
+            <span className="tag-tree-toggle-spacer" />
+          )}
+          <button
+            className={`tag-chip ${mode ? `selected mode-${mode}` : ''} ${node.tag.pinned ? 'pinned' : ''}`}
+            onClick={() => onToggle(node.tag.name)}
+            title={[
+              node.tag.description,
+              node.children.length > 0 ? `${node.tag.name} and the tags below it` : node.tag.name,
+            ].filter(Boolean).join('\n')}
+            type="button"
+          >
+            <TagLabel name={node.label} tag={node.tag} />
+          </button>
+        </div>
+        {open && node.children.length > 0 && (
+          <ul className="tag-tree">{node.children.map(renderNode)}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return <ul className="tag-tree tag-tree-root">{tree.map(renderNode)}</ul>;
+};
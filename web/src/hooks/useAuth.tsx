@@ -0,0 +1,74 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { authApi, sessionToken, SESSION_EXPIRED_EVENT } from '../api';
+import { AuthSession, LoginDto, RegisterDto, User } from '../types';
+
+interface AuthContextValue {
+  user: User | null;
+  loading: boolean; // True while a stored session is being checked
+  login: (data: LoginDto) => Promise<void>;
+  register: (data: RegisterDto) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Resume the stored session, if it is still valid
+  useEffect(() => {
+    if (!sessionToken.get()) {
+      setLoading(false);
+      return;
+    }
+
+    authApi.me()
+      .then(setUser)
+      .catch(() => sessionToken.clear())
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const handleExpired = () => setUser(null);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const startSession = (session: AuthSession) => {
+    sessionToken.set(session.token);
+    setUser(session.user);
+  };
+
+  const login = useCallback(async (data: LoginDto) => {
+    startSession(await authApi.login(data));
+  }, []);
+
+  const register = useCallback(async (data: RegisterDto) => {
+    startSession(await authApi.register(data));
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await authApi.logout();
+    } finally {
+      // Signed out locally even if the server could not be reached
+      sessionToken.clear();
+      setUser(null);
+    }
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ user, loading, login, register, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
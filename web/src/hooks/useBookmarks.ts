@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { bookmarkApi } from '../api';
 import { Bookmark, BookmarkFilters } from '../types';
 
@@ -6,27 +6,70 @@ interface UseBookmarksReturn {
   bookmarks: Bookmark[];
   loading: boolean;
   error: string | null;
+  hasMore: boolean;
+  total?: number;
   refetch: (filters?: BookmarkFilters) => Promise<void>;
+  loadMore: () => Promise<void>;
 }
 
 export const useBookmarks = (initialFilters?: BookmarkFilters): UseBookmarksReturn => {
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | undefined>(undefined);
+
+  // Filters of the list currently shown, reused when loading the next page
+  const filtersRef = useRef<BookmarkFilters | undefined>(initialFilters);
+  // Ignore responses from requests that were superseded by a newer one
+  const requestIdRef = useRef(0);
 
   const fetchBookmarks = useCallback(async (filters?: BookmarkFilters) => {
+    const requestId = ++requestIdRef.current;
+    filtersRef.current = filters;
+
     try {
       setLoading(true);
       setError(null);
-      const result = await bookmarkApi.getAll(filters);
-      setBookmarks(result);
+      const page = await bookmarkApi.getAll({ ...filters, cursor: undefined, includeTotal: true });
+      if (requestId !== requestIdRef.current) return;
+
+      setBookmarks(page.bookmarks);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
     } catch (err) {
+      if (requestId !== requestIdRef.current) return;
       setError(err instanceof Error ? err.message : 'Failed to fetch your stuff');
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) setLoading(false);
     }
   }, []);
 
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+
+    const requestId = ++requestIdRef.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await bookmarkApi.getAll({ ...filtersRef.current, cursor: nextCursor });
+      if (requestId !== requestIdRef.current) return;
+
+      // Skip anything already shown, in case the list shifted between pages
+      setBookmarks(prev => {
+        const seen = new Set(prev.map(bookmark => bookmark.id));
+        return [...prev, ...page.bookmarks.filter(bookmark => !seen.has(bookmark.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to fetch your stuff');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [nextCursor]);
+
   useEffect(() => {
     fetchBookmarks(initialFilters);
   }, [fetchBookmarks, initialFilters]);
@@ -35,6 +78,9 @@ export const useBookmarks = (initialFilters?: BookmarkFilters): UseBookmarksRetu
     bookmarks,
     loading,
     error,
+    hasMore: nextCursor !== null,
+    total,
     refetch: fetchBookmarks,
+    loadMore,
   };
 };
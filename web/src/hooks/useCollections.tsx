@@ -0,0 +1,49 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { collectionApi } from '../api';
+import { Collection } from '../types';
+
+interface CollectionsContextValue {
+  collections: Collection[]; // By name
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+const CollectionsContext = createContext<CollectionsContextValue | null>(null);
+
+// Loads the signed-in user's collections once for the sidebar, the detail
+// page and the bulk action bar; call refresh after changing one
+export const CollectionsProvider = ({ children }: { children: ReactNode }) => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      setCollections(await collectionApi.getAll());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch collections');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return (
+    <CollectionsContext.Provider value={{ collections, loading, error, refresh }}>
+      {children}
+    </CollectionsContext.Provider>
+  );
+};
+
+export const useCollections = (): CollectionsContextValue => {
+  const context = useContext(CollectionsContext);
+  if (!context) {
+    throw new Error('useCollections must be used within a CollectionsProvider');
+  }
+  return context;
+};
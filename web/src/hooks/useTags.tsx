@@ -0,0 +1,53 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { tagApi } from '../api';
+import { Tag } from '../types';
+
+interface TagsContextValue {
+  tags: Tag[]; // Pinned tags first (see GET /api/tags)
+  loading: boolean;
+  error: string | null;
+  tagByName: (name: string) => Tag | undefined;
+  refresh: () => Promise<void>;
+}
+
+const TagsContext = createContext<TagsContextValue | null>(null);
+
+// Loads the signed-in user's tags once, so every card and filter shows the
+// same colors and icons without fetching them again
+export const TagsProvider = ({ children }: { children: ReactNode }) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      setTags(await tagApi.getAll());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch tags');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const byName = useMemo(() => new Map(tags.map(tag => [tag.name, tag])), [tags]);
+  const tagByName = useCallback((name: string) => byName.get(name), [byName]);
+
+  return (
+    <TagsContext.Provider value={{ tags, loading, error, tagByName, refresh }}>
+      {children}
+    </TagsContext.Provider>
+  );
+};
+
+export const useTags = (): TagsContextValue => {
+  const context = useContext(TagsContext);
+  if (!context) {
+    throw new Error('useTags must be used within a TagsProvider');
+  }
+  return context;
+};
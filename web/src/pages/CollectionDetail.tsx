@@ -0,0 +1,230 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { BookmarkCard } from '../components/BookmarkCard';
+import { CollectionSidebar } from '../components/CollectionSidebar';
+import { InfiniteScroll } from '../components/InfiniteScroll';
+import { useBookmarks } from '../hooks/useBookmarks';
+import { useCollections } from '../hooks/useCollections';
+import { bookmarkApi, collectionApi } from '../api';
+import { Bookmark, BookmarkFilters } from '../types';
+
+// Moves the item at `from` to `to`, shifting the ones in between
+const move = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export const CollectionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { collections, loading: collectionsLoading, refresh } = useCollections();
+  const collection = collections.find(item => item.id === id);
+
+  const filters = useMemo<BookmarkFilters>(() => ({ collection: id, limit: 50 }), [id]);
+  const { bookmarks, loading, error, hasMore, refetch, loadMore } = useBookmarks(filters);
+
+  // The order shown; a drop changes it right away, before the server has it
+  const [items, setItems] = useState<Bookmark[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    setItems([]);
+    setEditing(false);
+    setActionError(null);
+  }, [id]);
+
+  // Keeps the shown order for bookmarks already listed and appends newly loaded pages
+  useEffect(() => {
+    setItems(prev => {
+      const loaded = new Map(bookmarks.map(bookmark => [bookmark.id, bookmark]));
+      const kept = prev.filter(bookmark => loaded.has(bookmark.id)).map(bookmark => loaded.get(bookmark.id)!);
+      const shown = new Set(kept.map(bookmark => bookmark.id));
+      return [...kept, ...bookmarks.filter(bookmark => !shown.has(bookmark.id))];
+    });
+  }, [bookmarks]);
+
+  const saveOrder = async (next: Bookmark[]) => {
+    const previous = items;
+    setItems(next);
+
+    try {
+      setActionError(null);
+      // The loaded bookmarks are the first ones, so the rest keep their places behind them
+      await collectionApi.reorder(id!, next.map(bookmark => bookmark.id));
+    } catch (err) {
+      setItems(previous);
+      setActionError(err instanceof Error ? err.message : 'Failed to reorder collection');
+    }
+  };
+
+  const handleDrop = (targetId: string) => {
+    const from = items.findIndex(bookmark => bookmark.id === draggedId);
+    const to = items.findIndex(bookmark => bookmark.id === targetId);
+    setDraggedId(null);
+    if (from === -1 || to === -1 || from === to) return;
+
+    saveOrder(move(items, from, to));
+  };
+
+  const handleRemove = async (bookmark: Bookmark) => {
+    try {
+      setActionError(null);
+      await collectionApi.removeBookmark(id!, bookmark.id);
+      refetch(filters);
+      refresh();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to remove bookmark from collection');
+    }
+  };
+
+  // Trashed bookmarks stay in the collection and come back with a restore
+  const handleDelete = async (bookmark: Bookmark) => {
+    try {
+      await bookmarkApi.delete(bookmark.id);
+      refetch(filters);
+      refresh();
+    } catch (err) {
+      console.error('Failed to delete bookmark:', err);
+    }
+  };
+
+  const startEditing = () => {
+    setName(collection?.name ?? '');
+    setDescription(collection?.description ?? '');
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setActionError(null);
+      await collectionApi.update(id!, { name, description });
+      await refresh();
+      setEditing(false);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update collection');
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!collection || !window.confirm(`Delete the collection "${collection.name}"? Its bookmarks are kept.`)) return;
+
+    try {
+      await collectionApi.delete(collection.id);
+      await refresh();
+      navigate('/');
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to delete collection');
+    }
+  };
+
+  return (
+    <div className="home-page">
+      <div className="sidebar">
+        <CollectionSidebar />
+      </div>
+
+      <div className="main-content">
+        {collectionsLoading ? (
+          <div className="loading">Loading collection...</div>
+        ) : !collection ? (
+          <div className="error-message">Collection not found</div>
+        ) : (
+          <>
+            <div className="content-header">
+              <h1>
+                {collection.name}
+                <span className="total-count">{collection.bookmark_count}</span>
+              </h1>
+              <button className="clear-filters-btn" onClick={editing ? () => setEditing(false) : startEditing} type="button">
+                {editing ? 'Cancel' : 'Edit'}
+              </button>
+              <button className="clear-filters-btn" onClick={handleDeleteCollection} type="button">
+                Delete collection
+              </button>
+            </div>
+
+            {editing ? (
+              <form className="token-form" onSubmit={handleSave}>
+                <input type="text" placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} required />
+                <input
+                  type="text"
+                  placeholder="Description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+                <button className="clear-filters-btn" type="submit" disabled={!name.trim()}>
+                  Save
+                </button>
+              </form>
+            ) : (
+              collection.description && <p className="collection-description">{collection.description}</p>
+            )}
+
+            {(error || actionError) && <div className="error-message">Error: {actionError || error}</div>}
+
+            {loading && items.length === 0 ? (
+              <div className="loading">Loading your stuff...</div>
+            ) : items.length === 0 ? (
+              <div className="empty-state">
+                <p>Nothing in this collection yet. Select bookmarks on the home page to add them.</p>
+              </div>
+            ) : (
+              <InfiniteScroll onLoadMore={loadMore} hasMore={hasMore} loading={loading}>
+                <div className="bookmarks-list">
+                  {items.map((bookmark, index) => (
+                    <div
+                      key={bookmark.id}
+                      className={`collection-item ${draggedId === bookmark.id ? 'dragging' : ''}`}
+                      draggable
+                      onDragStart={() => setDraggedId(bookmark.id)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(bookmark.id);
+                      }}
+                      onDragEnd={() => setDraggedId(null)}
+                    >
+                      <div className="collection-item-controls">
+                        <span className="drag-handle" title="Drag to reorder">⋮⋮</span>
+                        <button
+                          className="tag-control-btn select"
+                          onClick={() => saveOrder(move(items, index, index - 1))}
+                          type="button"
+                          disabled={index === 0}
+                          aria-label="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          className="tag-control-btn select"
+                          onClick={() => saveOrder(move(items, index, index + 1))}
+                          type="button"
+                          disabled={index === items.length - 1}
+                          aria-label="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button className="clear-filters-btn" onClick={() => handleRemove(bookmark)} type="button">
+                          Remove
+                        </button>
+                      </div>
+                      <BookmarkCard bookmark={bookmark} onDelete={handleDelete} />
+                    </div>
+                  ))}
+                </div>
+              </InfiniteScroll>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,51 +1,148 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { BookmarkCard } from '../components/BookmarkCard';
-import { FilterPanel } from '../components/FilterPanel';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { CollectionSidebar } from '../components/CollectionSidebar';
+import { FilterPanel, FilterChange } from '../components/FilterPanel';
 import { InfiniteScroll } from '../components/InfiniteScroll';
 import { useBookmarks } from '../hooks/useBookmarks';
-import { BookmarkFilters } from '../types';
+import { useCollections } from '../hooks/useCollections';
+import { bookmarkApi } from '../api';
+import { buildTagQuery } from '../utils/tagQuery';
+import { Bookmark, BookmarkFilters, BulkAction } from '../types';
+
+interface HomeFilters extends FilterChange {
+  search?: string;
+}
 
 export const Home = () => {
-  const [filters, setFilters] = useState<BookmarkFilters>({
-    limit: 20,
-    offset: 0,
-  });
+  const { refresh: refreshCollections } = useCollections();
+  const [filters, setFilters] = useState<HomeFilters>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [showMobileFilters, setShowMobileFilters] = useState(false);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Apply bulk actions to everything matching the filters, loaded or not
+  const [allMatching, setAllMatching] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
+
+  // Tag chips and the advanced query are combined into one tag query for the API
+  const bookmarkFilters = useMemo<BookmarkFilters>(() => ({
+    limit: 20,
+    search: filters.search,
+    category: filters.category,
+    tagQuery: buildTagQuery(filters.tagFilters, filters.tagQuery),
+    startDate: filters.startDate,
+    endDate: filters.endDate,
+    health: filters.health,
+  }), [filters]);
+
+  // Changing filters refetches from the first page
+  const { bookmarks, loading, error, hasMore, total, refetch, loadMore } = useBookmarks(bookmarkFilters);
+
+  // A selection only makes sense for the list it was made in
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setAllMatching(false);
+  }, [bookmarkFilters]);
+
+  const toggleSelectMode = () => {
+    setSelectMode(!selectMode);
+    setSelectedIds(new Set());
+    setAllMatching(false);
+    setBulkMessage(null);
+  };
+
+  const handleSelectChange = (bookmark: Bookmark, selected: boolean) => {
+    // Unchecking one of "all matching" keeps the rest of the loaded ones checked
+    const next = new Set(allMatching ? bookmarks.map(item => item.id) : selectedIds);
+    if (selected) {
+      next.add(bookmark.id);
+    } else {
+      next.delete(bookmark.id);
+    }
+    setAllMatching(false);
+    setSelectedIds(next);
+  };
 
-  const { bookmarks, loading, error, refetch } = useBookmarks(filters);
-  const [hasMore, setHasMore] = useState(true);
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatching(false);
+  };
+
+  const handleBulkAction = async (action: BulkAction) => {
+    try {
+      setBulkBusy(true);
+      setBulkMessage(null);
+      const { limit, ...selector } = bookmarkFilters;
+      const result = await bookmarkApi.bulk(
+        allMatching ? { filters: selector, action } : { ids: Array.from(selectedIds), action }
+      );
+      setBulkMessage(`Updated ${result.updated} of ${result.matched} bookmark${result.matched !== 1 ? 's' : ''}`);
+      clearSelection();
+      refetch(bookmarkFilters);
+      if (action.type === 'add_to_collection' || action.type === 'move_to_collection') refreshCollections();
+    } catch (err) {
+      setBulkMessage(err instanceof Error ? err.message : 'Failed to update bookmarks');
+    } finally {
+      setBulkBusy(false);
+    }
+  };
 
-  const handleFilterChange = (filterUpdates: { tags?: string[]; category?: string; startDate?: string; endDate?: string }) => {
-    const newFilters = {
+  const handleFilterChange = (filterUpdates: FilterChange) => {
+    setFilters({
       ...filters,
       ...filterUpdates,
-      offset: 0, // Reset pagination when filters change
-    };
-    setFilters(newFilters);
-    refetch(newFilters);
+    });
   };
 
   const handleTagClick = (tag: string) => {
     // Add tag to current filters if not already selected
-    const currentTags = filters.tags || [];
-    if (!currentTags.includes(tag)) {
-      handleFilterChange({ tags: [...currentTags, tag] });
+    const currentTags = filters.tagFilters || [];
+    if (!currentTags.some(filter => filter.name === tag)) {
+      handleFilterChange({ tagFilters: [...currentTags, { name: tag, mode: 'all' }] });
+    }
+  };
+
+  const handleDelete = async (bookmark: Bookmark) => {
+    try {
+      await bookmarkApi.delete(bookmark.id);
+      refetch(bookmarkFilters);
+    } catch (err) {
+      console.error('Failed to delete bookmark:', err);
+    }
+  };
+
+  const handleArchive = async (bookmark: Bookmark) => {
+    try {
+      await bookmarkApi.captureArchive(bookmark.id);
+      refetch(bookmarkFilters);
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Failed to archive bookmark');
+    }
+  };
+
+  const handleApplyRedirect = async (bookmark: Bookmark) => {
+    try {
+      await bookmarkApi.applyRedirect(bookmark.id);
+      refetch(bookmarkFilters);
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Failed to update bookmark URL');
     }
   };
 
   // Debounced search handler
   const debouncedSearch = useCallback((query: string) => {
     setFilters(prevFilters => {
-      const newFilters = {
+      const search = query || undefined;
+      if (prevFilters.search === search) return prevFilters;
+
+      return {
         ...prevFilters,
-        search: query || undefined,
-        offset: 0, // Reset pagination when search changes
+        search,
       };
-      refetch(newFilters);
-      return newFilters;
     });
-  }, [refetch]);
+  }, []);
 
   // Debounce search input
   useEffect(() => {
@@ -72,19 +169,9 @@ export const Home = () => {
     setShowMobileFilters(false);
   };
 
-  const handleLoadMore = () => {
-    if (bookmarks.length < (filters.limit || 20)) {
-      setHasMore(false);
-      return;
-    }
-
-    const newFilters = {
-      ...filters,
-      offset: (filters.offset || 0) + (filters.limit || 20),
-    };
-    setFilters(newFilters);
-    refetch(newFilters);
-  };
+  const handleLoadMore = useCallback(() => {
+    loadMore();
+  }, [loadMore]);
 
   // Group bookmarks by date
   const groupBookmarksByDate = (bookmarks: any[]) => {
@@ -121,30 +208,40 @@ export const Home = () => {
 
   const groupedBookmarks = groupBookmarksByDate(bookmarks);
 
-  if (error) {
-    return <div className="error-message">Error: {error}</div>;
-  }
+  // In selection mode cards only toggle their selection
+  const cardProps = (bookmark: Bookmark) => selectMode
+    ? { onSelectChange: handleSelectChange, selected: allMatching || selectedIds.has(bookmark.id) }
+    : { onTagClick: handleTagClick, onDelete: handleDelete, onArchive: handleArchive, onApplyRedirect: handleApplyRedirect };
 
   return (
     <div className="home-page">
       <div className="sidebar">
         <FilterPanel
           onFilterChange={handleFilterChange}
-          selectedTags={filters.tags}
+          selectedTags={filters.tagFilters}
+          selectedTagQuery={filters.tagQuery}
           selectedCategory={filters.category}
           selectedStartDate={filters.startDate}
           selectedEndDate={filters.endDate}
+          selectedHealth={filters.health}
         />
+        <CollectionSidebar />
       </div>
 
       <div className="main-content">
         <div className="content-header">
-          <h1>Your Stuff</h1>
+          <h1>
+            Your Stuff
+            {total !== undefined && <span className="total-count">{total}</span>}
+          </h1>
+          <button className="clear-filters-btn" onClick={toggleSelectMode} type="button">
+            {selectMode ? 'Done' : 'Select'}
+          </button>
           <div className="inline-search desktop-only">
             <div className="search-input-wrapper">
               <input
                 type="text"
-                placeholder="Search titles..."
+                placeholder="Search your stuff..."
                 value={searchQuery}
                 onChange={(e) => handleSearchChange(e.target.value)}
                 className="search-input-inline"
@@ -173,7 +270,7 @@ export const Home = () => {
             <div className="search-input-wrapper">
               <input
                 type="text"
-                placeholder="Search titles..."
+                placeholder="Search your stuff..."
                 value={searchQuery}
                 onChange={(e) => handleSearchChange(e.target.value)}
                 className="search-input-inline"
@@ -228,21 +325,48 @@ export const Home = () => {
                     handleFilterChange(newFilters);
                     closeMobileFilters();
                   }}
-                  selectedTags={filters.tags}
+                  selectedTags={filters.tagFilters}
+                  selectedTagQuery={filters.tagQuery}
                   selectedCategory={filters.category}
                   selectedStartDate={filters.startDate}
                   selectedEndDate={filters.endDate}
+                  selectedHealth={filters.health}
                 />
+                <CollectionSidebar />
               </div>
             </div>
           </div>
         )}
 
-        {loading && bookmarks.length === 0 ? (
+        {selectMode && (
+          <BulkActionBar
+            selectedCount={selectedIds.size}
+            matchingCount={total}
+            allMatching={allMatching}
+            busy={bulkBusy}
+            onSelectLoaded={() => {
+              setAllMatching(false);
+              setSelectedIds(new Set(bookmarks.map(bookmark => bookmark.id)));
+            }}
+            onSelectAllMatching={() => setAllMatching(true)}
+            onClear={clearSelection}
+            onAction={handleBulkAction}
+          />
+        )}
+        {selectMode && bulkMessage && <div className="bulk-message">{bulkMessage}</div>}
+
+        {/* Shown inline so an invalid tag query can still be fixed in the filter panel */}
+        {error && <div className="error-message">Error: {error}</div>}
+
+        {error ? null : loading && bookmarks.length === 0 ? (
           <div className="loading">Loading your stuff...</div>
         ) : bookmarks.length === 0 ? (
           <div className="empty-state">
-            <p>No stuff saved yet. Add some using the browser extension!</p>
+            {filters.search ? (
+              <p>No stuff found for "{filters.search}"</p>
+            ) : (
+              <p>No stuff saved yet. Add some using the browser extension!</p>
+            )}
           </div>
         ) : (
           <InfiniteScroll
@@ -250,25 +374,38 @@ export const Home = () => {
             hasMore={hasMore}
             loading={loading}
           >
-            <div className="bookmarks-timeline">
-              {groupedBookmarks.map((group) => (
-                <div key={group.date} className="date-group">
-                  <div className="date-header">
-                    <h2 className="date-title">{group.date}</h2>
-                    <span className="bookmark-count">{group.bookmarks.length} item{group.bookmarks.length !== 1 ? 's' : ''}</span>
-                  </div>
-                  <div className="bookmarks-list">
-                    {group.bookmarks.map((bookmark) => (
-                      <BookmarkCard 
-                        key={bookmark.id} 
-                        bookmark={bookmark} 
-                        onTagClick={handleTagClick}
-                      />
-                    ))}
+            {filters.search ? (
+              // Search results keep their relevance order instead of being grouped by date
+              <div className="bookmarks-list">
+                {bookmarks.map((bookmark) => (
+                  <BookmarkCard
+                    key={bookmark.id}
+                    bookmark={bookmark}
+                    {...cardProps(bookmark)}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="bookmarks-timeline">
+                {groupedBookmarks.map((group) => (
+                  <div key={group.date} className="date-group">
+                    <div className="date-header">
+                      <h2 className="date-title">{group.date}</h2>
+                      <span className="bookmark-count">{group.bookmarks.length} item{group.bookmarks.length !== 1 ? 's' : ''}</span>
+                    </div>
+                    <div className="bookmarks-list">
+                      {group.bookmarks.map((bookmark) => (
+                        <BookmarkCard 
+                          key={bookmark.id} 
+                          bookmark={bookmark} 
+                          {...cardProps(bookmark)}
+                        />
+                      ))}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </InfiniteScroll>
         )}
       </div>
@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { importApi, exportApi } from '../api';
+import { ImportJob, ImportPreview, ImportSource, LibraryFormat } from '../types';
+
+const POLL_INTERVAL_MS = 1000;
+
+const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const SOURCE_OPTIONS: { value: ImportSource; label: string }[] = [
+  { value: 'netscape', label: 'Browser (bookmarks.html)' },
+  { value: 'json', label: 'Backup (JSON)' },
+  { value: 'csv', label: 'Backup (CSV)' },
+  { value: 'pocket', label: 'Pocket (HTML or CSV)' },
+  { value: 'pinboard', label: 'Pinboard (JSON)' },
+  { value: 'raindrop', label: 'Raindrop.io (CSV)' },
+];
+
+// A guess from the file name; other services' exports share these extensions,
+// so the choice can be changed before importing
+const guessSource = (file: File): ImportSource => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.json')) return 'json';
+  if (name.endsWith('.csv')) return 'csv';
+  return 'netscape';
+};
+
+export const ImportExport = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState<ImportSource>('netscape');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const running = job?.status === 'running';
+
+  // Imports run on the server in the background; poll until the job ends
+  useEffect(() => {
+    if (!job || job.status !== 'running') return;
+
+    const timer = window.setTimeout(async () => {
+      try {
+        setJob(await importApi.getJob(job.id));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to check import progress');
+        setJob(null);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [job]);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    if (selected) setSource(guessSource(selected));
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      setJob(null);
+      setPreview(await importApi.preview(file, source));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      setPreview(null);
+      setJob(await importApi.start(file, source));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = async (format: LibraryFormat | 'html') => {
+    try {
+      setBusy(true);
+      setError(null);
+      const blob = format === 'html' ? await exportApi.netscape() : await exportApi.library(format);
+      saveFile(blob, `bookmarks-${today()}.${format}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Only the items that need attention are listed
+  const problems = job?.items?.filter(item => item.status === 'failed' || item.error) || preview?.conflicts || [];
+
+  return (
+    <div className="import-export-page">
+      <div className="content-header">
+        <h1>Import & Export</h1>
+      </div>
+
+      {error && <div className="error-message">Error: {error}</div>}
+
+      <section className="import-export-section">
+        <h2>Import</h2>
+        <p>
+          Import a <code>bookmarks.html</code> file exported from Chrome, Firefox, Safari or Edge (folders
+          become tags), a JSON or CSV backup made below, or an export from Pocket, Pinboard or Raindrop.io.
+          Unread items from Pocket and Pinboard are tagged <code>unread</code>. Links you have already saved
+          are skipped; preview the file to see what would be imported first.
+        </p>
+        <form className="import-form" onSubmit={handleImport}>
+          <input
+            type="file"
+            accept=".html,.htm,.json,.csv,text/html,application/json,text/csv"
+            onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+          />
+          <select value={source} onChange={(e) => setSource(e.target.value as ImportSource)}>
+            {SOURCE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button className="clear-filters-btn" type="button" onClick={handlePreview} disabled={!file || busy || running}>
+            Preview
+          </button>
+          <button className="clear-filters-btn" type="submit" disabled={!file || busy || running}>
+            {busy || running ? 'Working...' : 'Import'}
+          </button>
+        </form>
+
+        {preview && (
+          <div className="import-report">
+            <p>
+              {preview.total} bookmarks: <strong>{preview.new}</strong> would be imported,{' '}
+              <strong>{preview.duplicates}</strong> are already saved or repeated in the file,{' '}
+              <strong>{preview.failed}</strong> cannot be imported.
+            </p>
+            {problems.length > 0 && (
+              <ul className="import-problems">
+                {problems.map(item => (
+                  <li key={item.index}>
+                    <span className="import-problem-url">{item.url || `Row ${item.index + 1}`}</span> —{' '}
+                    {item.error || (item.bookmark_id ? 'Already saved' : 'Repeated in the file')}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {job && (
+          <div className="import-report">
+            {job.status === 'running' && (
+              <p>
+                Importing... {job.processed} of {job.total} bookmarks processed.
+              </p>
+            )}
+            {job.status === 'failed' && (
+              <p className="import-failed">
+                Import stopped after {job.processed} of {job.total} bookmarks: {job.error}
+              </p>
+            )}
+            {job.status === 'done' && (
+              <p>
+                {job.total} bookmarks: <strong>{job.created}</strong> imported,{' '}
+                <strong>{job.duplicates}</strong> already saved, <strong>{job.failed}</strong> failed.
+              </p>
+            )}
+            {problems.length > 0 && (
+              <ul className="import-problems">
+                {problems.map(item => (
+                  <li key={item.index}>
+                    <span className="import-problem-url">{item.url || `Row ${item.index + 1}`}</span> — {item.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </section>
+
+      <section className="import-export-section">
+        <h2>Export</h2>
+        <p>
+          Download your library as a <code>bookmarks.html</code> file that any browser can import (tags become
+          folders), or as a JSON or CSV backup with every tag, summary and date.
+        </p>
+        <div className="import-form">
+          <button className="clear-filters-btn" onClick={() => handleExport('html')} disabled={busy} type="button">
+            Export bookmarks.html
+          </button>
+          <button className="clear-filters-btn" onClick={() => handleExport('json')} disabled={busy} type="button">
+            Export JSON
+          </button>
+          <button className="clear-filters-btn" onClick={() => handleExport('csv')} disabled={busy} type="button">
+            Export CSV
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+
+type Mode = 'login' | 'register';
+
+export const Login = () => {
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setBusy(true);
+      setError(null);
+      if (mode === 'login') {
+        await login({ email, password });
+      } else {
+        await register({ email, password, name: name || undefined });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      setBusy(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    setError(null);
+  };
+
+  return (
+    <div className="auth-page">
+      <form className="auth-form" onSubmit={handleSubmit}>
+        <h2>{mode === 'login' ? 'Sign in' : 'Create an account'}</h2>
+
+        {error && <div className="error-message">{error}</div>}
+
+        {mode === 'register' && (
+          <label>
+            Name
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" />
+          </label>
+        )}
+
+        <label>
+          Email
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+          />
+        </label>
+
+        <label>
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+          />
+        </label>
+
+        <button className="auth-submit" type="submit" disabled={busy}>
+          {busy ? 'Please wait...' : mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+
+        <button className="auth-switch" type="button" onClick={switchMode}>
+          {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
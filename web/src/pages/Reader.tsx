@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { bookmarkApi } from '../api';
+import { Bookmark, BookmarkArchive } from '../types';
+
+const WORDS_PER_MINUTE = 200;
+
+// Offline copy of a bookmarked page, readable after the source is gone
+export const Reader = () => {
+  const { id } = useParams<{ id: string }>();
+  const [bookmark, setBookmark] = useState<Bookmark | null>(null);
+  const [archive, setArchive] = useState<BookmarkArchive | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [capturing, setCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchArchive = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const [bookmarkResult, archiveResult] = await Promise.all([
+        bookmarkApi.getById(id),
+        bookmarkApi.getArchive(id).catch(() => null), // No archive yet
+      ]);
+      setBookmark(bookmarkResult);
+      setArchive(archiveResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch bookmark');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchArchive();
+  }, [fetchArchive]);
+
+  const handleCapture = async () => {
+    if (!id) return;
+
+    try {
+      setCapturing(true);
+      setError(null);
+      setArchive(await bookmarkApi.captureArchive(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to archive page');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading offline copy...</div>;
+  }
+
+  return (
+    <div className="reader-page">
+      <div className="reader-toolbar">
+        <Link to="/" className="nav-link">← Back</Link>
+        <button className="clear-filters-btn" onClick={handleCapture} disabled={capturing} type="button">
+          {capturing ? 'Capturing...' : archive ? 'Capture again' : 'Save offline copy'}
+        </button>
+      </div>
+
+      {error && <div className="error-message">Error: {error}</div>}
+
+      {!archive ? (
+        <div className="empty-state">
+          <p>No offline copy of this page has been saved yet.</p>
+        </div>
+      ) : (
+        <article className="reader-article">
+          <header className="reader-header">
+            <h1>{archive.title || bookmark?.title}</h1>
+            <div className="reader-meta">
+              {archive.byline && <span>{archive.byline}</span>}
+              <a href={archive.source_url} target="_blank" rel="noopener noreferrer">
+                {new URL(archive.source_url).hostname}
+              </a>
+              <span>{Math.max(1, Math.round(archive.word_count / WORDS_PER_MINUTE))} min read</span>
+              <span>Captured {formatDistanceToNow(new Date(archive.captured_at), { addSuffix: true })}</span>
+            </div>
+          </header>
+
+          {/* Sanitized by the backend when the page was captured */}
+          <div className="reader-content" dangerouslySetInnerHTML={{ __html: archive.content_html }} />
+        </article>
+      )}
+    </div>
+  );
+};
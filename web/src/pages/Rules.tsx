@@ -0,0 +1,250 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ruleApi } from '../api';
+import { ApplyRulesResult, BookmarkRule, RuleActions, RuleConditions } from '../types';
+import { useTags } from '../hooks/useTags';
+
+const describeConditions = ({ host, path, title, summary }: RuleConditions): string =>
+  [
+    host && `host is ${host}`,
+    path && `path is ${path}`,
+    title && `title matches /${title}/`,
+    summary && `summary matches /${summary}/`,
+  ].filter(Boolean).join(' and ');
+
+const describeActions = ({ add_tags, summary_prefix, mark_read }: RuleActions): string =>
+  [
+    add_tags && `add ${add_tags.join(', ')}`,
+    summary_prefix && `prefix the summary with "${summary_prefix}"`,
+    mark_read && 'mark as read',
+  ].filter(Boolean).join(', ');
+
+// Blank fields are left out of the rule
+const optional = (value: string): string | undefined => value.trim() || undefined;
+
+export const Rules = () => {
+  const { refresh: refreshTags } = useTags();
+  const [rules, setRules] = useState<BookmarkRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [host, setHost] = useState('');
+  const [path, setPath] = useState('');
+  const [title, setTitle] = useState('');
+  const [summary, setSummary] = useState('');
+  const [tags, setTags] = useState('');
+  const [summaryPrefix, setSummaryPrefix] = useState('');
+  const [markRead, setMarkRead] = useState(false);
+  const [preview, setPreview] = useState<ApplyRulesResult | null>(null);
+  const [applied, setApplied] = useState<ApplyRulesResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRules(await ruleApi.getAll());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  // A preview is only good for the rules it was made with
+  const resetBackfill = () => {
+    setPreview(null);
+    setApplied(null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const addTags = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    try {
+      setError(null);
+      const rule = await ruleApi.create({
+        name,
+        conditions: { host: optional(host), path: optional(path), title: optional(title), summary: optional(summary) },
+        actions: {
+          add_tags: addTags.length > 0 ? addTags : undefined,
+          summary_prefix: summaryPrefix.trim() ? summaryPrefix : undefined,
+          mark_read: markRead || undefined,
+        },
+      });
+      setRules(prev => [...prev, rule]);
+      setName('');
+      setHost('');
+      setPath('');
+      setTitle('');
+      setSummary('');
+      setTags('');
+      setSummaryPrefix('');
+      setMarkRead(false);
+      resetBackfill();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create rule');
+    }
+  };
+
+  const handleToggle = async (rule: BookmarkRule) => {
+    try {
+      setError(null);
+      const updated = await ruleApi.update(rule.id, { enabled: !rule.enabled });
+      setRules(prev => prev.map(item => (item.id === rule.id ? updated : item)));
+      resetBackfill();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rule');
+    }
+  };
+
+  const handleDelete = async (rule: BookmarkRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Bookmarks it already changed stay as they are.`)) return;
+
+    try {
+      await ruleApi.delete(rule.id);
+      setRules(prev => prev.filter(item => item.id !== rule.id));
+      resetBackfill();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule');
+    }
+  };
+
+  const runBackfill = async (dryRun: boolean) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await ruleApi.apply({ dry_run: dryRun });
+      setPreview(dryRun ? result : null);
+      setApplied(dryRun ? null : result);
+      // Rules may have created tags
+      if (!dryRun) refreshTags();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply rules');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const ruleName = (ruleId: string): string => rules.find(rule => rule.id === ruleId)?.name ?? ruleId;
+
+  return (
+    <div className="rules-page">
+      <div className="content-header">
+        <h1>Rules</h1>
+      </div>
+
+      {error && <div className="error-message">Error: {error}</div>}
+
+      <section className="import-export-section">
+        <h2>New rule</h2>
+        <p>
+          Rules run on every bookmark you save. Fill in any of the conditions (all of them must match) and at
+          least one action. Host and path take <code>*</code> as a wildcard; title and summary are regular
+          expressions. Case is ignored.
+        </p>
+        <form className="token-form" onSubmit={handleCreate}>
+          <input type="text" placeholder="Name, e.g. GitHub is code" value={name} onChange={(e) => setName(e.target.value)} required />
+          <div className="rule-fields">
+            <input type="text" placeholder="Host, e.g. github.com" value={host} onChange={(e) => setHost(e.target.value)} />
+            <input type="text" placeholder="Path, e.g. /docs/*" value={path} onChange={(e) => setPath(e.target.value)} />
+            <input type="text" placeholder="Title matches, e.g. \bRFC\b" value={title} onChange={(e) => setTitle(e.target.value)} />
+            <input type="text" placeholder="Summary matches" value={summary} onChange={(e) => setSummary(e.target.value)} />
+          </div>
+          <div className="rule-fields">
+            <input type="text" placeholder="Add tags, comma-separated" value={tags} onChange={(e) => setTags(e.target.value)} />
+            <input
+              type="text"
+              placeholder="Summary prefix, e.g. [Spec] "
+              value={summaryPrefix}
+              onChange={(e) => setSummaryPrefix(e.target.value)}
+            />
+            <label className="token-scope">
+              <input type="checkbox" checked={markRead} onChange={(e) => setMarkRead(e.target.checked)} />
+              Mark as read
+            </label>
+          </div>
+          <button className="clear-filters-btn" type="submit" disabled={!name.trim()}>
+            Create rule
+          </button>
+        </form>
+      </section>
+
+      <section className="import-export-section">
+        <h2>Your rules</h2>
+        {loading ? (
+          <div className="loading">Loading rules...</div>
+        ) : rules.length === 0 ? (
+          <p>No rules yet.</p>
+        ) : (
+          <ul className="token-list">
+            {rules.map(rule => (
+              <li key={rule.id} className={`token-item ${rule.enabled ? '' : 'rule-disabled'}`}>
+                <div>
+                  <strong>{rule.name}</strong>
+                  <div className="token-meta">
+                    When {describeConditions(rule.conditions)}: {describeActions(rule.actions)}
+                  </div>
+                </div>
+                <div className="rule-controls">
+                  <button className="tag-control-btn select" onClick={() => handleToggle(rule)} type="button">
+                    {rule.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button className="clear-filters-btn" onClick={() => handleDelete(rule)} type="button">
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="import-export-section">
+        <h2>Apply to existing bookmarks</h2>
+        <p>Runs the enabled rules on the bookmarks you already have. Preview first to see what would change.</p>
+        <div className="rule-controls">
+          <button className="tag-control-btn select" onClick={() => runBackfill(true)} type="button" disabled={busy}>
+            Preview
+          </button>
+          <button
+            className="clear-filters-btn"
+            onClick={() => runBackfill(false)}
+            type="button"
+            disabled={busy || !preview || preview.changed === 0}
+          >
+            Apply {preview ? `to ${preview.changed} bookmark${preview.changed !== 1 ? 's' : ''}` : ''}
+          </button>
+        </div>
+
+        {applied && <p>Updated {applied.changed} of {applied.checked} bookmarks.</p>}
+        {preview && (
+          preview.changes.length === 0 ? (
+            <p>Checked {preview.checked} bookmarks; the rules would not change any of them.</p>
+          ) : (
+            <ul className="token-list">
+              {preview.changes.map(change => (
+                <li key={change.bookmark_id} className="token-item">
+                  <div>
+                    <strong>{change.title}</strong>
+                    <div className="token-meta">
+                      {[
+                        change.add_tags.length > 0 && `add ${change.add_tags.join(', ')}`,
+                        change.summary !== undefined && `summary becomes "${change.summary}"`,
+                        change.mark_read && 'mark as read',
+                      ].filter(Boolean).join(' · ')}
+                      {' '}(by {change.rule_ids.map(ruleName).join(', ')})
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+      </section>
+    </div>
+  );
+};
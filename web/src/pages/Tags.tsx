@@ -0,0 +1,255 @@
+import { useState, useEffect, useCallback } from 'react';
+import { tagApi } from '../api';
+import { Tag, TagAlias, TagMergeSuggestion, TagStats, UpdateTagDto } from '../types';
+import { useTags } from '../hooks/useTags';
+import { TagLabel } from '../components/TagLabel';
+
+const describe = ({ tag, direct_count }: TagStats): string =>
+  `${tag.name} (${direct_count} bookmark${direct_count !== 1 ? 's' : ''})`;
+
+interface TagEditorProps {
+  tag: Tag;
+  onSave: (tag: Tag, updates: UpdateTagDto) => Promise<void>;
+}
+
+// One row of the "All tags" list; changes are kept locally until saved
+const TagEditor = ({ tag, onSave }: TagEditorProps) => {
+  const [color, setColor] = useState(tag.color);
+  const [icon, setIcon] = useState(tag.icon || '');
+  const [description, setDescription] = useState(tag.description || '');
+  const [pinned, setPinned] = useState(tag.pinned);
+  const [sortOrder, setSortOrder] = useState(tag.sort_order);
+  const [saving, setSaving] = useState(false);
+
+  const changed = color !== tag.color
+    || icon !== (tag.icon || '')
+    || description !== (tag.description || '')
+    || pinned !== tag.pinned
+    || sortOrder !== tag.sort_order;
+
+  const handleSave = async () => {
+    setSaving(true);
+    await onSave(tag, { color, icon, description, pinned, sort_order: sortOrder });
+    setSaving(false);
+  };
+
+  return (
+    <li className="token-item tag-editor">
+      <div className="tag-editor-name" title={tag.description || undefined}>
+        <TagLabel name={tag.name} tag={{ ...tag, color, icon }} />
+      </div>
+      <div className="tag-editor-fields">
+        <input
+          type="color"
+          value={color || '#9e9e9e'}
+          onChange={(e) => setColor(e.target.value)}
+          aria-label={`Color of ${tag.name}`}
+        />
+        {color && (
+          <button className="tag-control-btn" onClick={() => setColor(null)} type="button">
+            No color
+          </button>
+        )}
+        <input
+          type="text"
+          className="tag-editor-icon"
+          value={icon}
+          onChange={(e) => setIcon(e.target.value)}
+          placeholder="Icon"
+          maxLength={16}
+          aria-label={`Icon of ${tag.name}`}
+        />
+        <input
+          type="text"
+          className="tag-editor-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description"
+          maxLength={500}
+          aria-label={`Description of ${tag.name}`}
+        />
+        <label className="tag-editor-pinned">
+          <input type="checkbox" checked={pinned} onChange={(e) => setPinned(e.target.checked)} />
+          Pinned
+        </label>
+        <input
+          type="number"
+          className="tag-editor-order"
+          value={sortOrder}
+          onChange={(e) => setSortOrder(parseInt(e.target.value, 10) || 0)}
+          title="Sort order: lower comes first"
+          aria-label={`Sort order of ${tag.name}`}
+        />
+        <button
+          className="tag-control-btn select"
+          onClick={handleSave}
+          type="button"
+          disabled={!changed || saving}
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export const Tags = () => {
+  const { tags, loading: tagsLoading, refresh: refreshTags } = useTags();
+  const [suggestions, setSuggestions] = useState<TagMergeSuggestion[]>([]);
+  const [aliases, setAliases] = useState<TagAlias[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [suggestionsResult, aliasesResult] = await Promise.all([
+        tagApi.getMergeSuggestions(),
+        tagApi.getAliases(),
+      ]);
+      setSuggestions(suggestionsResult);
+      setAliases(aliasesResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch tags');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const merge = async (sources: TagStats[], target: TagStats) => {
+    try {
+      setBusy(true);
+      setError(null);
+      // One after the other: each merge moves bookmarks onto the same target
+      for (const source of sources) {
+        await tagApi.merge(source.tag.id, target.tag.id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge tags');
+    } finally {
+      setBusy(false);
+      fetchData();
+      refreshTags();
+    }
+  };
+
+  const handleSave = async (tag: Tag, updates: UpdateTagDto) => {
+    try {
+      setError(null);
+      await tagApi.update(tag.id, updates);
+      await refreshTags();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tag');
+    }
+  };
+
+  const handleDeleteAlias = async (alias: TagAlias) => {
+    try {
+      await tagApi.deleteAlias(alias.id);
+      setAliases(prev => prev.filter(item => item.id !== alias.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete alias');
+    }
+  };
+
+  const tagName = (tagId: string): string => tags.find(tag => tag.id === tagId)?.name ?? '(deleted tag)';
+
+  return (
+    <div className="tags-page">
+      <div className="content-header">
+        <h1>Tags</h1>
+      </div>
+
+      {error && <div className="error-message">Error: {error}</div>}
+
+      <section className="import-export-section">
+        <h2>Suggested merges</h2>
+        <p>
+          These tags differ only in case, spacing, punctuation or a plural. Merging moves a tag's bookmarks to
+          the other tag and deletes it; its name keeps working as an alias.
+        </p>
+        {loading ? (
+          <div className="loading">Loading suggestions...</div>
+        ) : suggestions.length === 0 ? (
+          <p>No near-identical tags.</p>
+        ) : (
+          <ul className="token-list">
+            {suggestions.map(({ target, sources }) => (
+              <li key={target.tag.id} className="token-item">
+                <div>
+                  <strong>{describe(target)}</strong>
+                  <ul className="merge-sources">
+                    {sources.map(source => (
+                      <li key={source.tag.id}>
+                        {describe(source)}
+                        <button
+                          className="tag-control-btn select"
+                          onClick={() => merge([source], target)}
+                          type="button"
+                          disabled={busy}
+                        >
+                          Merge into {target.tag.name}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                {sources.length > 1 && (
+                  <button className="clear-filters-btn" onClick={() => merge(sources, target)} type="button" disabled={busy}>
+                    Merge all
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="import-export-section">
+        <h2>Aliases</h2>
+        {loading ? (
+          <div className="loading">Loading aliases...</div>
+        ) : aliases.length === 0 ? (
+          <p>No aliases yet. Merging a tag keeps its name here.</p>
+        ) : (
+          <ul className="token-list">
+            {aliases.map(alias => (
+              <li key={alias.id} className="token-item">
+                <div>
+                  <strong>{alias.name}</strong> → {tagName(alias.tag_id)}
+                </div>
+                <button className="clear-filters-btn" onClick={() => handleDeleteAlias(alias)} type="button">
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="import-export-section">
+        <h2>All tags</h2>
+        <p>
+          Colors and icons show on bookmarks and in the filters. Pinned tags are listed first, by sort order.
+        </p>
+        {tagsLoading ? (
+          <div className="loading">Loading tags...</div>
+        ) : tags.length === 0 ? (
+          <p>No tags yet.</p>
+        ) : (
+          <ul className="token-list">
+            {tags.map(tag => (
+              <TagEditor key={tag.id} tag={tag} onSave={handleSave} />
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from 'react';
+import { tokenApi } from '../api';
+import { CreatedToken, PersonalAccessToken, TokenScope } from '../types';
+
+const SCOPE_OPTIONS: { value: TokenScope; label: string }[] = [
+  { value: 'bookmarks:read', label: 'Read bookmarks' },
+  { value: 'bookmarks:write', label: 'Save and edit bookmarks' },
+  { value: 'tags:read', label: 'Read tags' },
+  { value: 'tags:admin', label: 'Create, rename and delete tags' },
+];
+
+const formatDate = (value: string | null, fallback: string) =>
+  value ? new Date(value).toLocaleDateString() : fallback;
+
+export const Tokens = () => {
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<TokenScope[]>(['bookmarks:read']);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [created, setCreated] = useState<CreatedToken | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setTokens(await tokenApi.getAll());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch tokens');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(item => item !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError(null);
+      const token = await tokenApi.create({
+        name,
+        scopes,
+        expires_in_days: expiresInDays ? parseInt(expiresInDays, 10) : undefined,
+      });
+      setCreated(token);
+      setTokens(prev => [token, ...prev]);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token');
+    }
+  };
+
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Anything using it will stop working.`)) return;
+
+    try {
+      await tokenApi.revoke(token.id);
+      setTokens(prev => prev.filter(item => item.id !== token.id));
+      if (created?.id === token.id) setCreated(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke token');
+    }
+  };
+
+  return (
+    <div className="tokens-page">
+      <div className="content-header">
+        <h1>API Tokens</h1>
+      </div>
+
+      {error && <div className="error-message">Error: {error}</div>}
+
+      <section className="import-export-section">
+        <h2>New token</h2>
+        <p>
+          Personal access tokens let scripts and integrations use the API as you, limited to the scopes you pick.
+          Send one as <code>Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+        <form className="token-form" onSubmit={handleCreate}>
+          <input
+            type="text"
+            placeholder="Name, e.g. Backup script"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+          />
+          <div className="token-scopes">
+            {SCOPE_OPTIONS.map(option => (
+              <label key={option.value} className="token-scope">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(option.value)}
+                  onChange={() => toggleScope(option.value)}
+                />
+                <code>{option.value}</code> {option.label}
+              </label>
+            ))}
+          </div>
+          <select value={expiresInDays} onChange={(e) => setExpiresInDays(e.target.value)}>
+            <option value="">Never expires</option>
+            <option value="30">Expires in 30 days</option>
+            <option value="90">Expires in 90 days</option>
+            <option value="365">Expires in a year</option>
+          </select>
+          <button className="clear-filters-btn" type="submit" disabled={!name.trim() || scopes.length === 0}>
+            Create token
+          </button>
+        </form>
+
+        {created && (
+          <div className="token-created">
+            <p>Copy your new token now. It will not be shown again.</p>
+            <code className="token-value">{created.token}</code>
+          </div>
+        )}
+      </section>
+
+      <section className="import-export-section">
+        <h2>Your tokens</h2>
+        {loading ? (
+          <div className="loading">Loading tokens...</div>
+        ) : tokens.length === 0 ? (
+          <p>No tokens yet.</p>
+        ) : (
+          <ul className="token-list">
+            {tokens.map(token => (
+              <li key={token.id} className="token-item">
+                <div>
+                  <strong>{token.name}</strong> <code>{token.token_prefix}…</code>
+                  <div className="token-meta">
+                    {token.scopes.join(', ')} · created {formatDate(token.created_at, '')} · expires{' '}
+                    {formatDate(token.expires_at, 'never')} · last used {formatDate(token.last_used_at, 'never')}
+                  </div>
+                </div>
+                <button className="clear-filters-btn" onClick={() => handleRevoke(token)} type="button">
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
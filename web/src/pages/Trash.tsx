@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BookmarkCard } from '../components/BookmarkCard';
+import { bookmarkApi } from '../api';
+import { Bookmark } from '../types';
+
+export const Trash = () => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await bookmarkApi.getTrash({ limit: 100 });
+      setBookmarks(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch trash');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (bookmark: Bookmark) => {
+    try {
+      await bookmarkApi.restore(bookmark.id);
+      setBookmarks(prev => prev.filter(item => item.id !== bookmark.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore bookmark');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!window.confirm('Permanently delete everything in the trash?')) return;
+
+    try {
+      await bookmarkApi.emptyTrash();
+      setBookmarks([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to empty trash');
+    }
+  };
+
+  return (
+    <div className="trash-page">
+      <div className="content-header">
+        <h1>Trash</h1>
+        {bookmarks.length > 0 && (
+          <button className="clear-filters-btn" onClick={handleEmptyTrash} type="button">
+            Empty Trash
+          </button>
+        )}
+      </div>
+
+      {error && <div className="error-message">Error: {error}</div>}
+
+      {loading ? (
+        <div className="loading">Loading trash...</div>
+      ) : bookmarks.length === 0 ? (
+        <div className="empty-state">
+          <p>The trash is empty.</p>
+        </div>
+      ) : (
+        <div className="bookmarks-list">
+          {bookmarks.map((bookmark) => (
+            <BookmarkCard key={bookmark.id} bookmark={bookmark} onRestore={handleRestore} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import { TagFilter } from '../types';
+
+// Quoted, with quotes and backslashes in the name escaped, as the backend parser reads them
+const term = (name: string) => `tag:"${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Builds a backend tag query from the chips selected in the filter panel:
+// every "all" tag is required, at least one "any" tag must match and
+// "exclude" tags must be absent.
+export const buildTagQuery = (tagFilters: TagFilter[] = [], advanced?: string): string | undefined => {
+  const clauses: string[] = [];
+
+  const all = tagFilters.filter(filter => filter.mode === 'all');
+  const any = tagFilters.filter(filter => filter.mode === 'any');
+  const exclude = tagFilters.filter(filter => filter.mode === 'exclude');
+
+  clauses.push(...all.map(filter => term(filter.name)));
+
+  if (any.length === 1) {
+    clauses.push(term(any[0].name));
+  } else if (any.length > 1) {
+    clauses.push(`(${any.map(filter => term(filter.name)).join(' OR ')})`);
+  }
+
+  clauses.push(...exclude.map(filter => `NOT ${term(filter.name)}`));
+
+  if (advanced && advanced.trim()) {
+    clauses.push(`(${advanced.trim()})`);
+  }
+
+  return clauses.length > 0 ? clauses.join(' AND ') : undefined;
+};
@@ -5,5 +5,9 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 5173,
+    fs: {
+      // @save-your-stuff/shared is linked from ../shared
+      allow: ['.', '../shared'],
+    },
   },
 });